@@ -9,8 +9,16 @@ import { UsersModule } from './modules/users/users.module';
 import { TasksModule } from './modules/tasks/tasks.module';
 import { AuthModule } from './modules/auth/auth.module';
 import { HealthModule } from './modules/health/health.module';
+import { ProjectsModule } from './modules/projects/projects.module';
+import { CommentsModule } from './modules/comments/comments.module';
+import { LabelsModule } from './modules/labels/labels.module';
+import { NotificationsModule } from './modules/notifications/notifications.module';
+import { WebhooksModule } from './modules/webhooks/webhooks.module';
+import { CalendarModule } from './modules/calendar/calendar.module';
 import { TaskProcessorModule } from './queues/task-processor/task-processor.module';
 import { ScheduledTasksModule } from './queues/scheduled-tasks/scheduled-tasks.module';
+import { WebhookDeliveryModule } from './queues/webhook-delivery/webhook-delivery.module';
+import { TaskImportModule } from './queues/task-import/task-import.module';
 import { RedisCacheService } from './common/services/redis-cache.service';
 import { HttpExceptionFilter } from './common/filters/http-exception.filter';
 import { EnhancedLoggingInterceptor } from './common/interceptors/logging.interceptor.enhanced';
@@ -19,6 +27,11 @@ import jwtConfig from './config/jwt.config';
 import databaseConfig from './config/database.config';
 import bullConfig from './config/bull.config';
 import redisConfig from './config/redis.config';
+import workflowConfig from './config/workflow.config';
+import webhooksConfig from './config/webhooks.config';
+import mailConfig from './config/mail.config';
+import remindersConfig from './config/reminders.config';
+import lockoutConfig from './config/lockout.config';
 
 /**
  * Enhanced Application Module
@@ -46,7 +59,17 @@ import redisConfig from './config/redis.config';
     // Configuration - now includes Redis config
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [jwtConfig, databaseConfig, bullConfig, redisConfig],
+      load: [
+        jwtConfig,
+        databaseConfig,
+        bullConfig,
+        redisConfig,
+        workflowConfig,
+        webhooksConfig,
+        mailConfig,
+        remindersConfig,
+        lockoutConfig,
+      ],
       envFilePath: ['.env.local', '.env'],
     }),
     
@@ -107,10 +130,18 @@ import redisConfig from './config/redis.config';
     TasksModule,
     AuthModule,
     HealthModule,
+    ProjectsModule,
+    CommentsModule,
+    LabelsModule,
+    NotificationsModule,
+    WebhooksModule,
+    CalendarModule,
     
     // Queue processing modules
     TaskProcessorModule,
     ScheduledTasksModule,
+    WebhookDeliveryModule,
+    TaskImportModule,
   ],
   providers: [
     // Global Redis cache service (replaces inefficient in-memory cache)
@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface RequestContextStore {
+  correlationId?: string;
+}
+
+/**
+ * Request Context
+ *
+ * Async-local store started by CorrelationIdMiddleware (and by queue
+ * processors for jobs), so services can read the current correlation ID
+ * without it being threaded through every method signature.
+ */
+export class RequestContext {
+  private static readonly storage = new AsyncLocalStorage<RequestContextStore>();
+
+  /**
+   * Run a callback within a context
+   *
+   * @param store - Context values
+   * @param callback - Code to run
+   * @returns Callback result
+   */
+  static run<R>(store: RequestContextStore, callback: () => R): R {
+    return this.storage.run(store, callback);
+  }
+
+  /**
+   * Correlation ID of the current request or job, if any
+   *
+   * @returns Correlation ID
+   */
+  static getCorrelationId(): string | undefined {
+    return this.storage.getStore()?.correlationId;
+  }
+}
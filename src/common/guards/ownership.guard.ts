@@ -9,6 +9,8 @@ import { Reflector } from '@nestjs/core';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Task } from '../../modules/tasks/entities/task.entity';
+import { ProjectsService } from '../../modules/projects/projects.service';
+import { ProjectRole, hasProjectRole } from '../../modules/projects/enums/project-role.enum';
 
 /**
  * Metadata key for ownership check configuration
@@ -23,6 +25,19 @@ export interface OwnershipConfig {
   paramKey: string; // Parameter name in route (e.g., 'id')
   userIdField: string; // Field name in entity that contains owner ID (e.g., 'userId')
   allowAdmin?: boolean; // Allow admin role to bypass check
+  allowAssignee?: boolean; // Allow users assigned to the resource (tasks only)
+  assigneeWritableFields?: string[]; // Body fields assignees may change (e.g. ['status'])
+  minProjectRole?: ProjectRole; // Project members with at least this role are allowed
+  optional?: boolean; // Skip the check when the route param is absent (e.g. /tasks vs /projects/:projectId/tasks)
+}
+
+/**
+ * User's relationship to a resource
+ */
+interface ResourceAccess {
+  isOwner: boolean;
+  isAssignee: boolean;
+  projectRole: ProjectRole | null;
 }
 
 /**
@@ -37,13 +52,27 @@ export interface OwnershipConfig {
  * 1. Validates resource exists
  * 2. Checks if user owns the resource
  * 3. Optionally allows admin override
- * 4. Returns proper error messages
+ * 4. Optionally allows assignees, restricted to whitelisted body fields
+ * 5. Resolves project membership for project resources and project tasks
+ * 6. Returns proper error messages
  * 
  * Usage:
  * @UseGuards(JwtAuthGuard, OwnershipGuard)
  * @CheckOwnership({ entity: 'task', paramKey: 'id', userIdField: 'userId', allowAdmin: true })
  * @Patch(':id')
  * update(@Param('id') id: string) {}
+ *
+ * Assignees (status changes only):
+ * @CheckOwnership({
+ *   entity: 'task', paramKey: 'id', userIdField: 'userId',
+ *   allowAssignee: true, assigneeWritableFields: ['status'],
+ * })
+ *
+ * Project members (role-based):
+ * @CheckOwnership({
+ *   entity: 'project', paramKey: 'projectId', userIdField: 'ownerId',
+ *   minProjectRole: ProjectRole.ADMIN,
+ * })
  */
 @Injectable()
 export class OwnershipGuard implements CanActivate {
@@ -51,6 +80,7 @@ export class OwnershipGuard implements CanActivate {
     private readonly reflector: Reflector,
     @InjectRepository(Task)
     private readonly taskRepository: Repository<Task>,
+    private readonly projectsService: ProjectsService,
     // Add more repositories as needed for other entities
   ) {}
 
@@ -83,49 +113,93 @@ export class OwnershipGuard implements CanActivate {
     const resourceId = request.params[config.paramKey];
 
     if (!resourceId) {
+      if (config.optional) {
+        return true;
+      }
       throw new ForbiddenException('Resource ID not found in request');
     }
 
     // Check ownership based on entity type
-    const isOwner = await this.checkOwnership(
+    const access = await this.checkOwnership(
       config.entity,
       resourceId,
       user.id,
       config.userIdField,
     );
 
-    if (!isOwner) {
+    if (access.isOwner) {
+      return true;
+    }
+
+    if (
+      config.minProjectRole &&
+      access.projectRole &&
+      hasProjectRole(access.projectRole, config.minProjectRole)
+    ) {
+      return true;
+    }
+
+    if (access.isAssignee && config.allowAssignee) {
+      this.checkAssigneeFields(request.body, config.assigneeWritableFields);
+      return true;
+    }
+
+    throw new ForbiddenException('You do not have permission to access this resource');
+  }
+
+  /**
+   * Ensure an assignee only touches the fields they are allowed to change
+   *
+   * @param body - Request body
+   * @param writableFields - Allowed fields (undefined = no restriction)
+   */
+  private checkAssigneeFields(body: Record<string, unknown>, writableFields?: string[]): void {
+    if (!writableFields || !body || typeof body !== 'object') {
+      return;
+    }
+
+    const forbidden = Object.keys(body).filter(key => !writableFields.includes(key));
+
+    if (forbidden.length > 0) {
       throw new ForbiddenException(
-        'You do not have permission to access this resource',
+        `Assignees may only change: ${writableFields.join(', ')}`,
       );
     }
-
-    return true;
   }
 
   /**
-   * Check if user owns the resource
+   * Resolve the user's relationship to the resource
    * 
    * @param entity - Entity type
    * @param resourceId - Resource ID
    * @param userId - User ID
    * @param userIdField - Field name containing owner ID
-   * @returns true if user owns resource
+   * @returns Ownership, assignment and project role of the user
    */
   private async checkOwnership(
     entity: string,
     resourceId: string,
     userId: string,
     userIdField: string,
-  ): Promise<boolean> {
+  ): Promise<ResourceAccess> {
     let resource: any;
+    let projectId: string | null = null;
 
     // Fetch resource based on entity type
     switch (entity) {
       case 'task':
-        resource = await this.taskRepository.findOne({
-          where: { id: resourceId },
-        });
+        resource = await this.taskRepository
+          .createQueryBuilder('task')
+          .leftJoin('task.assignees', 'assignee')
+          .addSelect('assignee.id')
+          .where('task.id = :id', { id: resourceId })
+          .getOne();
+        projectId = resource?.projectId ?? null;
+        break;
+      case 'project':
+        // Membership is the access check; the project row itself is only checked for existence
+        resource = await this.projectsService.findOne(resourceId).catch(() => null);
+        projectId = resourceId;
         break;
       // Add more cases for other entities
       default:
@@ -137,8 +211,14 @@ export class OwnershipGuard implements CanActivate {
       throw new NotFoundException(`${entity} not found`);
     }
 
-    // Check if user owns the resource
-    return resource[userIdField] === userId;
+    const assignees: { id: string }[] = resource.assignees || [];
+
+    return {
+      // Check if user owns the resource
+      isOwner: resource[userIdField] === userId,
+      isAssignee: assignees.some(assignee => assignee.id === userId),
+      projectRole: projectId ? await this.projectsService.getMemberRole(projectId, userId) : null,
+    };
   }
 }
 
@@ -4,6 +4,7 @@ import {
   ExecutionContext,
   CallHandler,
   Logger,
+  StreamableFile,
 } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { tap, catchError } from 'rxjs/operators';
@@ -78,7 +79,8 @@ export class EnhancedLoggingInterceptor implements NestInterceptor {
           statusCode,
           duration,
           userId,
-          responseSize: data ? JSON.stringify(data).length : 0,
+          // Streamed files are still being written
+          responseSize: data && !(data instanceof StreamableFile) ? JSON.stringify(data).length : 0,
         });
       }),
       catchError((error) => {
@@ -9,7 +9,10 @@ export interface PaginationParams {
   limit?: number;
   
   // Cursor-based pagination (more efficient for large datasets)
+  // Keyset mode is used when `mode` is 'cursor' or a cursor is supplied
+  // 'search' pages full-text results by relevance (offset-based)
   cursor?: string;
+  mode?: 'offset' | 'cursor' | 'search';
   
   // Sorting
   sortBy?: string;
@@ -35,6 +38,18 @@ export interface PaginatedResponse<T> {
   };
 }
 
+/**
+ * Decoded keyset cursor
+ *
+ * Holds the sort column value and ID of the boundary row, plus the
+ * direction to scan from it ('next' = after the row, 'prev' = before it)
+ */
+export interface KeysetCursor {
+  value: string | number | null;
+  id: string;
+  direction: 'next' | 'prev';
+}
+
 /**
  * Cursor Pagination Response
  * 
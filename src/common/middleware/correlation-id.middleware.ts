@@ -1,6 +1,7 @@
 import { Injectable, NestMiddleware } from '@nestjs/common';
 import { Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
+import { RequestContext } from '../context/request-context';
 
 /**
  * Correlation ID Middleware
@@ -10,6 +11,7 @@ import { v4 as uuidv4 } from 'uuid';
  * - Generates new UUID if not provided
  * - Attaches to request object for use in logging
  * - Includes in response headers for client tracking
+ * - Exposes it to services through RequestContext (e.g. activity history)
  * 
  * Benefits:
  * - End-to-end request tracing across services
@@ -33,7 +35,7 @@ export class CorrelationIdMiddleware implements NestMiddleware {
     // Add to response headers
     res.setHeader('X-Correlation-ID', correlationId);
 
-    next();
+    RequestContext.run({ correlationId }, next);
   }
 }
 
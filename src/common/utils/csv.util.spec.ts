@@ -0,0 +1,58 @@
+import { BadRequestException } from '@nestjs/common';
+import { CsvUtil } from './csv.util';
+
+describe('CsvUtil', () => {
+  describe('parse', () => {
+    it('splits records on CRLF and LF', () => {
+      expect(CsvUtil.parse('title,priority\r\nA,1\nB,2\r\n')).toEqual([
+        ['title', 'priority'],
+        ['A', '1'],
+        ['B', '2'],
+      ]);
+    });
+
+    it('keeps the last record without a trailing line break', () => {
+      expect(CsvUtil.parse('a,b\n1,2')).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+      ]);
+    });
+
+    it('reads quoted fields with commas, doubled quotes and CRLF', () => {
+      expect(CsvUtil.parse('title,notes\r\n"a, b","say ""hi""\r\nline 2"\r\n')).toEqual([
+        ['title', 'notes'],
+        ['a, b', 'say "hi"\r\nline 2'],
+      ]);
+    });
+
+    it('keeps empty cells, including a quoted empty cell', () => {
+      expect(CsvUtil.parse('a,,""\n,x,\n')).toEqual([
+        ['a', '', ''],
+        ['', 'x', ''],
+      ]);
+    });
+
+    it('treats quotes inside an unquoted cell as text', () => {
+      expect(CsvUtil.parse('5" screen,x')).toEqual([['5" screen', 'x']]);
+    });
+
+    it('skips blank lines', () => {
+      expect(CsvUtil.parse('a\r\n\r\n\nb\n\n')).toEqual([['a'], ['b']]);
+    });
+
+    it('skips a leading BOM only', () => {
+      expect(CsvUtil.parse('\uFEFFtitle\n\uFEFFx\n')).toEqual([['title'], ['\uFEFFx']]);
+    });
+
+    it('returns no records for empty input', () => {
+      expect(CsvUtil.parse('')).toEqual([]);
+      expect(CsvUtil.parse('\uFEFF')).toEqual([]);
+    });
+
+    it.each(['"open', 'a,"b\nc', 'a,"b""'])('rejects unterminated quoted field in %j', text => {
+      expect(() => CsvUtil.parse(text)).toThrow(
+        new BadRequestException('Invalid CSV: unterminated quoted field'),
+      );
+    });
+  });
+});
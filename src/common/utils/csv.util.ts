@@ -0,0 +1,75 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * CSV Utility
+ *
+ * RFC 4180 parsing for uploads:
+ * - Quoted fields may contain commas, doubled quotes and line breaks
+ * - CRLF and LF line endings; a leading UTF-8 BOM is skipped
+ * - Blank lines are ignored
+ */
+export class CsvUtil {
+  /**
+   * Parse CSV text into records
+   *
+   * @param text - CSV document
+   * @returns Records as arrays of cells (the header is the first record)
+   * @throws BadRequestException on an unterminated quoted field
+   */
+  static parse(text: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let cell = '';
+    let quoted = false;
+    let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+    const endRecord = () => {
+      record.push(cell);
+      if (record.length > 1 || record[0] !== '') {
+        records.push(record);
+      }
+      record = [];
+      cell = '';
+    };
+
+    for (; i < text.length; i++) {
+      const char = text[i];
+
+      if (quoted) {
+        if (char !== '"') {
+          cell += char;
+        } else if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+        continue;
+      }
+
+      if (char === '"' && cell === '') {
+        quoted = true;
+      } else if (char === ',') {
+        record.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        endRecord();
+      } else {
+        cell += char;
+      }
+    }
+
+    if (quoted) {
+      throw new BadRequestException('Invalid CSV: unterminated quoted field');
+    }
+
+    if (cell !== '' || record.length > 0) {
+      endRecord();
+    }
+
+    return records;
+  }
+}
@@ -0,0 +1,112 @@
+import { Readable } from 'stream';
+import { ExportFormat, ExportUtil } from './export.util';
+
+/**
+ * Serialize rows and collect the output
+ */
+const serialize = async (
+  format: ExportFormat,
+  columns: string[],
+  rows: Record<string, unknown>[],
+): Promise<string> => {
+  let output = '';
+  for await (const chunk of Readable.from(rows).pipe(ExportUtil.serializer(format, columns))) {
+    output += chunk;
+  }
+  return output;
+};
+
+describe('ExportUtil', () => {
+  describe('csv', () => {
+    it('writes a BOM, a header and CRLF-terminated rows', async () => {
+      const output = await serialize(
+        'csv',
+        ['title', 'priority', 'done', 'dueDate', 'labelIds', 'missing'],
+        [
+          {
+            title: 'Ship',
+            priority: 2,
+            done: false,
+            dueDate: new Date('2025-01-02T03:04:05.000Z'),
+            labelIds: ['a', 'b'],
+          },
+        ],
+      );
+
+      expect(output).toBe(
+        '\uFEFFtitle,priority,done,dueDate,labelIds,missing\r\n' +
+          'Ship,2,false,2025-01-02T03:04:05.000Z,a;b,\r\n',
+      );
+    });
+
+    it('writes only the header when there are no rows', async () => {
+      expect(await serialize('csv', ['id', 'title'], [])).toBe('\uFEFFid,title\r\n');
+    });
+
+    it('quotes cells with commas, quotes, line breaks or edge whitespace', async () => {
+      const output = await serialize(
+        'csv',
+        ['a', 'b', 'c', 'd'],
+        [{ a: 'x,y', b: 'say "hi"', c: 'line 1\r\nline 2', d: ' padded' }],
+      );
+
+      expect(output.split('\r\n')[1]).toBe('"x,y","say ""hi""","line 1');
+      expect(output).toContain('"line 1\r\nline 2"," padded"\r\n');
+    });
+
+    it.each([
+      ['=SUM(A1:A2)', "'=SUM(A1:A2)"],
+      ['+1', "'+1"],
+      ['-2', "'-2"],
+      ['@cmd', "'@cmd"],
+      ['\tcmd', "'\tcmd"],
+      ['\r=1', `"'\r=1"`],
+      ['=HYPERLINK("x")', `"'=HYPERLINK(""x"")"`],
+    ])('escapes formula cell %j', async (value, cell) => {
+      const output = await serialize('csv', ['title'], [{ title: value }]);
+
+      expect(output).toBe(`\uFEFFtitle\r\n${cell}\r\n`);
+    });
+
+    it('leaves numbers and inner formula characters alone', async () => {
+      const output = await serialize('csv', ['n', 'title'], [{ n: -2, title: 'a=b' }]);
+
+      expect(output).toBe('\uFEFFn,title\r\n-2,a=b\r\n');
+    });
+  });
+
+  describe('json', () => {
+    it('writes a single array of the picked columns', async () => {
+      const output = await serialize(
+        'json',
+        ['id', 'title'],
+        [
+          { id: '1', title: 'A', secret: 'x' },
+          { id: '2', title: null },
+        ],
+      );
+
+      expect(JSON.parse(output)).toEqual([
+        { id: '1', title: 'A' },
+        { id: '2', title: null },
+      ]);
+    });
+
+    it('writes an empty array when there are no rows', async () => {
+      expect(JSON.parse(await serialize('json', ['id'], []))).toEqual([]);
+    });
+  });
+
+  describe('ndjson', () => {
+    it('writes one object per line', async () => {
+      const output = await serialize('ndjson', ['id'], [{ id: '1' }, { id: '2' }]);
+
+      expect(output).toBe('{"id":"1"}\n{"id":"2"}\n');
+    });
+  });
+
+  it('maps formats to content types', () => {
+    expect(ExportUtil.contentType('csv')).toBe('text/csv; charset=utf-8');
+    expect(ExportUtil.contentType('ndjson')).toBe('application/x-ndjson; charset=utf-8');
+  });
+});
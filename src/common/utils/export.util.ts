@@ -0,0 +1,120 @@
+import { Transform } from 'stream';
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'ndjson'];
+
+/**
+ * Export Utility
+ *
+ * Serializes a stream of rows (plain objects) into a download:
+ * - csv: header row, then one line per row; arrays are joined with ';'
+ * - json: a single array, written element by element
+ * - ndjson: one JSON object per line
+ *
+ * Rows are never buffered, so exports of any size use constant memory.
+ * CSV cells that a spreadsheet would evaluate as a formula are prefixed
+ * with a single quote.
+ */
+export class ExportUtil {
+  private static readonly CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    json: 'application/json; charset=utf-8',
+    ndjson: 'application/x-ndjson; charset=utf-8',
+  };
+
+  // Leading characters spreadsheets treat as the start of a formula
+  private static readonly FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+  /**
+   * Content type of a format
+   *
+   * @param format - Export format
+   * @returns Content-Type header value
+   */
+  static contentType(format: ExportFormat): string {
+    return this.CONTENT_TYPES[format];
+  }
+
+  /**
+   * Create a serializer for a row stream
+   *
+   * @param format - Export format
+   * @param columns - Fields to export, in order (CSV header)
+   * @returns Transform taking row objects and emitting text
+   */
+  static serializer(format: ExportFormat, columns: string[]): Transform {
+    let first = true;
+
+    return new Transform({
+      writableObjectMode: true,
+      transform: (row: Record<string, unknown>, _encoding, callback) => {
+        const picked = Object.fromEntries(columns.map(column => [column, row[column] ?? null]));
+        let chunk: string;
+
+        switch (format) {
+          case 'csv':
+            // BOM so spreadsheets detect UTF-8
+            chunk =
+              (first ? `\uFEFF${this.csvLine(columns)}` : '') +
+              this.csvLine(columns.map(column => picked[column]));
+            break;
+          case 'json':
+            chunk = (first ? '[\n' : ',\n') + JSON.stringify(picked);
+            break;
+          case 'ndjson':
+            chunk = `${JSON.stringify(picked)}\n`;
+            break;
+        }
+
+        first = false;
+        callback(null, chunk);
+      },
+      flush: callback => {
+        if (format === 'csv' && first) {
+          callback(null, `\uFEFF${this.csvLine(columns)}`);
+        } else if (format === 'json') {
+          callback(null, first ? '[]\n' : '\n]\n');
+        } else {
+          callback();
+        }
+      },
+    });
+  }
+
+  /**
+   * Format one CSV line (RFC 4180, CRLF-terminated)
+   *
+   * @param values - Cell values
+   * @returns CSV line
+   */
+  private static csvLine(values: unknown[]): string {
+    return `${values.map(value => this.csvCell(value)).join(',')}\r\n`;
+  }
+
+  private static csvCell(value: unknown): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return String(value);
+    }
+
+    let text = Array.isArray(value)
+      ? value.join(';')
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+
+    if (this.FORMULA_PREFIX.test(text)) {
+      text = `'${text}`;
+    }
+
+    return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -0,0 +1,131 @@
+import { ICalItem, ICalUtil } from './ical.util';
+
+/**
+ * Split a calendar into content lines, undoing folding
+ */
+const unfold = (calendar: string): string[] => calendar.replace(/\r\n /g, '').split('\r\n');
+
+describe('ICalUtil', () => {
+  const item: ICalItem = {
+    uid: 'task-1@taskflow',
+    summary: 'Ship release',
+    due: new Date('2025-01-31T23:59:59.123Z'),
+    lastModified: new Date('2025-01-02T03:04:05.000Z'),
+  };
+
+  describe('build', () => {
+    it('wraps items in a CRLF-terminated calendar', () => {
+      const calendar = ICalUtil.build('Tasks', [item], 'VEVENT');
+
+      expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(calendar).not.toMatch(/[^\r]\n/);
+      expect(unfold(calendar)).toEqual([
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//TaskFlow//Task Calendar//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        'X-WR-CALNAME:Tasks',
+        'BEGIN:VEVENT',
+        'UID:task-1@taskflow',
+        expect.stringMatching(/^DTSTAMP:\d{8}T\d{6}Z$/),
+        'LAST-MODIFIED:20250102T030405Z',
+        'DTSTART:20250131T235959Z',
+        'SUMMARY:Ship release',
+        'END:VEVENT',
+        'END:VCALENDAR',
+        '',
+      ]);
+    });
+
+    it('uses DUE for to-dos and adds optional properties', () => {
+      const lines = unfold(
+        ICalUtil.build(
+          'Tasks',
+          [
+            {
+              ...item,
+              description: 'Notes',
+              url: 'https://app.example.com/tasks/1',
+              status: 'NEEDS-ACTION',
+              priority: 0,
+              categories: ['ops', 'q1'],
+            },
+          ],
+          'VTODO',
+        ),
+      );
+
+      expect(lines).toEqual(
+        expect.arrayContaining([
+          'BEGIN:VTODO',
+          'DUE:20250131T235959Z',
+          'DESCRIPTION:Notes',
+          'URL:https://app.example.com/tasks/1',
+          'STATUS:NEEDS-ACTION',
+          'PRIORITY:0',
+          'CATEGORIES:ops,q1',
+          'END:VTODO',
+        ]),
+      );
+      expect(lines.some(line => line.startsWith('DTSTART'))).toBe(false);
+    });
+
+    it('escapes TEXT values', () => {
+      const lines = unfold(
+        ICalUtil.build(
+          'My; tasks, all',
+          [
+            {
+              ...item,
+              summary: 'a;b,c\\d',
+              description: 'line 1\r\nline 2\nline 3',
+              categories: ['x,y', 'z;'],
+            },
+          ],
+          'VTODO',
+        ),
+      );
+
+      expect(lines).toEqual(
+        expect.arrayContaining([
+          'X-WR-CALNAME:My\\; tasks\\, all',
+          'SUMMARY:a\\;b\\,c\\\\d',
+          'DESCRIPTION:line 1\\nline 2\\nline 3',
+          'CATEGORIES:x\\,y,z\\;',
+        ]),
+      );
+    });
+
+    it('folds long lines at 75 octets', () => {
+      const summary = 'x'.repeat(200);
+      const physical = ICalUtil.build('Tasks', [{ ...item, summary }], 'VEVENT').split('\r\n');
+      const start = physical.findIndex(line => line.startsWith('SUMMARY:'));
+
+      expect(physical[start]).toHaveLength(75);
+      expect(physical[start + 1]).toMatch(/^ x{74}$/);
+      expect(physical[start + 2]).toMatch(/^ x+$/);
+      expect(physical[start + 3]).toBe('END:VEVENT');
+      expect(unfold(physical.join('\r\n'))).toContain(`SUMMARY:${summary}`);
+    });
+
+    it('folds multibyte text without splitting characters', () => {
+      const summary = 'é🎉漢'.repeat(30);
+      const calendar = ICalUtil.build('Tasks', [{ ...item, summary }], 'VEVENT');
+      const physical = calendar.split('\r\n');
+
+      for (const line of physical) {
+        expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+        expect(line).not.toContain('\uFFFD');
+      }
+
+      // A segment ends early when the next character wouldn't fit
+      const start = physical.findIndex(line => line.startsWith('SUMMARY:'));
+      expect(Buffer.byteLength(physical[start])).toBeGreaterThan(70);
+      expect(physical[start + 1].startsWith(' ')).toBe(true);
+
+      expect(Buffer.from(calendar).toString('utf8')).toBe(calendar);
+      expect(unfold(calendar)).toContain(`SUMMARY:${summary}`);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Calendar component emitted for an item
+ */
+export type ICalComponent = 'VEVENT' | 'VTODO';
+
+/**
+ * One calendar item
+ */
+export interface ICalItem {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  url?: string;
+  // DUE of a VTODO, DTSTART of a VEVENT
+  due: Date;
+  lastModified: Date;
+  // RFC 5545 STATUS value for the component (e.g. NEEDS-ACTION, CONFIRMED)
+  status?: string;
+  // 1 (highest) to 9 (lowest); 0 = undefined
+  priority?: number;
+  categories?: string[];
+}
+
+/**
+ * iCalendar Utility
+ *
+ * Builds RFC 5545 calendars for subscription feeds:
+ * - Items become VEVENTs (shown by every calendar app) or VTODOs
+ * - TEXT values are escaped and long lines folded at 75 octets
+ * - All times are UTC
+ */
+export class ICalUtil {
+  private static readonly PRODUCT_ID = '-//TaskFlow//Task Calendar//EN';
+
+  // Content lines are limited to 75 octets, excluding the line break
+  private static readonly MAX_LINE_OCTETS = 75;
+
+  /**
+   * Build a calendar
+   *
+   * @param name - Calendar name shown by clients
+   * @param items - Items
+   * @param component - Component type for every item
+   * @returns iCalendar document
+   */
+  static build(name: string, items: ICalItem[], component: ICalComponent): string {
+    const stamp = this.formatDate(new Date());
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${this.PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${this.escape(name)}`,
+      ...items.flatMap(item => this.component(item, component, stamp)),
+      'END:VCALENDAR',
+    ];
+
+    return lines.map(line => this.fold(line)).join('\r\n') + '\r\n';
+  }
+
+  private static component(item: ICalItem, component: ICalComponent, stamp: string): string[] {
+    return [
+      `BEGIN:${component}`,
+      `UID:${this.escape(item.uid)}`,
+      `DTSTAMP:${stamp}`,
+      `LAST-MODIFIED:${this.formatDate(item.lastModified)}`,
+      // An event without DTEND or DURATION ends when it starts
+      component === 'VTODO'
+        ? `DUE:${this.formatDate(item.due)}`
+        : `DTSTART:${this.formatDate(item.due)}`,
+      `SUMMARY:${this.escape(item.summary)}`,
+      ...(item.description ? [`DESCRIPTION:${this.escape(item.description)}`] : []),
+      ...(item.url ? [`URL:${item.url}`] : []),
+      ...(item.status ? [`STATUS:${item.status}`] : []),
+      ...(item.priority !== undefined ? [`PRIORITY:${item.priority}`] : []),
+      ...(item.categories && item.categories.length > 0
+        ? [`CATEGORIES:${item.categories.map(category => this.escape(category)).join(',')}`]
+        : []),
+      `END:${component}`,
+    ];
+  }
+
+  /**
+   * Format a UTC DATE-TIME (e.g. 20240131T235959Z)
+   */
+  private static formatDate(value: Date | string): string {
+    return new Date(value)
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .replace(/\.\d{3}/, '');
+  }
+
+  /**
+   * Escape a TEXT value
+   */
+  private static escape(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Fold a content line into 75-octet segments, never splitting a character
+   */
+  private static fold(line: string): string {
+    const segments: string[] = [];
+    let segment = '';
+    let octets = 0;
+
+    for (const char of line) {
+      const size = Buffer.byteLength(char);
+      // Continuation lines start with a space, which counts toward the limit
+      const limit = segments.length === 0 ? this.MAX_LINE_OCTETS : this.MAX_LINE_OCTETS - 1;
+
+      if (octets + size > limit) {
+        segments.push(segment);
+        segment = '';
+        octets = 0;
+      }
+
+      segment += char;
+      octets += size;
+    }
+
+    segments.push(segment);
+
+    return segments.join('\r\n ');
+  }
+}
@@ -1,4 +1,10 @@
-import { PaginatedResponse, PaginationParams } from '../interfaces/pagination.interface';
+import { BadRequestException } from '@nestjs/common';
+import {
+  CursorPaginatedResponse,
+  KeysetCursor,
+  PaginatedResponse,
+  PaginationParams,
+} from '../interfaces/pagination.interface';
 import { SelectQueryBuilder, ObjectLiteral } from 'typeorm';
 
 /**
@@ -6,7 +12,7 @@ import { SelectQueryBuilder, ObjectLiteral } from 'typeorm';
  * 
  * Provides helper functions for efficient database-level pagination:
  * - Offset-based pagination (traditional)
- * - Cursor-based pagination (for large datasets)
+ * - Keyset (cursor) pagination on (sort value, id) for large datasets
  * - Consistent metadata generation
  * - Query builder integration
  * 
@@ -108,6 +114,94 @@ export class PaginationUtil {
     };
   }
 
+  /**
+   * Execute keyset (cursor) paginated query and build response
+   *
+   * Pages on the composite key (sort value, id) instead of OFFSET:
+   * - Row comparison seeks straight to the boundary row (no scanning skipped rows)
+   * - Fetches limit + 1 rows to detect further pages (no COUNT query)
+   * - Stable when rows are inserted mid-scroll (pages never shift)
+   *
+   * The boundary sort value is re-read from the database by ID so timestamp
+   * precision is never lost through the cursor; the encoded value is only a
+   * fallback for when the boundary row has been deleted.
+   *
+   * @param queryBuilder - TypeORM query builder with filters applied
+   * @param params - Pagination parameters
+   * @param alias - Entity alias
+   * @param allowedSortFields - Non-nullable fields usable as the keyset sort key
+   * @param defaultSortBy - Default sort field
+   * @returns Cursor paginated response
+   */
+  static async paginateWithCursor<T extends ObjectLiteral>(
+    queryBuilder: SelectQueryBuilder<T>,
+    params: PaginationParams,
+    alias: string,
+    allowedSortFields: string[],
+    defaultSortBy = 'createdAt',
+  ): Promise<CursorPaginatedResponse<T>> {
+    const limit = Math.min(params.limit || this.DEFAULT_LIMIT, this.MAX_LIMIT);
+    const sortBy = params.sortBy || defaultSortBy;
+    const sortOrder = params.sortOrder || 'DESC';
+
+    // Whitelist keeps NULLs out of the row comparison and prevents SQL injection
+    if (!allowedSortFields.includes(sortBy)) {
+      throw new BadRequestException(
+        `Cursor pagination supports sorting by: ${allowedSortFields.join(', ')}`,
+      );
+    }
+
+    const cursor = params.cursor ? this.decodeKeysetCursor(params.cursor) : null;
+    const backwards = cursor?.direction === 'prev';
+
+    // Paging backwards scans in reverse order, results are flipped afterwards
+    const scanOrder = backwards ? (sortOrder === 'ASC' ? 'DESC' : 'ASC') : sortOrder;
+
+    if (cursor) {
+      const metadata = queryBuilder.expressionMap.mainAlias!.metadata;
+      const sortColumn = metadata.findColumnWithPropertyPath(sortBy)!.databaseName;
+      const operator = scanOrder === 'ASC' ? '>' : '<';
+
+      queryBuilder.andWhere(
+        `(${alias}.${sortBy}, ${alias}.id) ${operator} (` +
+          `COALESCE((SELECT "${sortColumn}" FROM "${metadata.tableName}" WHERE "id" = :cursorId), :cursorValue), ` +
+          `:cursorId)`,
+        { cursorId: cursor.id, cursorValue: cursor.value },
+      );
+    }
+
+    queryBuilder
+      .orderBy(`${alias}.${sortBy}`, scanOrder)
+      .addOrderBy(`${alias}.id`, scanOrder)
+      .take(limit + 1);
+
+    const rows = await queryBuilder.getMany();
+    const hasMoreInScan = rows.length > limit;
+    const data = rows.slice(0, limit);
+
+    if (backwards) {
+      data.reverse();
+    }
+
+    // Coming back from a later page guarantees a next page exists
+    const hasNext = backwards ? true : hasMoreInScan;
+    const hasPrevious = backwards ? hasMoreInScan : cursor !== null;
+
+    const first = data[0];
+    const last = data[data.length - 1];
+
+    return {
+      data,
+      meta: {
+        nextCursor: hasNext && last ? this.encodeKeysetCursor(last, sortBy, 'next') : null,
+        previousCursor:
+          hasPrevious && first ? this.encodeKeysetCursor(first, sortBy, 'prev') : null,
+        hasMore: hasNext,
+        count: data.length,
+      },
+    };
+  }
+
   /**
    * Build paginated response from data and count
    * 
@@ -172,6 +266,52 @@ export class PaginationUtil {
     }
   }
 
+  /**
+   * Encode keyset cursor from a boundary row
+   *
+   * @param row - Boundary row
+   * @param sortBy - Sort field
+   * @param direction - Direction to scan from the row
+   * @returns Encoded cursor
+   */
+  private static encodeKeysetCursor<T extends ObjectLiteral>(
+    row: T,
+    sortBy: string,
+    direction: KeysetCursor['direction'],
+  ): string {
+    const raw = row[sortBy];
+    const cursor: KeysetCursor = {
+      value: raw instanceof Date ? raw.toISOString() : (raw ?? null),
+      id: row.id,
+      direction,
+    };
+
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  /**
+   * Decode keyset cursor
+   *
+   * @param cursor - Encoded cursor
+   * @returns Decoded keyset cursor
+   */
+  static decodeKeysetCursor(cursor: string): KeysetCursor {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+
+      if (
+        typeof decoded?.id !== 'string' ||
+        (decoded.direction !== 'next' && decoded.direction !== 'prev')
+      ) {
+        throw new Error('Malformed cursor');
+      }
+
+      return decoded as KeysetCursor;
+    } catch (error) {
+      throw new BadRequestException('Invalid cursor format');
+    }
+  }
+
   /**
    * Validate and sanitize pagination parameters
    * 
@@ -188,6 +328,12 @@ export class PaginationUtil {
       sortBy: params.sortBy,
       sortOrder: params.sortOrder === 'ASC' ? 'ASC' : 'DESC',
       cursor: params.cursor,
+      mode:
+        params.mode === 'search'
+          ? 'search'
+          : params.mode === 'cursor' || params.cursor
+            ? 'cursor'
+            : 'offset',
     };
   }
 }
@@ -0,0 +1,347 @@
+import { BadRequestException } from '@nestjs/common';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+/**
+ * BYDAY entry: weekday (0 = Sunday) with optional month ordinal (1MO, -1FR)
+ */
+export interface RecurrenceWeekday {
+  day: number;
+  ordinal?: number;
+}
+
+/**
+ * Parsed recurrence rule
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: RecurrenceWeekday[];
+  count?: number;
+  until?: Date;
+}
+
+/**
+ * Next occurrence of a series
+ */
+export interface RecurrenceOccurrence {
+  date: Date;
+  // 1-based position in the series
+  index: number;
+}
+
+/**
+ * Recurrence Utility
+ *
+ * Supports the RFC 5545 RRULE subset used for recurring tasks:
+ * - FREQ (DAILY, WEEKLY, MONTHLY, YEARLY)
+ * - INTERVAL
+ * - BYDAY (ordinals such as 1MO / -1FR for MONTHLY only)
+ * - COUNT or UNTIL (not both)
+ *
+ * Occurrences are computed from the current instance's due date, which
+ * acts as DTSTART. All calculations are in UTC and keep the time of day.
+ */
+export class RecurrenceUtil {
+  private static readonly FREQUENCIES: RecurrenceFrequency[] = [
+    'DAILY',
+    'WEEKLY',
+    'MONTHLY',
+    'YEARLY',
+  ];
+  private static readonly WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+  private static readonly MAX_INTERVAL = 100;
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+  // Upper bound on occurrences skipped when catching up to a date
+  private static readonly MAX_SKIPPED_OCCURRENCES = 1000;
+
+  /**
+   * Parse and validate an RRULE string
+   *
+   * @param rule - e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE" (optional "RRULE:" prefix)
+   * @returns Parsed rule
+   * @throws BadRequestException if the rule is invalid or unsupported
+   */
+  static parse(rule: string): RecurrenceRule {
+    const parts = this.normalize(rule).split(';').filter(Boolean);
+    const values = new Map<string, string>();
+
+    for (const part of parts) {
+      const [key, value, ...rest] = part.split('=');
+
+      if (!key || !value || rest.length > 0) {
+        throw new BadRequestException(`Invalid recurrence rule part: ${part}`);
+      }
+      if (!['FREQ', 'INTERVAL', 'BYDAY', 'COUNT', 'UNTIL'].includes(key)) {
+        throw new BadRequestException(`Unsupported recurrence rule part: ${key}`);
+      }
+      if (values.has(key)) {
+        throw new BadRequestException(`Duplicate recurrence rule part: ${key}`);
+      }
+
+      values.set(key, value);
+    }
+
+    const freq = values.get('FREQ') as RecurrenceFrequency;
+    if (!this.FREQUENCIES.includes(freq)) {
+      throw new BadRequestException(
+        `Recurrence rule FREQ must be one of ${this.FREQUENCIES.join(', ')}`,
+      );
+    }
+
+    const parsed: RecurrenceRule = {
+      freq,
+      interval: values.has('INTERVAL')
+        ? this.parsePositiveInt(values.get('INTERVAL')!, 'INTERVAL')
+        : 1,
+      byDay: values.has('BYDAY') ? this.parseByDay(values.get('BYDAY')!, freq) : [],
+    };
+
+    if (parsed.interval > this.MAX_INTERVAL) {
+      throw new BadRequestException(
+        `Recurrence rule INTERVAL must be at most ${this.MAX_INTERVAL}`,
+      );
+    }
+
+    if (values.has('COUNT') && values.has('UNTIL')) {
+      throw new BadRequestException('Recurrence rule cannot have both COUNT and UNTIL');
+    }
+
+    if (values.has('COUNT')) {
+      parsed.count = this.parsePositiveInt(values.get('COUNT')!, 'COUNT');
+    }
+
+    if (values.has('UNTIL')) {
+      parsed.until = this.parseUntil(values.get('UNTIL')!);
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Canonical form of a rule string for storage
+   *
+   * @param rule - Raw rule
+   * @returns Upper-cased rule without the "RRULE:" prefix
+   */
+  static normalize(rule: string): string {
+    return rule
+      .trim()
+      .toUpperCase()
+      .replace(/^RRULE:/, '');
+  }
+
+  /**
+   * Compute the next occurrence after the current one
+   *
+   * When `notBefore` is given, occurrences earlier than it are skipped
+   * (counted towards COUNT), so a series never spawns instances that are
+   * already overdue.
+   *
+   * @param rule - Parsed rule
+   * @param current - Due date of the current instance
+   * @param currentIndex - 1-based position of the current instance
+   * @param notBefore - Earliest acceptable date (optional)
+   * @returns Next occurrence, or null when the series has ended
+   */
+  static nextOccurrence(
+    rule: RecurrenceRule,
+    current: Date,
+    currentIndex: number,
+    notBefore?: Date,
+  ): RecurrenceOccurrence | null {
+    let date = current;
+    let index = currentIndex;
+
+    for (let skipped = 0; skipped <= this.MAX_SKIPPED_OCCURRENCES; skipped++) {
+      if (rule.count !== undefined && index >= rule.count) {
+        return null;
+      }
+
+      const next = this.nextMatch(rule, date);
+      if (!next || (rule.until && next > rule.until)) {
+        return null;
+      }
+
+      date = next;
+      index++;
+
+      if (!notBefore || date >= notBefore) {
+        return { date, index };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the first date after `from` matching the rule
+   *
+   * @param rule - Parsed rule
+   * @param from - Start (exclusive), also the rule's anchor
+   * @returns Matching date, or null if none within the scan window
+   */
+  private static nextMatch(rule: RecurrenceRule, from: Date): Date | null {
+    // Long enough for e.g. every 4th year on Feb 29
+    const maxDays = 366 * 8 * rule.interval;
+
+    for (let offset = 1; offset <= maxDays; offset++) {
+      const candidate = new Date(from.getTime() + offset * this.DAY_MS);
+
+      if (this.matches(rule, from, candidate)) {
+        return candidate;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check whether a date is an occurrence of a rule anchored at `anchor`
+   *
+   * @param rule - Parsed rule
+   * @param anchor - Series anchor (DTSTART)
+   * @param date - Candidate date
+   * @returns true if the date is an occurrence
+   */
+  private static matches(rule: RecurrenceRule, anchor: Date, date: Date): boolean {
+    const weekday = date.getUTCDay();
+    const byDayMatches = rule.byDay.some(
+      entry =>
+        entry.day === weekday && (!entry.ordinal || this.matchesOrdinal(date, entry.ordinal)),
+    );
+
+    switch (rule.freq) {
+      case 'DAILY':
+        return (
+          (this.dayNumber(date) - this.dayNumber(anchor)) % rule.interval === 0 &&
+          (rule.byDay.length === 0 || byDayMatches)
+        );
+      case 'WEEKLY':
+        return (
+          (this.weekNumber(date) - this.weekNumber(anchor)) % rule.interval === 0 &&
+          (rule.byDay.length === 0 ? weekday === anchor.getUTCDay() : byDayMatches)
+        );
+      case 'MONTHLY': {
+        const months =
+          (date.getUTCFullYear() - anchor.getUTCFullYear()) * 12 +
+          (date.getUTCMonth() - anchor.getUTCMonth());
+        return (
+          months % rule.interval === 0 &&
+          (rule.byDay.length === 0 ? date.getUTCDate() === anchor.getUTCDate() : byDayMatches)
+        );
+      }
+      case 'YEARLY':
+        return (
+          (date.getUTCFullYear() - anchor.getUTCFullYear()) % rule.interval === 0 &&
+          date.getUTCMonth() === anchor.getUTCMonth() &&
+          date.getUTCDate() === anchor.getUTCDate()
+        );
+    }
+  }
+
+  /**
+   * Check a month ordinal: 1 = first weekday of its kind, -1 = last
+   *
+   * @param date - Date
+   * @param ordinal - Ordinal
+   * @returns true if the date is that occurrence within its month
+   */
+  private static matchesOrdinal(date: Date, ordinal: number): boolean {
+    if (ordinal > 0) {
+      return Math.ceil(date.getUTCDate() / 7) === ordinal;
+    }
+
+    const daysInMonth = new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0),
+    ).getUTCDate();
+    return Math.floor((daysInMonth - date.getUTCDate()) / 7) + 1 === -ordinal;
+  }
+
+  /**
+   * Days since the Unix epoch (UTC)
+   */
+  private static dayNumber(date: Date): number {
+    return Math.floor(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) / this.DAY_MS,
+    );
+  }
+
+  /**
+   * Weeks since the epoch, with weeks starting on Monday (RFC 5545 default WKST)
+   */
+  private static weekNumber(date: Date): number {
+    // 1970-01-01 was a Thursday; shift so weeks break on Monday
+    return Math.floor((this.dayNumber(date) + 3) / 7);
+  }
+
+  /**
+   * Parse BYDAY (e.g. "MO,WE" or "1MO,-1FR")
+   *
+   * @param value - Raw value
+   * @param freq - Rule frequency
+   * @returns Weekday entries
+   */
+  private static parseByDay(value: string, freq: RecurrenceFrequency): RecurrenceWeekday[] {
+    if (freq === 'YEARLY') {
+      throw new BadRequestException('Recurrence rule BYDAY is not supported with FREQ=YEARLY');
+    }
+
+    return value.split(',').map(token => {
+      const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(token);
+
+      if (!match) {
+        throw new BadRequestException(`Invalid recurrence rule BYDAY value: ${token}`);
+      }
+
+      const ordinal = match[1] ? parseInt(match[1], 10) : undefined;
+
+      if (ordinal !== undefined) {
+        if (freq !== 'MONTHLY') {
+          throw new BadRequestException('Recurrence rule BYDAY ordinals require FREQ=MONTHLY');
+        }
+        if (ordinal === 0 || Math.abs(ordinal) > 5) {
+          throw new BadRequestException(`Invalid recurrence rule BYDAY ordinal: ${token}`);
+        }
+      }
+
+      return { day: this.WEEKDAYS.indexOf(match[2]), ordinal };
+    });
+  }
+
+  /**
+   * Parse UNTIL as a date (YYYYMMDD, inclusive) or UTC date-time (YYYYMMDDTHHMMSSZ)
+   *
+   * @param value - Raw value
+   * @returns Until date
+   */
+  private static parseUntil(value: string): Date {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+
+    if (!match) {
+      throw new BadRequestException(`Invalid recurrence rule UNTIL value: ${value}`);
+    }
+
+    const [, year, month, day, hours, minutes, seconds] = match;
+    const until = hours
+      ? Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds)
+      : Date.UTC(+year, +month - 1, +day, 23, 59, 59, 999);
+
+    return new Date(until);
+  }
+
+  /**
+   * Parse a positive integer rule part
+   *
+   * @param value - Raw value
+   * @param name - Part name for error messages
+   * @returns Parsed integer
+   */
+  private static parsePositiveInt(value: string, name: string): number {
+    if (!/^\d+$/.test(value) || parseInt(value, 10) < 1) {
+      throw new BadRequestException(`Recurrence rule ${name} must be a positive integer`);
+    }
+
+    return parseInt(value, 10);
+  }
+}
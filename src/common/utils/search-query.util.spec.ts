@@ -0,0 +1,74 @@
+import { BadRequestException } from '@nestjs/common';
+import { SearchQueryUtil } from './search-query.util';
+
+describe('SearchQueryUtil', () => {
+  describe('parse', () => {
+    it('requires every plain word', () => {
+      expect(SearchQueryUtil.parse('deploy api')).toEqual({
+        expression:
+          "(plainto_tsquery('english', :search0) && plainto_tsquery('english', :search1))",
+        params: { search0: 'deploy', search1: 'api' },
+      });
+    });
+
+    it('matches quoted phrases in order', () => {
+      expect(SearchQueryUtil.parse('"release notes" draft')).toEqual({
+        expression:
+          "(phraseto_tsquery('english', :search0) && plainto_tsquery('english', :search1))",
+        params: { search0: 'release notes', search1: 'draft' },
+      });
+    });
+
+    it('turns a trailing * into a prefix match with only letters and digits', () => {
+      expect(SearchQueryUtil.parse('dep*')).toEqual({
+        expression: "(to_tsquery('english', :search0))",
+        params: { search0: 'dep:*' },
+      });
+      expect(SearchQueryUtil.parse("a'b|c&!ü*").params).toEqual({ search0: 'abcü:*' });
+    });
+
+    it('skips prefixes and phrases with nothing searchable', () => {
+      expect(SearchQueryUtil.parse('"  " !!* api').params).toEqual({ search0: 'api' });
+    });
+
+    it('excludes negated words and phrases after the included terms', () => {
+      expect(SearchQueryUtil.parse('-bug api -"wont fix"')).toEqual({
+        expression:
+          "(plainto_tsquery('english', :search1) && !!plainto_tsquery('english', :search0) && " +
+          "!!phraseto_tsquery('english', :search2))",
+        params: { search0: 'bug', search1: 'api', search2: 'wont fix' },
+      });
+    });
+
+    it('passes tsquery operators through as bound parameters', () => {
+      const { expression, params } = SearchQueryUtil.parse("x' | y:b & !z");
+
+      expect(expression).not.toContain("x'");
+      expect(Object.values(params)).toEqual(["x'", '|', 'y:b', '&', '!z']);
+    });
+
+    it('prefixes parameter names', () => {
+      expect(SearchQueryUtil.parse('api', 'q').params).toEqual({ q0: 'api' });
+    });
+
+    it('allows up to 20 terms', () => {
+      const words = Array.from({ length: 20 }, (_, i) => `w${i}`);
+
+      expect(Object.keys(SearchQueryUtil.parse(words.join(' ')).params)).toHaveLength(20);
+      expect(() => SearchQueryUtil.parse([...words, 'extra'].join(' '))).toThrow(
+        new BadRequestException('Search supports at most 20 terms'),
+      );
+    });
+
+    it('rejects input with only excluded terms', () => {
+      expect(() => SearchQueryUtil.parse('-bug -"wont fix"')).toThrow(
+        new BadRequestException('Search needs at least one term that is not excluded'),
+      );
+    });
+
+    it('rejects input with nothing searchable', () => {
+      expect(() => SearchQueryUtil.parse('   ')).toThrow(BadRequestException);
+      expect(() => SearchQueryUtil.parse('"" *')).toThrow(BadRequestException);
+    });
+  });
+});
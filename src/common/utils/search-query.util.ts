@@ -0,0 +1,98 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * tsquery SQL expression with its named parameters
+ */
+export interface SearchQuery {
+  expression: string;
+  params: Record<string, string>;
+}
+
+/**
+ * Search Query Utility
+ *
+ * Turns user search input into a Postgres tsquery expression:
+ * - words: all must match (stemmed), e.g. `deploy api`
+ * - "quoted phrases": words must appear in order
+ * - prefix*: matches any word starting with the prefix
+ * - -term / -"phrase": excluded
+ *
+ * Each term becomes its own bound parameter passed through plainto_tsquery,
+ * phraseto_tsquery or to_tsquery, so user input never reaches tsquery syntax
+ * unescaped.
+ */
+export class SearchQueryUtil {
+  // Text search configuration used by the tasks.search_vector column
+  static readonly CONFIG = 'english';
+
+  private static readonly MAX_TERMS = 20;
+  private static readonly TOKEN_PATTERN = /(-?)"([^"]*)"|(-?)(\S+)/g;
+
+  /**
+   * Build a tsquery expression from search input
+   *
+   * @param input - Raw search input
+   * @param paramPrefix - Prefix for parameter names (keeps them unique per query)
+   * @returns tsquery expression and parameters
+   * @throws BadRequestException if nothing searchable remains
+   */
+  static parse(input: string, paramPrefix = 'search'): SearchQuery {
+    const included: string[] = [];
+    const excluded: string[] = [];
+    const params: Record<string, string> = {};
+
+    for (const match of input.matchAll(this.TOKEN_PATTERN)) {
+      const isPhrase = match[2] !== undefined;
+      const negated = (isPhrase ? match[1] : match[3]) === '-';
+      const term = this.toTsQuery(isPhrase ? match[2] : match[4], isPhrase);
+
+      if (!term) {
+        continue;
+      }
+
+      if (included.length + excluded.length >= this.MAX_TERMS) {
+        throw new BadRequestException(`Search supports at most ${this.MAX_TERMS} terms`);
+      }
+
+      const name = `${paramPrefix}${Object.keys(params).length}`;
+      params[name] = term.value;
+      const expression = `${term.fn}('${this.CONFIG}', :${name})`;
+
+      if (negated) {
+        excluded.push(`!!${expression}`);
+      } else {
+        included.push(expression);
+      }
+    }
+
+    // A purely negative query would scan every row instead of using the index
+    if (included.length === 0) {
+      throw new BadRequestException('Search needs at least one term that is not excluded');
+    }
+
+    return { expression: `(${[...included, ...excluded].join(' && ')})`, params };
+  }
+
+  /**
+   * Map one term to a tsquery constructor and its argument
+   *
+   * @param raw - Term without the leading '-'
+   * @param isPhrase - Whether the term was quoted
+   * @returns Function name and value, or null if nothing searchable remains
+   */
+  private static toTsQuery(raw: string, isPhrase: boolean): { fn: string; value: string } | null {
+    if (isPhrase) {
+      const phrase = raw.trim();
+      return phrase ? { fn: 'phraseto_tsquery', value: phrase } : null;
+    }
+
+    if (raw.length > 1 && raw.endsWith('*')) {
+      // Only letters and digits survive, so the value is a valid single-lexeme tsquery
+      const prefix = raw.slice(0, -1).replace(/[^\p{L}\p{N}]/gu, '');
+      return prefix ? { fn: 'to_tsquery', value: `${prefix}:*` } : null;
+    }
+
+    const word = raw.replace(/\*+$/, '').trim();
+    return word ? { fn: 'plainto_tsquery', value: word } : null;
+  }
+}
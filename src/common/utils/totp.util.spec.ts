@@ -0,0 +1,74 @@
+import * as crypto from 'crypto';
+import { TotpUtil } from './totp.util';
+
+describe('TotpUtil', () => {
+  // RFC 6238 appendix B: SHA1 key "12345678901234567890" in Base32
+  const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  describe('verify', () => {
+    // RFC 6238 SHA1 test vectors, truncated to 6 digits (the low-order digits)
+    it.each([
+      [59, '94287082', 1],
+      [1111111109, '07081804', 37037036],
+      [1111111111, '14050471', 37037037],
+      [1234567890, '89005924', 41152263],
+      [2000000000, '69279037', 66666666],
+      [20000000000, '65353130', 666666666],
+    ])('matches the RFC 6238 vector at T=%i', (seconds, code, step) => {
+      expect(TotpUtil.verify(rfcSecret, code.slice(-6), seconds * 1000)).toBe(step);
+    });
+
+    it('accepts one step of drift either way', () => {
+      const now = 1111111111 * 1000;
+
+      expect(TotpUtil.verify(rfcSecret, '050471', now - 30_000)).toBe(37037037);
+      expect(TotpUtil.verify(rfcSecret, '050471', now + 30_000)).toBe(37037037);
+      expect(TotpUtil.verify(rfcSecret, '050471', now + 60_000)).toBeNull();
+    });
+
+    it.each(['', '28708', '2870820', '28708a', ' 287082'])('rejects malformed code %j', code => {
+      expect(TotpUtil.verify(rfcSecret, code, 59 * 1000)).toBeNull();
+    });
+
+    it('accepts lowercase and padded secrets', () => {
+      expect(TotpUtil.verify(rfcSecret.toLowerCase(), '287082', 59 * 1000)).toBe(1);
+      expect(TotpUtil.verify(`${rfcSecret}====`, '287082', 59 * 1000)).toBe(1);
+    });
+
+    it('rejects secrets outside the Base32 alphabet', () => {
+      expect(() => TotpUtil.verify('GEZDGNBV1', '287082')).toThrow('Invalid Base32 secret');
+    });
+  });
+
+  describe('generateSecret', () => {
+    it('encodes 20 random bytes as unpadded Base32', () => {
+      const secret = TotpUtil.generateSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(TotpUtil.generateSecret()).not.toBe(secret);
+    });
+
+    it('round-trips through Base32', () => {
+      const key = crypto.randomBytes(20);
+
+      expect(TotpUtil['base32Encode'](Buffer.from('12345678901234567890'))).toBe(rfcSecret);
+      expect(TotpUtil['base32Decode'](TotpUtil['base32Encode'](key))).toEqual(key);
+    });
+  });
+
+  describe('keyUri', () => {
+    it('builds an otpauth URI with the issuer and account', () => {
+      const uri = TotpUtil.keyUri(rfcSecret, 'ada@example.com', 'Task Flow');
+      const [label, query] = uri.split('?');
+
+      expect(label).toBe('otpauth://totp/Task%20Flow:ada%40example.com');
+      expect(Object.fromEntries(new URLSearchParams(query))).toEqual({
+        secret: rfcSecret,
+        issuer: 'Task Flow',
+        algorithm: 'SHA1',
+        digits: '6',
+        period: '30',
+      });
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Webhook Signature Utility
+ *
+ * Signs outgoing webhook payloads with HMAC-SHA256:
+ * - Signed content is `${timestamp}.${body}` (timestamp in Unix seconds)
+ * - Sent as `X-Webhook-Signature: sha256=<hex digest>` alongside
+ *   `X-Webhook-Timestamp`, so receivers can reject replayed requests
+ */
+export class WebhookSignatureUtil {
+  /**
+   * Generate a new signing secret
+   *
+   * @returns Secret (shown to the subscriber once)
+   */
+  static generateSecret(): string {
+    return `whsec_${randomBytes(32).toString('hex')}`;
+  }
+
+  /**
+   * Sign a payload
+   *
+   * @param secret - Subscription secret
+   * @param timestamp - Unix seconds
+   * @param body - Raw request body
+   * @returns Signature header value
+   */
+  static sign(secret: string, timestamp: string, body: string): string {
+    const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `sha256=${digest}`;
+  }
+
+  /**
+   * Verify a signature in constant time (for receivers and local stand-ins)
+   *
+   * @param secret - Subscription secret
+   * @param timestamp - X-Webhook-Timestamp value
+   * @param body - Raw request body
+   * @param signature - X-Webhook-Signature value
+   * @returns true if the signature matches
+   */
+  static verify(secret: string, timestamp: string, body: string, signature: string): boolean {
+    const expected = Buffer.from(this.sign(secret, timestamp, body));
+    const actual = Buffer.from(signature);
+
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+}
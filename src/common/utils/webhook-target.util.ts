@@ -0,0 +1,122 @@
+import { BlockList, isIP } from 'net';
+import { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+
+/**
+ * Thrown when a webhook URL resolves to an address deliveries must not reach
+ */
+export class WebhookTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookTargetError';
+  }
+}
+
+/**
+ * Webhook Target Utility
+ *
+ * Guards webhook deliveries against server-side request forgery. A
+ * subscription URL may only resolve to public addresses; these are rejected:
+ * - Loopback, unspecified and "this network" addresses
+ * - Private networks (RFC 1918, IPv6 unique local) and carrier-grade NAT
+ * - Link-local addresses, including cloud metadata (169.254.169.254)
+ * - Multicast, benchmarking, documentation and reserved ranges
+ * - IPv4-mapped and NAT64 IPv6 addresses, which can reach any of the above
+ *
+ * Hosts on the allowlist (WEBHOOK_ALLOWED_HOSTS) skip the check so internal
+ * tools can subscribe. The caller connects to the returned addresses, so a
+ * DNS answer can't change between the check and the request.
+ */
+export class WebhookTargetUtil {
+  private static readonly blockedRanges = WebhookTargetUtil.createBlockList();
+
+  /**
+   * Resolve a webhook host to the addresses a delivery may connect to
+   *
+   * @param hostname - URL hostname (IPv6 literals may keep their brackets)
+   * @param allowedHosts - Hosts exempt from the check
+   * @returns Resolved addresses
+   * @throws WebhookTargetError if any address is not public and the host isn't allowed
+   * @throws Error if the host doesn't resolve
+   */
+  static async resolve(hostname: string, allowedHosts: string[] = []): Promise<LookupAddress[]> {
+    const host = hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+    const addresses = await lookup(host, { all: true, verbatim: true });
+
+    if (this.isAllowedHost(host, allowedHosts)) {
+      return addresses;
+    }
+
+    // All addresses must be public: the connection may use any of them
+    const blocked = addresses.find(({ address }) => this.isBlockedAddress(address));
+    if (blocked) {
+      throw new WebhookTargetError(`Webhook host ${host} resolves to a blocked address`);
+    }
+
+    return addresses;
+  }
+
+  /**
+   * Check whether an IP address is outside the public internet
+   *
+   * @param address - IPv4 or IPv6 address
+   * @returns true if deliveries must not reach it; also for invalid input
+   */
+  static isBlockedAddress(address: string): boolean {
+    const family = isIP(address);
+
+    if (family === 0) {
+      return true;
+    }
+
+    // IPv4-mapped (::ffff:a.b.c.d); a block rule for the whole range would
+    // also match plain IPv4 addresses, which BlockList checks in mapped form
+    if (family === 6 && /^::ffff:[^:]+(:[^:]+)?$/i.test(address)) {
+      return true;
+    }
+
+    return this.blockedRanges.check(address, family === 4 ? 'ipv4' : 'ipv6');
+  }
+
+  private static isAllowedHost(host: string, allowedHosts: string[]): boolean {
+    return allowedHosts.some(allowed => allowed.toLowerCase() === host);
+  }
+
+  private static createBlockList(): BlockList {
+    const blockList = new BlockList();
+
+    const ipv4: [string, number][] = [
+      ['0.0.0.0', 8], // "This network"
+      ['10.0.0.0', 8], // Private
+      ['100.64.0.0', 10], // Carrier-grade NAT
+      ['127.0.0.0', 8], // Loopback
+      ['169.254.0.0', 16], // Link-local, cloud metadata
+      ['172.16.0.0', 12], // Private
+      ['192.0.0.0', 24], // IETF protocol assignments
+      ['192.0.2.0', 24], // Documentation
+      ['192.88.99.0', 24], // 6to4 relay
+      ['192.168.0.0', 16], // Private
+      ['198.18.0.0', 15], // Benchmarking
+      ['198.51.100.0', 24], // Documentation
+      ['203.0.113.0', 24], // Documentation
+      ['224.0.0.0', 4], // Multicast
+      ['240.0.0.0', 4], // Reserved, broadcast
+    ];
+    const ipv6: [string, number][] = [
+      ['::', 127], // Unspecified and loopback
+      ['64:ff9b::', 96], // NAT64
+      ['64:ff9b:1::', 48], // Local-use NAT64
+      ['100::', 64], // Discard
+      ['2001:db8::', 32], // Documentation
+      ['2002::', 16], // 6to4
+      ['fc00::', 7], // Unique local, including fd00:ec2::254 (metadata)
+      ['fe80::', 10], // Link-local
+      ['ff00::', 8], // Multicast
+    ];
+
+    ipv4.forEach(([network, prefix]) => blockList.addSubnet(network, prefix, 'ipv4'));
+    ipv6.forEach(([network, prefix]) => blockList.addSubnet(network, prefix, 'ipv6'));
+
+    return blockList;
+  }
+}
@@ -1,6 +1,28 @@
 import { registerAs } from '@nestjs/config';
 
+/**
+ * Parse TRUST_PROXY into Express's `trust proxy` setting
+ *
+ * Client IPs (login protection, logs) come from X-Forwarded-For only for
+ * trusted proxies; otherwise the header is ignored, as any client can set it.
+ *
+ * @param value - true/false, a number of proxy hops, or comma-separated addresses/subnets
+ * @returns Express `trust proxy` value (false by default)
+ */
+function parseTrustProxy(value?: string): boolean | number | string {
+  if (!value || value === 'false') {
+    return false;
+  }
+
+  if (value === 'true') {
+    return true;
+  }
+
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+}
+
 export default registerAs('app', () => ({
   port: parseInt(process.env.PORT || '3000', 10),
   environment: process.env.NODE_ENV || 'development',
-})); 
\ No newline at end of file
+  trustProxy: parseTrustProxy(process.env.TRUST_PROXY?.trim()),
+}));
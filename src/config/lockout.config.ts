@@ -0,0 +1,23 @@
+import { registerAs } from '@nestjs/config';
+
+/**
+ * Login protection settings
+ *
+ * Accounts are locked after LOCKOUT_MAX_FAILURES failed logins within
+ * LOCKOUT_WINDOW_SECONDS. Each further lockout within a day lasts longer,
+ * following LOCKOUT_DURATIONS_MINUTES (the last value repeats).
+ *
+ * An IP failing logins for more than LOCKOUT_IP_MAX_ACCOUNTS different
+ * accounts within LOCKOUT_WINDOW_SECONDS is blocked from logging in for
+ * LOCKOUT_IP_BLOCK_SECONDS (credential stuffing).
+ */
+export default registerAs('lockout', () => ({
+  maxFailures: parseInt(process.env.LOCKOUT_MAX_FAILURES || '5', 10),
+  windowSeconds: parseInt(process.env.LOCKOUT_WINDOW_SECONDS || '900', 10),
+  durationsMinutes: (process.env.LOCKOUT_DURATIONS_MINUTES || '5,15,60,1440')
+    .split(',')
+    .map(minutes => parseInt(minutes.trim(), 10))
+    .filter(minutes => minutes > 0),
+  ipMaxAccounts: parseInt(process.env.LOCKOUT_IP_MAX_ACCOUNTS || '10', 10),
+  ipBlockSeconds: parseInt(process.env.LOCKOUT_IP_BLOCK_SECONDS || '3600', 10),
+}));
@@ -0,0 +1,25 @@
+import { registerAs } from '@nestjs/config';
+
+/**
+ * Outgoing email settings
+ *
+ * MAIL_TRANSPORT selects how messages leave the API:
+ * - smtp: delivered through the SMTP server below
+ * - file: written as .eml files to MAIL_FILE_DIR (local and test environments)
+ * - console: logged (default, nothing is sent)
+ */
+export default registerAs('mail', () => ({
+  transport: process.env.MAIL_TRANSPORT || 'console',
+  from: process.env.MAIL_FROM || 'TaskFlow <no-reply@taskflow.local>',
+  // Base URL for links in emails
+  appUrl: process.env.APP_URL || 'http://localhost:3000',
+  fileDir: process.env.MAIL_FILE_DIR || './tmp/mail',
+  smtp: {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    // true for implicit TLS (port 465); otherwise STARTTLS is used when offered
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+  },
+}));
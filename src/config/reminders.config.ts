@@ -0,0 +1,14 @@
+import { registerAs } from '@nestjs/config';
+
+/**
+ * Due-date reminder settings
+ *
+ * Offsets are durations before the due date at which a reminder is sent,
+ * written as a number and a unit (m, h or d), e.g. "1d,2h".
+ */
+export default registerAs('reminders', () => ({
+  offsets: (process.env.TASK_REMINDER_OFFSETS || '1d,2h')
+    .split(',')
+    .map(offset => offset.trim())
+    .filter(Boolean),
+}));
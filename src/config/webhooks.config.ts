@@ -0,0 +1,20 @@
+import { registerAs } from '@nestjs/config';
+
+/**
+ * Outgoing webhook delivery settings
+ *
+ * Failed deliveries are retried with exponential backoff:
+ * retryDelayMs, 2 x retryDelayMs, 4 x retryDelayMs, ... up to maxAttempts.
+ *
+ * Deliveries only go to public addresses. Hosts in WEBHOOK_ALLOWED_HOSTS
+ * (comma-separated hostnames or IPs) are exempt, for internal tools.
+ */
+export default registerAs('webhooks', () => ({
+  timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+  maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10),
+  retryDelayMs: parseInt(process.env.WEBHOOK_RETRY_DELAY_MS || '10000', 10),
+  allowedHosts: (process.env.WEBHOOK_ALLOWED_HOSTS || '')
+    .split(',')
+    .map(host => host.trim())
+    .filter(Boolean),
+}));
@@ -0,0 +1,61 @@
+import { registerAs } from '@nestjs/config';
+import { TaskStatus } from '../modules/tasks/enums/task-status.enum';
+
+/**
+ * Default task status workflow: status -> statuses it may move to
+ *
+ * Override with TASK_WORKFLOW_TRANSITIONS, a JSON object of the same shape.
+ */
+const DEFAULT_TRANSITIONS: Record<string, string[]> = {
+  PENDING: ['IN_PROGRESS', 'BLOCKED', 'COMPLETED', 'CANCELLED'],
+  IN_PROGRESS: ['PENDING', 'BLOCKED', 'IN_REVIEW', 'COMPLETED', 'CANCELLED'],
+  BLOCKED: ['PENDING', 'IN_PROGRESS', 'CANCELLED'],
+  IN_REVIEW: ['IN_PROGRESS', 'COMPLETED', 'CANCELLED'],
+  COMPLETED: ['IN_PROGRESS'],
+  CANCELLED: ['PENDING'],
+};
+
+/**
+ * Parse TASK_WORKFLOW_TRANSITIONS
+ *
+ * @param value - JSON object of status -> target statuses
+ * @returns Transitions
+ * @throws Error naming the variable if the value is malformed
+ */
+function parseTransitions(value: string): Record<string, string[]> {
+  let transitions: unknown;
+  try {
+    transitions = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`TASK_WORKFLOW_TRANSITIONS is not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (!transitions || typeof transitions !== 'object' || Array.isArray(transitions)) {
+    throw new Error('TASK_WORKFLOW_TRANSITIONS must be a JSON object of status -> statuses');
+  }
+
+  const statuses = new Set<string>(Object.values(TaskStatus));
+
+  for (const [from, targets] of Object.entries(transitions)) {
+    if (!Array.isArray(targets)) {
+      throw new Error(`TASK_WORKFLOW_TRANSITIONS: targets of ${from} must be an array`);
+    }
+
+    for (const status of [from, ...targets]) {
+      if (typeof status !== 'string' || !statuses.has(status)) {
+        throw new Error(
+          `TASK_WORKFLOW_TRANSITIONS: unknown task status ${JSON.stringify(status)}. ` +
+            `Valid: ${[...statuses].join(', ')}`,
+        );
+      }
+    }
+  }
+
+  return transitions as Record<string, string[]>;
+}
+
+export default registerAs('workflow', () => ({
+  transitions: process.env.TASK_WORKFLOW_TRANSITIONS
+    ? parseTransitions(process.env.TASK_WORKFLOW_TRANSITIONS)
+    : DEFAULT_TRANSITIONS,
+}));
@@ -1,6 +1,25 @@
 import { DataSource, DataSourceOptions } from 'typeorm';
 import * as dotenv from 'dotenv';
 import { CreateInitialSchema1710752400000 } from './migrations/1710752400000-CreateInitialSchema';
+import { AddPerformanceIndexes1734000000000 } from './migrations/1734000000000-AddPerformanceIndexes';
+import { AddTaskAssignees1734100000000 } from './migrations/1734100000000-AddTaskAssignees';
+import { AddProjects1734200000000 } from './migrations/1734200000000-AddProjects';
+import { AddTaskComments1734300000000 } from './migrations/1734300000000-AddTaskComments';
+import { AddTaskActivities1734400000000 } from './migrations/1734400000000-AddTaskActivities';
+import { AddTaskRecurrence1734500000000 } from './migrations/1734500000000-AddTaskRecurrence';
+import { AddTaskHierarchy1734600000000 } from './migrations/1734600000000-AddTaskHierarchy';
+import { AddLabels1734700000000 } from './migrations/1734700000000-AddLabels';
+import { AddTaskSearchVector1734800000000 } from './migrations/1734800000000-AddTaskSearchVector';
+import { AddTaskOverdueNotification1734900000000 } from './migrations/1734900000000-AddTaskOverdueNotification';
+import { AddNotifications1735000000000 } from './migrations/1735000000000-AddNotifications';
+import { AddWebhooks1735100000000 } from './migrations/1735100000000-AddWebhooks';
+import { AddNotificationPreferences1735200000000 } from './migrations/1735200000000-AddNotificationPreferences';
+import { AddDigestPreferences1735300000000 } from './migrations/1735300000000-AddDigestPreferences';
+import { AddCalendarFeeds1735400000000 } from './migrations/1735400000000-AddCalendarFeeds';
+import { AddTwoFactorAuth1735500000000 } from './migrations/1735500000000-AddTwoFactorAuth';
+import { AddAccountTokens1735600000000 } from './migrations/1735600000000-AddAccountTokens';
+import { AddLoginSecurityEvents1735700000000 } from './migrations/1735700000000-AddLoginSecurityEvents';
+import { AddTokenVersions1735800000000 } from './migrations/1735800000000-AddTokenVersions';
 
 // Load environment variables
 dotenv.config();
@@ -13,7 +32,28 @@ export const dataSourceOptions: DataSourceOptions = {
   password: process.env.DB_PASSWORD || 'postgres',
   database: process.env.DB_DATABASE || 'taskflow',
   entities: [__dirname + '/../**/*.entity{.ts,.js}'],
-  migrations: [CreateInitialSchema1710752400000],
+  migrations: [
+    CreateInitialSchema1710752400000,
+    AddPerformanceIndexes1734000000000,
+    AddTaskAssignees1734100000000,
+    AddProjects1734200000000,
+    AddTaskComments1734300000000,
+    AddTaskActivities1734400000000,
+    AddTaskRecurrence1734500000000,
+    AddTaskHierarchy1734600000000,
+    AddLabels1734700000000,
+    AddTaskSearchVector1734800000000,
+    AddTaskOverdueNotification1734900000000,
+    AddNotifications1735000000000,
+    AddWebhooks1735100000000,
+    AddNotificationPreferences1735200000000,
+    AddDigestPreferences1735300000000,
+    AddCalendarFeeds1735400000000,
+    AddTwoFactorAuth1735500000000,
+    AddAccountTokens1735600000000,
+    AddLoginSecurityEvents1735700000000,
+    AddTokenVersions1735800000000,
+  ],
   migrationsTableName: 'migrations',
   synchronize: false, // Important: Set to false for production
   logging: process.env.NODE_ENV === 'development',
@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add Task Assignees Migration
+ *
+ * Separates task assignees from the task owner:
+ * - tasks.user_id stays the creator/owner
+ * - task_assignees links any number of users to a task
+ *
+ * Assignees can view a task and update its status, only the owner can delete it.
+ */
+export class AddTaskAssignees1734100000000 implements MigrationInterface {
+  name = 'AddTaskAssignees1734100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_assignees" (
+        "task_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        CONSTRAINT "PK_task_assignees" PRIMARY KEY ("task_id", "user_id"),
+        CONSTRAINT "FK_task_assignees_task" FOREIGN KEY ("task_id")
+          REFERENCES "tasks"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_task_assignees_user" FOREIGN KEY ("user_id")
+          REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    // Reverse lookup for "assigned to me" listings
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_task_assignees_user_id"
+      ON "task_assignees" ("user_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_task_assignees_user_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_assignees"`);
+  }
+}
@@ -0,0 +1,71 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add Projects Migration
+ *
+ * Introduces projects (workspaces) grouping tasks:
+ * - projects: name, description, owner
+ * - project_members: per-project role (OWNER, ADMIN, MEMBER, VIEWER)
+ * - tasks.project_id: nullable, existing tasks stay personal
+ */
+export class AddProjects1734200000000 implements MigrationInterface {
+  name = 'AddProjects1734200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "projects" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" varchar NOT NULL,
+        "description" text,
+        "owner_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "FK_projects_owner" FOREIGN KEY ("owner_id")
+          REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "project_members" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "project_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "role" varchar NOT NULL DEFAULT 'MEMBER',
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_project_members_project_user" UNIQUE ("project_id", "user_id"),
+        CONSTRAINT "FK_project_members_project" FOREIGN KEY ("project_id")
+          REFERENCES "projects"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_project_members_user" FOREIGN KEY ("user_id")
+          REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    // Membership lookups by user (visibility checks, "my projects")
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_project_members_user_id"
+      ON "project_members" ("user_id")
+    `);
+
+    await queryRunner.query(`ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "project_id" uuid`);
+
+    await queryRunner.query(`
+      ALTER TABLE "tasks" ADD CONSTRAINT "FK_tasks_project" FOREIGN KEY ("project_id")
+        REFERENCES "projects"("id") ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_tasks_project_id"
+      ON "tasks" ("project_id")
+      WHERE "project_id" IS NOT NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_tasks_project_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP CONSTRAINT IF EXISTS "FK_tasks_project"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "project_id"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_project_members_user_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "project_members"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "projects"`);
+  }
+}
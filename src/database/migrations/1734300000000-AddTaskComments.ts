@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add Task Comments Migration
+ *
+ * Creates the comment thread table for tasks:
+ * - Comments cascade with their task and author
+ * - mentioned_user_ids keeps the resolved `@email` mentions so edits
+ *   only notify newly mentioned users
+ */
+export class AddTaskComments1734300000000 implements MigrationInterface {
+  name = 'AddTaskComments1734300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_comments" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "author_id" uuid NOT NULL,
+        "content" text NOT NULL,
+        "mentioned_user_ids" uuid[] NOT NULL DEFAULT '{}',
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_task_comments" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_task_comments_task" FOREIGN KEY ("task_id")
+          REFERENCES "tasks"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_task_comments_author" FOREIGN KEY ("author_id")
+          REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    // Thread listing: comments of one task in chronological order
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_task_comments_task_created"
+      ON "task_comments" ("task_id", "created_at")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_task_comments_task_created"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_comments"`);
+  }
+}
@@ -0,0 +1,56 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add Task Activities Migration
+ *
+ * Creates the append-only task history:
+ * - No foreign keys, so history survives task and user deletion
+ * - A trigger rejects UPDATE and DELETE, making rows immutable
+ */
+export class AddTaskActivities1734400000000 implements MigrationInterface {
+  name = 'AddTaskActivities1734400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_activities" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "action" varchar NOT NULL,
+        "changes" jsonb NOT NULL DEFAULT '{}',
+        "actor_id" uuid,
+        "correlation_id" character varying,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_task_activities" PRIMARY KEY ("id")
+      )
+    `);
+
+    // History listing: entries of one task in chronological order
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_task_activities_task_created"
+      ON "task_activities" ("task_id", "created_at")
+    `);
+
+    await queryRunner.query(`
+      CREATE OR REPLACE FUNCTION "task_activities_immutable"() RETURNS trigger AS $$
+      BEGIN
+        RAISE EXCEPTION 'task_activities is append-only';
+      END;
+      $$ LANGUAGE plpgsql
+    `);
+
+    await queryRunner.query(`
+      CREATE TRIGGER "TRG_task_activities_immutable"
+      BEFORE UPDATE OR DELETE ON "task_activities"
+      FOR EACH ROW EXECUTE FUNCTION "task_activities_immutable"()
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP TRIGGER IF EXISTS "TRG_task_activities_immutable" ON "task_activities"`,
+    );
+    await queryRunner.query(`DROP FUNCTION IF EXISTS "task_activities_immutable"()`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_task_activities_task_created"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_activities"`);
+  }
+}
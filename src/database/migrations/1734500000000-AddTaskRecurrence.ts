@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add Task Recurrence Migration
+ *
+ * Recurring tasks are a series of task rows:
+ * - recurrence_rule: RRULE subset, copied to every new instance
+ * - recurrence_series_id / recurrence_index: series membership and position
+ *
+ * The unique index makes instance generation idempotent.
+ */
+export class AddTaskRecurrence1734500000000 implements MigrationInterface {
+  name = 'AddTaskRecurrence1734500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+        ADD COLUMN IF NOT EXISTS "recurrence_rule" varchar,
+        ADD COLUMN IF NOT EXISTS "recurrence_series_id" uuid,
+        ADD COLUMN IF NOT EXISTS "recurrence_index" integer
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "UQ_tasks_recurrence_occurrence"
+      ON "tasks" ("recurrence_series_id", "recurrence_index")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "UQ_tasks_recurrence_occurrence"`);
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+        DROP COLUMN IF EXISTS "recurrence_index",
+        DROP COLUMN IF EXISTS "recurrence_series_id",
+        DROP COLUMN IF EXISTS "recurrence_rule"
+    `);
+  }
+}
@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add Task Hierarchy Migration
+ *
+ * Adds relations between tasks:
+ * - tasks.parent_id: parent/child subtasks (SET NULL when the parent is deleted)
+ * - task_dependencies: "blocked by" edges, removed with either task
+ *
+ * Both graphs are kept acyclic by TaskDependenciesService on write.
+ */
+export class AddTaskHierarchy1734600000000 implements MigrationInterface {
+  name = 'AddTaskHierarchy1734600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "parent_id" uuid`);
+
+    await queryRunner.query(`
+      ALTER TABLE "tasks" ADD CONSTRAINT "FK_tasks_parent" FOREIGN KEY ("parent_id")
+        REFERENCES "tasks"("id") ON DELETE SET NULL
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_tasks_parent_id" ON "tasks" ("parent_id")
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_dependencies" (
+        "task_id" uuid NOT NULL,
+        "blocked_by_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_task_dependencies" PRIMARY KEY ("task_id", "blocked_by_id"),
+        CONSTRAINT "CHK_task_dependencies_not_self" CHECK ("task_id" <> "blocked_by_id"),
+        CONSTRAINT "FK_task_dependencies_task" FOREIGN KEY ("task_id")
+          REFERENCES "tasks"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_task_dependencies_blocked_by" FOREIGN KEY ("blocked_by_id")
+          REFERENCES "tasks"("id") ON DELETE CASCADE
+      )
+    `);
+
+    // Reverse lookup: tasks blocked by a given task
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_task_dependencies_blocked_by_id"
+      ON "task_dependencies" ("blocked_by_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_task_dependencies_blocked_by_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_dependencies"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_tasks_parent_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP CONSTRAINT IF EXISTS "FK_tasks_parent"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "parent_id"`);
+  }
+}
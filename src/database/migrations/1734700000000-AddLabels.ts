@@ -0,0 +1,69 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add Labels Migration
+ *
+ * Adds task labels:
+ * - labels: personal (user_id) or project (project_id) labels with a colour
+ * - task_labels: many-to-many join between tasks and labels
+ *
+ * Label names are unique per scope, ignoring case.
+ */
+export class AddLabels1734700000000 implements MigrationInterface {
+  name = 'AddLabels1734700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "labels" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "name" character varying(50) NOT NULL,
+        "colour" character varying(7) NOT NULL DEFAULT '#6b7280',
+        "user_id" uuid,
+        "project_id" uuid,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_labels" PRIMARY KEY ("id"),
+        CONSTRAINT "CHK_labels_scope" CHECK (("user_id" IS NULL) <> ("project_id" IS NULL)),
+        CONSTRAINT "FK_labels_user" FOREIGN KEY ("user_id")
+          REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_labels_project" FOREIGN KEY ("project_id")
+          REFERENCES "projects"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "UQ_labels_project_name"
+      ON "labels" ("project_id", LOWER("name")) WHERE "project_id" IS NOT NULL
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "UQ_labels_user_name"
+      ON "labels" ("user_id", LOWER("name")) WHERE "project_id" IS NULL
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_labels" (
+        "task_id" uuid NOT NULL,
+        "label_id" uuid NOT NULL,
+        CONSTRAINT "PK_task_labels" PRIMARY KEY ("task_id", "label_id"),
+        CONSTRAINT "FK_task_labels_task" FOREIGN KEY ("task_id")
+          REFERENCES "tasks"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_task_labels_label" FOREIGN KEY ("label_id")
+          REFERENCES "labels"("id") ON DELETE CASCADE
+      )
+    `);
+
+    // Reverse lookup: tasks carrying a label (filters and stats)
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_task_labels_label_id" ON "task_labels" ("label_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_task_labels_label_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_labels"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "UQ_labels_user_name"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "UQ_labels_project_name"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "labels"`);
+  }
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add Task Search Vector Migration
+ *
+ * Replaces ILIKE '%term%' search (which can't use a B-tree index) with
+ * Postgres full-text search:
+ * - tasks.search_vector: generated tsvector, title weighted above description
+ * - GIN index so @@ matches don't scan the table
+ *
+ * The column is generated, so it never drifts from title/description.
+ */
+export class AddTaskSearchVector1734800000000 implements MigrationInterface {
+  name = 'AddTaskSearchVector1734800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "search_vector" tsvector
+        GENERATED ALWAYS AS (
+          setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+          setweight(to_tsvector('english', coalesce("description", '')), 'B')
+        ) STORED
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_tasks_search_vector"
+      ON "tasks" USING GIN ("search_vector")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_tasks_search_vector"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "search_vector"`);
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add Task Overdue Notification Migration
+ *
+ * Adds tasks.overdue_notified_at, set when an overdue notification is sent
+ * and cleared when the due date changes, so the hourly overdue check
+ * notifies each task once per due date.
+ *
+ * The partial index covers exactly the rows the hourly check scans.
+ */
+export class AddTaskOverdueNotification1734900000000 implements MigrationInterface {
+  name = 'AddTaskOverdueNotification1734900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "overdue_notified_at" TIMESTAMP`,
+    );
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_tasks_overdue_pending"
+      ON "tasks" ("due_date")
+      WHERE "overdue_notified_at" IS NULL AND "status" IN ('PENDING', 'IN_PROGRESS')
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_tasks_overdue_pending"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "overdue_notified_at"`);
+  }
+}
@@ -0,0 +1,54 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add Notifications Migration
+ *
+ * Adds the in-app notification center:
+ * - notifications: one row per recipient, unread until read_at is set
+ * - Notifications outlive their task (task_id is cleared) and actor
+ */
+export class AddNotifications1735000000000 implements MigrationInterface {
+  name = 'AddNotifications1735000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "notifications" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "type" character varying(50) NOT NULL,
+        "task_id" uuid,
+        "actor_id" uuid,
+        "title" character varying NOT NULL,
+        "data" jsonb NOT NULL DEFAULT '{}',
+        "read_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_notifications" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_notifications_user" FOREIGN KEY ("user_id")
+          REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_notifications_task" FOREIGN KEY ("task_id")
+          REFERENCES "tasks"("id") ON DELETE SET NULL,
+        CONSTRAINT "FK_notifications_actor" FOREIGN KEY ("actor_id")
+          REFERENCES "users"("id") ON DELETE SET NULL
+      )
+    `);
+
+    // Listing: a user's notifications, newest first
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_notifications_user_created"
+      ON "notifications" ("user_id", "created_at")
+    `);
+
+    // Unread count and "mark all read"
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_notifications_user_unread"
+      ON "notifications" ("user_id")
+      WHERE "read_at" IS NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_notifications_user_unread"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_notifications_user_created"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "notifications"`);
+  }
+}
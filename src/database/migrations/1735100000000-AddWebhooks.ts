@@ -0,0 +1,81 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add Webhooks Migration
+ *
+ * Adds outgoing webhooks for task events:
+ * - webhook_subscriptions: personal (project_id NULL) or project endpoints
+ * - webhook_deliveries: delivery log, one row per event and subscription
+ */
+export class AddWebhooks1735100000000 implements MigrationInterface {
+  name = 'AddWebhooks1735100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "webhook_subscriptions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "project_id" uuid,
+        "url" character varying(2048) NOT NULL,
+        "events" character varying array NOT NULL,
+        "secret" character varying NOT NULL,
+        "active" boolean NOT NULL DEFAULT true,
+        "description" character varying(255),
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_webhook_subscriptions" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_webhook_subscriptions_user" FOREIGN KEY ("user_id")
+          REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_webhook_subscriptions_project" FOREIGN KEY ("project_id")
+          REFERENCES "projects"("id") ON DELETE CASCADE
+      )
+    `);
+
+    // Dispatch lookups by scope
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_webhook_subscriptions_project"
+      ON "webhook_subscriptions" ("project_id")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_webhook_subscriptions_user"
+      ON "webhook_subscriptions" ("user_id")
+      WHERE "project_id" IS NULL
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "webhook_deliveries" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "subscription_id" uuid NOT NULL,
+        "event" character varying(50) NOT NULL,
+        "payload" jsonb NOT NULL,
+        "status" character varying(20) NOT NULL DEFAULT 'PENDING',
+        "attempts" integer NOT NULL DEFAULT 0,
+        "response_status" integer,
+        "response_body" text,
+        "error" text,
+        "duration_ms" integer,
+        "redelivery_of_id" uuid,
+        "last_attempt_at" TIMESTAMP,
+        "delivered_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_webhook_deliveries" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_webhook_deliveries_subscription" FOREIGN KEY ("subscription_id")
+          REFERENCES "webhook_subscriptions"("id") ON DELETE CASCADE
+      )
+    `);
+
+    // Delivery log: a subscription's deliveries, newest first
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_webhook_deliveries_subscription_created"
+      ON "webhook_deliveries" ("subscription_id", "created_at")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_webhook_deliveries_subscription_created"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "webhook_deliveries"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_webhook_subscriptions_user"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_webhook_subscriptions_project"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "webhook_subscriptions"`);
+  }
+}
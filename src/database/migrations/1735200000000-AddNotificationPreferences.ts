@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add Notification Preferences Migration
+ *
+ * Adds per-user delivery preferences for the email channel:
+ * - notification_preferences: one optional row per user (no row = defaults)
+ * - email_opt_out lists notification types not sent by email
+ */
+export class AddNotificationPreferences1735200000000 implements MigrationInterface {
+  name = 'AddNotificationPreferences1735200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "notification_preferences" (
+        "user_id" uuid NOT NULL,
+        "email_enabled" boolean NOT NULL DEFAULT true,
+        "email_opt_out" character varying array NOT NULL DEFAULT '{}',
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_notification_preferences" PRIMARY KEY ("user_id"),
+        CONSTRAINT "FK_notification_preferences_user" FOREIGN KEY ("user_id")
+          REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "notification_preferences"`);
+  }
+}
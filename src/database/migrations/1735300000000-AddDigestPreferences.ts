@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add Digest Preferences Migration
+ *
+ * Adds task digest settings to notification preferences:
+ * - digest_frequency: daily, weekly or off (default)
+ * - timezone: IANA zone the digest is scheduled and compiled in
+ * - Partial index on users with a digest, scanned hourly by the scheduler
+ */
+export class AddDigestPreferences1735300000000 implements MigrationInterface {
+  name = 'AddDigestPreferences1735300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "notification_preferences"
+        ADD COLUMN IF NOT EXISTS "digest_frequency" character varying(10) NOT NULL DEFAULT 'off',
+        ADD COLUMN IF NOT EXISTS "timezone" character varying(64) NOT NULL DEFAULT 'UTC'
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_notification_preferences_digest"
+        ON "notification_preferences" ("user_id")
+        WHERE "digest_frequency" <> 'off'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_notification_preferences_digest"`);
+    await queryRunner.query(`
+      ALTER TABLE "notification_preferences"
+        DROP COLUMN IF EXISTS "timezone",
+        DROP COLUMN IF EXISTS "digest_frequency"
+    `);
+  }
+}
@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add Calendar Feeds Migration
+ *
+ * Adds per-user iCal feed tokens:
+ * - calendar_feeds: at most one row per user, holding the token hash
+ * - Unique index on token_hash, used to resolve feed requests
+ */
+export class AddCalendarFeeds1735400000000 implements MigrationInterface {
+  name = 'AddCalendarFeeds1735400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "calendar_feeds" (
+        "user_id" uuid NOT NULL,
+        "token_hash" character varying NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "last_accessed_at" TIMESTAMP,
+        CONSTRAINT "PK_calendar_feeds" PRIMARY KEY ("user_id"),
+        CONSTRAINT "FK_calendar_feeds_user" FOREIGN KEY ("user_id")
+          REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "IDX_calendar_feeds_token_hash"
+        ON "calendar_feeds" ("token_hash")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_calendar_feeds_token_hash"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "calendar_feeds"`);
+  }
+}
@@ -0,0 +1,44 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add Two-Factor Auth Migration
+ *
+ * Adds TOTP two-factor authentication:
+ * - user_two_factor: one enrollment per user (secret, recovery code hashes,
+ *   last accepted time step)
+ * - two_factor_policies: roles required to use 2FA
+ */
+export class AddTwoFactorAuth1735500000000 implements MigrationInterface {
+  name = 'AddTwoFactorAuth1735500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "user_two_factor" (
+        "user_id" uuid NOT NULL,
+        "secret" character varying NOT NULL,
+        "recovery_code_hashes" character varying array NOT NULL DEFAULT '{}',
+        "last_used_step" bigint,
+        "enabled_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_user_two_factor" PRIMARY KEY ("user_id"),
+        CONSTRAINT "FK_user_two_factor_user" FOREIGN KEY ("user_id")
+          REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "two_factor_policies" (
+        "role" character varying(50) NOT NULL,
+        "created_by" uuid,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_two_factor_policies" PRIMARY KEY ("role")
+      )
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "two_factor_policies"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "user_two_factor"`);
+  }
+}
@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add Account Tokens Migration
+ *
+ * Adds email verification and password reset:
+ * - users.email_verified_at: set once the user proves they own the address
+ * - account_tokens: hashed single-use tokens sent by email
+ */
+export class AddAccountTokens1735600000000 implements MigrationInterface {
+  name = 'AddAccountTokens1735600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "email_verified_at" TIMESTAMP
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "account_tokens" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "token_hash" character varying NOT NULL,
+        "user_id" uuid NOT NULL,
+        "type" character varying(30) NOT NULL,
+        "email" character varying NOT NULL,
+        "expires_at" TIMESTAMP NOT NULL,
+        "used_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_account_tokens" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_account_tokens_token_hash" UNIQUE ("token_hash"),
+        CONSTRAINT "FK_account_tokens_user" FOREIGN KEY ("user_id")
+          REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_account_tokens_user_type"
+        ON "account_tokens" ("user_id", "type")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_account_tokens_user_type"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "account_tokens"`);
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN IF EXISTS "email_verified_at"`);
+  }
+}
@@ -0,0 +1,47 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add Login Security Events Migration
+ *
+ * Adds the audit log of login protection actions:
+ * - login_security_events: account lockouts and unlocks, blocked IPs
+ * - Indexes for per-account and recent-first listing
+ */
+export class AddLoginSecurityEvents1735700000000 implements MigrationInterface {
+  name = 'AddLoginSecurityEvents1735700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "login_security_events" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "type" character varying(30) NOT NULL,
+        "user_id" uuid,
+        "actor_id" uuid,
+        "ip_address" character varying,
+        "data" jsonb NOT NULL DEFAULT '{}',
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_login_security_events" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_login_security_events_user" FOREIGN KEY ("user_id")
+          REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_login_security_events_actor" FOREIGN KEY ("actor_id")
+          REFERENCES "users"("id") ON DELETE SET NULL
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_login_security_events_user_created"
+        ON "login_security_events" ("user_id", "created_at")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_login_security_events_created"
+        ON "login_security_events" ("created_at")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_login_security_events_created"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_login_security_events_user_created"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "login_security_events"`);
+  }
+}
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add Token Versions Migration
+ *
+ * Adds per-user token versions for revoking access tokens:
+ * - users.token_version: bumped on logout from all devices, password and
+ *   role changes; tokens issued with an older version are rejected
+ * - refresh_tokens.token_version: the user's version when the token was
+ *   issued, so refresh tokens are revoked along with access tokens
+ *
+ * The refresh_tokens table is created by AddPerformanceIndexes1734000000000.
+ */
+export class AddTokenVersions1735800000000 implements MigrationInterface {
+  name = 'AddTokenVersions1735800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "token_version" integer NOT NULL DEFAULT 0
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "refresh_tokens"
+        ADD COLUMN IF NOT EXISTS "token_version" integer NOT NULL DEFAULT 0
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "refresh_tokens" DROP COLUMN IF EXISTS "token_version"`);
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN IF EXISTS "token_version"`);
+  }
+}
@@ -3,6 +3,9 @@ import { config } from 'dotenv';
 import { User } from '../../modules/users/entities/user.entity';
 import { Task } from '../../modules/tasks/entities/task.entity';
 import { RefreshToken } from '../../modules/auth/entities/refresh-token.entity';
+import { Project } from '../../modules/projects/entities/project.entity';
+import { ProjectMember } from '../../modules/projects/entities/project-member.entity';
+import { Label } from '../../modules/labels/entities/label.entity';
 import { users } from './seed-data/users.seed';
 import { tasks } from './seed-data/tasks.seed';
 
@@ -24,7 +27,7 @@ const AppDataSource = new DataSource({
   username: process.env.DB_USERNAME || 'postgres',
   password: process.env.DB_PASSWORD || 'postgres',
   database: process.env.DB_DATABASE || 'taskflow',
-  entities: [User, Task, RefreshToken],
+  entities: [User, Task, RefreshToken, Project, ProjectMember, Label],
   synchronize: false,
   logging: true,
 });
@@ -1,4 +1,6 @@
 import { NestFactory } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
@@ -19,10 +21,13 @@ async function bootstrap() {
   const logger = new Logger('Bootstrap');
   
   // Create application
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     logger: ['error', 'warn', 'log', 'debug', 'verbose'],
   });
 
+  // Take client IPs from X-Forwarded-For only behind trusted proxies (TRUST_PROXY)
+  app.set('trust proxy', app.get(ConfigService).get('app.trustProxy'));
+
   // Global validation pipe with enhanced settings
   app.useGlobalPipes(
     new ValidationPipe({
@@ -84,6 +89,12 @@ async function bootstrap() {
     )
     .addTag('auth', 'Authentication and authorization endpoints')
     .addTag('tasks', 'Task management endpoints')
+    .addTag('projects', 'Project (workspace) and membership endpoints')
+    .addTag('comments', 'Task comment threads with mentions')
+    .addTag('labels', 'Personal and project task labels')
+    .addTag('notifications', 'In-app notification center')
+    .addTag('webhooks', 'Outgoing webhooks for task events')
+    .addTag('calendar', 'iCal feeds of tasks with due dates')
     .addTag('health', 'Health check and monitoring endpoints')
     .addServer('http://localhost:3000', 'Local development')
     .addServer('https://api.taskflow.com', 'Production')
@@ -0,0 +1,111 @@
+import { MailMessage } from '../mail/transports/mail-transport.interface';
+
+/**
+ * Rendered subject and bodies
+ */
+export type RenderedAccountEmail = Omit<MailMessage, 'to' | 'from'>;
+
+/**
+ * Account Email Templates
+ *
+ * Plain-text and HTML versions of account emails:
+ * - Email verification: confirm the address after registering
+ * - Password reset: link to choose a new password
+ *
+ * Links carry the secret token, so these emails are sent only to the
+ * account's address and never logged.
+ */
+export class AccountEmailTemplates {
+  /**
+   * Render the email verification email
+   *
+   * @param recipientName - Greeting name
+   * @param url - Verification link
+   * @param expiresInHours - Link lifetime
+   * @returns Subject, text and HTML
+   */
+  static emailVerification(
+    recipientName: string,
+    url: string,
+    expiresInHours: number,
+  ): RenderedAccountEmail {
+    const expiry = `The link expires in ${expiresInHours} hours.`;
+
+    return {
+      subject: 'Verify your email address',
+      text: [
+        `Hi ${recipientName},`,
+        '',
+        'Please confirm your email address by opening this link:',
+        '',
+        url,
+        '',
+        expiry,
+      ].join('\n'),
+      html: this.layout(
+        recipientName,
+        `<p>Please confirm your email address:</p>` +
+          `<p><a href="${this.escape(url)}">Verify email address</a></p><p>${expiry}</p>`,
+        "If you didn't create an account, you can ignore this email.",
+      ),
+    };
+  }
+
+  /**
+   * Render the password reset email
+   *
+   * @param recipientName - Greeting name
+   * @param url - Reset link
+   * @param expiresInMinutes - Link lifetime
+   * @returns Subject, text and HTML
+   */
+  static passwordReset(
+    recipientName: string,
+    url: string,
+    expiresInMinutes: number,
+  ): RenderedAccountEmail {
+    const expiry =
+      `The link expires in ${expiresInMinutes} minutes. ` +
+      'Resetting your password signs you out on all devices.';
+    const ignore = "If you didn't ask to reset your password, you can ignore this email.";
+
+    return {
+      subject: 'Reset your password',
+      text: [
+        `Hi ${recipientName},`,
+        '',
+        'Open this link to choose a new password:',
+        '',
+        url,
+        '',
+        expiry,
+        '',
+        ignore,
+      ].join('\n'),
+      html: this.layout(
+        recipientName,
+        `<p>Open this link to choose a new password:</p>` +
+          `<p><a href="${this.escape(url)}">Reset password</a></p><p>${expiry}</p>`,
+        ignore,
+      ),
+    };
+  }
+
+  private static layout(recipientName: string, body: string, footer: string): string {
+    return (
+      `<!DOCTYPE html><html><body style="font-family: sans-serif">` +
+      `<p>Hi ${this.escape(recipientName)},</p>${body}` +
+      `<p style="color: #888; font-size: 12px">${this.escape(footer)}</p>` +
+      `</body></html>`
+    );
+  }
+
+  private static escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,69 @@
+import { INestApplication } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { Test } from '@nestjs/testing';
+import request from 'supertest';
+import { AuthController } from './auth.controller';
+import { AuthService } from './auth.service';
+import { RedisRateLimitGuard } from '../../common/guards/redis-rate-limit.guard';
+
+describe('AuthController (HTTP)', () => {
+  const authService = { login: jest.fn() };
+  const credentials = { email: 'alice@example.com', password: 'Password123!' };
+
+  /**
+   * Start the controller with Express's `trust proxy` setting, as main.ts does
+   */
+  const createApp = async (trustProxy: boolean | number | string): Promise<INestApplication> => {
+    const moduleRef = await Test.createTestingModule({
+      controllers: [AuthController],
+      providers: [{ provide: AuthService, useValue: authService }],
+    })
+      .overrideGuard(RedisRateLimitGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    const app = moduleRef.createNestApplication<NestExpressApplication>({ logger: false });
+    app.set('trust proxy', trustProxy);
+    await app.init();
+
+    return app;
+  };
+
+  let app: INestApplication;
+
+  beforeEach(() => {
+    authService.login.mockReset().mockResolvedValue({});
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('ignores X-Forwarded-For unless a proxy is trusted', async () => {
+    app = await createApp(false);
+
+    await request(app.getHttpServer())
+      .post('/auth/login')
+      .set('X-Forwarded-For', '203.0.113.7')
+      .set('X-Real-IP', '203.0.113.8')
+      .send(credentials)
+      .expect(200);
+
+    const [, ipAddress] = authService.login.mock.calls[0];
+    expect(ipAddress).not.toMatch(/203\.0\.113/);
+    expect(ipAddress).toMatch(/127\.0\.0\.1|::1/);
+  });
+
+  it('takes the client IP from a trusted proxy', async () => {
+    app = await createApp(1);
+
+    await request(app.getHttpServer())
+      .post('/auth/login')
+      .set('X-Forwarded-For', '198.51.100.1, 203.0.113.7')
+      .send(credentials)
+      .expect(200);
+
+    // Only the hop added by the trusted proxy counts, not what the client sent
+    expect(authService.login).toHaveBeenCalledWith(credentials, '203.0.113.7', undefined);
+  });
+});
@@ -1,7 +1,11 @@
 import {
   Body,
   Controller,
+  Get,
   Post,
+  Delete,
+  Param,
+  ParseUUIDPipe,
   Req,
   UseGuards,
   HttpCode,
@@ -12,19 +16,33 @@ import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
 import { RefreshTokenDto, LogoutDto } from './dto/refresh-token.dto';
 import { AuthResponseDto } from './dto/auth-response.dto';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { SessionResponseDto } from './dto/session-response.dto';
+import { ForgotPasswordDto, ResetPasswordDto, VerifyEmailDto } from './dto/account.dto';
+import {
+  MfaChallengeResponseDto,
+  MfaLoginDto,
+  MfaLoginResponseDto,
+  MfaTokenDto,
+  TwoFactorEnrollmentResponseDto,
+} from './dto/two-factor.dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { RedisRateLimit, RateLimitPresets } from '../../common/decorators/rate-limit-redis.decorator';
 import { RedisRateLimitGuard } from '../../common/guards/redis-rate-limit.guard';
-import { Request } from 'express';
+import type { Request } from 'express';
+import { ExtractJwt } from 'passport-jwt';
 
 /**
  * Authentication Controller
  * 
  * Handles user authentication and token management:
- * - Login with email/password
+ * - Login with email/password, plus a second factor when 2FA is on
  * - Register new users
  * - Refresh access tokens
  * - Logout and token revocation
+ * - List and revoke sessions (devices)
+ * - Email verification and password reset
  * 
  * Security features:
  * - Rate limiting on all endpoints (especially strict on login)
@@ -41,7 +59,8 @@ export class AuthController {
    * Login endpoint
    * 
    * Strict rate limiting to prevent brute force attacks
-   * Returns access token (15min) and refresh token (7 days)
+   * Returns access token (15min) and refresh token (7 days), or an MFA
+   * challenge to complete with POST /auth/login/mfa
    */
   @Post('login')
   @HttpCode(HttpStatus.OK)
@@ -49,7 +68,7 @@ export class AuthController {
   @ApiOperation({ summary: 'Login with email and password' })
   @ApiResponse({
     status: 200,
-    description: 'Login successful',
+    description: 'Login successful, or a second factor is needed (MfaChallengeResponseDto)',
     type: AuthResponseDto,
   })
   @ApiResponse({ status: 401, description: 'Invalid credentials' })
@@ -57,13 +76,55 @@ export class AuthController {
   async login(
     @Body() loginDto: LoginDto,
     @Req() request: Request,
-  ): Promise<AuthResponseDto> {
+  ): Promise<AuthResponseDto | MfaChallengeResponseDto> {
     const ipAddress = this.getIpAddress(request);
     const userAgent = request.headers['user-agent'];
 
     return this.authService.login(loginDto, ipAddress, userAgent);
   }
 
+  /**
+   * Second login step
+   *
+   * Exchanges the MFA challenge and a TOTP or recovery code for tokens
+   */
+  @Post('login/mfa')
+  @HttpCode(HttpStatus.OK)
+  @RedisRateLimit(RateLimitPresets.AUTH)
+  @ApiOperation({ summary: 'Complete login with a two-factor code' })
+  @ApiResponse({ status: 200, description: 'Login successful', type: MfaLoginResponseDto })
+  @ApiResponse({ status: 401, description: 'Invalid or expired challenge, or invalid code' })
+  @ApiResponse({ status: 429, description: 'Too many requests' })
+  async loginWithMfa(
+    @Body() mfaLoginDto: MfaLoginDto,
+    @Req() request: Request,
+  ): Promise<MfaLoginResponseDto> {
+    const ipAddress = this.getIpAddress(request);
+    const userAgent = request.headers['user-agent'];
+
+    return this.authService.loginWithMfa(mfaLoginDto, ipAddress, userAgent);
+  }
+
+  /**
+   * Enroll in 2FA during login
+   *
+   * For challenges with enrollmentRequired (the role requires 2FA); the
+   * first code from the app then completes both enrollment and login
+   */
+  @Post('login/mfa/enroll')
+  @HttpCode(HttpStatus.OK)
+  @RedisRateLimit(RateLimitPresets.AUTH)
+  @ApiOperation({ summary: 'Start required two-factor enrollment during login' })
+  @ApiResponse({ status: 200, type: TwoFactorEnrollmentResponseDto })
+  @ApiResponse({ status: 400, description: 'Enrollment not required' })
+  @ApiResponse({ status: 401, description: 'Invalid or expired challenge' })
+  @ApiResponse({ status: 429, description: 'Too many requests' })
+  async startMfaEnrollment(
+    @Body() mfaTokenDto: MfaTokenDto,
+  ): Promise<TwoFactorEnrollmentResponseDto> {
+    return this.authService.startMfaEnrollment(mfaTokenDto.mfaToken);
+  }
+
   /**
    * Register endpoint
    * 
@@ -84,7 +145,7 @@ export class AuthController {
   async register(
     @Body() registerDto: RegisterDto,
     @Req() request: Request,
-  ): Promise<AuthResponseDto> {
+  ): Promise<AuthResponseDto | MfaChallengeResponseDto> {
     const ipAddress = this.getIpAddress(request);
     const userAgent = request.headers['user-agent'];
 
@@ -121,7 +182,8 @@ export class AuthController {
   /**
    * Logout endpoint
    * 
-   * Revokes refresh token to prevent further use
+   * Revokes refresh token to prevent further use, and the access token
+   * the request was sent with, if any
    */
   @Post('logout')
   @HttpCode(HttpStatus.OK)
@@ -129,22 +191,151 @@ export class AuthController {
   @ApiOperation({ summary: 'Logout and revoke refresh token' })
   @ApiResponse({ status: 200, description: 'Logged out successfully' })
   @ApiResponse({ status: 429, description: 'Too many requests' })
-  async logout(@Body() logoutDto: LogoutDto): Promise<{ message: string }> {
-    await this.authService.logout(logoutDto.refreshToken);
+  async logout(
+    @Body() logoutDto: LogoutDto,
+    @Req() request: Request,
+  ): Promise<{ message: string }> {
+    const accessToken = ExtractJwt.fromAuthHeaderAsBearerToken()(request) ?? undefined;
+    await this.authService.logout(logoutDto.refreshToken, accessToken);
     return { message: 'Logged out successfully' };
   }
 
+  /**
+   * Verify email endpoint
+   *
+   * Redeems the token from the verification email sent at registration
+   */
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Verify email address' })
+  @ApiResponse({ status: 200, description: 'Email verified' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired token' })
+  @ApiResponse({ status: 429, description: 'Too many requests' })
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto): Promise<{ message: string }> {
+    await this.authService.verifyEmail(verifyEmailDto.token);
+    return { message: 'Email verified' };
+  }
+
+  /**
+   * Resend verification email endpoint
+   */
+  @Post('verify-email/resend')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @RedisRateLimit(RateLimitPresets.AUTH)
+  @ApiOperation({ summary: 'Resend the verification email' })
+  @ApiResponse({ status: 200, description: 'Verification email sent' })
+  @ApiResponse({ status: 400, description: 'Email already verified' })
+  @ApiResponse({ status: 429, description: 'Too many requests' })
+  async resendVerificationEmail(@CurrentUser('id') userId: string): Promise<{ message: string }> {
+    await this.authService.sendVerificationEmail(userId);
+    return { message: 'Verification email sent' };
+  }
+
+  /**
+   * Forgot password endpoint
+   *
+   * Always answers the same way, whether or not the address has an account
+   */
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @RedisRateLimit(RateLimitPresets.AUTH)
+  @ApiOperation({ summary: 'Request a password reset email' })
+  @ApiResponse({ status: 202, description: 'Reset email sent if the account exists' })
+  @ApiResponse({ status: 429, description: 'Too many requests' })
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto): Promise<{ message: string }> {
+    await this.authService.forgotPassword(forgotPasswordDto.email);
+    return { message: 'If an account exists for this email, a reset link has been sent' };
+  }
+
+  /**
+   * Reset password endpoint
+   *
+   * Sets a new password and logs out all sessions
+   */
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  @RedisRateLimit(RateLimitPresets.AUTH)
+  @ApiOperation({ summary: 'Reset password with a token from the reset email' })
+  @ApiResponse({ status: 200, description: 'Password reset' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired token' })
+  @ApiResponse({ status: 429, description: 'Too many requests' })
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto): Promise<{ message: string }> {
+    await this.authService.resetPassword(resetPasswordDto);
+    return { message: 'Password reset. Please login again.' };
+  }
+
+  /**
+   * List sessions endpoint
+   *
+   * One entry per logged-in device; `current` marks the caller's session
+   */
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @RedisRateLimit(RateLimitPresets.LENIENT)
+  @ApiOperation({ summary: 'List active sessions' })
+  @ApiResponse({ status: 200, type: [SessionResponseDto] })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async listSessions(
+    @CurrentUser('id') userId: string,
+    @CurrentUser('sessionId') sessionId?: string,
+  ): Promise<SessionResponseDto[]> {
+    return this.authService.listSessions(userId, sessionId);
+  }
+
+  /**
+   * Revoke session endpoint
+   *
+   * Logs out one device; its refresh and access tokens stop working immediately
+   */
+  @Delete('sessions/:sessionId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Revoke a session' })
+  @ApiResponse({ status: 204, description: 'Session revoked' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revokeSession(
+    @CurrentUser('id') userId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+  ): Promise<void> {
+    await this.authService.revokeSession(userId, sessionId);
+  }
+
+  /**
+   * Logout from all devices endpoint
+   *
+   * Revokes every refresh and access token of the user, including the
+   * caller's
+   */
+  @Post('logout-all')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @RedisRateLimit(RateLimitPresets.STRICT)
+  @ApiOperation({ summary: 'Logout from all devices' })
+  @ApiResponse({ status: 200, description: 'All sessions revoked' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 429, description: 'Too many requests' })
+  async logoutAll(@CurrentUser('id') userId: string): Promise<{ message: string }> {
+    await this.authService.revokeAllUserTokens(userId);
+    return { message: 'Logged out from all devices' };
+  }
+
   /**
    * Extract IP address from request
-   * Handles proxy headers (X-Forwarded-For, X-Real-IP)
+   * X-Forwarded-For is honoured only for proxies trusted via TRUST_PROXY
    * 
    * @param request - Express request
    * @returns IP address
    */
   private getIpAddress(request: Request): string {
     return (
-      (request.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() ||
-      (request.headers['x-real-ip'] as string) ||
       request.ip ||
       request.socket?.remoteAddress ||
       'unknown'
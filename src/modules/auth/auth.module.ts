@@ -3,11 +3,22 @@ import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { BullModule } from '@nestjs/bullmq';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorController } from './two-factor.controller';
+import { LoginProtectionService } from './login-protection.service';
+import { LoginSecurityController } from './login-security.controller';
+import { TokenRevocationService } from './token-revocation.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { UsersModule } from '../users/users.module';
 import { RefreshToken } from './entities/refresh-token.entity';
+import { UserTwoFactor } from './entities/user-two-factor.entity';
+import { TwoFactorPolicy } from './entities/two-factor-policy.entity';
+import { AccountToken } from './entities/account-token.entity';
+import { LoginSecurityEvent } from './entities/login-security-event.entity';
+import { MailModule } from '../mail/mail.module';
 import { RedisCacheService } from '../../common/services/redis-cache.service';
 
 /**
@@ -16,6 +27,9 @@ import { RedisCacheService } from '../../common/services/redis-cache.service';
  * Provides authentication and authorization services:
  * - JWT-based authentication
  * - Refresh token rotation
+ * - TOTP two-factor authentication
+ * - Email verification and password reset (via MailModule)
+ * - Account lockout; lockout notifications are queued on task-processing
  * - User validation and role checking
  * - Redis-backed caching for performance
  */
@@ -23,7 +37,17 @@ import { RedisCacheService } from '../../common/services/redis-cache.service';
   imports: [
     UsersModule,
     PassportModule.register({ defaultStrategy: 'jwt' }),
-    TypeOrmModule.forFeature([RefreshToken]),
+    TypeOrmModule.forFeature([
+      RefreshToken,
+      UserTwoFactor,
+      TwoFactorPolicy,
+      AccountToken,
+      LoginSecurityEvent,
+    ]),
+    BullModule.registerQueue({
+      name: 'task-processing',
+    }),
+    MailModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       inject: [ConfigService],
@@ -35,8 +59,15 @@ import { RedisCacheService } from '../../common/services/redis-cache.service';
       }),
     }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, RedisCacheService],
+  controllers: [AuthController, TwoFactorController, LoginSecurityController],
+  providers: [
+    AuthService,
+    TwoFactorService,
+    LoginProtectionService,
+    TokenRevocationService,
+    JwtStrategy,
+    RedisCacheService,
+  ],
   exports: [AuthService, JwtStrategy],
 })
 export class AuthModule {} 
\ No newline at end of file
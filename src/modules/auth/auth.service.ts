@@ -2,22 +2,47 @@ import {
   Injectable,
   UnauthorizedException,
   BadRequestException,
+  NotFoundException,
   Logger,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, LessThan } from 'typeorm';
+import { Repository, LessThan, MoreThan, In, IsNull } from 'typeorm';
 import { UsersService } from '../users/users.service';
 import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
 import { AuthResponseDto, UserResponseDto } from './dto/auth-response.dto';
+import { SessionResponseDto } from './dto/session-response.dto';
+import {
+  MfaChallengeResponseDto,
+  MfaLoginDto,
+  MfaLoginResponseDto,
+  TwoFactorEnrollmentResponseDto,
+} from './dto/two-factor.dto';
+import { ResetPasswordDto } from './dto/account.dto';
 import { RefreshToken } from './entities/refresh-token.entity';
+import { AccountToken } from './entities/account-token.entity';
+import { AccountTokenType } from './enums/account-token-type.enum';
+import { AccountEmailTemplates } from './account-email.templates';
+import { TwoFactorService } from './two-factor.service';
+import { LoginProtectionService } from './login-protection.service';
+import { MailService } from '../mail/mail.service';
 import { RedisCacheService } from '../../common/services/redis-cache.service';
+import { RevocableTokenClaims, TokenRevocationService } from './token-revocation.service';
 import * as bcrypt from 'bcrypt';
 import * as crypto from 'crypto';
 
+/**
+ * Pending second login step, stored in Redis under the challenge token hash
+ */
+interface MfaChallenge {
+  userId: string;
+  // The role requires 2FA and the user is enrolling during this login
+  enrollmentRequired: boolean;
+}
+
 /**
  * Enhanced Authentication Service
  * 
@@ -31,26 +56,51 @@ import * as crypto from 'crypto';
  * 6. PROPER ROLE VALIDATION: Actually checks roles (was returning true!)
  * 7. TOKEN HASHING: Store hashed tokens in DB, not plaintext
  * 8. SESSION TRACKING: IP and user agent for anomaly detection
+ * 9. SESSION MANAGEMENT: Users can list and revoke their sessions
+ * 10. TWO-FACTOR LOGIN: With 2FA enabled (or required for the role), the
+ *     password step returns a short-lived MFA challenge instead of tokens
+ * 11. ACCOUNT EMAILS: Email verification and password reset links carry
+ *     hashed, single-use, expiring tokens; a reset revokes all sessions
+ * 12. ACCOUNT LOCKOUT: Failed logins lock the account progressively and
+ *     IPs trying many accounts are blocked (LoginProtectionService)
+ * 13. ACCESS TOKEN REVOCATION: Access tokens carry a `jti` and the user's
+ *     token version; logout denylists the token (TokenRevocationService),
+ *     and logout from all devices, password and role changes bump the
+ *     version (users.token_version)
  * 
  * Token Strategy:
  * - Access Token: 15 minutes (JWT, stateless)
  * - Refresh Token: 7 days (stored in DB, stateful)
  * - Rotation: Each refresh generates new token pair
- * - Revocation: Can invalidate all user sessions
+ * - Revocation: Can invalidate all user sessions, access tokens included
+ *
+ * A session is a token family: it starts at login or registration and
+ * survives refreshes. Access tokens carry the family as `sid` so the
+ * session making a request can be identified.
  */
 @Injectable()
 export class AuthService {
   private readonly logger = new Logger(AuthService.name);
   private readonly accessTokenExpiry = '15m'; // 15 minutes
   private readonly refreshTokenExpiry = 7 * 24 * 60 * 60; // 7 days in seconds
+  private readonly mfaChallengeExpiry = 5 * 60; // 5 minutes in seconds
+  private readonly maxMfaAttempts = 5; // Wrong codes before a challenge is dropped
+  private readonly emailVerificationExpiry = 24 * 60 * 60; // 24 hours in seconds
+  private readonly passwordResetExpiry = 60 * 60; // 1 hour in seconds
 
   constructor(
     private readonly usersService: UsersService,
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
     private readonly cacheService: RedisCacheService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly loginProtection: LoginProtectionService,
+    private readonly mailService: MailService,
+    private readonly tokenRevocationService: TokenRevocationService,
     @InjectRepository(RefreshToken)
     private readonly refreshTokenRepository: Repository<RefreshToken>,
+    @InjectRepository(AccountToken)
+    private readonly accountTokenRepository: Repository<AccountToken>,
   ) {}
 
   /**
@@ -59,27 +109,32 @@ export class AuthService {
    * Security improvements:
    * - Generic error message (no email enumeration)
    * - Rate limiting applied at controller level
-   * - Returns both access and refresh tokens
+   * - Per-account lockout and IP blocking, checked before the password
+   * - Returns both access and refresh tokens, or an MFA challenge
+   *   when a second factor is needed
    * - Tracks session metadata (IP, user agent)
    * 
    * @param loginDto - Login credentials
    * @param ipAddress - User's IP address
    * @param userAgent - User's browser/client info
-   * @returns AuthResponseDto with tokens and user info
+   * @returns AuthResponseDto with tokens and user info, or an MFA challenge
    */
   async login(
     loginDto: LoginDto,
     ipAddress?: string,
     userAgent?: string,
-  ): Promise<AuthResponseDto> {
+  ): Promise<AuthResponseDto | MfaChallengeResponseDto> {
     const { email, password } = loginDto;
 
+    await this.loginProtection.assertAllowed(email, ipAddress);
+
     // Find user by email
     const user = await this.usersService.findByEmail(email);
     
     // Security: Use generic error message to prevent email enumeration
     if (!user) {
       this.logger.warn(`Login attempt with invalid email: ${email}`);
+      await this.loginProtection.recordFailure(email, null, ipAddress);
       throw new UnauthorizedException('Invalid credentials');
     }
 
@@ -88,25 +143,104 @@ export class AuthService {
     
     if (!passwordValid) {
       this.logger.warn(`Failed login attempt for user: ${user.id}`);
+      await this.loginProtection.recordFailure(email, user.id, ipAddress);
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    // Generate token pair
-    const tokens = await this.generateTokenPair(
-      user.id,
-      user.email,
-      user.role,
-      ipAddress,
-      userAgent,
-    );
+    // Failures are reset only once the second factor is passed too
+    const challenge = await this.checkSecondFactor(user);
+    if (challenge) {
+      return challenge;
+    }
+
+    await this.loginProtection.recordSuccess(email);
 
     this.logger.log(`User logged in: ${user.id}`);
 
-    return {
-      ...tokens,
-      user: this.sanitizeUser(user),
-      expiresIn: 15 * 60, // 15 minutes in seconds
-    };
+    return this.issueTokens(user, ipAddress, userAgent);
+  }
+
+  /**
+   * Complete a login with the second factor
+   *
+   * The challenge is single use and dropped after too many wrong codes.
+   * When the user's role requires 2FA and they hadn't enrolled, the code
+   * confirms the enrollment started with startMfaEnrollment, and the
+   * response includes the new recovery codes.
+   *
+   * @param mfaLoginDto - Challenge token and TOTP or recovery code
+   * @param ipAddress - User's IP address
+   * @param userAgent - User's browser/client info
+   * @returns AuthResponseDto with tokens and user info
+   * @throws UnauthorizedException if the challenge or code is invalid
+   * @throws HttpException 429 if the account was locked meanwhile
+   */
+  async loginWithMfa(
+    mfaLoginDto: MfaLoginDto,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<MfaLoginResponseDto> {
+    const { key, challenge } = await this.getMfaChallenge(mfaLoginDto.mfaToken);
+    const user = await this.usersService.findOne(challenge.userId);
+
+    await this.loginProtection.assertAllowed(user.email, ipAddress);
+
+    let recoveryCodes: string[] | undefined;
+    let accepted: boolean;
+
+    if (challenge.enrollmentRequired) {
+      try {
+        recoveryCodes = await this.twoFactorService.confirmEnrollment(user.id, mfaLoginDto.code);
+        accepted = true;
+      } catch (error) {
+        if (!(error instanceof UnauthorizedException)) {
+          throw error;
+        }
+        accepted = false;
+      }
+    } else {
+      accepted = await this.twoFactorService.verify(user.id, mfaLoginDto.code);
+    }
+
+    if (!accepted) {
+      await this.recordFailedMfaAttempt(key);
+      await this.loginProtection.recordFailure(user.email, user.id, ipAddress);
+      this.logger.warn(`Failed 2FA attempt for user: ${user.id}`);
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+
+    // Single use: only one request can complete the challenge
+    if (!(await this.cacheService.delete(key))) {
+      throw new UnauthorizedException('Invalid or expired MFA token');
+    }
+    await this.cacheService.delete(this.mfaAttemptsKey(key));
+
+    await this.loginProtection.recordSuccess(user.email);
+
+    this.logger.log(`User logged in with 2FA: ${user.id}`);
+
+    const response = await this.issueTokens(user, ipAddress, userAgent);
+    return recoveryCodes ? { ...response, recoveryCodes } : response;
+  }
+
+  /**
+   * Start 2FA enrollment during login, for users whose role requires 2FA
+   *
+   * @param mfaToken - Challenge token from the first login step
+   * @returns Secret and otpauth URI
+   * @throws UnauthorizedException if the challenge is invalid
+   * @throws BadRequestException if the challenge doesn't require enrollment
+   */
+  async startMfaEnrollment(mfaToken: string): Promise<TwoFactorEnrollmentResponseDto> {
+    const { challenge } = await this.getMfaChallenge(mfaToken);
+
+    if (!challenge.enrollmentRequired) {
+      throw new BadRequestException('Two-factor authentication is already enabled');
+    }
+
+    const user = await this.usersService.findOne(challenge.userId);
+
+    return this.twoFactorService.startEnrollment(user.id, user.email);
   }
 
   /**
@@ -115,13 +249,14 @@ export class AuthService {
    * @param registerDto - Registration data
    * @param ipAddress - User's IP address
    * @param userAgent - User's browser/client info
-   * @returns AuthResponseDto with tokens and user info
+   * @returns AuthResponseDto with tokens and user info, or an MFA challenge
+   *   when the role requires 2FA
    */
   async register(
     registerDto: RegisterDto,
     ipAddress?: string,
     userAgent?: string,
-  ): Promise<AuthResponseDto> {
+  ): Promise<AuthResponseDto | MfaChallengeResponseDto> {
     // Check if user already exists
     const existingUser = await this.usersService.findByEmail(registerDto.email);
 
@@ -132,22 +267,16 @@ export class AuthService {
     // Create user
     const user = await this.usersService.create(registerDto);
 
-    // Generate token pair
-    const tokens = await this.generateTokenPair(
-      user.id,
-      user.email,
-      user.role,
-      ipAddress,
-      userAgent,
-    );
-
     this.logger.log(`New user registered: ${user.id}`);
 
-    return {
-      ...tokens,
-      user: this.sanitizeUser(user),
-      expiresIn: 15 * 60,
-    };
+    // Best effort: the user can ask for another link
+    try {
+      await this.sendVerificationEmail(user.id);
+    } catch (error) {
+      this.logger.error(`Failed to send verification email to user ${user.id}: ${error}`);
+    }
+
+    return (await this.checkSecondFactor(user)) ?? this.issueTokens(user, ipAddress, userAgent);
   }
 
   /**
@@ -201,6 +330,12 @@ export class AuthService {
       throw new UnauthorizedException('Refresh token expired');
     }
 
+    // Issued before the user's tokens were revoked (e.g. password or role change)
+    if (storedToken.tokenVersion < storedToken.user.tokenVersion) {
+      await this.revokeTokenFamily(storedToken.tokenFamily);
+      throw new UnauthorizedException('Token has been revoked. Please login again.');
+    }
+
     // Get user from token
     const user = storedToken.user;
 
@@ -232,9 +367,16 @@ export class AuthService {
   /**
    * Logout user by revoking refresh token
    * 
+   * The access token the request was made with, if any, is denylisted too.
+   *
    * @param refreshToken - Refresh token to revoke
+   * @param accessToken - Access token to revoke (optional)
    */
-  async logout(refreshToken: string): Promise<void> {
+  async logout(refreshToken: string, accessToken?: string): Promise<void> {
+    if (accessToken) {
+      await this.revokeAccessToken(accessToken);
+    }
+
     const tokenHash = this.hashToken(refreshToken);
 
     const storedToken = await this.refreshTokenRepository.findOne({
@@ -251,7 +393,10 @@ export class AuthService {
   }
 
   /**
-   * Revoke all refresh tokens for a user (logout from all devices)
+   * Revoke all tokens for a user (logout from all devices)
+   *
+   * Refresh tokens are revoked in the database; access tokens by bumping
+   * the user's token version.
    * 
    * @param userId - User ID
    */
@@ -260,6 +405,7 @@ export class AuthService {
       { userId, isRevoked: false },
       { isRevoked: true, revokedAt: new Date() },
     );
+    await this.usersService.incrementTokenVersion(userId);
 
     // Clear user cache to force re-authentication
     await this.cacheService.delete(`user:${userId}`);
@@ -267,6 +413,219 @@ export class AuthService {
     this.logger.log(`All tokens revoked for user: ${userId}`);
   }
 
+  /**
+   * Email a link to verify the user's address
+   *
+   * Any earlier unused verification link stops working.
+   *
+   * @param userId - User ID
+   * @throws BadRequestException if the email is already verified
+   */
+  async sendVerificationEmail(userId: string): Promise<void> {
+    const user = await this.usersService.findOne(userId);
+
+    if (user.emailVerifiedAt) {
+      throw new BadRequestException('Email is already verified');
+    }
+
+    const token = await this.issueAccountToken(
+      user,
+      AccountTokenType.EMAIL_VERIFICATION,
+      this.emailVerificationExpiry,
+    );
+
+    await this.mailService.send({
+      to: user.email,
+      ...AccountEmailTemplates.emailVerification(
+        user.name,
+        this.mailService.link(`/verify-email?token=${token}`),
+        this.emailVerificationExpiry / 3600,
+      ),
+    });
+
+    this.logger.log(`Verification email sent to user: ${user.id}`);
+  }
+
+  /**
+   * Verify an email address with the token from the verification email
+   *
+   * @param token - Verification token
+   * @throws BadRequestException if the token is invalid, used, expired or
+   *   was sent to an address the user no longer has
+   */
+  async verifyEmail(token: string): Promise<void> {
+    const accountToken = await this.consumeAccountToken(token, AccountTokenType.EMAIL_VERIFICATION);
+    const user = await this.usersService.findOne(accountToken.userId);
+
+    if (user.email !== accountToken.email) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    await this.usersService.markEmailVerified(user.id);
+    await this.cacheService.delete(`user:${user.id}`);
+
+    this.logger.log(`Email verified for user: ${user.id}`);
+  }
+
+  /**
+   * Email a password reset link
+   *
+   * Security: Completes silently for unknown addresses (no email enumeration)
+   *
+   * @param email - Account email
+   */
+  async forgotPassword(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+
+    if (!user) {
+      this.logger.warn(`Password reset requested for unknown email: ${email}`);
+      return;
+    }
+
+    const token = await this.issueAccountToken(
+      user,
+      AccountTokenType.PASSWORD_RESET,
+      this.passwordResetExpiry,
+    );
+
+    try {
+      await this.mailService.send({
+        to: user.email,
+        ...AccountEmailTemplates.passwordReset(
+          user.name,
+          this.mailService.link(`/reset-password?token=${token}`),
+          this.passwordResetExpiry / 60,
+        ),
+      });
+    } catch (error) {
+      // Not surfaced: the response must not differ for known addresses
+      this.logger.error(`Failed to send password reset email to user ${user.id}: ${error}`);
+      return;
+    }
+
+    this.logger.log(`Password reset email sent to user: ${user.id}`);
+  }
+
+  /**
+   * Set a new password with the token from the reset email
+   *
+   * All refresh tokens are revoked, signing the user out everywhere. The
+   * link proves the user owns the address, so it is marked verified and a
+   * lockout is lifted.
+   *
+   * @param resetPasswordDto - Reset token and new password
+   * @throws BadRequestException if the token is invalid, used or expired
+   */
+  async resetPassword(resetPasswordDto: ResetPasswordDto): Promise<void> {
+    const accountToken = await this.consumeAccountToken(
+      resetPasswordDto.token,
+      AccountTokenType.PASSWORD_RESET,
+    );
+    const user = await this.usersService.findOne(accountToken.userId);
+
+    if (user.email !== accountToken.email) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    await this.usersService.setPassword(user.id, resetPasswordDto.password);
+
+    if (!user.emailVerifiedAt) {
+      await this.usersService.markEmailVerified(user.id);
+    }
+
+    // Other reset links sent before this one stop working too
+    await this.accountTokenRepository.delete({
+      userId: user.id,
+      type: AccountTokenType.PASSWORD_RESET,
+      usedAt: IsNull(),
+    });
+
+    try {
+      await this.loginProtection.unlock(user, { reason: 'password_reset' });
+    } catch (error) {
+      this.logger.error(`Failed to unlock user ${user.id} after password reset: ${error}`);
+    }
+
+    await this.revokeAllUserTokens(user.id);
+
+    this.logger.log(`Password reset for user: ${user.id}`);
+  }
+
+  /**
+   * List a user's active sessions, most recently used first
+   *
+   * Rotation leaves one valid refresh token per active family; its IP and
+   * user agent are those of the session's latest login or refresh.
+   *
+   * @param userId - User ID
+   * @param currentSessionId - Session of the request (`sid` claim), if known
+   * @returns Active sessions
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionResponseDto[]> {
+    const tokens = await this.refreshTokenRepository.find({
+      where: { userId, isRevoked: false, expiresAt: MoreThan(new Date()) },
+      order: { createdAt: 'DESC' },
+    });
+
+    // Keep the newest token per family
+    const latest = new Map<string, RefreshToken>();
+    for (const token of tokens) {
+      if (token.tokenFamily && !latest.has(token.tokenFamily)) {
+        latest.set(token.tokenFamily, token);
+      }
+    }
+
+    if (latest.size === 0) {
+      return [];
+    }
+
+    // A family's first token was issued at login
+    const starts = await this.refreshTokenRepository
+      .createQueryBuilder('token')
+      .select('token.tokenFamily', 'family')
+      .addSelect('MIN(token.createdAt)', 'startedAt')
+      .where({ userId, tokenFamily: In([...latest.keys()]) })
+      .groupBy('token.tokenFamily')
+      .getRawMany<{ family: string; startedAt: Date }>();
+    const startedAt = new Map(starts.map(row => [row.family, new Date(row.startedAt)]));
+
+    return [...latest.values()].map(token => ({
+      id: token.tokenFamily,
+      device: this.describeDevice(token.userAgent),
+      userAgent: token.userAgent ?? null,
+      ipAddress: token.ipAddress ?? null,
+      createdAt: startedAt.get(token.tokenFamily) ?? token.createdAt,
+      lastUsedAt: token.createdAt,
+      expiresAt: token.expiresAt,
+      current: token.tokenFamily === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke one of a user's sessions (log out a device)
+   *
+   * The session's refresh token and the access tokens already issued to it
+   * stop working immediately.
+   *
+   * @param userId - User ID
+   * @param sessionId - Session ID (token family)
+   * @throws NotFoundException if the user has no such active session
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const result = await this.refreshTokenRepository.update(
+      { userId, tokenFamily: sessionId, isRevoked: false },
+      { isRevoked: true, revokedAt: new Date() },
+    );
+
+    if (!result.affected) {
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.tokenRevocationService.revokeSession(sessionId, 15 * 60); // Access token lifetime
+
+    this.logger.log(`Session ${sessionId} revoked by user: ${userId}`);
+  }
+
   /**
    * Validate user for JWT strategy
    * Uses caching to reduce DB queries
@@ -317,6 +676,115 @@ export class AuthService {
     return requiredRoles.includes(user.role);
   }
 
+  /**
+   * Issue a token pair for a new session
+   *
+   * @param user - Authenticated user
+   * @param ipAddress - IP address
+   * @param userAgent - User agent
+   * @returns AuthResponseDto with tokens and user info
+   */
+  private async issueTokens(
+    user: { id: string; email: string; role: string },
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<AuthResponseDto> {
+    const tokens = await this.generateTokenPair(
+      user.id,
+      user.email,
+      user.role,
+      ipAddress,
+      userAgent,
+    );
+
+    return {
+      ...tokens,
+      user: this.sanitizeUser(user),
+      expiresIn: 15 * 60, // 15 minutes in seconds
+    };
+  }
+
+  /**
+   * Create an MFA challenge if the user needs a second factor
+   *
+   * @param user - User who passed the password check
+   * @returns Challenge, or null if tokens can be issued directly
+   */
+  private async checkSecondFactor(user: {
+    id: string;
+    role: string;
+  }): Promise<MfaChallengeResponseDto | null> {
+    const enabled = await this.twoFactorService.isEnabled(user.id);
+    const enrollmentRequired = !enabled && (await this.twoFactorService.isRequired(user.role));
+
+    if (!enabled && !enrollmentRequired) {
+      return null;
+    }
+
+    const mfaToken = this.generateSecureToken();
+    const challenge: MfaChallenge = { userId: user.id, enrollmentRequired };
+    const key = this.mfaChallengeKey(mfaToken);
+
+    // Wrong codes are counted separately, so concurrent attempts can't overwrite the count
+    await this.cacheService.set(key, challenge, this.mfaChallengeExpiry);
+    await this.cacheService.set(this.mfaAttemptsKey(key), 0, this.mfaChallengeExpiry);
+
+    return {
+      mfaRequired: true,
+      mfaToken,
+      expiresIn: this.mfaChallengeExpiry,
+      enrollmentRequired,
+    };
+  }
+
+  /**
+   * Look up an MFA challenge
+   *
+   * @param mfaToken - Challenge token
+   * @returns Cache key and challenge
+   * @throws UnauthorizedException if the challenge is unknown or expired
+   */
+  private async getMfaChallenge(
+    mfaToken: string,
+  ): Promise<{ key: string; challenge: MfaChallenge }> {
+    const key = this.mfaChallengeKey(mfaToken);
+    const challenge = await this.cacheService.get<MfaChallenge>(key);
+
+    if (!challenge) {
+      throw new UnauthorizedException('Invalid or expired MFA token');
+    }
+
+    return { key, challenge };
+  }
+
+  /**
+   * Count a wrong code, dropping the challenge after too many
+   *
+   * The counter is incremented atomically (INCR keeps its expiry), so
+   * concurrent wrong codes are all counted.
+   *
+   * @param key - Challenge cache key
+   * @throws Error if the attempt couldn't be counted
+   */
+  private async recordFailedMfaAttempt(key: string): Promise<void> {
+    const attemptsKey = this.mfaAttemptsKey(key);
+    const attempts = await this.cacheService.increment(attemptsKey);
+
+    // No expiry means the counter was missing and INCR started it over
+    if (attempts >= this.maxMfaAttempts || (await this.cacheService.getTTL(attemptsKey)) < 0) {
+      await this.cacheService.delete(key);
+      await this.cacheService.delete(attemptsKey);
+    }
+  }
+
+  private mfaChallengeKey(mfaToken: string): string {
+    return `mfa-challenge:${this.hashToken(mfaToken)}`;
+  }
+
+  private mfaAttemptsKey(challengeKey: string): string {
+    return `${challengeKey}:attempts`;
+  }
+
   /**
    * Generate access and refresh token pair
    * 
@@ -336,11 +804,20 @@ export class AuthService {
     userAgent?: string,
     tokenFamily?: string,
   ): Promise<{ accessToken: string; refreshToken: string }> {
+    // Create or use existing token family
+    const family = tokenFamily || crypto.randomUUID();
+
+    // Tokens issued with an older version are revoked
+    const version = await this.usersService.getTokenVersion(userId);
+
     // Generate access token (short-lived, stateless)
     const accessTokenPayload = {
       sub: userId,
       email,
       role,
+      sid: family, // Session (token family) the token was issued to
+      jti: crypto.randomUUID(), // Token ID, for denylisting
+      ver: version,
     };
 
     const accessToken = this.jwtService.sign(accessTokenPayload, {
@@ -351,9 +828,6 @@ export class AuthService {
     const refreshToken = this.generateSecureToken();
     const tokenHash = this.hashToken(refreshToken);
 
-    // Create or use existing token family
-    const family = tokenFamily || crypto.randomUUID();
-
     // Calculate expiration date
     const expiresAt = new Date();
     expiresAt.setSeconds(expiresAt.getSeconds() + this.refreshTokenExpiry);
@@ -364,6 +838,7 @@ export class AuthService {
       userId,
       expiresAt,
       tokenFamily: family,
+      tokenVersion: version,
       ipAddress,
       userAgent,
     });
@@ -373,6 +848,68 @@ export class AuthService {
     return { accessToken, refreshToken };
   }
 
+  /**
+   * Create a single-use account token, replacing the user's unused ones of the type
+   *
+   * @param user - User the token is for
+   * @param type - Token type
+   * @param expiresInSeconds - Lifetime
+   * @returns Plain token (only its hash is stored)
+   */
+  private async issueAccountToken(
+    user: { id: string; email: string },
+    type: AccountTokenType,
+    expiresInSeconds: number,
+  ): Promise<string> {
+    await this.accountTokenRepository.delete({ userId: user.id, type, usedAt: IsNull() });
+
+    const token = this.generateSecureToken();
+    const expiresAt = new Date();
+    expiresAt.setSeconds(expiresAt.getSeconds() + expiresInSeconds);
+
+    await this.accountTokenRepository.save(
+      this.accountTokenRepository.create({
+        tokenHash: this.hashToken(token),
+        userId: user.id,
+        type,
+        email: user.email,
+        expiresAt,
+      }),
+    );
+
+    return token;
+  }
+
+  /**
+   * Redeem an account token (one-time use)
+   *
+   * @param token - Plain token
+   * @param type - Expected token type
+   * @returns The redeemed token
+   * @throws BadRequestException if the token is invalid, used or expired
+   */
+  private async consumeAccountToken(token: string, type: AccountTokenType): Promise<AccountToken> {
+    const accountToken = await this.accountTokenRepository.findOne({
+      where: { tokenHash: this.hashToken(token), type },
+    });
+
+    if (!accountToken || accountToken.usedAt || accountToken.expiresAt <= new Date()) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    // Conditional update: of two concurrent requests only one succeeds
+    const result = await this.accountTokenRepository.update(
+      { id: accountToken.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+
+    if (!result.affected) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    return accountToken;
+  }
+
   /**
    * Generate cryptographically secure random token
    * 
@@ -393,6 +930,25 @@ export class AuthService {
     return crypto.createHash('sha256').update(token).digest('hex');
   }
 
+  /**
+   * Denylist an access token until it expires
+   *
+   * Tokens that don't verify (expired, forged) are ignored.
+   *
+   * @param accessToken - Access token
+   */
+  private async revokeAccessToken(accessToken: string): Promise<void> {
+    let claims: RevocableTokenClaims;
+
+    try {
+      claims = this.jwtService.verify<RevocableTokenClaims>(accessToken);
+    } catch {
+      return;
+    }
+
+    await this.tokenRevocationService.revokeToken(claims);
+  }
+
   /**
    * Revoke all tokens in a family (used when theft is detected)
    * 
@@ -407,6 +963,45 @@ export class AuthService {
     this.logger.warn(`Token family revoked: ${tokenFamily}`);
   }
 
+  /**
+   * Summarize a user agent as "<browser> on <OS>" for session lists
+   *
+   * @param userAgent - User agent header
+   * @returns Device summary
+   */
+  private describeDevice(userAgent?: string | null): string {
+    if (!userAgent) {
+      return 'Unknown device';
+    }
+
+    // Order matters: Edge and Opera also send "Chrome", Chrome also sends "Safari"
+    const browsers: [RegExp, string][] = [
+      [/Edg(e|A|iOS)?\//, 'Edge'],
+      [/OPR\/|Opera/, 'Opera'],
+      [/Firefox\/|FxiOS\//, 'Firefox'],
+      [/Chrome\/|CriOS\//, 'Chrome'],
+      [/Safari\//, 'Safari'],
+    ];
+    const systems: [RegExp, string][] = [
+      [/Windows/, 'Windows'],
+      [/Android/, 'Android'],
+      [/iPhone|iPad|iPod/, 'iOS'],
+      [/Mac OS X|Macintosh/, 'macOS'],
+      [/CrOS/, 'ChromeOS'],
+      [/Linux/, 'Linux'],
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && system) {
+      return `${browser} on ${system}`;
+    }
+
+    // Non-browser clients (e.g. "curl/8.4.0"): use the product name
+    return browser || system || userAgent.split(/[/\s]/)[0] || 'Unknown device';
+  }
+
   /**
    * Remove sensitive data from user object
    * 
@@ -419,6 +1014,7 @@ export class AuthService {
       email: user.email,
       name: user.name,
       role: user.role,
+      emailVerified: !!user.emailVerifiedAt,
     };
   }
 
@@ -437,6 +1033,9 @@ export class AuthService {
       this.logger.log(`Cleaned up ${count} expired refresh tokens`);
     }
 
+    // Expired email links are of no use either
+    await this.accountTokenRepository.delete({ expiresAt: LessThan(new Date()) });
+
     return count;
   }
 } 
\ No newline at end of file
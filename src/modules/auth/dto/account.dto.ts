@@ -0,0 +1,38 @@
+import { IsEmail, IsNotEmpty, IsString, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for email verification
+ */
+export class VerifyEmailDto {
+  @ApiProperty({ description: 'Token from the verification email' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
+
+/**
+ * DTO for forgot password requests
+ */
+export class ForgotPasswordDto {
+  @ApiProperty({ example: 'john.doe@example.com' })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+}
+
+/**
+ * DTO for password resets
+ */
+export class ResetPasswordDto {
+  @ApiProperty({ description: 'Token from the password reset email' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @ApiProperty({ example: 'NewPassword123!' })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(6)
+  password: string;
+}
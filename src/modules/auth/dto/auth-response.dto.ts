@@ -16,6 +16,9 @@ export class UserResponseDto {
 
   @ApiProperty({ example: 'user' })
   role: string;
+
+  @ApiProperty({ example: false, description: 'Whether the email address has been verified' })
+  emailVerified: boolean;
 }
 
 /**
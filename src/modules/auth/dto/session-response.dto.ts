@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Active session (refresh token family) returned by GET /auth/sessions
+ */
+export class SessionResponseDto {
+  @ApiProperty({
+    example: '3f2b9c1e-8a4d-4f6e-9b7a-2c5d8e1f0a3b',
+    description: 'Session ID (token family); stays the same across refreshes',
+  })
+  id: string;
+
+  @ApiProperty({ example: 'Chrome on macOS', description: 'Device summary from the user agent' })
+  device: string;
+
+  @ApiProperty({ example: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) ...', nullable: true })
+  userAgent: string | null;
+
+  @ApiProperty({ example: '203.0.113.7', nullable: true, description: 'IP of the last refresh' })
+  ipAddress: string | null;
+
+  @ApiProperty({ description: 'When the session was started (login or registration)' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'When the session last obtained tokens' })
+  lastUsedAt: Date;
+
+  @ApiProperty({ description: 'When the session expires unless refreshed' })
+  expiresAt: Date;
+
+  @ApiProperty({ description: 'Whether this is the session making the request' })
+  current: boolean;
+}
@@ -0,0 +1,104 @@
+import { ArrayUnique, IsArray, IsIn, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AuthResponseDto } from './auth-response.dto';
+
+// User roles 2FA can be required for
+export const TWO_FACTOR_ROLES = ['admin', 'user'];
+
+/**
+ * DTO for requests confirmed with a second factor
+ */
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    example: '123456',
+    description: 'Code from the authenticator app, or an unused recovery code',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  code: string;
+}
+
+/**
+ * DTO for the second login step
+ */
+export class MfaLoginDto extends TwoFactorCodeDto {
+  @ApiProperty({ description: 'Challenge token returned by the first login step' })
+  @IsString()
+  @IsNotEmpty()
+  mfaToken: string;
+}
+
+/**
+ * DTO for starting enrollment during login (when the role requires 2FA)
+ */
+export class MfaTokenDto {
+  @ApiProperty({ description: 'Challenge token returned by the first login step' })
+  @IsString()
+  @IsNotEmpty()
+  mfaToken: string;
+}
+
+/**
+ * DTO for setting the roles that require 2FA
+ */
+export class TwoFactorPolicyDto {
+  @ApiProperty({ example: ['admin'], enum: TWO_FACTOR_ROLES, isArray: true })
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(TWO_FACTOR_ROLES, { each: true })
+  requiredRoles: string[];
+}
+
+/**
+ * First login step response when a second factor is needed
+ */
+export class MfaChallengeResponseDto {
+  @ApiProperty({ example: true })
+  mfaRequired: true;
+
+  @ApiProperty({ description: 'Short-lived token for the second login step' })
+  mfaToken: string;
+
+  @ApiProperty({ example: 300, description: 'Challenge expiration time in seconds' })
+  expiresIn: number;
+
+  @ApiProperty({
+    example: false,
+    description: 'The role requires 2FA and the user must enroll before logging in',
+  })
+  enrollmentRequired: boolean;
+}
+
+/**
+ * Enrollment secret, shown once
+ */
+export class TwoFactorEnrollmentResponseDto {
+  @ApiProperty({ example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP', description: 'Base32 secret' })
+  secret: string;
+
+  @ApiProperty({
+    example: 'otpauth://totp/TaskFlow:john.doe%40example.com?secret=JBSWY3DPEHPK3PXP...',
+    description: 'URI for authenticator apps, usually shown as a QR code',
+  })
+  otpauthUri: string;
+}
+
+/**
+ * Recovery codes, shown once
+ */
+export class RecoveryCodesResponseDto {
+  @ApiProperty({ example: ['k7m2p-x9q4r', 'a3bcd-efg56'], type: [String] })
+  recoveryCodes: string[];
+}
+
+/**
+ * Second login step response
+ */
+export class MfaLoginResponseDto extends AuthResponseDto {
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Recovery codes, when the login completed a required enrollment',
+  })
+  recoveryCodes?: string[];
+}
@@ -0,0 +1,55 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { AccountTokenType } from '../enums/account-token-type.enum';
+
+/**
+ * Account Token Entity
+ *
+ * Single-use tokens sent by email to verify an address or reset a password.
+ *
+ * Security features:
+ * - Hashed token storage, like refresh tokens
+ * - Short expiration per type
+ * - Marked used when redeemed; issuing a new token of the same type
+ *   removes the user's unused ones
+ */
+@Entity('account_tokens')
+@Index('IDX_account_tokens_user_type', ['userId', 'type'])
+export class AccountToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'token_hash', unique: true })
+  tokenHash: string;
+
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 30 })
+  type: AccountTokenType;
+
+  // Address the token was sent to; verification fails if the email changed since
+  @Column()
+  email: string;
+
+  @Column({ name: 'expires_at' })
+  expiresAt: Date;
+
+  @Column({ name: 'used_at', type: 'timestamp', nullable: true })
+  usedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
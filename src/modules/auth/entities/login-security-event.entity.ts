@@ -0,0 +1,55 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { LoginSecurityEventType } from '../enums/login-security-event-type.enum';
+
+/**
+ * Login Security Event Entity
+ *
+ * Audit record of login protection actions: account lockouts and unlocks,
+ * and IPs blocked for trying many accounts. Failed attempts themselves are
+ * only counted in Redis.
+ */
+@Entity('login_security_events')
+@Index('IDX_login_security_events_user_created', ['userId', 'createdAt'])
+@Index('IDX_login_security_events_created', ['createdAt'])
+export class LoginSecurityEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 30 })
+  type: LoginSecurityEventType;
+
+  // Affected account; null for IP blocks
+  @Column({ name: 'user_id', type: 'uuid', nullable: true })
+  userId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  // Admin who unlocked the account; null for automatic events
+  @Column({ name: 'actor_id', type: 'uuid', nullable: true })
+  actorId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'actor_id' })
+  actor: User | null;
+
+  @Column({ name: 'ip_address', type: 'varchar', nullable: true })
+  ipAddress: string | null;
+
+  // Type-specific details, e.g. { failures, level, lockedUntil } for lockouts
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  data: Record<string, unknown>;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -50,6 +50,9 @@ export class RefreshToken {
   @Column({ name: 'replaced_by_token', nullable: true })
   replacedByToken: string; // Points to the new token after rotation
 
+  @Column({ name: 'token_version', default: 0 })
+  tokenVersion: number; // User's token version at issue; older versions are revoked
+
   @Column({ name: 'user_agent', nullable: true, length: 500 })
   userAgent: string; // Browser/client information
 
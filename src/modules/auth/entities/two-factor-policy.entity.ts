@@ -0,0 +1,20 @@
+import { CreateDateColumn, Column, Entity, PrimaryColumn } from 'typeorm';
+
+/**
+ * Two-Factor Policy Entity
+ *
+ * Roles whose users must use 2FA; one row per role. Users of a listed
+ * role who haven't enrolled are made to enroll at their next login.
+ */
+@Entity('two_factor_policies')
+export class TwoFactorPolicy {
+  @PrimaryColumn({ length: 50 })
+  role: string;
+
+  // Admin who required it
+  @Column({ name: 'created_by', type: 'uuid', nullable: true })
+  createdBy: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
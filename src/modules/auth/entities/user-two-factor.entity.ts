@@ -0,0 +1,57 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  OneToOne,
+  PrimaryColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * User Two-Factor Entity
+ *
+ * A user's TOTP enrollment. The row is created when enrollment starts and
+ * 2FA is enabled once a first code confirms it (enabledAt set).
+ *
+ * Security features:
+ * - Secret and recovery code hashes are never selected by default
+ * - Recovery codes are stored as SHA-256 hashes and removed when used
+ * - The last accepted time step blocks replay of a code within its window
+ */
+@Entity('user_two_factor')
+export class UserTwoFactor {
+  @PrimaryColumn({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ select: false })
+  secret: string; // Base32 TOTP secret
+
+  @Column({
+    name: 'recovery_code_hashes',
+    type: 'varchar',
+    array: true,
+    select: false,
+    default: '{}',
+  })
+  recoveryCodeHashes: string[];
+
+  // Last TOTP time step accepted; codes at or before it are rejected
+  @Column({ name: 'last_used_step', type: 'bigint', nullable: true })
+  lastUsedStep: string | null;
+
+  // Null while enrollment is unconfirmed
+  @Column({ name: 'enabled_at', type: 'timestamp', nullable: true })
+  enabledAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,4 @@
+export enum AccountTokenType {
+  EMAIL_VERIFICATION = 'email_verification',
+  PASSWORD_RESET = 'password_reset',
+}
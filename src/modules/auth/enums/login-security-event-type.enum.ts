@@ -0,0 +1,6 @@
+export enum LoginSecurityEventType {
+  ACCOUNT_LOCKED = 'account_locked',
+  ACCOUNT_UNLOCKED = 'account_unlocked',
+  // An IP failed logins for too many different accounts (credential stuffing)
+  IP_BLOCKED = 'ip_blocked',
+}
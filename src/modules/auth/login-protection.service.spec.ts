@@ -0,0 +1,317 @@
+import { HttpException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bullmq';
+import Redis from 'ioredis';
+import { Repository } from 'typeorm';
+import { LoginProtectionService } from './login-protection.service';
+import { LoginSecurityEvent } from './entities/login-security-event.entity';
+import { LoginSecurityEventType } from './enums/login-security-event-type.enum';
+import { UsersService } from '../users/users.service';
+
+/**
+ * The Redis commands the service uses, kept in memory
+ *
+ * Expiry follows the fake clock (`now`), so tests can move past windows and
+ * lockouts without waiting.
+ */
+class InMemoryRedis {
+  now = Date.now();
+
+  private readonly values = new Map<string, string | Map<string, number>>();
+  private readonly expiries = new Map<string, number>();
+
+  async ttl(key: string): Promise<number> {
+    if (!this.exists(key)) {
+      return -2;
+    }
+    const expiry = this.expiries.get(key);
+    return expiry === undefined ? -1 : Math.ceil((expiry - this.now) / 1000);
+  }
+
+  // The only script is the failure counter: INCR, then EXPIRE on the first failure
+  async eval(_script: string, _keys: number, key: string, seconds: string): Promise<number> {
+    const count = await this.incr(key);
+    if (count === 1) {
+      await this.expire(key, parseInt(seconds, 10));
+    }
+    return count;
+  }
+
+  async incr(key: string): Promise<number> {
+    const value = parseInt((this.get(key) as string) ?? '0', 10) + 1;
+    this.values.set(key, value.toString());
+    return value;
+  }
+
+  async decr(key: string): Promise<number> {
+    const value = parseInt((this.get(key) as string) ?? '0', 10) - 1;
+    this.values.set(key, value.toString());
+    return value;
+  }
+
+  async expire(key: string, seconds: number): Promise<number> {
+    if (!this.exists(key)) {
+      return 0;
+    }
+    this.expiries.set(key, this.now + seconds * 1000);
+    return 1;
+  }
+
+  async set(key: string, value: string, _ex: 'EX', seconds: number, _nx: 'NX') {
+    if (this.exists(key)) {
+      return null;
+    }
+    this.values.set(key, value);
+    this.expiries.set(key, this.now + seconds * 1000);
+    return 'OK';
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    const removed = keys.filter(key => this.exists(key));
+    keys.forEach(key => {
+      this.values.delete(key);
+      this.expiries.delete(key);
+    });
+    return removed.length;
+  }
+
+  async zremrangebyscore(key: string, _min: string, max: number): Promise<number> {
+    const members = this.zset(key);
+    const removed = [...members].filter(([, score]) => score <= max);
+    removed.forEach(([member]) => members.delete(member));
+    return removed.length;
+  }
+
+  async zadd(key: string, score: number, member: string): Promise<number> {
+    const members = this.zset(key);
+    const added = members.has(member) ? 0 : 1;
+    members.set(member, score);
+    this.values.set(key, members);
+    return added;
+  }
+
+  async zcard(key: string): Promise<number> {
+    return this.zset(key).size;
+  }
+
+  /**
+   * Queue commands and run them in order on exec, like a MULTI transaction
+   */
+  multi() {
+    const commands: (() => Promise<unknown>)[] = [];
+    const transaction = new Proxy({} as Record<string, unknown>, {
+      get: (_target, command: string) => {
+        if (command === 'exec') {
+          return async () => {
+            const results: [null, unknown][] = [];
+            for (const run of commands) {
+              results.push([null, await run()]);
+            }
+            return results;
+          };
+        }
+        return (...args: unknown[]) => {
+          const method = this[command as keyof this] as (...args: unknown[]) => Promise<unknown>;
+          commands.push(() => method.apply(this, args));
+          return transaction;
+        };
+      },
+    });
+    return transaction;
+  }
+
+  private exists(key: string): boolean {
+    const expiry = this.expiries.get(key);
+    if (expiry !== undefined && expiry <= this.now) {
+      this.values.delete(key);
+      this.expiries.delete(key);
+    }
+    return this.values.has(key);
+  }
+
+  private get(key: string) {
+    return this.exists(key) ? this.values.get(key) : undefined;
+  }
+
+  private zset(key: string): Map<string, number> {
+    return (this.get(key) as Map<string, number>) ?? new Map();
+  }
+}
+
+describe('LoginProtectionService', () => {
+  const userId = '0b6f1c8e-2f5a-4c1d-9a7e-3d2b1c0a9f8e';
+  const email = 'alice@example.com';
+  const ipAddress = '203.0.113.7';
+
+  let redis: InMemoryRedis;
+  let events: Partial<LoginSecurityEvent>[];
+  let jobs: { name: string; data: Record<string, unknown> }[];
+  let service: LoginProtectionService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    redis = new InMemoryRedis();
+    events = [];
+    jobs = [];
+
+    const configService = new ConfigService({
+      lockout: {
+        maxFailures: 3,
+        windowSeconds: 900,
+        durationsMinutes: [5, 15],
+        ipMaxAccounts: 2,
+        ipBlockSeconds: 3600,
+      },
+    });
+    const eventsRepository = {
+      create: (event: Partial<LoginSecurityEvent>) => event,
+      save: async (event: Partial<LoginSecurityEvent>) => events.push(event),
+    } as unknown as Repository<LoginSecurityEvent>;
+    const queue = {
+      add: async (name: string, data: Record<string, unknown>) => jobs.push({ name, data }),
+    } as unknown as Queue;
+
+    service = new LoginProtectionService(
+      configService,
+      {} as UsersService,
+      eventsRepository,
+      queue,
+    );
+
+    // Swap the real client for the in-memory one before it connects
+    (service['redis'] as Redis).disconnect();
+    Object.assign(service, { redis });
+  });
+
+  /**
+   * Run assertAllowed and return its 429 response body, or null if allowed
+   */
+  const rejection = async (forEmail = email, fromIp = ipAddress) => {
+    try {
+      await service.assertAllowed(forEmail, fromIp);
+      return null;
+    } catch (error) {
+      expect(error).toBeInstanceOf(HttpException);
+      expect((error as HttpException).getStatus()).toBe(429);
+      return (error as HttpException).getResponse() as { message: string; retryAfter: number };
+    }
+  };
+
+  const fail = async (
+    times: number,
+    forEmail = email,
+    fromIp = ipAddress,
+    id: string | null = userId,
+  ) => {
+    for (let i = 0; i < times; i++) {
+      await service.recordFailure(forEmail, id, fromIp);
+    }
+  };
+
+  it('locks the account after the maximum number of failures', async () => {
+    await fail(2);
+    expect(await rejection()).toBeNull();
+
+    await fail(1);
+
+    // From any IP, and whatever the email's case
+    expect(await rejection(' Alice@Example.com', '198.51.100.1')).toMatchObject({
+      message: 'Account temporarily locked after too many failed logins',
+      retryAfter: 300,
+    });
+    expect(events).toEqual([
+      expect.objectContaining({
+        type: LoginSecurityEventType.ACCOUNT_LOCKED,
+        userId,
+        ipAddress,
+        data: expect.objectContaining({ failures: 3, level: 1 }),
+      }),
+    ]);
+    expect(jobs).toEqual([{ name: 'account-locked', data: expect.objectContaining({ userId }) }]);
+  });
+
+  it('locks progressively longer, repeating the last duration', async () => {
+    await fail(3);
+    redis.now += 5 * 60 * 1000;
+    expect(await rejection()).toBeNull();
+
+    await fail(3);
+    expect((await rejection())?.retryAfter).toBe(15 * 60);
+
+    redis.now += 15 * 60 * 1000;
+    await fail(3);
+    expect((await rejection())?.retryAfter).toBe(15 * 60);
+  });
+
+  it('resets the failure count after a successful login', async () => {
+    await fail(2);
+    await service.recordSuccess(email);
+    await fail(2);
+
+    expect(await rejection()).toBeNull();
+  });
+
+  it('counts failures within the window only', async () => {
+    await fail(2);
+    redis.now += 900 * 1000;
+    await fail(2);
+
+    expect(await rejection()).toBeNull();
+  });
+
+  it('locks unknown emails without recording an event', async () => {
+    await fail(3, 'nobody@example.com', ipAddress, null);
+
+    expect(await rejection('nobody@example.com')).not.toBeNull();
+    expect(events).toEqual([]);
+    expect(jobs).toEqual([]);
+  });
+
+  it('blocks an IP failing logins for too many accounts', async () => {
+    await service.recordFailure('a@example.com', null, ipAddress);
+    await service.recordFailure('b@example.com', null, ipAddress);
+    expect(await rejection('c@example.com')).toBeNull();
+
+    await service.recordFailure('c@example.com', null, ipAddress);
+
+    expect(await rejection('d@example.com')).toMatchObject({
+      message: 'Too many failed logins from this address. Please try again later.',
+      retryAfter: 3600,
+    });
+    expect(await rejection('d@example.com', '198.51.100.1')).toBeNull();
+    expect(events).toEqual([
+      expect.objectContaining({
+        type: LoginSecurityEventType.IP_BLOCKED,
+        ipAddress,
+        data: expect.objectContaining({ accounts: 3 }),
+      }),
+    ]);
+
+    redis.now += 3600 * 1000;
+    expect(await rejection('d@example.com')).toBeNull();
+  });
+
+  it('only counts accounts failed within the window towards an IP block', async () => {
+    await service.recordFailure('a@example.com', null, ipAddress);
+    await service.recordFailure('b@example.com', null, ipAddress);
+    redis.now += 900 * 1000;
+    await service.recordFailure('c@example.com', null, ipAddress);
+
+    expect(await rejection('d@example.com')).toBeNull();
+  });
+
+  it('unlocks the account and resets its lockout level', async () => {
+    await fail(3);
+
+    const unlocked = await service.unlock({ id: userId, email }, { reason: 'password-reset' });
+
+    expect(unlocked).toBe(true);
+    expect(await rejection()).toBeNull();
+
+    await fail(3);
+    expect((await rejection())?.retryAfter).toBe(5 * 60);
+  });
+});
@@ -0,0 +1,418 @@
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { Repository } from 'typeorm';
+import Redis from 'ioredis';
+import * as crypto from 'crypto';
+import { LoginSecurityEvent } from './entities/login-security-event.entity';
+import { LoginSecurityEventType } from './enums/login-security-event-type.enum';
+import { UsersService } from '../users/users.service';
+import { PaginationParams, PaginatedResponse } from '../../common/interfaces/pagination.interface';
+import { PaginationUtil } from '../../common/utils/pagination.util';
+import { RequestContext } from '../../common/context/request-context';
+
+/**
+ * Current lock of an account
+ */
+interface AccountLock {
+  until: string;
+  level: number;
+}
+
+/**
+ * Login Protection Service
+ *
+ * Brute-force and credential-stuffing protection for password logins, on
+ * top of the per-IP rate limit of the login endpoint:
+ * 1. PER-ACCOUNT FAILURES: Failed logins (wrong password or 2FA code) are
+ *    counted per email in Redis, whichever IP they come from
+ * 2. PROGRESSIVE LOCKOUT: Too many failures lock the account; each further
+ *    lockout within a day lasts longer
+ * 3. CREDENTIAL STUFFING: An IP failing logins for many different accounts
+ *    is blocked from logging in
+ * 4. AUDIT: Lockouts, unlocks and IP blocks are recorded as events, and a
+ *    locked user is notified (in-app and email)
+ *
+ * Unknown emails are counted and locked like real accounts, so responses
+ * don't reveal which addresses exist. Like the rate limit guard, checks fail
+ * open if Redis is unavailable.
+ */
+@Injectable()
+export class LoginProtectionService implements OnModuleDestroy {
+  private readonly logger = new Logger(LoginProtectionService.name);
+  private readonly redis: Redis;
+  private readonly keyPrefix = 'login:';
+
+  // Lockout levels are remembered this long after the last lockout
+  private readonly LEVEL_TTL_SECONDS = 24 * 60 * 60;
+
+  private readonly maxFailures: number;
+  private readonly windowSeconds: number;
+  private readonly durationsMinutes: number[];
+  private readonly ipMaxAccounts: number;
+  private readonly ipBlockSeconds: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly usersService: UsersService,
+    @InjectRepository(LoginSecurityEvent)
+    private readonly eventsRepository: Repository<LoginSecurityEvent>,
+    @InjectQueue('task-processing')
+    private readonly taskQueue: Queue,
+  ) {
+    this.maxFailures = this.configService.get<number>('lockout.maxFailures', 5);
+    this.windowSeconds = this.configService.get<number>('lockout.windowSeconds', 900);
+    this.durationsMinutes = this.configService.get<number[]>('lockout.durationsMinutes', [5]);
+    this.ipMaxAccounts = this.configService.get<number>('lockout.ipMaxAccounts', 10);
+    this.ipBlockSeconds = this.configService.get<number>('lockout.ipBlockSeconds', 3600);
+
+    if (this.durationsMinutes.length === 0) {
+      throw new Error('LOCKOUT_DURATIONS_MINUTES must list at least one duration');
+    }
+
+    this.redis = new Redis({
+      host: this.configService.get('redis.host'),
+      port: this.configService.get('redis.port'),
+      password: this.configService.get('redis.password'),
+      db: this.configService.get('redis.db', 0),
+      maxRetriesPerRequest: 3,
+      enableOfflineQueue: false, // Fail fast if Redis is down
+    });
+
+    this.redis.on('error', error => {
+      this.logger.error('Redis login protection client error:', error);
+    });
+  }
+
+  /**
+   * Reject a login attempt from a blocked IP or for a locked account
+   *
+   * Called before the password is checked, so a locked account can't be
+   * used to test passwords. Both rejections answer like the rate limit
+   * guard (429 with retryAfter in seconds).
+   *
+   * @param email - Email being logged into
+   * @param ipAddress - Client IP
+   * @throws HttpException 429 if the IP is blocked or the account is locked
+   */
+  async assertAllowed(email: string, ipAddress?: string): Promise<void> {
+    try {
+      if (ipAddress) {
+        const ipBlockTtl = await this.redis.ttl(this.key('ip-block', this.hash(ipAddress)));
+        if (ipBlockTtl > 0) {
+          throw new HttpException(
+            {
+              statusCode: HttpStatus.TOO_MANY_REQUESTS,
+              message: 'Too many failed logins from this address. Please try again later.',
+              retryAfter: ipBlockTtl,
+            },
+            HttpStatus.TOO_MANY_REQUESTS,
+          );
+        }
+      }
+
+      const lockTtl = await this.redis.ttl(this.key('lock', this.accountKey(email)));
+      if (lockTtl > 0) {
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.TOO_MANY_REQUESTS,
+            message: 'Account temporarily locked after too many failed logins',
+            retryAfter: lockTtl,
+          },
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.error('Login protection check failed, allowing attempt:', error);
+    }
+  }
+
+  /**
+   * Record a failed login, locking the account or blocking the IP when a
+   * threshold is reached
+   *
+   * @param email - Email being logged into
+   * @param userId - Account ID, or null if no account has this email
+   * @param ipAddress - Client IP
+   */
+  async recordFailure(email: string, userId: string | null, ipAddress?: string): Promise<void> {
+    try {
+      const account = this.accountKey(email);
+      const failuresKey = this.key('failures', account);
+
+      // The window starts at the first failure
+      const failures = (await this.redis.eval(
+        `local count = redis.call('INCR', KEYS[1])
+         if count == 1 then redis.call('EXPIRE', KEYS[1], ARGV[1]) end
+         return count`,
+        1,
+        failuresKey,
+        this.windowSeconds.toString(),
+      )) as number;
+
+      if (failures >= this.maxFailures) {
+        await this.lock(account, userId, failures, ipAddress);
+      }
+
+      if (ipAddress) {
+        await this.trackIp(account, ipAddress);
+      }
+    } catch (error) {
+      this.logger.error('Failed to record failed login:', error);
+    }
+  }
+
+  /**
+   * Reset an account's failure count after a complete login
+   *
+   * The lockout level is kept, so an attacker who also knows the password
+   * doesn't reset the progression.
+   *
+   * @param email - Email logged into
+   */
+  async recordSuccess(email: string): Promise<void> {
+    try {
+      await this.redis.del(this.key('failures', this.accountKey(email)));
+    } catch (error) {
+      this.logger.error('Failed to reset failed logins:', error);
+    }
+  }
+
+  /**
+   * Unlock an account and reset its failure count and lockout level
+   *
+   * @param user - Account to unlock
+   * @param options - Admin performing the unlock (omit for automatic unlocks) and reason
+   * @returns true if the account was locked
+   */
+  async unlock(
+    user: { id: string; email: string },
+    options: { actorId?: string; reason: string },
+  ): Promise<boolean> {
+    const account = this.accountKey(user.email);
+    const [[, removed]] = (await this.redis
+      .multi()
+      .del(this.key('lock', account))
+      .del(this.key('failures', account), this.key('level', account))
+      .exec()) as [Error | null, number][];
+
+    if (!removed) {
+      return false;
+    }
+
+    await this.recordEvent({
+      type: LoginSecurityEventType.ACCOUNT_UNLOCKED,
+      userId: user.id,
+      actorId: options.actorId ?? null,
+      data: { reason: options.reason },
+    });
+
+    this.logger.log(`Account unlocked (${options.reason}): ${user.id}`);
+
+    return true;
+  }
+
+  /**
+   * Unlock an account on behalf of an admin
+   *
+   * @param userId - Account to unlock
+   * @param adminId - Admin performing the unlock
+   * @throws NotFoundException if the user doesn't exist or the account is not locked
+   */
+  async unlockByAdmin(userId: string, adminId: string): Promise<void> {
+    const user = await this.usersService.findOne(userId);
+
+    if (!(await this.unlock(user, { actorId: adminId, reason: 'admin' }))) {
+      throw new NotFoundException('Account is not locked');
+    }
+  }
+
+  /**
+   * List security events, newest first by default
+   *
+   * @param pagination - Pagination parameters
+   * @param filters - Restrict to one account and/or event type
+   * @returns Paginated events
+   */
+  async findEvents(
+    pagination: PaginationParams,
+    filters: { userId?: string; type?: LoginSecurityEventType } = {},
+  ): Promise<PaginatedResponse<LoginSecurityEvent>> {
+    const queryBuilder = this.eventsRepository
+      .createQueryBuilder('event')
+      .leftJoin('event.user', 'user')
+      .addSelect(['user.id', 'user.email', 'user.name'])
+      .leftJoin('event.actor', 'actor')
+      .addSelect(['actor.id', 'actor.name']);
+
+    if (filters.userId) {
+      queryBuilder.andWhere('event.userId = :userId', { userId: filters.userId });
+    }
+
+    if (filters.type) {
+      queryBuilder.andWhere('event.type = :type', { type: filters.type });
+    }
+
+    PaginationUtil.applySorting(queryBuilder, pagination, 'event', 'createdAt');
+    PaginationUtil.applyPagination(queryBuilder, pagination);
+
+    return PaginationUtil.paginate(queryBuilder, pagination);
+  }
+
+  async onModuleDestroy() {
+    await this.redis.quit();
+  }
+
+  /**
+   * Lock an account for its next lockout level's duration
+   */
+  private async lock(
+    account: string,
+    userId: string | null,
+    failures: number,
+    ipAddress?: string,
+  ): Promise<void> {
+    const levelKey = this.key('level', account);
+    const [[, level]] = (await this.redis
+      .multi()
+      .incr(levelKey)
+      .expire(levelKey, this.LEVEL_TTL_SECONDS)
+      .exec()) as [Error | null, number][];
+
+    const minutes = this.durationsMinutes[Math.min(level, this.durationsMinutes.length) - 1];
+    const until = new Date(Date.now() + minutes * 60 * 1000);
+    const lock: AccountLock = { until: until.toISOString(), level };
+
+    // Concurrent failures may all cross the threshold; only the first locks
+    const locked = await this.redis.set(
+      this.key('lock', account),
+      JSON.stringify(lock),
+      'EX',
+      minutes * 60,
+      'NX',
+    );
+
+    await this.redis.del(this.key('failures', account));
+
+    if (locked !== 'OK') {
+      await this.redis.decr(levelKey);
+      return;
+    }
+
+    // Unknown emails are locked too, but there is nobody to record or notify
+    if (!userId) {
+      return;
+    }
+
+    this.logger.warn(`Account locked for ${minutes} minutes (level ${level}): ${userId}`);
+
+    await this.recordEvent({
+      type: LoginSecurityEventType.ACCOUNT_LOCKED,
+      userId,
+      ipAddress: ipAddress ?? null,
+      data: { failures, level, lockedUntil: lock.until },
+    });
+
+    try {
+      await this.taskQueue.add(
+        'account-locked',
+        {
+          userId,
+          lockedUntil: lock.until,
+          correlationId: RequestContext.getCorrelationId(),
+        },
+        {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 1000,
+          },
+        },
+      );
+    } catch (error) {
+      this.logger.error(`Failed to queue lockout notification for user ${userId}: ${error}`);
+    }
+  }
+
+  /**
+   * Track the accounts an IP failed to log into; block it past the limit
+   */
+  private async trackIp(account: string, ipAddress: string): Promise<void> {
+    const ip = this.hash(ipAddress);
+    const accountsKey = this.key('ip-accounts', ip);
+    const now = Date.now();
+
+    const [, , [, accounts]] = (await this.redis
+      .multi()
+      .zremrangebyscore(accountsKey, '-inf', now - this.windowSeconds * 1000)
+      .zadd(accountsKey, now, account)
+      .zcard(accountsKey)
+      .expire(accountsKey, this.windowSeconds)
+      .exec()) as [Error | null, number][];
+
+    if (accounts <= this.ipMaxAccounts) {
+      return;
+    }
+
+    const blocked = await this.redis.set(
+      this.key('ip-block', ip),
+      '1',
+      'EX',
+      this.ipBlockSeconds,
+      'NX',
+    );
+
+    if (blocked !== 'OK') {
+      return;
+    }
+
+    this.logger.warn(`IP blocked after failed logins for ${accounts} accounts: ${ipAddress}`);
+
+    await this.recordEvent({
+      type: LoginSecurityEventType.IP_BLOCKED,
+      ipAddress,
+      data: {
+        accounts,
+        blockedUntil: new Date(now + this.ipBlockSeconds * 1000).toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Save a security event (best-effort: never fails the login)
+   */
+  private async recordEvent(event: Partial<LoginSecurityEvent>): Promise<void> {
+    try {
+      await this.eventsRepository.save(this.eventsRepository.create(event));
+    } catch (error) {
+      this.logger.error(`Failed to record ${event.type} event: ${error}`);
+    }
+  }
+
+  /**
+   * Redis key of an account: the hashed, normalized email
+   */
+  private accountKey(email: string): string {
+    return this.hash(email.trim().toLowerCase());
+  }
+
+  private key(kind: string, id: string): string {
+    return `${this.keyPrefix}${kind}:${id}`;
+  }
+
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+}
@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  ParseEnumPipe,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { LoginProtectionService } from './login-protection.service';
+import { LoginSecurityEventType } from './enums/login-security-event-type.enum';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { RedisRateLimitGuard } from '../../common/guards/redis-rate-limit.guard';
+import {
+  RedisRateLimit,
+  RateLimitPresets,
+} from '../../common/decorators/rate-limit-redis.decorator';
+import { PaginationParams } from '../../common/interfaces/pagination.interface';
+import { PaginationUtil } from '../../common/utils/pagination.util';
+
+/**
+ * Login Security Controller
+ *
+ * Admin view of login protection:
+ * - Audit log of account lockouts, unlocks and blocked IPs
+ * - Unlocking a locked account before its lock expires
+ */
+@ApiTags('auth')
+@ApiBearerAuth()
+@Controller('auth/security')
+@UseGuards(JwtAuthGuard, RolesGuard, RedisRateLimitGuard)
+@Roles('admin')
+export class LoginSecurityController {
+  constructor(private readonly loginProtectionService: LoginProtectionService) {}
+
+  /**
+   * List login security events, newest first
+   */
+  @Get('events')
+  @RedisRateLimit(RateLimitPresets.LENIENT)
+  @ApiOperation({ summary: 'List account lockout, unlock and IP block events' })
+  @ApiQuery({ name: 'userId', required: false })
+  @ApiQuery({ name: 'type', required: false, enum: LoginSecurityEventType })
+  @ApiResponse({ status: 200, description: 'Events retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Admin only' })
+  async findEvents(
+    @Query() paginationParams: PaginationParams,
+    @Query('userId', new ParseUUIDPipe({ optional: true })) userId?: string,
+    @Query('type', new ParseEnumPipe(LoginSecurityEventType, { optional: true }))
+    type?: LoginSecurityEventType,
+  ) {
+    const pagination = PaginationUtil.validateParams(paginationParams);
+    return this.loginProtectionService.findEvents(pagination, { userId, type });
+  }
+
+  /**
+   * Unlock an account
+   *
+   * Also resets its failed-login count and lockout level
+   */
+  @Post('users/:userId/unlock')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Unlock a locked account' })
+  @ApiResponse({ status: 204, description: 'Account unlocked' })
+  @ApiResponse({ status: 403, description: 'Admin only' })
+  @ApiResponse({ status: 404, description: 'User not found or account not locked' })
+  async unlock(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @CurrentUser('id') adminId: string,
+  ): Promise<void> {
+    await this.loginProtectionService.unlockByAdmin(userId, adminId);
+  }
+}
@@ -3,12 +3,14 @@ import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
 import { UsersService } from '../../users/users.service';
+import { TokenRevocationService } from '../token-revocation.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     private configService: ConfigService,
     private usersService: UsersService,
+    private tokenRevocationService: TokenRevocationService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -23,12 +25,21 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     if (!user) {
       throw new UnauthorizedException('User not found');
     }
+
+    // Issued before the user's tokens were revoked, or logged out
+    if (
+      (payload.ver ?? 0) < user.tokenVersion ||
+      (await this.tokenRevocationService.isRevoked(payload))
+    ) {
+      throw new UnauthorizedException('Token has been revoked');
+    }
     
     return {
       id: user.id,
       email: user.email,
       name: user.name,
       role: user.role,
+      sessionId: payload.sid, // Token family; absent in tokens issued before sessions
     };
   }
 } 
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { TokenRevocationService } from './token-revocation.service';
+
+describe('TokenRevocationService', () => {
+  const exp = Math.floor(Date.now() / 1000) + 15 * 60;
+
+  let keys: Map<string, number>;
+  let service: TokenRevocationService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    keys = new Map();
+    service = new TokenRevocationService(new ConfigService({}));
+
+    // Swap the real client for an in-memory one before it connects
+    (service['redis'] as Redis).disconnect();
+    Object.assign(service, {
+      redis: {
+        set: async (key: string, _value: string, _ex: 'EX', seconds: number) =>
+          keys.set(key, seconds),
+        exists: async (...names: string[]) => names.filter(name => keys.has(name)).length,
+      },
+    });
+  });
+
+  it('revokes a single token until it expires', async () => {
+    await service.revokeToken({ sub: 'u1', jti: 't1', sid: 's1', exp });
+
+    expect(await service.isRevoked({ sub: 'u1', jti: 't1', sid: 's1', exp })).toBe(true);
+    expect(await service.isRevoked({ sub: 'u1', jti: 't2', sid: 's1', exp })).toBe(false);
+    expect([...keys.values()][0]).toBeLessThanOrEqual(15 * 60);
+  });
+
+  it('revokes every token of a revoked session', async () => {
+    await service.revokeSession('s1', 15 * 60);
+
+    expect(await service.isRevoked({ sub: 'u1', jti: 't1', sid: 's1', exp })).toBe(true);
+    expect(await service.isRevoked({ sub: 'u1', jti: 't2', sid: 's1', exp })).toBe(true);
+    expect(await service.isRevoked({ sub: 'u1', jti: 't3', sid: 's2', exp })).toBe(false);
+    expect(await service.isRevoked({ sub: 'u1' })).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+
+/**
+ * Access token claims checked for revocation
+ */
+export interface RevocableTokenClaims {
+  sub: string;
+  // Token ID; absent in tokens issued before revocation
+  jti?: string;
+  // Session (token family); absent in tokens issued before sessions
+  sid?: string;
+  // User's token version at issue
+  ver?: number;
+  // Expiration (seconds since epoch)
+  exp?: number;
+}
+
+/**
+ * Token Revocation Service
+ *
+ * Denylist of single access tokens (by `jti`), kept in Redis until each
+ * token would have expired. Used on logout. Revoked sessions (by `sid`) are
+ * listed the same way, for as long as their access tokens can live.
+ *
+ * Revoking all of a user's tokens (logout from all devices, password and
+ * role changes) bumps users.token_version instead, which JwtStrategy
+ * compares with the token's `ver` claim; that check doesn't depend on Redis.
+ *
+ * Entries live outside the cache prefix, so clearing the cache doesn't
+ * revive revoked tokens. Failing to denylist a token fails the request.
+ * Lookups fail open (logged): the token then stays valid until it expires,
+ * at most 15 minutes.
+ */
+@Injectable()
+export class TokenRevocationService implements OnModuleDestroy {
+  private readonly logger = new Logger(TokenRevocationService.name);
+  private readonly redis: Redis;
+  private readonly keyPrefix = 'auth:revoked-token:';
+  private readonly sessionKeyPrefix = 'auth:revoked-session:';
+
+  constructor(private readonly configService: ConfigService) {
+    this.redis = new Redis({
+      host: this.configService.get('redis.host'),
+      port: this.configService.get('redis.port'),
+      password: this.configService.get('redis.password'),
+      db: this.configService.get('redis.db', 0),
+      maxRetriesPerRequest: 3,
+      enableOfflineQueue: false, // Fail fast if Redis is down
+    });
+
+    this.redis.on('error', error => {
+      this.logger.error('Redis token revocation client error:', error);
+    });
+  }
+
+  /**
+   * Revoke a single access token until it expires
+   *
+   * @param claims - Verified claims of the token
+   * @throws Error if the token couldn't be denylisted
+   */
+  async revokeToken(claims: RevocableTokenClaims): Promise<void> {
+    const ttlSeconds = (claims.exp ?? 0) - Math.floor(Date.now() / 1000);
+
+    // Tokens without a jti can't be listed; expired ones need no listing
+    if (!claims.jti || ttlSeconds <= 0) {
+      return;
+    }
+
+    await this.redis.set(this.keyPrefix + claims.jti, '1', 'EX', ttlSeconds);
+  }
+
+  /**
+   * Revoke every access token issued to a session
+   *
+   * @param sessionId - Session ID (token family)
+   * @param ttlSeconds - Access token lifetime: tokens issued before now expire within it
+   * @throws Error if the session couldn't be denylisted
+   */
+  async revokeSession(sessionId: string, ttlSeconds: number): Promise<void> {
+    await this.redis.set(this.sessionKeyPrefix + sessionId, '1', 'EX', ttlSeconds);
+  }
+
+  /**
+   * Check whether an access token, or the session it was issued to, has
+   * been denylisted
+   *
+   * @param claims - Verified claims of the token
+   * @returns true if the token was revoked
+   */
+  async isRevoked(claims: RevocableTokenClaims): Promise<boolean> {
+    const keys = [
+      ...(claims.jti ? [this.keyPrefix + claims.jti] : []),
+      ...(claims.sid ? [this.sessionKeyPrefix + claims.sid] : []),
+    ];
+
+    if (keys.length === 0) {
+      return false;
+    }
+
+    try {
+      return (await this.redis.exists(...keys)) > 0;
+    } catch (error) {
+      this.logger.error(`Failed to check revocation of token ${claims.jti}`, error);
+      return false;
+    }
+  }
+
+  async onModuleDestroy() {
+    await this.redis.quit();
+  }
+}
@@ -0,0 +1,164 @@
+import { Body, Controller, Get, Post, Put, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { TwoFactorService, TwoFactorStatus } from './two-factor.service';
+import {
+  RecoveryCodesResponseDto,
+  TwoFactorCodeDto,
+  TwoFactorEnrollmentResponseDto,
+  TwoFactorPolicyDto,
+} from './dto/two-factor.dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { RedisRateLimitGuard } from '../../common/guards/redis-rate-limit.guard';
+import {
+  RedisRateLimit,
+  RateLimitPresets,
+} from '../../common/decorators/rate-limit-redis.decorator';
+
+/**
+ * Two-Factor Controller
+ *
+ * The current user's TOTP 2FA:
+ * - Enroll (POST enroll), then confirm with a first code (POST confirm)
+ * - Regenerate recovery codes or disable 2FA, confirmed with a code
+ *
+ * Admins manage which roles require 2FA under /auth/2fa/policy.
+ * The second login step is POST /auth/login/mfa.
+ */
+@ApiTags('auth')
+@ApiBearerAuth()
+@Controller('auth/2fa')
+@UseGuards(JwtAuthGuard, RedisRateLimitGuard)
+export class TwoFactorController {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  /**
+   * Get 2FA status
+   */
+  @Get()
+  @RedisRateLimit(RateLimitPresets.LENIENT)
+  @ApiOperation({ summary: 'Get two-factor authentication status' })
+  @ApiResponse({ status: 200, description: 'Status retrieved successfully' })
+  async getStatus(
+    @CurrentUser('id') userId: string,
+    @CurrentUser('role') role: string,
+  ): Promise<TwoFactorStatus> {
+    return this.twoFactorService.getStatus(userId, role);
+  }
+
+  /**
+   * Start enrollment
+   *
+   * Returns a new secret as an otpauth URI; restarting replaces an
+   * unconfirmed secret
+   */
+  @Post('enroll')
+  @HttpCode(HttpStatus.OK)
+  @RedisRateLimit(RateLimitPresets.STRICT)
+  @ApiOperation({ summary: 'Start two-factor enrollment' })
+  @ApiResponse({ status: 200, type: TwoFactorEnrollmentResponseDto })
+  @ApiResponse({ status: 400, description: 'Already enabled' })
+  async enroll(
+    @CurrentUser('id') userId: string,
+    @CurrentUser('email') email: string,
+  ): Promise<TwoFactorEnrollmentResponseDto> {
+    return this.twoFactorService.startEnrollment(userId, email);
+  }
+
+  /**
+   * Confirm enrollment
+   *
+   * Enables 2FA and returns the recovery codes; they are not shown again
+   */
+  @Post('confirm')
+  @HttpCode(HttpStatus.OK)
+  @RedisRateLimit(RateLimitPresets.STRICT)
+  @ApiOperation({ summary: 'Confirm two-factor enrollment with a code' })
+  @ApiResponse({ status: 200, type: RecoveryCodesResponseDto })
+  @ApiResponse({ status: 400, description: 'No pending enrollment' })
+  @ApiResponse({ status: 401, description: 'Invalid code' })
+  async confirm(
+    @CurrentUser('id') userId: string,
+    @Body() codeDto: TwoFactorCodeDto,
+  ): Promise<RecoveryCodesResponseDto> {
+    const recoveryCodes = await this.twoFactorService.confirmEnrollment(userId, codeDto.code);
+    return { recoveryCodes };
+  }
+
+  /**
+   * Regenerate recovery codes
+   */
+  @Post('recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @RedisRateLimit(RateLimitPresets.STRICT)
+  @ApiOperation({ summary: 'Replace recovery codes' })
+  @ApiResponse({ status: 200, type: RecoveryCodesResponseDto })
+  @ApiResponse({ status: 400, description: '2FA not enabled' })
+  @ApiResponse({ status: 401, description: 'Invalid code' })
+  async regenerateRecoveryCodes(
+    @CurrentUser('id') userId: string,
+    @Body() codeDto: TwoFactorCodeDto,
+  ): Promise<RecoveryCodesResponseDto> {
+    const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(userId, codeDto.code);
+    return { recoveryCodes };
+  }
+
+  /**
+   * Disable 2FA
+   *
+   * Not allowed when the user's role requires 2FA
+   */
+  @Post('disable')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RedisRateLimit(RateLimitPresets.STRICT)
+  @ApiOperation({ summary: 'Disable two-factor authentication' })
+  @ApiResponse({ status: 204, description: '2FA disabled' })
+  @ApiResponse({ status: 400, description: '2FA not enabled' })
+  @ApiResponse({ status: 401, description: 'Invalid code' })
+  @ApiResponse({ status: 403, description: '2FA is required for the role' })
+  async disable(
+    @CurrentUser('id') userId: string,
+    @CurrentUser('role') role: string,
+    @Body() codeDto: TwoFactorCodeDto,
+  ): Promise<void> {
+    await this.twoFactorService.disable(userId, role, codeDto.code);
+  }
+
+  /**
+   * Get the roles that require 2FA (admin only)
+   */
+  @Get('policy')
+  @UseGuards(RolesGuard)
+  @Roles('admin')
+  @RedisRateLimit(RateLimitPresets.LENIENT)
+  @ApiOperation({ summary: 'Get roles that require two-factor authentication' })
+  @ApiResponse({ status: 200, type: TwoFactorPolicyDto })
+  @ApiResponse({ status: 403, description: 'Admin only' })
+  async getPolicy(): Promise<TwoFactorPolicyDto> {
+    return { requiredRoles: await this.twoFactorService.getRequiredRoles() };
+  }
+
+  /**
+   * Set the roles that require 2FA (admin only)
+   *
+   * Users of a newly required role who haven't enrolled must do so at
+   * their next login
+   */
+  @Put('policy')
+  @UseGuards(RolesGuard)
+  @Roles('admin')
+  @RedisRateLimit(RateLimitPresets.STRICT)
+  @ApiOperation({ summary: 'Set roles that require two-factor authentication' })
+  @ApiResponse({ status: 200, type: TwoFactorPolicyDto })
+  @ApiResponse({ status: 403, description: 'Admin only' })
+  async setPolicy(
+    @CurrentUser('id') adminId: string,
+    @Body() policyDto: TwoFactorPolicyDto,
+  ): Promise<TwoFactorPolicyDto> {
+    return {
+      requiredRoles: await this.twoFactorService.setRequiredRoles(policyDto.requiredRoles, adminId),
+    };
+  }
+}
@@ -0,0 +1,354 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Not, Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { UserTwoFactor } from './entities/user-two-factor.entity';
+import { TwoFactorPolicy } from './entities/two-factor-policy.entity';
+import { TotpUtil } from '../../common/utils/totp.util';
+
+/**
+ * Two-Factor Status
+ */
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  // Whether the user's role requires 2FA
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Two-Factor Service
+ *
+ * TOTP two-factor authentication (RFC 6238):
+ * 1. ENROLLMENT: A new secret is returned once as an otpauth URI; 2FA is
+ *    enabled only after a code from the app confirms it
+ * 2. RECOVERY CODES: Issued on confirmation, stored hashed, single use
+ * 3. REPLAY PROTECTION: A TOTP code is accepted at most once
+ * 4. ROLE POLICY: Admins can require 2FA for roles; users of those roles
+ *    can't disable it and must enroll at their next login
+ *
+ * The login challenge itself is handled by AuthService.
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+
+  private readonly ISSUER = 'TaskFlow';
+
+  private readonly RECOVERY_CODE_COUNT = 10;
+
+  // Unambiguous characters (no 0/O, 1/I/L)
+  private readonly RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+  constructor(
+    @InjectRepository(UserTwoFactor)
+    private readonly twoFactorRepository: Repository<UserTwoFactor>,
+    @InjectRepository(TwoFactorPolicy)
+    private readonly policyRepository: Repository<TwoFactorPolicy>,
+  ) {}
+
+  /**
+   * Get a user's 2FA status
+   *
+   * @param userId - User ID
+   * @param role - User role
+   * @returns Status
+   */
+  async getStatus(userId: string, role: string): Promise<TwoFactorStatus> {
+    const twoFactor = await this.twoFactorRepository.findOne({
+      where: { userId },
+      select: ['userId', 'enabledAt', 'recoveryCodeHashes'],
+    });
+    const enabled = !!twoFactor?.enabledAt;
+
+    return {
+      enabled,
+      enabledAt: twoFactor?.enabledAt ?? null,
+      required: await this.isRequired(role),
+      recoveryCodesRemaining: enabled ? twoFactor.recoveryCodeHashes.length : 0,
+    };
+  }
+
+  /**
+   * Check whether a user has 2FA enabled
+   *
+   * @param userId - User ID
+   */
+  async isEnabled(userId: string): Promise<boolean> {
+    return this.twoFactorRepository.exists({ where: { userId, enabledAt: Not(IsNull()) } });
+  }
+
+  /**
+   * Check whether a role requires 2FA
+   *
+   * @param role - Role
+   */
+  async isRequired(role: string): Promise<boolean> {
+    return this.policyRepository.exists({ where: { role } });
+  }
+
+  /**
+   * Start (or restart) enrollment with a new secret
+   *
+   * @param userId - User ID
+   * @param email - Account name shown in the authenticator app
+   * @returns Secret and otpauth URI; shown only once
+   * @throws BadRequestException if 2FA is already enabled
+   */
+  async startEnrollment(
+    userId: string,
+    email: string,
+  ): Promise<{ secret: string; otpauthUri: string }> {
+    if (await this.isEnabled(userId)) {
+      throw new BadRequestException('Two-factor authentication is already enabled');
+    }
+
+    const secret = TotpUtil.generateSecret();
+
+    await this.twoFactorRepository.upsert(
+      { userId, secret, recoveryCodeHashes: [], lastUsedStep: null, enabledAt: null },
+      ['userId'],
+    );
+
+    return { secret, otpauthUri: TotpUtil.keyUri(secret, email, this.ISSUER) };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app
+   *
+   * @param userId - User ID
+   * @param code - TOTP code
+   * @returns Recovery codes; shown only once
+   * @throws BadRequestException if no enrollment was started or it's already confirmed
+   * @throws UnauthorizedException if the code is invalid
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const twoFactor = await this.twoFactorRepository.findOne({
+      where: { userId },
+      select: ['userId', 'secret', 'enabledAt'],
+    });
+
+    if (!twoFactor || twoFactor.enabledAt) {
+      throw new BadRequestException(
+        twoFactor
+          ? 'Two-factor authentication is already enabled'
+          : 'Start enrollment before confirming it',
+      );
+    }
+
+    if (!(await this.acceptTotp(twoFactor, code))) {
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    await this.twoFactorRepository.update(
+      { userId },
+      { enabledAt: new Date(), recoveryCodeHashes: recoveryCodes.map(c => this.hashCode(c)) },
+    );
+
+    this.logger.log(`Two-factor authentication enabled for user: ${userId}`);
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Verify a second factor: a TOTP code or an unused recovery code
+   *
+   * Recovery codes are consumed.
+   *
+   * @param userId - User ID
+   * @param code - TOTP or recovery code
+   * @returns true if the code was accepted
+   */
+  async verify(userId: string, code: string): Promise<boolean> {
+    const twoFactor = await this.twoFactorRepository.findOne({
+      where: { userId, enabledAt: Not(IsNull()) },
+      select: ['userId', 'secret'],
+    });
+
+    if (!twoFactor) {
+      return false;
+    }
+
+    const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+
+    if (/^\d{6}$/.test(normalized)) {
+      return this.acceptTotp(twoFactor, normalized);
+    }
+
+    // Removed in a single statement so a code can't be used twice concurrently
+    const hash = this.hashCode(normalized);
+    const result = await this.twoFactorRepository
+      .createQueryBuilder()
+      .update()
+      .set({ recoveryCodeHashes: () => 'array_remove(recovery_code_hashes, :hash)' })
+      .where('user_id = :userId AND :hash = ANY(recovery_code_hashes)', { userId, hash })
+      .execute();
+
+    if (result.affected) {
+      this.logger.warn(`Recovery code used by user: ${userId}`);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Replace the recovery codes; the old ones stop working
+   *
+   * @param userId - User ID
+   * @param code - Current TOTP or recovery code
+   * @returns New recovery codes; shown only once
+   * @throws BadRequestException if 2FA is not enabled
+   * @throws UnauthorizedException if the code is invalid
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    await this.verifyOrThrow(userId, code);
+
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    await this.twoFactorRepository.update(
+      { userId },
+      { recoveryCodeHashes: recoveryCodes.map(c => this.hashCode(c)) },
+    );
+
+    this.logger.log(`Recovery codes regenerated for user: ${userId}`);
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Disable 2FA
+   *
+   * @param userId - User ID
+   * @param role - User role
+   * @param code - Current TOTP or recovery code
+   * @throws ForbiddenException if the user's role requires 2FA
+   * @throws BadRequestException if 2FA is not enabled
+   * @throws UnauthorizedException if the code is invalid
+   */
+  async disable(userId: string, role: string, code: string): Promise<void> {
+    if (await this.isRequired(role)) {
+      throw new ForbiddenException('Two-factor authentication is required for your role');
+    }
+
+    await this.verifyOrThrow(userId, code);
+    await this.twoFactorRepository.delete({ userId });
+
+    this.logger.log(`Two-factor authentication disabled for user: ${userId}`);
+  }
+
+  /**
+   * Get the roles that require 2FA
+   *
+   * @returns Roles
+   */
+  async getRequiredRoles(): Promise<string[]> {
+    const policies = await this.policyRepository.find({ order: { role: 'ASC' } });
+    return policies.map(policy => policy.role);
+  }
+
+  /**
+   * Set the roles that require 2FA
+   *
+   * Users of newly listed roles without 2FA must enroll at their next login.
+   *
+   * @param roles - Roles requiring 2FA (replaces the current list)
+   * @param adminId - Admin making the change
+   * @returns Roles requiring 2FA
+   */
+  async setRequiredRoles(roles: string[], adminId: string): Promise<string[]> {
+    const unique = [...new Set(roles)];
+
+    await this.policyRepository.manager.transaction(async manager => {
+      const repository = manager.getRepository(TwoFactorPolicy);
+      await repository
+        .createQueryBuilder()
+        .delete()
+        .where(unique.length > 0 ? 'role NOT IN (:...roles)' : 'TRUE', { roles: unique })
+        .execute();
+      if (unique.length > 0) {
+        await repository
+          .createQueryBuilder()
+          .insert()
+          .values(unique.map(role => ({ role, createdBy: adminId })))
+          .orIgnore()
+          .execute();
+      }
+    });
+
+    this.logger.log(`2FA required roles set to [${unique.join(', ')}] by admin: ${adminId}`);
+
+    return this.getRequiredRoles();
+  }
+
+  /**
+   * Verify a second factor of a user with 2FA enabled
+   *
+   * @throws BadRequestException if 2FA is not enabled
+   * @throws UnauthorizedException if the code is invalid
+   */
+  private async verifyOrThrow(userId: string, code: string): Promise<void> {
+    if (!(await this.isEnabled(userId))) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    if (!(await this.verify(userId, code))) {
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+  }
+
+  /**
+   * Accept a TOTP code once: its time step must be newer than the last one used
+   *
+   * @returns true if the code is valid and unused
+   */
+  private async acceptTotp(twoFactor: UserTwoFactor, code: string): Promise<boolean> {
+    const step = TotpUtil.verify(twoFactor.secret, code);
+
+    if (step === null) {
+      return false;
+    }
+
+    const result = await this.twoFactorRepository
+      .createQueryBuilder()
+      .update()
+      .set({ lastUsedStep: String(step) })
+      .where('user_id = :userId', { userId: twoFactor.userId })
+      .andWhere('(last_used_step IS NULL OR last_used_step < :step)', { step })
+      .execute();
+
+    return !!result.affected;
+  }
+
+  /**
+   * Generate recovery codes (e.g. "k7m2p-x9q4r")
+   */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+      const chars = Array.from(
+        { length: 10 },
+        () => this.RECOVERY_CODE_ALPHABET[crypto.randomInt(this.RECOVERY_CODE_ALPHABET.length)],
+      ).join('');
+      return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+    });
+  }
+
+  /**
+   * Hash a recovery code, ignoring case and separators
+   */
+  private hashCode(code: string): string {
+    return crypto
+      .createHash('sha256')
+      .update(code.replace(/[\s-]/g, '').toLowerCase())
+      .digest('hex');
+  }
+}
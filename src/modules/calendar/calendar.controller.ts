@@ -0,0 +1,103 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Query,
+  Req,
+  Header,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags, ApiResponse, ApiProduces } from '@nestjs/swagger';
+import { Request } from 'express';
+import { CalendarService } from './calendar.service';
+import { CalendarFeedQueryDto } from './dto/calendar-feed-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RedisRateLimitGuard } from '../../common/guards/redis-rate-limit.guard';
+import {
+  RedisRateLimit,
+  RateLimitPresets,
+} from '../../common/decorators/rate-limit-redis.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+/**
+ * Calendar Controller
+ *
+ * The current user manages their feed under /calendar/feed. The feed itself,
+ * /calendar/:token.ics, is public: calendar apps can't send a bearer token,
+ * so the secret token in the URL is the credential.
+ */
+@ApiTags('calendar')
+@Controller('calendar')
+export class CalendarController {
+  constructor(private readonly calendarService: CalendarService) {}
+
+  /**
+   * Get the current user's feed status
+   */
+  @Get('feed')
+  @UseGuards(JwtAuthGuard, RedisRateLimitGuard)
+  @ApiBearerAuth()
+  @RedisRateLimit(RateLimitPresets.LENIENT)
+  @ApiOperation({ summary: 'Get calendar feed status' })
+  @ApiResponse({ status: 200, description: 'Feed status retrieved successfully' })
+  async getFeed(@CurrentUser('id') userId: string) {
+    return this.calendarService.getFeed(userId);
+  }
+
+  /**
+   * Create or regenerate the feed URL
+   *
+   * The response includes the URL; it is not shown again. Any previous URL
+   * stops working.
+   */
+  @Post('feed')
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(JwtAuthGuard, RedisRateLimitGuard)
+  @ApiBearerAuth()
+  @RedisRateLimit(RateLimitPresets.STRICT)
+  @ApiOperation({ summary: 'Create or regenerate the calendar feed URL' })
+  @ApiResponse({ status: 201, description: 'Feed URL created; shown only once' })
+  async regenerate(@CurrentUser('id') userId: string, @Req() request: Request) {
+    const { token, path } = await this.calendarService.regenerate(userId);
+
+    return { token, url: `${request.protocol}://${request.get('host')}${path}` };
+  }
+
+  /**
+   * Revoke the feed URL
+   */
+  @Delete('feed')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard, RedisRateLimitGuard)
+  @ApiBearerAuth()
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Revoke the calendar feed URL' })
+  @ApiResponse({ status: 204, description: 'Feed revoked' })
+  @ApiResponse({ status: 404, description: 'No feed to revoke' })
+  async revoke(@CurrentUser('id') userId: string) {
+    await this.calendarService.revoke(userId);
+  }
+
+  /**
+   * iCal feed of open tasks with due dates
+   *
+   * Accepts the task list filters as query parameters, plus
+   * `component=event|todo`
+   */
+  @Get(':token.ics')
+  @UseGuards(RedisRateLimitGuard)
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  @Header('Cache-Control', 'private, max-age=300')
+  @ApiOperation({ summary: 'iCal feed of open tasks with due dates' })
+  @ApiProduces('text/calendar')
+  @ApiResponse({ status: 200, description: 'iCalendar document' })
+  @ApiResponse({ status: 404, description: 'Unknown or revoked feed' })
+  async feed(@Param('token') token: string, @Query() query: CalendarFeedQueryDto) {
+    return this.calendarService.render(token, query);
+  }
+}
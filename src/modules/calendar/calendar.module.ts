@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CalendarController } from './calendar.controller';
+import { CalendarService } from './calendar.service';
+import { CalendarFeed } from './entities/calendar-feed.entity';
+import { TasksModule } from '../tasks/tasks.module';
+import { MailModule } from '../mail/mail.module';
+
+/**
+ * Calendar Module
+ *
+ * Per-user iCal feeds of tasks with due dates. Tasks are read through
+ * TasksService, so feeds follow the same filters and visibility rules as
+ * task listings; MailModule builds the app links in feed items.
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([CalendarFeed]), TasksModule, MailModule],
+  controllers: [CalendarController],
+  providers: [CalendarService],
+})
+export class CalendarModule {}
@@ -0,0 +1,157 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { CalendarFeed } from './entities/calendar-feed.entity';
+import { CalendarFeedQueryDto } from './dto/calendar-feed-query.dto';
+import { TasksService } from '../tasks/tasks.service';
+import { Task } from '../tasks/entities/task.entity';
+import { TaskStatus } from '../tasks/enums/task-status.enum';
+import { TaskPriority } from '../tasks/enums/task-priority.enum';
+import { MailService } from '../mail/mail.service';
+import { ICalItem, ICalUtil } from '../../common/utils/ical.util';
+
+/**
+ * Calendar Service
+ *
+ * Per-user iCal feeds of open tasks with due dates:
+ * 1. A feed is addressed by a random secret token; only its hash is stored
+ * 2. Regenerating replaces the token, revoking removes it
+ * 3. Feed requests resolve the token to its user and render that user's
+ *    visible tasks, narrowed by the task list filters in the query
+ */
+@Injectable()
+export class CalendarService {
+  // Items per feed, soonest due first
+  private readonly MAX_ITEMS = 1000;
+
+  private readonly TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+  private readonly PRIORITIES: Record<TaskPriority, number> = {
+    [TaskPriority.HIGH]: 1,
+    [TaskPriority.MEDIUM]: 5,
+    [TaskPriority.LOW]: 9,
+  };
+
+  constructor(
+    @InjectRepository(CalendarFeed)
+    private readonly feedsRepository: Repository<CalendarFeed>,
+    private readonly tasksService: TasksService,
+    private readonly mailService: MailService,
+  ) {}
+
+  /**
+   * Get a user's feed status
+   *
+   * @param userId - User ID
+   * @returns Whether a feed exists, with its creation and last access times
+   */
+  async getFeed(
+    userId: string,
+  ): Promise<{ enabled: boolean; createdAt: Date | null; lastAccessedAt: Date | null }> {
+    const feed = await this.feedsRepository.findOne({ where: { userId } });
+
+    return {
+      enabled: !!feed,
+      createdAt: feed?.createdAt ?? null,
+      lastAccessedAt: feed?.lastAccessedAt ?? null,
+    };
+  }
+
+  /**
+   * Create or regenerate a user's feed token
+   *
+   * The previous token, if any, stops working immediately.
+   *
+   * @param userId - User ID
+   * @returns The new token and feed path (the token is not shown again)
+   */
+  async regenerate(userId: string): Promise<{ token: string; path: string }> {
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    await this.feedsRepository.upsert(
+      { userId, tokenHash: this.hashToken(token), createdAt: new Date(), lastAccessedAt: null },
+      ['userId'],
+    );
+
+    return { token, path: `/calendar/${token}.ics` };
+  }
+
+  /**
+   * Revoke a user's feed
+   *
+   * @param userId - User ID
+   * @throws NotFoundException if the user has no feed
+   */
+  async revoke(userId: string): Promise<void> {
+    const result = await this.feedsRepository.delete({ userId });
+
+    if (!result.affected) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+  }
+
+  /**
+   * Render a feed
+   *
+   * @param token - Feed token from the URL
+   * @param query - Task filters and component type
+   * @returns iCalendar document
+   * @throws NotFoundException if the token is unknown or revoked
+   */
+  async render(token: string, query: CalendarFeedQueryDto): Promise<string> {
+    const feed = this.TOKEN_PATTERN.test(token)
+      ? await this.feedsRepository.findOne({ where: { tokenHash: this.hashToken(token) } })
+      : null;
+
+    if (!feed) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    await this.feedsRepository.update({ userId: feed.userId }, { lastAccessedAt: new Date() });
+
+    const { component = 'event', ...filters } = query;
+
+    if (filters.assignedTo === 'me') {
+      filters.assignedTo = feed.userId;
+    }
+
+    const tasks = await this.tasksService.findForCalendar(filters, feed.userId, this.MAX_ITEMS);
+
+    return ICalUtil.build(
+      'TaskFlow tasks',
+      tasks.map(task => this.toItem(task, component)),
+      component === 'todo' ? 'VTODO' : 'VEVENT',
+    );
+  }
+
+  /**
+   * Map a task to a calendar item
+   *
+   * @param task - Task with labels
+   * @param component - Component type
+   * @returns Calendar item
+   */
+  private toItem(task: Task, component: 'event' | 'todo'): ICalItem {
+    return {
+      uid: `${task.id}@taskflow`,
+      summary: task.title,
+      description: task.description,
+      url: this.mailService.link(`/tasks/${task.id}`),
+      due: task.dueDate,
+      lastModified: task.updatedAt,
+      status:
+        component === 'event'
+          ? 'CONFIRMED'
+          : task.status === TaskStatus.IN_PROGRESS || task.status === TaskStatus.IN_REVIEW
+            ? 'IN-PROCESS'
+            : 'NEEDS-ACTION',
+      priority: this.PRIORITIES[task.priority],
+      categories: (task.labels || []).map(label => label.name),
+    };
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
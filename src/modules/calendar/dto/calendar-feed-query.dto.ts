@@ -0,0 +1,16 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TaskFilterDto } from '../../tasks/dto/task-filter.dto';
+
+/**
+ * Calendar Feed Query DTO
+ *
+ * The task list filters, plus the calendar component to emit: events show
+ * up in every calendar app, to-dos only in apps with task support
+ */
+export class CalendarFeedQueryDto extends TaskFilterDto {
+  @ApiProperty({ enum: ['event', 'todo'], required: false, default: 'event' })
+  @IsIn(['event', 'todo'])
+  @IsOptional()
+  component?: 'event' | 'todo';
+}
@@ -0,0 +1,29 @@
+import { Column, CreateDateColumn, Entity, JoinColumn, OneToOne, PrimaryColumn } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Calendar Feed Entity
+ *
+ * A user's iCal feed token. Only the SHA-256 hash is stored, so the feed
+ * URL is shown once; regenerating replaces the token and revoking deletes
+ * the row, and either way the old URL stops working.
+ */
+@Entity('calendar_feeds')
+export class CalendarFeed {
+  @PrimaryColumn({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'token_hash', unique: true })
+  tokenHash: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  // Last fetch by a calendar app
+  @Column({ name: 'last_accessed_at', type: 'timestamp', nullable: true })
+  lastAccessedAt: Date | null;
+}
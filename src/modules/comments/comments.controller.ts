@@ -0,0 +1,143 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags, ApiResponse } from '@nestjs/swagger';
+import { CommentsService } from './comments.service';
+import { CreateCommentDto } from './dto/create-comment.dto';
+import { UpdateCommentDto } from './dto/update-comment.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RedisRateLimitGuard } from '../../common/guards/redis-rate-limit.guard';
+import { OwnershipGuard } from '../../common/guards/ownership.guard';
+import {
+  RedisRateLimit,
+  RateLimitPresets,
+} from '../../common/decorators/rate-limit-redis.decorator';
+import { CheckOwnership } from '../../common/decorators/ownership.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { PaginationParams } from '../../common/interfaces/pagination.interface';
+import { PaginationUtil } from '../../common/utils/pagination.util';
+import { ProjectRole } from '../projects/enums/project-role.enum';
+
+/**
+ * Comments Controller
+ *
+ * Comment thread of a task. Anyone who can see the task can read the thread;
+ * commenting requires owner, assignee or project MEMBER access.
+ * Editing is limited to the author, deleting to the author or task owner.
+ */
+@ApiTags('comments')
+@Controller('tasks/:id/comments')
+@UseGuards(JwtAuthGuard, RedisRateLimitGuard, OwnershipGuard)
+@ApiBearerAuth()
+export class CommentsController {
+  constructor(private readonly commentsService: CommentsService) {}
+
+  /**
+   * Add a comment to a task
+   *
+   * `@email` mentions notify the mentioned users
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @CheckOwnership({
+    entity: 'task',
+    paramKey: 'id',
+    userIdField: 'userId',
+    allowAssignee: true,
+    minProjectRole: ProjectRole.MEMBER,
+  })
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Add a comment to a task' })
+  @ApiResponse({ status: 201, description: 'Comment created successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden - no access to task' })
+  async create(
+    @Param('id', ParseUUIDPipe) taskId: string,
+    @Body() createCommentDto: CreateCommentDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    return this.commentsService.create(taskId, createCommentDto, userId);
+  }
+
+  /**
+   * List comments on a task
+   */
+  @Get()
+  @CheckOwnership({
+    entity: 'task',
+    paramKey: 'id',
+    userIdField: 'userId',
+    allowAssignee: true,
+    minProjectRole: ProjectRole.VIEWER,
+  })
+  @RedisRateLimit(RateLimitPresets.LENIENT)
+  @ApiOperation({ summary: 'List comments on a task' })
+  @ApiResponse({ status: 200, description: 'Comments retrieved successfully' })
+  async findAll(
+    @Param('id', ParseUUIDPipe) taskId: string,
+    @Query() paginationParams: PaginationParams,
+  ) {
+    const pagination = PaginationUtil.validateParams(paginationParams);
+    return this.commentsService.findAll(taskId, pagination);
+  }
+
+  /**
+   * Edit a comment (author only)
+   */
+  @Patch(':commentId')
+  @CheckOwnership({
+    entity: 'task',
+    paramKey: 'id',
+    userIdField: 'userId',
+    allowAssignee: true,
+    minProjectRole: ProjectRole.VIEWER,
+  })
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Edit a comment' })
+  @ApiResponse({ status: 200, description: 'Comment updated successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden - not the author' })
+  @ApiResponse({ status: 404, description: 'Comment not found' })
+  async update(
+    @Param('id', ParseUUIDPipe) taskId: string,
+    @Param('commentId', ParseUUIDPipe) commentId: string,
+    @Body() updateCommentDto: UpdateCommentDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    return this.commentsService.update(taskId, commentId, updateCommentDto, userId);
+  }
+
+  /**
+   * Delete a comment (author or task owner)
+   */
+  @Delete(':commentId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @CheckOwnership({
+    entity: 'task',
+    paramKey: 'id',
+    userIdField: 'userId',
+    allowAssignee: true,
+    minProjectRole: ProjectRole.VIEWER,
+  })
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Delete a comment' })
+  @ApiResponse({ status: 204, description: 'Comment deleted successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden - not the author or task owner' })
+  @ApiResponse({ status: 404, description: 'Comment not found' })
+  async remove(
+    @Param('id', ParseUUIDPipe) taskId: string,
+    @Param('commentId', ParseUUIDPipe) commentId: string,
+    @CurrentUser('id') userId: string,
+  ) {
+    await this.commentsService.remove(taskId, commentId, userId);
+  }
+}
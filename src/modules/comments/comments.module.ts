@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { BullModule } from '@nestjs/bullmq';
+import { CommentsService } from './comments.service';
+import { CommentsController } from './comments.controller';
+import { TaskComment } from './entities/task-comment.entity';
+import { TasksModule } from '../tasks/tasks.module';
+import { ProjectsModule } from '../projects/projects.module';
+import { UsersModule } from '../users/users.module';
+import { RedisCacheService } from '../../common/services/redis-cache.service';
+import { OwnershipGuard } from '../../common/guards/ownership.guard';
+import { Task } from '../tasks/entities/task.entity';
+
+/**
+ * Comments Module
+ *
+ * Task comment threads under /tasks/:id/comments.
+ * Mention notifications are enqueued on the task-processing queue.
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([TaskComment, Task]),
+    BullModule.registerQueue({
+      name: 'task-processing',
+    }),
+    TasksModule,
+    ProjectsModule,
+    UsersModule,
+  ],
+  controllers: [CommentsController],
+  providers: [CommentsService, RedisCacheService, OwnershipGuard],
+  exports: [CommentsService],
+})
+export class CommentsModule {}
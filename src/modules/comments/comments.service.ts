@@ -0,0 +1,263 @@
+import { Injectable, NotFoundException, ForbiddenException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Repository } from 'typeorm';
+import { Queue } from 'bullmq';
+import { TaskComment } from './entities/task-comment.entity';
+import { CreateCommentDto } from './dto/create-comment.dto';
+import { UpdateCommentDto } from './dto/update-comment.dto';
+import { TasksService } from '../tasks/tasks.service';
+import { UsersService } from '../users/users.service';
+import { PaginationParams, PaginatedResponse } from '../../common/interfaces/pagination.interface';
+import { PaginationUtil } from '../../common/utils/pagination.util';
+
+/**
+ * Comments Service
+ *
+ * Manages the comment thread on a task:
+ * 1. Create/edit/delete with author checks
+ * 2. DB-level pagination through PaginationUtil
+ * 3. `@email` mention parsing with one notification job per mentioned user
+ *
+ * Mentions only resolve to users who can already see the task, so a
+ * mention never leaks task content to outsiders.
+ */
+@Injectable()
+export class CommentsService {
+  private readonly logger = new Logger(CommentsService.name);
+
+  // `@` followed by an email address, not preceded by a word character
+  private readonly MENTION_PATTERN = /(?<![\w.])@([A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+
+  constructor(
+    @InjectRepository(TaskComment)
+    private readonly commentsRepository: Repository<TaskComment>,
+    @InjectQueue('task-processing')
+    private readonly taskQueue: Queue,
+    private readonly tasksService: TasksService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  /**
+   * Add a comment to a task
+   *
+   * @param taskId - Task ID
+   * @param createCommentDto - Comment data
+   * @param authorId - Commenting user
+   * @returns Created comment
+   */
+  async create(
+    taskId: string,
+    createCommentDto: CreateCommentDto,
+    authorId: string,
+  ): Promise<TaskComment> {
+    // Ensures the task exists and is visible to the author
+    await this.tasksService.findOne(taskId, authorId);
+
+    const mentionedUserIds = await this.resolveMentions(taskId, createCommentDto.content, authorId);
+
+    const comment = await this.commentsRepository.save(
+      this.commentsRepository.create({
+        taskId,
+        authorId,
+        content: createCommentDto.content,
+        mentionedUserIds,
+      }),
+    );
+
+    await this.enqueueMentionNotifications(comment, mentionedUserIds);
+
+    this.logger.log(`Comment created: ${comment.id} on task ${taskId}`);
+    return comment;
+  }
+
+  /**
+   * List comments on a task
+   *
+   * @param taskId - Task ID
+   * @param pagination - Pagination parameters
+   * @returns Paginated comments with author info
+   */
+  async findAll(
+    taskId: string,
+    pagination: PaginationParams,
+  ): Promise<PaginatedResponse<TaskComment>> {
+    const queryBuilder = this.commentsRepository
+      .createQueryBuilder('comment')
+      .leftJoin('comment.author', 'author')
+      .addSelect(['author.id', 'author.name', 'author.email'])
+      .where('comment.taskId = :taskId', { taskId });
+
+    PaginationUtil.applySorting(queryBuilder, pagination, 'comment', 'createdAt');
+    PaginationUtil.applyPagination(queryBuilder, pagination);
+
+    return PaginationUtil.paginate(queryBuilder, pagination);
+  }
+
+  /**
+   * Edit a comment (author only)
+   *
+   * Only users newly mentioned by the edit are notified.
+   *
+   * @param taskId - Task ID
+   * @param commentId - Comment ID
+   * @param updateCommentDto - New content
+   * @param userId - Editing user
+   * @returns Updated comment
+   */
+  async update(
+    taskId: string,
+    commentId: string,
+    updateCommentDto: UpdateCommentDto,
+    userId: string,
+  ): Promise<TaskComment> {
+    const comment = await this.findComment(taskId, commentId);
+
+    if (comment.authorId !== userId) {
+      throw new ForbiddenException('Only the author can edit this comment');
+    }
+
+    const previouslyMentioned = new Set(comment.mentionedUserIds || []);
+    const mentionedUserIds = await this.resolveMentions(taskId, updateCommentDto.content, userId);
+
+    comment.content = updateCommentDto.content;
+    comment.mentionedUserIds = mentionedUserIds;
+    const updated = await this.commentsRepository.save(comment);
+
+    await this.enqueueMentionNotifications(
+      updated,
+      mentionedUserIds.filter(id => !previouslyMentioned.has(id)),
+    );
+
+    return updated;
+  }
+
+  /**
+   * Delete a comment (author or task owner)
+   *
+   * @param taskId - Task ID
+   * @param commentId - Comment ID
+   * @param userId - Deleting user
+   */
+  async remove(taskId: string, commentId: string, userId: string): Promise<void> {
+    const comment = await this.findComment(taskId, commentId);
+
+    if (comment.authorId !== userId) {
+      const task = await this.tasksService.findOne(taskId);
+
+      if (task.userId !== userId) {
+        throw new ForbiddenException('Only the author or task owner can delete this comment');
+      }
+    }
+
+    await this.commentsRepository.delete(comment.id);
+
+    this.logger.log(`Comment deleted: ${commentId} on task ${taskId}`);
+  }
+
+  /**
+   * Extract unique, lower-cased emails from `@email` mentions
+   *
+   * @param content - Comment text
+   * @returns Mentioned emails
+   */
+  parseMentions(content: string): string[] {
+    const emails = new Set<string>();
+
+    for (const match of content.matchAll(this.MENTION_PATTERN)) {
+      emails.add(match[1].toLowerCase());
+    }
+
+    return [...emails];
+  }
+
+  /**
+   * Resolve mentions to IDs of users who can see the task
+   *
+   * @param taskId - Task ID
+   * @param content - Comment text
+   * @param authorId - Author (never notified about their own mention)
+   * @returns Mentioned user IDs
+   */
+  private async resolveMentions(
+    taskId: string,
+    content: string,
+    authorId: string,
+  ): Promise<string[]> {
+    const users = await this.usersService.findByEmails(this.parseMentions(content));
+    const candidates = users.filter(user => user.id !== authorId);
+
+    const visible = await Promise.all(
+      candidates.map(user =>
+        this.tasksService
+          .findOne(taskId, user.id)
+          .then(() => user.id)
+          .catch(() => null),
+      ),
+    );
+
+    return visible.filter((id): id is string => id !== null);
+  }
+
+  /**
+   * Enqueue one mention notification job per mentioned user
+   *
+   * @param comment - Comment containing the mentions
+   * @param userIds - Users to notify
+   */
+  private async enqueueMentionNotifications(
+    comment: TaskComment,
+    userIds: string[],
+  ): Promise<void> {
+    if (userIds.length === 0) {
+      return;
+    }
+
+    try {
+      await this.taskQueue.addBulk(
+        userIds.map(mentionedUserId => ({
+          name: 'comment-mention-notification',
+          data: {
+            taskId: comment.taskId,
+            commentId: comment.id,
+            authorId: comment.authorId,
+            mentionedUserId,
+            // Quoted in the mention email
+            excerpt: comment.content.slice(0, 280),
+          },
+          opts: {
+            // One job per comment and user, even if enqueued twice
+            jobId: `mention:${comment.id}:${mentionedUserId}`,
+            attempts: 3,
+            backoff: {
+              type: 'exponential',
+              delay: 1000,
+            },
+          },
+        })),
+      );
+    } catch (queueError) {
+      // Notifications are best-effort; the comment is already saved
+      this.logger.error(`Failed to enqueue mention notifications: ${queueError}`);
+    }
+  }
+
+  /**
+   * Find a comment on a task or throw
+   *
+   * @param taskId - Task ID
+   * @param commentId - Comment ID
+   * @returns Comment
+   */
+  private async findComment(taskId: string, commentId: string): Promise<TaskComment> {
+    const comment = await this.commentsRepository.findOne({
+      where: { id: commentId, taskId },
+    });
+
+    if (!comment) {
+      throw new NotFoundException(`Comment with ID ${commentId} not found`);
+    }
+
+    return comment;
+  }
+}
@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateCommentDto {
+  @ApiProperty({
+    example: 'Blocked on the API review, @jane.doe@example.com can you take a look?',
+    description: 'Comment text; `@email` mentions notify the mentioned users',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10000)
+  content: string;
+}
@@ -0,0 +1,52 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import type { Task } from '../../tasks/entities/task.entity';
+
+/**
+ * Task Comment Entity
+ *
+ * Discussion thread entry on a task:
+ * - Author is the user who wrote the comment (only they can edit it)
+ * - Mentioned users are resolved from `@email` tokens in the content
+ */
+@Entity('task_comments')
+@Index('IDX_task_comments_task_created', ['taskId', 'createdAt'])
+export class TaskComment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'task_id' })
+  taskId: string;
+
+  @ManyToOne('Task', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Task;
+
+  @Column({ name: 'author_id' })
+  authorId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'author_id' })
+  author: User;
+
+  @Column({ type: 'text' })
+  content: string;
+
+  @Column({ name: 'mentioned_user_ids', type: 'uuid', array: true, default: () => "'{}'" })
+  mentionedUserIds: string[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,15 @@
+import { IsNotEmpty, IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateLabelDto {
+  @ApiProperty({ example: 'backend' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name: string;
+
+  @ApiProperty({ example: '#3b82f6', required: false, description: 'Hex colour (#RRGGBB)' })
+  @Matches(/^#[0-9a-fA-F]{6}$/, { message: 'colour must be a hex colour like #3b82f6' })
+  @IsOptional()
+  colour?: string;
+}
@@ -0,0 +1,58 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToMany,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import type { Project } from '../../projects/entities/project.entity';
+import type { Task } from '../../tasks/entities/task.entity';
+
+/**
+ * Label Entity
+ *
+ * Named, coloured tag for tasks. Labels are either:
+ * - Personal: userId set, usable on the owner's personal tasks
+ * - Project: projectId set, usable on the project's tasks
+ *
+ * Names are unique (case-insensitive) within their scope.
+ */
+@Entity('labels')
+export class Label {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 50 })
+  name: string;
+
+  // Hex colour, e.g. #3b82f6
+  @Column({ length: 7, default: '#6b7280' })
+  colour: string;
+
+  @Column({ name: 'user_id', type: 'uuid', nullable: true })
+  userId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'project_id', type: 'uuid', nullable: true })
+  projectId: string | null;
+
+  @ManyToOne('Project', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'project_id' })
+  project: Project;
+
+  @ManyToMany('Task', 'labels')
+  tasks: Task[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
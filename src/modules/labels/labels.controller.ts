@@ -0,0 +1,138 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags, ApiResponse } from '@nestjs/swagger';
+import { LabelsService } from './labels.service';
+import { CreateLabelDto } from './dto/create-label.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RedisRateLimitGuard } from '../../common/guards/redis-rate-limit.guard';
+import { OwnershipGuard } from '../../common/guards/ownership.guard';
+import {
+  RedisRateLimit,
+  RateLimitPresets,
+} from '../../common/decorators/rate-limit-redis.decorator';
+import { CheckOwnership } from '../../common/decorators/ownership.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ProjectRole } from '../projects/enums/project-role.enum';
+
+// Optional project scope: undefined on /labels, validated UUID on /projects/:projectId/labels
+const ProjectIdParam = () => Param('projectId', new ParseUUIDPipe({ optional: true }));
+
+/**
+ * Labels Controller
+ *
+ * Personal labels live under /labels, project labels under
+ * /projects/:projectId/labels. Project labels can be read by any member,
+ * created and edited by MEMBERs and deleted by ADMINs.
+ */
+@ApiTags('labels')
+@Controller(['labels', 'projects/:projectId/labels'])
+@UseGuards(JwtAuthGuard, RedisRateLimitGuard, OwnershipGuard)
+@ApiBearerAuth()
+export class LabelsController {
+  constructor(private readonly labelsService: LabelsService) {}
+
+  /**
+   * Create a label
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.MEMBER,
+    optional: true,
+  })
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Create a label' })
+  @ApiResponse({ status: 201, description: 'Label created successfully' })
+  @ApiResponse({ status: 409, description: 'Label name already exists' })
+  async create(
+    @Body() createLabelDto: CreateLabelDto,
+    @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
+  ) {
+    return this.labelsService.create(createLabelDto, userId, projectId);
+  }
+
+  /**
+   * List labels
+   */
+  @Get()
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.VIEWER,
+    optional: true,
+  })
+  @RedisRateLimit(RateLimitPresets.LENIENT)
+  @ApiOperation({ summary: 'List labels' })
+  @ApiResponse({ status: 200, description: 'Labels retrieved successfully' })
+  async findAll(@CurrentUser('id') userId: string, @ProjectIdParam() projectId?: string) {
+    return this.labelsService.findAll(userId, projectId);
+  }
+
+  /**
+   * Update a label
+   */
+  @Patch(':labelId')
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.MEMBER,
+    optional: true,
+  })
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Update a label' })
+  @ApiResponse({ status: 200, description: 'Label updated successfully' })
+  @ApiResponse({ status: 404, description: 'Label not found' })
+  @ApiResponse({ status: 409, description: 'Label name already exists' })
+  async update(
+    @Param('labelId', ParseUUIDPipe) labelId: string,
+    @Body() updateLabelDto: UpdateLabelDto,
+    @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
+  ) {
+    return this.labelsService.update(labelId, updateLabelDto, userId, projectId);
+  }
+
+  /**
+   * Delete a label
+   *
+   * The label is removed from all tasks carrying it
+   */
+  @Delete(':labelId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.ADMIN,
+    optional: true,
+  })
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Delete a label' })
+  @ApiResponse({ status: 204, description: 'Label deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Label not found' })
+  async remove(
+    @Param('labelId', ParseUUIDPipe) labelId: string,
+    @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
+  ) {
+    await this.labelsService.remove(labelId, userId, projectId);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { LabelsService } from './labels.service';
+import { LabelsController } from './labels.controller';
+import { Label } from './entities/label.entity';
+import { ProjectsModule } from '../projects/projects.module';
+import { RedisCacheService } from '../../common/services/redis-cache.service';
+import { OwnershipGuard } from '../../common/guards/ownership.guard';
+
+/**
+ * Labels Module
+ *
+ * Personal and project labels for tasks.
+ * Exports LabelsService so TasksService can validate label assignments.
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([Label]), ProjectsModule],
+  controllers: [LabelsController],
+  providers: [LabelsService, RedisCacheService, OwnershipGuard],
+  exports: [LabelsService],
+})
+export class LabelsModule {}
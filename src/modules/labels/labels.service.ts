@@ -0,0 +1,220 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { Label } from './entities/label.entity';
+import { CreateLabelDto } from './dto/create-label.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+import { ProjectsService } from '../projects/projects.service';
+import { RedisCacheService } from '../../common/services/redis-cache.service';
+
+/**
+ * Labels Service
+ *
+ * Manages personal and project labels:
+ * 1. CRUD scoped to the owner (personal) or project
+ * 2. Case-insensitive unique names per scope
+ * 3. Applicability checks used when labelling tasks
+ *
+ * Renaming or deleting a label invalidates cached tasks that carry it.
+ */
+@Injectable()
+export class LabelsService {
+  private readonly logger = new Logger(LabelsService.name);
+
+  constructor(
+    @InjectRepository(Label)
+    private readonly labelsRepository: Repository<Label>,
+    private readonly projectsService: ProjectsService,
+    private readonly cacheService: RedisCacheService,
+  ) {}
+
+  /**
+   * Create a label
+   *
+   * @param createLabelDto - Label data
+   * @param userId - Creating user (owner of personal labels)
+   * @param projectId - Project for project labels (optional)
+   * @returns Created label
+   */
+  async create(createLabelDto: CreateLabelDto, userId: string, projectId?: string): Promise<Label> {
+    await this.assertUniqueName(createLabelDto.name, userId, projectId);
+
+    const label = await this.labelsRepository.save(
+      this.labelsRepository.create({
+        ...createLabelDto,
+        userId: projectId ? null : userId,
+        projectId: projectId || null,
+      }),
+    );
+
+    this.logger.log(`Label created: ${label.id}`);
+    return label;
+  }
+
+  /**
+   * List labels of a scope, ordered by name
+   *
+   * @param userId - Current user (personal scope)
+   * @param projectId - Project scope (optional)
+   * @returns Labels
+   */
+  async findAll(userId: string, projectId?: string): Promise<Label[]> {
+    return this.labelsRepository.find({
+      where: projectId ? { projectId } : { userId },
+      order: { name: 'ASC' },
+    });
+  }
+
+  /**
+   * Find a label within a scope
+   *
+   * @param labelId - Label ID
+   * @param userId - Current user (personal scope)
+   * @param projectId - Project scope (optional)
+   * @returns Label
+   */
+  async findOne(labelId: string, userId: string, projectId?: string): Promise<Label> {
+    const label = await this.labelsRepository.findOne({
+      where: projectId ? { id: labelId, projectId } : { id: labelId, userId },
+    });
+
+    if (!label) {
+      throw new NotFoundException(`Label with ID ${labelId} not found`);
+    }
+
+    return label;
+  }
+
+  /**
+   * Update a label
+   *
+   * @param labelId - Label ID
+   * @param updateLabelDto - Update data
+   * @param userId - Current user (personal scope)
+   * @param projectId - Project scope (optional)
+   * @returns Updated label
+   */
+  async update(
+    labelId: string,
+    updateLabelDto: UpdateLabelDto,
+    userId: string,
+    projectId?: string,
+  ): Promise<Label> {
+    const label = await this.findOne(labelId, userId, projectId);
+
+    if (updateLabelDto.name && updateLabelDto.name.toLowerCase() !== label.name.toLowerCase()) {
+      await this.assertUniqueName(updateLabelDto.name, userId, projectId);
+    }
+
+    this.labelsRepository.merge(label, updateLabelDto);
+    const updated = await this.labelsRepository.save(label);
+
+    await this.invalidateTaskCaches(updated);
+
+    return updated;
+  }
+
+  /**
+   * Delete a label (removed from all tasks)
+   *
+   * @param labelId - Label ID
+   * @param userId - Current user (personal scope)
+   * @param projectId - Project scope (optional)
+   */
+  async remove(labelId: string, userId: string, projectId?: string): Promise<void> {
+    const label = await this.findOne(labelId, userId, projectId);
+
+    // Collect affected tasks before the join rows cascade away
+    await this.invalidateTaskCaches(label);
+    await this.labelsRepository.delete(label.id);
+
+    this.logger.log(`Label deleted: ${labelId}`);
+  }
+
+  /**
+   * Ensure labels can be applied to a task
+   *
+   * Project tasks take labels of their project; personal tasks take the
+   * personal labels of the task owner.
+   *
+   * @param labelIds - Label IDs
+   * @param scope - Task owner and project
+   */
+  async assertApplicable(
+    labelIds: string[],
+    scope: { userId: string; projectId: string | null },
+  ): Promise<void> {
+    const uniqueIds = [...new Set(labelIds)];
+    if (uniqueIds.length === 0) {
+      return;
+    }
+
+    const count = await this.labelsRepository.count({
+      where: scope.projectId
+        ? { id: In(uniqueIds), projectId: scope.projectId }
+        : { id: In(uniqueIds), userId: scope.userId },
+    });
+
+    if (count !== uniqueIds.length) {
+      throw new BadRequestException(
+        "Labels must belong to the task's project, or to the task owner for personal tasks",
+      );
+    }
+  }
+
+  /**
+   * Reject a duplicate label name within a scope
+   *
+   * @param name - Label name
+   * @param userId - Current user (personal scope)
+   * @param projectId - Project scope (optional)
+   */
+  private async assertUniqueName(name: string, userId: string, projectId?: string): Promise<void> {
+    const queryBuilder = this.labelsRepository
+      .createQueryBuilder('label')
+      .where('LOWER(label.name) = LOWER(:name)', { name });
+
+    if (projectId) {
+      queryBuilder.andWhere('label.projectId = :projectId', { projectId });
+    } else {
+      queryBuilder.andWhere('label.userId = :userId', { userId });
+    }
+
+    if (await queryBuilder.getExists()) {
+      throw new ConflictException(`Label "${name}" already exists`);
+    }
+  }
+
+  /**
+   * Invalidate cached tasks, lists and stats showing a label
+   *
+   * @param label - Label
+   */
+  private async invalidateTaskCaches(label: Label): Promise<void> {
+    const tasks: { task_id: string }[] = await this.labelsRepository.manager
+      .createQueryBuilder()
+      .select('tl.task_id', 'task_id')
+      .from('task_labels', 'tl')
+      .where('tl.label_id = :labelId', { labelId: label.id })
+      .getRawMany();
+
+    const userIds = label.projectId
+      ? await this.projectsService.getMemberIds(label.projectId)
+      : [label.userId as string];
+
+    await Promise.all([
+      ...tasks.map(task => this.cacheService.delete(`task:${task.task_id}`)),
+      ...userIds.map(userId => this.cacheService.deletePattern(`tasks:list:*${userId}*`)),
+      ...userIds.map(userId => this.cacheService.delete(`task:stats:${userId}`)),
+      label.projectId
+        ? this.cacheService.delete(`task:stats:project:${label.projectId}`)
+        : Promise.resolve(),
+    ]);
+  }
+}
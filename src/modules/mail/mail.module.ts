@@ -0,0 +1,39 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT, MailTransport } from './transports/mail-transport.interface';
+import { SmtpMailTransport, SmtpOptions } from './transports/smtp-mail.transport';
+import { FileMailTransport } from './transports/file-mail.transport';
+import { ConsoleMailTransport } from './transports/console-mail.transport';
+
+/**
+ * Mail Module
+ *
+ * Outgoing email with a pluggable transport chosen by MAIL_TRANSPORT
+ * (smtp, file or console). Exports MailService.
+ */
+@Module({
+  providers: [
+    MailService,
+    {
+      provide: MAIL_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): MailTransport => {
+        const transport = configService.get<string>('mail.transport');
+
+        switch (transport) {
+          case 'smtp':
+            return new SmtpMailTransport(configService.get<SmtpOptions>('mail.smtp')!);
+          case 'file':
+            return new FileMailTransport(configService.get<string>('mail.fileDir')!);
+          case 'console':
+            return new ConsoleMailTransport();
+          default:
+            throw new Error(`Unknown MAIL_TRANSPORT "${transport}" (use smtp, file or console)`);
+        }
+      },
+    },
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,51 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  MAIL_TRANSPORT,
+  MailMessage,
+  type MailTransport,
+} from './transports/mail-transport.interface';
+
+/**
+ * Mail Service
+ *
+ * Sends rendered emails through the configured transport (see
+ * config/mail.config.ts). Templates live with the features that send them;
+ * this service only adds the sender and delivers.
+ *
+ * Errors are thrown to the caller, so queue jobs can retry.
+ */
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(
+    @Inject(MAIL_TRANSPORT)
+    private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Send an email
+   *
+   * @param message - Rendered message
+   */
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({
+      ...message,
+      from: message.from || this.configService.get<string>('mail.from', ''),
+    });
+
+    this.logger.debug(`Email sent to ${message.to}: ${message.subject}`);
+  }
+
+  /**
+   * Build an absolute link into the app
+   *
+   * @param path - Path starting with '/'
+   * @returns URL
+   */
+  link(path: string): string {
+    return `${this.configService.get<string>('mail.appUrl', '').replace(/\/+$/, '')}${path}`;
+  }
+}
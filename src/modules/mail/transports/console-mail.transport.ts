@@ -0,0 +1,15 @@
+import { Logger } from '@nestjs/common';
+import { MailMessage, MailTransport } from './mail-transport.interface';
+
+/**
+ * Console Mail Transport
+ *
+ * Logs messages instead of sending them (default when nothing is configured).
+ */
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger('Mail');
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    this.logger.log(`To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+  }
+}
@@ -0,0 +1,28 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { createTransport, Transporter } from 'nodemailer';
+import { v4 as uuidv4 } from 'uuid';
+import { MailMessage, MailTransport } from './mail-transport.interface';
+
+/**
+ * File Mail Transport
+ *
+ * Writes each message as an .eml file (openable in any mail client), for
+ * local development and tests. Nothing leaves the machine.
+ */
+export class FileMailTransport implements MailTransport {
+  // Builds the raw RFC 822 message without sending it
+  private readonly transporter: Transporter = createTransport({
+    streamTransport: true,
+    buffer: true,
+  });
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    const { message: raw } = await this.transporter.sendMail(message);
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(join(this.directory, `${Date.now()}-${uuidv4()}.eml`), raw as Buffer);
+  }
+}
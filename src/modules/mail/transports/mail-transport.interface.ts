@@ -0,0 +1,23 @@
+/**
+ * Rendered email ready to send
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  // Defaults to the configured sender
+  from?: string;
+}
+
+/**
+ * Delivers rendered emails (SMTP, file or console)
+ */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Injection token for the configured MailTransport
+ */
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
@@ -0,0 +1,36 @@
+import { createTransport, Transporter } from 'nodemailer';
+import { MailMessage, MailTransport } from './mail-transport.interface';
+
+/**
+ * SMTP connection settings
+ */
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+/**
+ * SMTP Mail Transport
+ *
+ * Sends through an SMTP server using a pooled connection.
+ */
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(options: SmtpOptions) {
+    this.transporter = createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      pool: true,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
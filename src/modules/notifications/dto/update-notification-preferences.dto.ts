@@ -0,0 +1,47 @@
+import {
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsOptional,
+  IsTimeZone,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { EMAIL_NOTIFICATION_TYPES, NotificationType } from '../enums/notification-type.enum';
+import { DigestFrequency } from '../enums/digest-frequency.enum';
+
+export class UpdateNotificationPreferencesDto {
+  @ApiProperty({ example: true, required: false, description: 'Receive notification emails' })
+  @IsBoolean()
+  @IsOptional()
+  emailEnabled?: boolean;
+
+  @ApiProperty({
+    enum: EMAIL_NOTIFICATION_TYPES,
+    isArray: true,
+    required: false,
+    example: [NotificationType.TASK_ASSIGNED],
+    description: 'Notification types not to send by email (replaces the current list)',
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(EMAIL_NOTIFICATION_TYPES, { each: true })
+  @IsOptional()
+  emailOptOut?: NotificationType[];
+
+  @ApiProperty({
+    enum: DigestFrequency,
+    required: false,
+    example: DigestFrequency.DAILY,
+    description: 'Task digest email: daily, weekly (Mondays) or off',
+  })
+  @IsEnum(DigestFrequency)
+  @IsOptional()
+  digestFrequency?: DigestFrequency;
+
+  @ApiProperty({ example: 'Europe/Berlin', required: false, description: 'IANA time zone' })
+  @IsTimeZone()
+  @IsOptional()
+  timezone?: string;
+}
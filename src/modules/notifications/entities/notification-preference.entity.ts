@@ -0,0 +1,43 @@
+import { Column, Entity, JoinColumn, OneToOne, PrimaryColumn, UpdateDateColumn } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { NotificationType } from '../enums/notification-type.enum';
+import { DigestFrequency } from '../enums/digest-frequency.enum';
+
+/**
+ * Notification Preference Entity
+ *
+ * A user's delivery preferences. Users without a row get the defaults:
+ * every email notification enabled, no digest, UTC.
+ */
+@Entity('notification_preferences')
+export class NotificationPreference {
+  @PrimaryColumn({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  // Master switch for all notification emails
+  @Column({ name: 'email_enabled', default: true })
+  emailEnabled: boolean;
+
+  // Notification types not sent by email
+  @Column({ name: 'email_opt_out', type: 'varchar', array: true, default: () => "'{}'" })
+  emailOptOut: NotificationType[];
+
+  @Column({
+    name: 'digest_frequency',
+    type: 'varchar',
+    length: 10,
+    default: DigestFrequency.OFF,
+  })
+  digestFrequency: DigestFrequency;
+
+  // IANA time zone; digests go out in the morning local time
+  @Column({ length: 64, default: 'UTC' })
+  timezone: string;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
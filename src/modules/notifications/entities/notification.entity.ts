@@ -0,0 +1,66 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import type { Task } from '../../tasks/entities/task.entity';
+import { NotificationType } from '../enums/notification-type.enum';
+
+/**
+ * Notification Entity
+ *
+ * In-app notification for one recipient:
+ * - Produced by the task-processing queue (overdue, status, assignment, mention)
+ * - Unread until readAt is set
+ * - Survives deletion of its task (taskId is cleared)
+ */
+@Entity('notifications')
+@Index('IDX_notifications_user_created', ['userId', 'createdAt'])
+export class Notification {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Recipient
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 50 })
+  type: NotificationType;
+
+  @Column({ name: 'task_id', type: 'uuid', nullable: true })
+  taskId: string | null;
+
+  @ManyToOne('Task', { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'task_id' })
+  task: Task | null;
+
+  // User whose action caused the notification; null for system events
+  @Column({ name: 'actor_id', type: 'uuid', nullable: true })
+  actorId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'actor_id' })
+  actor: User | null;
+
+  @Column()
+  title: string;
+
+  // Type-specific details, e.g. { from, to } for status changes
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  data: Record<string, unknown>;
+
+  @Column({ name: 'read_at', type: 'timestamp', nullable: true })
+  readAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,6 @@
+export enum DigestFrequency {
+  DAILY = 'daily',
+  // Sent on Mondays
+  WEEKLY = 'weekly',
+  OFF = 'off',
+}
@@ -0,0 +1,20 @@
+export enum NotificationType {
+  TASK_OVERDUE = 'TASK_OVERDUE',
+  TASK_STATUS_CHANGED = 'TASK_STATUS_CHANGED',
+  TASK_ASSIGNED = 'TASK_ASSIGNED',
+  TASK_MENTIONED = 'TASK_MENTIONED',
+  TASK_DUE_SOON = 'TASK_DUE_SOON',
+  // Email only: scheduled summary, controlled by the digest frequency
+  TASK_DIGEST = 'TASK_DIGEST',
+  // Failed logins locked the recipient's account
+  ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
+}
+
+// Types that are also sent by email (overdue alerts arrive as a digest)
+export const EMAIL_NOTIFICATION_TYPES = [
+  NotificationType.TASK_OVERDUE,
+  NotificationType.TASK_ASSIGNED,
+  NotificationType.TASK_MENTIONED,
+  NotificationType.TASK_DUE_SOON,
+  NotificationType.ACCOUNT_LOCKED,
+];
@@ -0,0 +1,75 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+import {
+  NotificationEmailContext,
+  NotificationEmailTemplates,
+} from './notification-email.templates';
+import { MailService } from '../mail/mail.service';
+
+/**
+ * One email ready to queue
+ */
+export interface NotificationEmail {
+  to: string;
+  name: string;
+  context: NotificationEmailContext;
+}
+
+/**
+ * Notification Email Service
+ *
+ * Email channel for notifications:
+ * 1. Drops recipients who opted out (globally or for the type)
+ * 2. Renders the type's template and sends it through MailService
+ *
+ * Emails are sent from `notification-email` queue jobs, so a failing mail
+ * server is retried without repeating the in-app notifications.
+ */
+@Injectable()
+export class NotificationEmailService {
+  constructor(
+    private readonly notificationsService: NotificationsService,
+    private readonly mailService: MailService,
+  ) {}
+
+  /**
+   * Resolve the emails to send for notifications of one type
+   *
+   * @param items - Recipient user IDs with their template data
+   * @returns Emails for recipients who have not opted out
+   */
+  async prepare(
+    items: { userId: string; context: NotificationEmailContext }[],
+  ): Promise<NotificationEmail[]> {
+    if (items.length === 0) {
+      return [];
+    }
+
+    const recipients = await this.notificationsService.findEmailRecipients(
+      items.map(item => item.userId),
+      items[0].context.type,
+    );
+    const byId = new Map(recipients.map(recipient => [recipient.id, recipient]));
+
+    return items
+      .filter(item => byId.has(item.userId))
+      .map(item => ({
+        to: byId.get(item.userId)!.email,
+        name: byId.get(item.userId)!.name,
+        context: item.context,
+      }));
+  }
+
+  /**
+   * Render and send one email
+   *
+   * @param email - Queued email
+   */
+  async send(email: NotificationEmail): Promise<void> {
+    const rendered = NotificationEmailTemplates.render(email.context, email.name, path =>
+      this.mailService.link(path),
+    );
+
+    await this.mailService.send({ to: email.to, ...rendered });
+  }
+}
@@ -0,0 +1,301 @@
+import { NotificationType } from './enums/notification-type.enum';
+import { DigestFrequency } from './enums/digest-frequency.enum';
+
+/**
+ * Task fields shown in emails
+ */
+export interface EmailTask {
+  id: string;
+  title: string;
+  dueDate?: string | Date | null;
+}
+
+/**
+ * Digest section: first tasks and the full count
+ */
+export interface EmailTaskList {
+  count: number;
+  tasks: EmailTask[];
+}
+
+/**
+ * Template data for a task digest
+ */
+export interface EmailDigest {
+  frequency: DigestFrequency.DAILY | DigestFrequency.WEEKLY;
+  // Local date the digest was compiled for (YYYY-MM-DD)
+  date: string;
+  open: number;
+  blocked: number;
+  dueToday: EmailTaskList;
+  overdue: EmailTaskList;
+  completed: EmailTaskList;
+}
+
+/**
+ * Template data per email notification type
+ */
+export type NotificationEmailContext =
+  | { type: NotificationType.TASK_OVERDUE; tasks: EmailTask[] }
+  | { type: NotificationType.TASK_ASSIGNED; task: EmailTask }
+  | { type: NotificationType.TASK_MENTIONED; task: EmailTask; excerpt?: string }
+  | { type: NotificationType.TASK_DUE_SOON; task: EmailTask; dueIn: string }
+  | { type: NotificationType.TASK_DIGEST; digest: EmailDigest }
+  | { type: NotificationType.ACCOUNT_LOCKED; lockedUntil: string };
+
+/**
+ * Rendered subject and bodies
+ */
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Notification Email Templates
+ *
+ * Plain-text and HTML versions of every notification email:
+ * - Overdue digest: all of the recipient's newly overdue tasks in one email
+ * - Assignment: the recipient was assigned to a task
+ * - Mention: the recipient was mentioned in a comment
+ * - Reminder: a task is due soon
+ * - Task digest: scheduled daily or weekly summary of the recipient's tasks
+ * - Account locked: failed logins locked the recipient's account
+ *
+ * All user-provided text is HTML-escaped in the HTML version.
+ */
+export class NotificationEmailTemplates {
+  /**
+   * Render an email
+   *
+   * @param context - Notification type and template data
+   * @param recipientName - Greeting name
+   * @param link - Builds absolute app URLs from paths
+   * @returns Subject, text and HTML
+   */
+  static render(
+    context: NotificationEmailContext,
+    recipientName: string,
+    link: (path: string) => string,
+  ): RenderedEmail {
+    switch (context.type) {
+      case NotificationType.TASK_OVERDUE:
+        return this.overdueDigest(context.tasks, recipientName, link);
+      case NotificationType.TASK_ASSIGNED:
+        return this.assignment(context.task, recipientName, link);
+      case NotificationType.TASK_MENTIONED:
+        return this.mention(context.task, context.excerpt, recipientName, link);
+      case NotificationType.TASK_DUE_SOON:
+        return this.reminder(context.task, context.dueIn, recipientName, link);
+      case NotificationType.TASK_DIGEST:
+        return this.taskDigest(context.digest, recipientName, link);
+      case NotificationType.ACCOUNT_LOCKED:
+        return this.accountLocked(context.lockedUntil, recipientName, link);
+    }
+  }
+
+  private static overdueDigest(
+    tasks: EmailTask[],
+    recipientName: string,
+    link: (path: string) => string,
+  ): RenderedEmail {
+    const subject =
+      tasks.length === 1 ? `"${tasks[0].title}" is overdue` : `${tasks.length} tasks are overdue`;
+
+    const lines = tasks.map(
+      task =>
+        `- ${task.title} (due ${this.formatDate(task.dueDate)}): ${link(`/tasks/${task.id}`)}`,
+    );
+    const items = tasks.map(
+      task =>
+        `<li><a href="${this.escape(link(`/tasks/${task.id}`))}">${this.escape(task.title)}</a>` +
+        ` &ndash; due ${this.escape(this.formatDate(task.dueDate))}</li>`,
+    );
+
+    return {
+      subject,
+      text: [`Hi ${recipientName},`, '', 'These tasks are now overdue:', ...lines].join('\n'),
+      html: this.layout(
+        recipientName,
+        `<p>These tasks are now overdue:</p><ul>${items.join('')}</ul>`,
+      ),
+    };
+  }
+
+  private static assignment(
+    task: EmailTask,
+    recipientName: string,
+    link: (path: string) => string,
+  ): RenderedEmail {
+    const url = link(`/tasks/${task.id}`);
+    const due = task.dueDate ? ` It is due ${this.formatDate(task.dueDate)}.` : '';
+
+    return {
+      subject: `You were assigned to "${task.title}"`,
+      text: [
+        `Hi ${recipientName},`,
+        '',
+        `You were assigned to "${task.title}".${due}`,
+        '',
+        url,
+      ].join('\n'),
+      html: this.layout(
+        recipientName,
+        `<p>You were assigned to <a href="${this.escape(url)}">${this.escape(task.title)}</a>.` +
+          `${this.escape(due)}</p>`,
+      ),
+    };
+  }
+
+  private static mention(
+    task: EmailTask,
+    excerpt: string | undefined,
+    recipientName: string,
+    link: (path: string) => string,
+  ): RenderedEmail {
+    const url = link(`/tasks/${task.id}`);
+
+    return {
+      subject: `You were mentioned on "${task.title}"`,
+      text: [
+        `Hi ${recipientName},`,
+        '',
+        `You were mentioned in a comment on "${task.title}":`,
+        ...(excerpt ? ['', `> ${excerpt}`] : []),
+        '',
+        url,
+      ].join('\n'),
+      html: this.layout(
+        recipientName,
+        `<p>You were mentioned in a comment on <a href="${this.escape(url)}">` +
+          `${this.escape(task.title)}</a>:</p>` +
+          (excerpt ? `<blockquote>${this.escape(excerpt)}</blockquote>` : ''),
+      ),
+    };
+  }
+
+  private static reminder(
+    task: EmailTask,
+    dueIn: string,
+    recipientName: string,
+    link: (path: string) => string,
+  ): RenderedEmail {
+    const url = link(`/tasks/${task.id}`);
+    const due = `"${task.title}" is due in ${dueIn} (${this.formatDate(task.dueDate)}).`;
+
+    return {
+      subject: `"${task.title}" is due in ${dueIn}`,
+      text: [`Hi ${recipientName},`, '', due, '', url].join('\n'),
+      html: this.layout(
+        recipientName,
+        `<p><a href="${this.escape(url)}">${this.escape(task.title)}</a> is due in ` +
+          `${this.escape(dueIn)} (${this.escape(this.formatDate(task.dueDate))}).</p>`,
+      ),
+    };
+  }
+
+  private static taskDigest(
+    digest: EmailDigest,
+    recipientName: string,
+    link: (path: string) => string,
+  ): RenderedEmail {
+    const sections: { heading: string; list: EmailTaskList }[] = [
+      { heading: 'Due today', list: digest.dueToday },
+      { heading: 'Overdue', list: digest.overdue },
+      {
+        heading:
+          digest.frequency === DigestFrequency.WEEKLY
+            ? 'Completed in the last 7 days'
+            : 'Completed yesterday',
+        list: digest.completed,
+      },
+    ].filter(section => section.list.count > 0);
+
+    const summary =
+      `You have ${digest.open} open ${digest.open === 1 ? 'task' : 'tasks'}` +
+      (digest.blocked > 0 ? ` (${digest.blocked} blocked).` : '.');
+    const more = (list: EmailTaskList) => list.count - list.tasks.length;
+
+    const text = sections.flatMap(({ heading, list }) => [
+      '',
+      `${heading} (${list.count}):`,
+      ...list.tasks.map(task => `- ${this.digestLine(task)}: ${link(`/tasks/${task.id}`)}`),
+      ...(more(list) > 0 ? [`  ...and ${more(list)} more`] : []),
+    ]);
+    const html = sections.map(
+      ({ heading, list }) =>
+        `<h3>${this.escape(heading)} (${list.count})</h3><ul>` +
+        list.tasks
+          .map(
+            task =>
+              `<li><a href="${this.escape(link(`/tasks/${task.id}`))}">` +
+              `${this.escape(task.title)}</a>` +
+              (task.dueDate ? ` &ndash; due ${this.escape(this.formatDate(task.dueDate))}` : '') +
+              '</li>',
+          )
+          .join('') +
+        (more(list) > 0 ? `<li>...and ${more(list)} more</li>` : '') +
+        '</ul>',
+    );
+
+    return {
+      subject: `Your ${digest.frequency} task digest for ${digest.date}`,
+      text: [`Hi ${recipientName},`, '', summary, ...text, '', link('/tasks')].join('\n'),
+      html: this.layout(
+        recipientName,
+        `<p>${this.escape(summary)}</p>${html.join('')}` +
+          `<p><a href="${this.escape(link('/tasks'))}">Open your tasks</a></p>`,
+      ),
+    };
+  }
+
+  private static accountLocked(
+    lockedUntil: string,
+    recipientName: string,
+    link: (path: string) => string,
+  ): RenderedEmail {
+    const url = link('/forgot-password');
+    const until = `${new Date(lockedUntil).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+    const locked = `After several failed sign-in attempts, your account is locked until ${until}.`;
+    const advice =
+      "If this wasn't you, someone may be trying to guess your password. Reset it here:";
+
+    return {
+      subject: 'Your account was temporarily locked',
+      text: [`Hi ${recipientName},`, '', locked, '', advice, url].join('\n'),
+      html: this.layout(
+        recipientName,
+        `<p>${this.escape(locked)}</p><p>${this.escape(advice)} ` +
+          `<a href="${this.escape(url)}">Reset your password</a></p>`,
+      ),
+    };
+  }
+
+  private static digestLine(task: EmailTask): string {
+    return task.dueDate ? `${task.title} (due ${this.formatDate(task.dueDate)})` : task.title;
+  }
+
+  private static layout(recipientName: string, body: string): string {
+    return (
+      `<!DOCTYPE html><html><body style="font-family: sans-serif">` +
+      `<p>Hi ${this.escape(recipientName)},</p>${body}` +
+      `<p style="color: #888; font-size: 12px">` +
+      `You can turn off these emails in your notification preferences.</p>` +
+      `</body></html>`
+    );
+  }
+
+  private static formatDate(value: string | Date | null | undefined): string {
+    return value ? new Date(value).toISOString().slice(0, 10) : 'unknown';
+  }
+
+  private static escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
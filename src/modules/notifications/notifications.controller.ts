@@ -0,0 +1,128 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Param,
+  Query,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  ParseBoolPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { NotificationsService } from './notifications.service';
+import { UpdateNotificationPreferencesDto } from './dto/update-notification-preferences.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RedisRateLimitGuard } from '../../common/guards/redis-rate-limit.guard';
+import {
+  RedisRateLimit,
+  RateLimitPresets,
+} from '../../common/decorators/rate-limit-redis.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { PaginationParams } from '../../common/interfaces/pagination.interface';
+import { PaginationUtil } from '../../common/utils/pagination.util';
+
+/**
+ * Notifications Controller
+ *
+ * The current user's in-app notifications. Every route is scoped to the
+ * authenticated user, so no ownership guard is needed.
+ */
+@ApiTags('notifications')
+@Controller('notifications')
+@UseGuards(JwtAuthGuard, RedisRateLimitGuard)
+@ApiBearerAuth()
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  /**
+   * List notifications
+   */
+  @Get()
+  @RedisRateLimit(RateLimitPresets.LENIENT)
+  @ApiOperation({ summary: 'List notifications' })
+  @ApiQuery({ name: 'unreadOnly', required: false, type: Boolean })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number', type: Number })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page', type: Number })
+  @ApiResponse({ status: 200, description: 'Notifications retrieved successfully' })
+  async findAll(
+    @Query() paginationParams: PaginationParams,
+    @CurrentUser('id') userId: string,
+    @Query('unreadOnly', new ParseBoolPipe({ optional: true })) unreadOnly?: boolean,
+  ) {
+    const pagination = PaginationUtil.validateParams(paginationParams);
+    return this.notificationsService.findAll(userId, pagination, unreadOnly);
+  }
+
+  /**
+   * Count unread notifications
+   */
+  @Get('unread-count')
+  @RedisRateLimit(RateLimitPresets.LENIENT)
+  @ApiOperation({ summary: 'Count unread notifications' })
+  @ApiResponse({ status: 200, description: 'Unread count retrieved successfully' })
+  async getUnreadCount(@CurrentUser('id') userId: string) {
+    return { count: await this.notificationsService.getUnreadCount(userId) };
+  }
+
+  /**
+   * Get notification preferences
+   */
+  @Get('preferences')
+  @RedisRateLimit(RateLimitPresets.LENIENT)
+  @ApiOperation({ summary: 'Get notification preferences' })
+  @ApiResponse({ status: 200, description: 'Preferences retrieved successfully' })
+  async getPreferences(@CurrentUser('id') userId: string) {
+    return this.notificationsService.getPreferences(userId);
+  }
+
+  /**
+   * Update notification preferences
+   *
+   * Opt out of all notification emails or of single types
+   */
+  @Patch('preferences')
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Update notification preferences' })
+  @ApiResponse({ status: 200, description: 'Preferences updated successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid preferences or unsupported time zone' })
+  async updatePreferences(
+    @Body() updateDto: UpdateNotificationPreferencesDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    return this.notificationsService.updatePreferences(userId, updateDto);
+  }
+
+  /**
+   * Mark all notifications as read
+   */
+  @Post('read-all')
+  @HttpCode(HttpStatus.OK)
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Mark all notifications as read' })
+  @ApiResponse({ status: 200, description: 'Notifications marked as read' })
+  async markAllRead(@CurrentUser('id') userId: string) {
+    const affected = await this.notificationsService.markAllRead(userId);
+
+    return {
+      success: true,
+      affected,
+      message: `Marked ${affected} notification(s) as read`,
+    };
+  }
+
+  /**
+   * Mark a notification as read
+   */
+  @Patch(':id/read')
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Mark a notification as read' })
+  @ApiResponse({ status: 200, description: 'Notification marked as read' })
+  @ApiResponse({ status: 404, description: 'Notification not found' })
+  async markRead(@Param('id', ParseUUIDPipe) id: string, @CurrentUser('id') userId: string) {
+    return this.notificationsService.markRead(id, userId);
+  }
+}
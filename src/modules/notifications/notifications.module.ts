@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { NotificationsService } from './notifications.service';
+import { NotificationEmailService } from './notification-email.service';
+import { NotificationsController } from './notifications.controller';
+import { Notification } from './entities/notification.entity';
+import { NotificationPreference } from './entities/notification-preference.entity';
+import { MailModule } from '../mail/mail.module';
+import { RedisCacheService } from '../../common/services/redis-cache.service';
+
+/**
+ * Notifications Module
+ *
+ * In-app notification center under /notifications, plus the email channel.
+ * Exports NotificationsService and NotificationEmailService so the task
+ * processor can create notifications and send their emails.
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([Notification, NotificationPreference]), MailModule],
+  controllers: [NotificationsController],
+  providers: [NotificationsService, NotificationEmailService, RedisCacheService],
+  exports: [NotificationsService, NotificationEmailService],
+})
+export class NotificationsModule {}
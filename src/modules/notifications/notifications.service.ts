@@ -0,0 +1,264 @@
+import { BadRequestException, Injectable, NotFoundException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, IsNull, Repository } from 'typeorm';
+import { Notification } from './entities/notification.entity';
+import { NotificationPreference } from './entities/notification-preference.entity';
+import { NotificationType } from './enums/notification-type.enum';
+import { DigestFrequency } from './enums/digest-frequency.enum';
+import { UpdateNotificationPreferencesDto } from './dto/update-notification-preferences.dto';
+import { User } from '../users/entities/user.entity';
+import { PaginationParams, PaginatedResponse } from '../../common/interfaces/pagination.interface';
+import { PaginationUtil } from '../../common/utils/pagination.util';
+import { RedisCacheService } from '../../common/services/redis-cache.service';
+
+/**
+ * Data for a new notification
+ */
+export interface NotificationInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  taskId?: string | null;
+  actorId?: string | null;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Email recipient that has not opted out
+ */
+export type EmailRecipient = Pick<User, 'id' | 'email' | 'name'>;
+
+/**
+ * Notifications Service
+ *
+ * In-app notification center:
+ * 1. Bulk creation from queue jobs
+ * 2. Paginated listing scoped to the recipient
+ * 3. Read state (single and all) with a cached unread count
+ * 4. Per-user delivery preferences (email opt-out)
+ */
+@Injectable()
+export class NotificationsService {
+  private readonly logger = new Logger(NotificationsService.name);
+  private readonly CACHE_TTL = 300; // 5 minutes
+
+  constructor(
+    @InjectRepository(Notification)
+    private readonly notificationsRepository: Repository<Notification>,
+    @InjectRepository(NotificationPreference)
+    private readonly preferencesRepository: Repository<NotificationPreference>,
+    private readonly cacheService: RedisCacheService,
+  ) {}
+
+  /**
+   * Create notifications in a single INSERT
+   *
+   * Within a transaction, the caller invalidates unread counts after
+   * commit (invalidateUnreadCount); earlier, a concurrent read could cache
+   * the old count again.
+   *
+   * @param inputs - Notifications to create
+   * @param manager - Transaction manager to write within (optional)
+   * @returns Created notifications
+   */
+  async createMany(inputs: NotificationInput[], manager?: EntityManager): Promise<Notification[]> {
+    if (inputs.length === 0) {
+      return [];
+    }
+
+    const notifications = await (manager || this.notificationsRepository.manager).save(
+      Notification,
+      this.notificationsRepository.create(inputs),
+    );
+
+    if (!manager) {
+      await this.invalidateUnreadCount(...inputs.map(input => input.userId));
+    }
+
+    this.logger.debug(`Created ${notifications.length} notifications`);
+    return notifications;
+  }
+
+  /**
+   * List a user's notifications, newest first by default
+   *
+   * @param userId - Recipient
+   * @param pagination - Pagination parameters
+   * @param unreadOnly - Only unread notifications
+   * @returns Paginated notifications
+   */
+  async findAll(
+    userId: string,
+    pagination: PaginationParams,
+    unreadOnly = false,
+  ): Promise<PaginatedResponse<Notification>> {
+    const queryBuilder = this.notificationsRepository
+      .createQueryBuilder('notification')
+      .leftJoin('notification.actor', 'actor')
+      .addSelect(['actor.id', 'actor.name'])
+      .where('notification.userId = :userId', { userId });
+
+    if (unreadOnly) {
+      queryBuilder.andWhere('notification.readAt IS NULL');
+    }
+
+    PaginationUtil.applySorting(queryBuilder, pagination, 'notification', 'createdAt');
+    PaginationUtil.applyPagination(queryBuilder, pagination);
+
+    return PaginationUtil.paginate(queryBuilder, pagination);
+  }
+
+  /**
+   * Mark one notification as read
+   *
+   * @param id - Notification ID
+   * @param userId - Recipient
+   * @returns Updated notification
+   */
+  async markRead(id: string, userId: string): Promise<Notification> {
+    const notification = await this.notificationsRepository.findOne({ where: { id, userId } });
+
+    if (!notification) {
+      throw new NotFoundException(`Notification with ID ${id} not found`);
+    }
+
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await this.notificationsRepository.save(notification);
+      await this.invalidateUnreadCount(userId);
+    }
+
+    return notification;
+  }
+
+  /**
+   * Mark all of a user's notifications as read
+   *
+   * @param userId - Recipient
+   * @returns Number of notifications marked
+   */
+  async markAllRead(userId: string): Promise<number> {
+    const result = await this.notificationsRepository.update(
+      { userId, readAt: IsNull() },
+      { readAt: new Date() },
+    );
+
+    await this.invalidateUnreadCount(userId);
+
+    return result.affected || 0;
+  }
+
+  /**
+   * Count a user's unread notifications
+   * Cached because clients poll it
+   *
+   * @param userId - Recipient
+   * @returns Unread count
+   */
+  async getUnreadCount(userId: string): Promise<number> {
+    const cacheKey = `notifications:unread:${userId}`;
+
+    const cached = await this.cacheService.get<{ count: number }>(cacheKey);
+    if (cached) {
+      return cached.count;
+    }
+
+    const count = await this.notificationsRepository.count({
+      where: { userId, readAt: IsNull() },
+    });
+
+    await this.cacheService.set(cacheKey, { count }, this.CACHE_TTL);
+
+    return count;
+  }
+
+  /**
+   * Get a user's notification preferences
+   *
+   * @param userId - User ID
+   * @returns Preferences (defaults if never saved)
+   */
+  async getPreferences(userId: string): Promise<NotificationPreference> {
+    const preferences = await this.preferencesRepository.findOne({ where: { userId } });
+
+    return (
+      preferences ||
+      this.preferencesRepository.create({
+        userId,
+        emailEnabled: true,
+        emailOptOut: [],
+        digestFrequency: DigestFrequency.OFF,
+        timezone: 'UTC',
+      })
+    );
+  }
+
+  /**
+   * Update a user's notification preferences
+   *
+   * @param userId - User ID
+   * @param updateDto - Changed preferences
+   * @returns Updated preferences
+   * @throws BadRequestException if the database doesn't know the time zone
+   */
+  async updatePreferences(
+    userId: string,
+    updateDto: UpdateNotificationPreferencesDto,
+  ): Promise<NotificationPreference> {
+    // The DTO checks zones against Node's ICU data; digests use Postgres' tzdata
+    if (updateDto.timezone) {
+      const [known] = await this.preferencesRepository.query(
+        'SELECT 1 FROM pg_timezone_names WHERE name = $1',
+        [updateDto.timezone],
+      );
+      if (!known) {
+        throw new BadRequestException(`Unsupported time zone: ${updateDto.timezone}`);
+      }
+    }
+
+    const preferences = await this.getPreferences(userId);
+    this.preferencesRepository.merge(preferences, updateDto);
+
+    return this.preferencesRepository.save(preferences);
+  }
+
+  /**
+   * Find users who receive a notification type by email
+   *
+   * @param userIds - Candidate recipients
+   * @param type - Notification type
+   * @returns Recipients that have not opted out
+   */
+  async findEmailRecipients(userIds: string[], type: NotificationType): Promise<EmailRecipient[]> {
+    const uniqueIds = [...new Set(userIds)];
+    if (uniqueIds.length === 0) {
+      return [];
+    }
+
+    return this.notificationsRepository.manager
+      .createQueryBuilder(User, 'user')
+      .leftJoin(NotificationPreference, 'preference', 'preference.userId = user.id')
+      .select(['user.id', 'user.email', 'user.name'])
+      .where('user.id IN (:...uniqueIds)', { uniqueIds })
+      .andWhere(
+        '(preference.userId IS NULL OR (preference.emailEnabled AND NOT :type = ANY(preference.emailOptOut)))',
+        { type },
+      )
+      .getMany();
+  }
+
+  /**
+   * Invalidate cached unread counts
+   *
+   * Called by createMany, or by its caller once a transaction commits.
+   *
+   * @param userIds - Recipients
+   */
+  async invalidateUnreadCount(...userIds: string[]): Promise<void> {
+    await Promise.all(
+      [...new Set(userIds)].map(userId =>
+        this.cacheService.delete(`notifications:unread:${userId}`),
+      ),
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateProjectDto {
+  @ApiProperty({ example: 'Website relaunch' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @ApiProperty({ example: 'Tasks for the Q3 website relaunch', required: false })
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
@@ -0,0 +1,32 @@
+import { IsEnum, IsIn, IsNotEmpty, IsOptional, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ProjectRole } from '../enums/project-role.enum';
+
+// OWNER is only granted on project creation
+const ASSIGNABLE_ROLES = [ProjectRole.ADMIN, ProjectRole.MEMBER, ProjectRole.VIEWER];
+
+/**
+ * DTO for adding a member to a project
+ */
+export class AddProjectMemberDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @IsUUID()
+  @IsNotEmpty()
+  userId: string;
+
+  @ApiProperty({ enum: ASSIGNABLE_ROLES, example: ProjectRole.MEMBER, required: false })
+  @IsEnum(ProjectRole)
+  @IsIn(ASSIGNABLE_ROLES)
+  @IsOptional()
+  role?: ProjectRole;
+}
+
+/**
+ * DTO for changing a member's role
+ */
+export class UpdateProjectMemberDto {
+  @ApiProperty({ enum: ASSIGNABLE_ROLES, example: ProjectRole.ADMIN })
+  @IsEnum(ProjectRole)
+  @IsIn(ASSIGNABLE_ROLES)
+  role: ProjectRole;
+}
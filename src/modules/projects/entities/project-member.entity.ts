@@ -0,0 +1,52 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+import { ProjectRole } from '../enums/project-role.enum';
+import { Project } from './project.entity';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Project Member Entity
+ *
+ * Links a user to a project with a per-project role:
+ * - OWNER: full control, including deleting the project
+ * - ADMIN: manage members and delete any project task
+ * - MEMBER: create and edit project tasks
+ * - VIEWER: read-only access
+ */
+@Entity('project_members')
+@Unique('UQ_project_members_project_user', ['projectId', 'userId'])
+export class ProjectMember {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'project_id' })
+  projectId: string;
+
+  @ManyToOne(() => Project, project => project.members, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'project_id' })
+  project: Project;
+
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({
+    type: 'enum',
+    enum: ProjectRole,
+    default: ProjectRole.MEMBER,
+  })
+  role: ProjectRole;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,50 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import type { ProjectMember } from './project-member.entity';
+import type { Task } from '../../tasks/entities/task.entity';
+
+/**
+ * Project Entity
+ *
+ * Workspace grouping tasks and the members allowed to work on them.
+ * The creator is recorded as ownerId and also holds the OWNER membership.
+ */
+@Entity('projects')
+export class Project {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string;
+
+  @Column({ name: 'owner_id' })
+  ownerId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'owner_id' })
+  owner: User;
+
+  @OneToMany('ProjectMember', 'project')
+  members: ProjectMember[];
+
+  @OneToMany('Task', 'project')
+  tasks: Task[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
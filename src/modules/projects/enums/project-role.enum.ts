@@ -0,0 +1,26 @@
+export enum ProjectRole {
+  OWNER = 'OWNER',
+  ADMIN = 'ADMIN',
+  MEMBER = 'MEMBER',
+  VIEWER = 'VIEWER',
+}
+
+/**
+ * Role rank (higher = more privileges)
+ */
+const PROJECT_ROLE_RANK: Record<ProjectRole, number> = {
+  [ProjectRole.OWNER]: 4,
+  [ProjectRole.ADMIN]: 3,
+  [ProjectRole.MEMBER]: 2,
+  [ProjectRole.VIEWER]: 1,
+};
+
+/**
+ * Check if a role meets a minimum role
+ *
+ * @param role - Member's role
+ * @param minimum - Minimum required role
+ * @returns true if role is at least the minimum
+ */
+export const hasProjectRole = (role: ProjectRole, minimum: ProjectRole): boolean =>
+  PROJECT_ROLE_RANK[role] >= PROJECT_ROLE_RANK[minimum];
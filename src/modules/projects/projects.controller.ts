@@ -0,0 +1,226 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags, ApiResponse } from '@nestjs/swagger';
+import { ProjectsService } from './projects.service';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+import { AddProjectMemberDto, UpdateProjectMemberDto } from './dto/project-member.dto';
+import { ProjectRole } from './enums/project-role.enum';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RedisRateLimitGuard } from '../../common/guards/redis-rate-limit.guard';
+import { OwnershipGuard } from '../../common/guards/ownership.guard';
+import {
+  RedisRateLimit,
+  RateLimitPresets,
+} from '../../common/decorators/rate-limit-redis.decorator';
+import { CheckOwnership } from '../../common/decorators/ownership.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { PaginationParams } from '../../common/interfaces/pagination.interface';
+import { PaginationUtil } from '../../common/utils/pagination.util';
+
+/**
+ * Projects Controller
+ *
+ * Manages projects (workspaces) and their members.
+ * Project tasks live under /projects/:projectId/tasks (see TasksController).
+ *
+ * Access is resolved from project membership:
+ * - VIEWER: read project and members
+ * - ADMIN: update project, manage members
+ * - OWNER: delete project
+ */
+@ApiTags('projects')
+@Controller('projects')
+@UseGuards(JwtAuthGuard, RedisRateLimitGuard)
+@ApiBearerAuth()
+export class ProjectsController {
+  constructor(private readonly projectsService: ProjectsService) {}
+
+  /**
+   * Create a project
+   *
+   * The current user becomes the project OWNER
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Create a project' })
+  @ApiResponse({ status: 201, description: 'Project created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  async create(@Body() createProjectDto: CreateProjectDto, @CurrentUser('id') userId: string) {
+    return this.projectsService.create(createProjectDto, userId);
+  }
+
+  /**
+   * List projects the current user is a member of
+   */
+  @Get()
+  @RedisRateLimit(RateLimitPresets.LENIENT)
+  @ApiOperation({ summary: 'List my projects' })
+  @ApiResponse({ status: 200, description: 'Projects retrieved successfully' })
+  async findAll(@Query() paginationParams: PaginationParams, @CurrentUser('id') userId: string) {
+    const pagination = PaginationUtil.validateParams(paginationParams);
+    return this.projectsService.findAllForUser(userId, pagination);
+  }
+
+  /**
+   * Get a project
+   */
+  @Get(':projectId')
+  @UseGuards(OwnershipGuard)
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.VIEWER,
+  })
+  @RedisRateLimit(RateLimitPresets.LENIENT)
+  @ApiOperation({ summary: 'Find a project by ID' })
+  @ApiResponse({ status: 200, description: 'Project found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - not a project member' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async findOne(@Param('projectId', ParseUUIDPipe) projectId: string) {
+    return this.projectsService.findOne(projectId);
+  }
+
+  /**
+   * Update a project
+   */
+  @Patch(':projectId')
+  @UseGuards(OwnershipGuard)
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.ADMIN,
+  })
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Update a project' })
+  @ApiResponse({ status: 200, description: 'Project updated successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden - requires project ADMIN' })
+  async update(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Body() updateProjectDto: UpdateProjectDto,
+  ) {
+    return this.projectsService.update(projectId, updateProjectDto);
+  }
+
+  /**
+   * Delete a project and all of its tasks
+   */
+  @Delete(':projectId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(OwnershipGuard)
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.OWNER,
+  })
+  @RedisRateLimit(RateLimitPresets.STRICT)
+  @ApiOperation({ summary: 'Delete a project' })
+  @ApiResponse({ status: 204, description: 'Project deleted successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden - requires project OWNER' })
+  async remove(@Param('projectId', ParseUUIDPipe) projectId: string) {
+    await this.projectsService.remove(projectId);
+  }
+
+  /**
+   * List project members
+   */
+  @Get(':projectId/members')
+  @UseGuards(OwnershipGuard)
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.VIEWER,
+  })
+  @RedisRateLimit(RateLimitPresets.LENIENT)
+  @ApiOperation({ summary: 'List project members' })
+  @ApiResponse({ status: 200, description: 'Members retrieved successfully' })
+  async getMembers(@Param('projectId', ParseUUIDPipe) projectId: string) {
+    return this.projectsService.getMembers(projectId);
+  }
+
+  /**
+   * Add a project member
+   */
+  @Post(':projectId/members')
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(OwnershipGuard)
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.ADMIN,
+  })
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Add a member to a project' })
+  @ApiResponse({ status: 201, description: 'Member added successfully' })
+  @ApiResponse({ status: 409, description: 'User is already a member' })
+  async addMember(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Body() addMemberDto: AddProjectMemberDto,
+  ) {
+    return this.projectsService.addMember(projectId, addMemberDto);
+  }
+
+  /**
+   * Change a member's role
+   */
+  @Patch(':projectId/members/:userId')
+  @UseGuards(OwnershipGuard)
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.ADMIN,
+  })
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: "Change a project member's role" })
+  @ApiResponse({ status: 200, description: 'Member role updated successfully' })
+  @ApiResponse({ status: 400, description: 'The owner role cannot be changed' })
+  async updateMember(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('userId', ParseUUIDPipe) memberId: string,
+    @Body() updateMemberDto: UpdateProjectMemberDto,
+  ) {
+    return this.projectsService.updateMemberRole(projectId, memberId, updateMemberDto.role);
+  }
+
+  /**
+   * Remove a project member
+   */
+  @Delete(':projectId/members/:userId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(OwnershipGuard)
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.ADMIN,
+  })
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Remove a member from a project' })
+  @ApiResponse({ status: 204, description: 'Member removed successfully' })
+  @ApiResponse({ status: 400, description: 'The owner cannot be removed' })
+  async removeMember(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('userId', ParseUUIDPipe) memberId: string,
+  ) {
+    await this.projectsService.removeMember(projectId, memberId);
+  }
+}
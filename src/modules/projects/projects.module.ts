@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ProjectsService } from './projects.service';
+import { ProjectsController } from './projects.controller';
+import { Project } from './entities/project.entity';
+import { ProjectMember } from './entities/project-member.entity';
+import { Task } from '../tasks/entities/task.entity';
+import { UsersModule } from '../users/users.module';
+import { RedisCacheService } from '../../common/services/redis-cache.service';
+import { OwnershipGuard } from '../../common/guards/ownership.guard';
+
+/**
+ * Projects Module
+ *
+ * Provides projects (workspaces) with membership and per-project roles.
+ * Exports ProjectsService so tasks and OwnershipGuard can resolve membership.
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([Project, ProjectMember, Task]), UsersModule],
+  controllers: [ProjectsController],
+  providers: [ProjectsService, RedisCacheService, OwnershipGuard],
+  exports: [ProjectsService],
+})
+export class ProjectsModule {}
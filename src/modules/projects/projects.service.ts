@@ -0,0 +1,338 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, DataSource, In } from 'typeorm';
+import { Project } from './entities/project.entity';
+import { ProjectMember } from './entities/project-member.entity';
+import { ProjectRole } from './enums/project-role.enum';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+import { AddProjectMemberDto } from './dto/project-member.dto';
+import { UsersService } from '../users/users.service';
+import { PaginationParams, PaginatedResponse } from '../../common/interfaces/pagination.interface';
+import { PaginationUtil } from '../../common/utils/pagination.util';
+import { RedisCacheService } from '../../common/services/redis-cache.service';
+
+/**
+ * Projects Service
+ *
+ * Manages projects (workspaces) and their membership:
+ * 1. Project CRUD with the creator as OWNER member
+ * 2. Member management with per-project roles
+ * 3. Cached membership lookups used by OwnershipGuard and TasksService
+ *
+ * Invariants:
+ * - Every project has exactly one OWNER membership
+ * - The OWNER membership cannot be removed or downgraded
+ */
+@Injectable()
+export class ProjectsService {
+  private readonly logger = new Logger(ProjectsService.name);
+  private readonly CACHE_TTL = 300; // 5 minutes
+
+  constructor(
+    @InjectRepository(Project)
+    private readonly projectsRepository: Repository<Project>,
+    @InjectRepository(ProjectMember)
+    private readonly membersRepository: Repository<ProjectMember>,
+    private readonly usersService: UsersService,
+    private readonly dataSource: DataSource,
+    private readonly cacheService: RedisCacheService,
+  ) {}
+
+  /**
+   * Create a project and make the creator its OWNER
+   *
+   * @param createProjectDto - Project data
+   * @param userId - Creating user
+   * @returns Created project
+   */
+  async create(createProjectDto: CreateProjectDto, userId: string): Promise<Project> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      const project = await queryRunner.manager.save(
+        this.projectsRepository.create({ ...createProjectDto, ownerId: userId }),
+      );
+
+      await queryRunner.manager.save(
+        this.membersRepository.create({
+          projectId: project.id,
+          userId,
+          role: ProjectRole.OWNER,
+        }),
+      );
+
+      await queryRunner.commitTransaction();
+
+      this.logger.log(`Project created: ${project.id}`);
+      return project;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      this.logger.error(`Failed to create project: ${error}`);
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * List projects the user is a member of
+   *
+   * @param userId - User ID
+   * @param pagination - Pagination parameters
+   * @returns Paginated projects
+   */
+  async findAllForUser(
+    userId: string,
+    pagination: PaginationParams,
+  ): Promise<PaginatedResponse<Project>> {
+    const queryBuilder = this.projectsRepository
+      .createQueryBuilder('project')
+      .innerJoin('project.members', 'membership', 'membership.userId = :userId', { userId });
+
+    PaginationUtil.applySorting(queryBuilder, pagination, 'project', 'createdAt');
+    PaginationUtil.applyPagination(queryBuilder, pagination);
+
+    return PaginationUtil.paginate(queryBuilder, pagination);
+  }
+
+  /**
+   * Find a project by ID
+   *
+   * @param projectId - Project ID
+   * @returns Project
+   */
+  async findOne(projectId: string): Promise<Project> {
+    const project = await this.projectsRepository.findOne({ where: { id: projectId } });
+
+    if (!project) {
+      throw new NotFoundException(`Project with ID ${projectId} not found`);
+    }
+
+    return project;
+  }
+
+  /**
+   * Update project details
+   *
+   * @param projectId - Project ID
+   * @param updateProjectDto - Update data
+   * @returns Updated project
+   */
+  async update(projectId: string, updateProjectDto: UpdateProjectDto): Promise<Project> {
+    const project = await this.findOne(projectId);
+    this.projectsRepository.merge(project, updateProjectDto);
+    return this.projectsRepository.save(project);
+  }
+
+  /**
+   * Delete a project (its tasks and memberships cascade)
+   *
+   * @param projectId - Project ID
+   */
+  async remove(projectId: string): Promise<void> {
+    const memberIds = await this.getMemberIds(projectId);
+    const result = await this.projectsRepository.delete(projectId);
+
+    if (!result.affected) {
+      throw new NotFoundException(`Project with ID ${projectId} not found`);
+    }
+
+    await Promise.all(memberIds.map(userId => this.invalidateMembership(projectId, userId)));
+
+    this.logger.log(`Project deleted: ${projectId}`);
+  }
+
+  /**
+   * List project members with public user fields
+   *
+   * @param projectId - Project ID
+   * @returns Members
+   */
+  async getMembers(projectId: string): Promise<ProjectMember[]> {
+    return this.membersRepository
+      .createQueryBuilder('member')
+      .leftJoin('member.user', 'user')
+      .addSelect(['user.id', 'user.name', 'user.email'])
+      .where('member.projectId = :projectId', { projectId })
+      .orderBy('member.createdAt', 'ASC')
+      .getMany();
+  }
+
+  /**
+   * Add a member to a project
+   *
+   * @param projectId - Project ID
+   * @param addMemberDto - Member data
+   * @returns Created membership
+   */
+  async addMember(projectId: string, addMemberDto: AddProjectMemberDto): Promise<ProjectMember> {
+    await this.findOne(projectId);
+    await this.usersService.findOne(addMemberDto.userId);
+
+    const existing = await this.membersRepository.findOne({
+      where: { projectId, userId: addMemberDto.userId },
+    });
+
+    if (existing) {
+      throw new ConflictException('User is already a member of this project');
+    }
+
+    const member = await this.membersRepository.save(
+      this.membersRepository.create({
+        projectId,
+        userId: addMemberDto.userId,
+        role: addMemberDto.role || ProjectRole.MEMBER,
+      }),
+    );
+
+    await this.invalidateMembership(projectId, member.userId);
+
+    this.logger.log(`User ${member.userId} added to project ${projectId} as ${member.role}`);
+    return member;
+  }
+
+  /**
+   * Change a member's role
+   *
+   * @param projectId - Project ID
+   * @param userId - Member user ID
+   * @param role - New role
+   * @returns Updated membership
+   */
+  async updateMemberRole(
+    projectId: string,
+    userId: string,
+    role: ProjectRole,
+  ): Promise<ProjectMember> {
+    const member = await this.findMember(projectId, userId);
+
+    if (member.role === ProjectRole.OWNER) {
+      throw new BadRequestException('The project owner role cannot be changed');
+    }
+
+    member.role = role;
+    const updated = await this.membersRepository.save(member);
+
+    await this.invalidateMembership(projectId, userId);
+
+    return updated;
+  }
+
+  /**
+   * Remove a member from a project
+   *
+   * @param projectId - Project ID
+   * @param userId - Member user ID
+   */
+  async removeMember(projectId: string, userId: string): Promise<void> {
+    const member = await this.findMember(projectId, userId);
+
+    if (member.role === ProjectRole.OWNER) {
+      throw new BadRequestException('The project owner cannot be removed');
+    }
+
+    await this.membersRepository.delete(member.id);
+    await this.invalidateMembership(projectId, userId);
+
+    this.logger.log(`User ${userId} removed from project ${projectId}`);
+  }
+
+  /**
+   * Resolve a user's role in a project
+   * Cached because it runs on every project-scoped request
+   *
+   * @param projectId - Project ID
+   * @param userId - User ID
+   * @returns Role, or null if not a member
+   */
+  async getMemberRole(projectId: string, userId: string): Promise<ProjectRole | null> {
+    const cacheKey = `project:${projectId}:member:${userId}`;
+
+    const cached = await this.cacheService.get<{ role: ProjectRole | null }>(cacheKey);
+    if (cached) {
+      return cached.role;
+    }
+
+    const member = await this.membersRepository.findOne({ where: { projectId, userId } });
+    const role = member?.role ?? null;
+
+    await this.cacheService.set(cacheKey, { role }, this.CACHE_TTL);
+
+    return role;
+  }
+
+  /**
+   * Get IDs of all project members
+   *
+   * @param projectId - Project ID
+   * @returns Member user IDs
+   */
+  async getMemberIds(projectId: string): Promise<string[]> {
+    const members = await this.membersRepository.find({
+      select: ['userId'],
+      where: { projectId },
+    });
+
+    return members.map(member => member.userId);
+  }
+
+  /**
+   * Ensure all given users are members of the project
+   *
+   * @param projectId - Project ID
+   * @param userIds - User IDs to check
+   */
+  async assertMembers(projectId: string, userIds: string[]): Promise<void> {
+    if (userIds.length === 0) {
+      return;
+    }
+
+    const count = await this.membersRepository.count({
+      where: { projectId, userId: In(userIds) },
+    });
+
+    if (count !== new Set(userIds).size) {
+      throw new BadRequestException('All assignees must be members of the project');
+    }
+  }
+
+  /**
+   * Find a membership or throw
+   *
+   * @param projectId - Project ID
+   * @param userId - User ID
+   * @returns Membership
+   */
+  private async findMember(projectId: string, userId: string): Promise<ProjectMember> {
+    const member = await this.membersRepository.findOne({ where: { projectId, userId } });
+
+    if (!member) {
+      throw new NotFoundException('Project member not found');
+    }
+
+    return member;
+  }
+
+  /**
+   * Invalidate cached membership for a user
+   *
+   * @param projectId - Project ID
+   * @param userId - User ID
+   */
+  private async invalidateMembership(projectId: string, userId: string): Promise<void> {
+    await Promise.all([
+      this.cacheService.delete(`project:${projectId}:member:${userId}`),
+      // Membership changes which project tasks appear in the user's lists
+      this.cacheService.deletePattern(`tasks:list:*${userId}*`),
+    ]);
+  }
+}
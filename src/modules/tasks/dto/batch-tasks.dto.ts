@@ -0,0 +1,35 @@
+import { ArrayNotEmpty, IsArray, IsObject, IsUUID, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { UpdateTaskDto } from './update-task.dto';
+
+export class BatchUpdateTasksDto {
+  @ApiProperty({ example: ['123e4567-e89b-12d3-a456-426614174000'] })
+  @IsArray()
+  @IsUUID('4', { each: true })
+  taskIds: string[];
+
+  @ApiProperty({
+    type: UpdateTaskDto,
+    description:
+      'Fields to set on every task; owner, assignees, labels, parent and recurrence are ignored',
+  })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => UpdateTaskDto)
+  updates: UpdateTaskDto;
+}
+
+export class BatchLabelsDto {
+  @ApiProperty({ example: ['123e4567-e89b-12d3-a456-426614174000'] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID('4', { each: true })
+  taskIds: string[];
+
+  @ApiProperty({ example: ['7c9e6679-7425-40de-944b-e07fc1f90ae7'] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID('4', { each: true })
+  labelIds: string[];
+}
@@ -1,4 +1,14 @@
-import { IsDateString, IsEnum, IsNotEmpty, IsOptional, IsString, IsUUID } from 'class-validator';
+import {
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { TaskStatus } from '../enums/task-status.enum';
 import { TaskPriority } from '../enums/task-priority.enum';
@@ -33,4 +43,48 @@ export class CreateTaskDto {
   @IsUUID()
   @IsNotEmpty()
   userId: string;
-} 
\ No newline at end of file
+
+  @ApiProperty({
+    example: ['123e4567-e89b-12d3-a456-426614174001'],
+    required: false,
+    description: 'Users assigned to work on the task (distinct from the owner)',
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('4', { each: true })
+  @IsOptional()
+  assigneeIds?: string[];
+
+  @ApiProperty({
+    example: ['123e4567-e89b-12d3-a456-426614174005'],
+    required: false,
+    description: "Labels of the task's project, or the owner's personal labels",
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('4', { each: true })
+  @IsOptional()
+  labelIds?: string[];
+
+  @ApiProperty({
+    example: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO',
+    required: false,
+    nullable: true,
+    description:
+      'RRULE subset (FREQ, INTERVAL, BYDAY, COUNT, UNTIL). Requires dueDate; null stops the series',
+  })
+  @IsString()
+  @MaxLength(255)
+  @IsOptional()
+  recurrenceRule?: string | null;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174004',
+    required: false,
+    nullable: true,
+    description: 'Parent task, making this a subtask; null detaches it',
+  })
+  @IsUUID()
+  @IsOptional()
+  parentId?: string | null;
+}
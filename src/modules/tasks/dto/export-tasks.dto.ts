@@ -0,0 +1,27 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TaskFilterDto } from './task-filter.dto';
+import { TASK_SORT_FIELDS } from './task-list-query.dto';
+import { EXPORT_FORMATS, type ExportFormat } from '../../../common/utils/export.util';
+
+/**
+ * Export Tasks DTO
+ *
+ * The task list filters plus the output format and sort order
+ */
+export class ExportTasksDto extends TaskFilterDto {
+  @ApiProperty({ enum: EXPORT_FORMATS, required: false, default: 'csv' })
+  @IsIn(EXPORT_FORMATS)
+  @IsOptional()
+  format?: ExportFormat;
+
+  @ApiProperty({ enum: TASK_SORT_FIELDS, required: false, default: 'createdAt' })
+  @IsIn(TASK_SORT_FIELDS)
+  @IsOptional()
+  sortBy?: string;
+
+  @ApiProperty({ enum: ['ASC', 'DESC'], required: false, default: 'DESC' })
+  @IsIn(['ASC', 'DESC'])
+  @IsOptional()
+  sortOrder?: 'ASC' | 'DESC';
+}
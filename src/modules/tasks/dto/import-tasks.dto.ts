@@ -0,0 +1,20 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Import Tasks DTO
+ *
+ * Query options of a task import; the file itself is the multipart `file` field
+ */
+export class ImportTasksDto {
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'Validate every row without creating tasks',
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value === 'true' || value === '1' : value))
+  @IsBoolean()
+  @IsOptional()
+  dryRun?: boolean;
+}
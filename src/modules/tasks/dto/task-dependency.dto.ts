@@ -0,0 +1,62 @@
+import { IsNotEmpty, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TaskStatus } from '../enums/task-status.enum';
+
+export class AddTaskDependencyDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174005',
+    description: 'Task that blocks this one',
+  })
+  @IsUUID()
+  @IsNotEmpty()
+  blockedById: string;
+}
+
+export class TaskDependencyNodeDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174005' })
+  id: string;
+
+  @ApiProperty({
+    example: 'Write migration',
+    nullable: true,
+    description: 'Null for tasks the current user cannot see',
+  })
+  title: string | null;
+
+  @ApiProperty({
+    enum: TaskStatus,
+    example: TaskStatus.IN_PROGRESS,
+    nullable: true,
+    description: 'Null for tasks the current user cannot see',
+  })
+  status: TaskStatus | null;
+
+  @ApiProperty({
+    example: '2023-12-31T23:59:59Z',
+    nullable: true,
+    description: 'Null when unset or the current user cannot see the task',
+  })
+  dueDate: Date | null;
+
+  @ApiProperty({ example: true, description: 'Has at least one open blocker' })
+  blocked: boolean;
+}
+
+export class TaskDependencyEdgeDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  taskId: string;
+
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174005' })
+  blockedById: string;
+}
+
+export class TaskDependencyGraphDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  taskId: string;
+
+  @ApiProperty({ type: [TaskDependencyNodeDto] })
+  nodes: TaskDependencyNodeDto[];
+
+  @ApiProperty({ type: [TaskDependencyEdgeDto] })
+  edges: TaskDependencyEdgeDto[];
+}
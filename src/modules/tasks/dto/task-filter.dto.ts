@@ -1,4 +1,14 @@
-import { IsEnum, IsOptional, IsString, IsDateString } from 'class-validator';
+import {
+  IsArray,
+  IsEnum,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsDateString,
+  IsUUID,
+  ValidateIf,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 import { TaskStatus } from '../enums/task-status.enum';
 import { TaskPriority } from '../enums/task-priority.enum';
@@ -10,6 +20,10 @@ import { TaskPriority } from '../enums/task-priority.enum';
  * - Status and priority filters
  * - Search by title/description
  * - Date range filters
+ * - Assignee filter ('me' resolves to the current user)
+ * - Project filter (set from the route on /projects/:projectId/tasks)
+ * - Parent filter (subtasks of a task)
+ * - Label filters (any/all of `labels`, none of `excludeLabels`)
  * 
  * All filters are optional and can be combined
  */
@@ -55,4 +69,74 @@ export class TaskFilterDto {
   @IsDateString()
   @IsOptional()
   dueAfter?: Date;
+
+  @ApiProperty({
+    required: false,
+    description: "Filter by assignee user ID, or 'me' for tasks assigned to the current user",
+  })
+  @ValidateIf(o => o.assignedTo !== 'me')
+  @IsUUID()
+  @IsOptional()
+  assignedTo?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Filter by project',
+  })
+  @IsUUID()
+  @IsOptional()
+  projectId?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'List subtasks of this task',
+  })
+  @IsUUID()
+  @IsOptional()
+  parentId?: string;
+
+  @ApiProperty({
+    required: false,
+    type: [String],
+    description: 'Filter by label IDs (comma-separated or repeated), matched per labelMatch',
+  })
+  @Transform(({ value }) => toIdList(value))
+  @IsArray()
+  @IsUUID('4', { each: true })
+  @IsOptional()
+  labels?: string[];
+
+  @ApiProperty({
+    enum: ['any', 'all'],
+    required: false,
+    default: 'any',
+    description: "'any' matches tasks with at least one of the labels, 'all' tasks with every one",
+  })
+  @IsIn(['any', 'all'])
+  @IsOptional()
+  labelMatch?: 'any' | 'all';
+
+  @ApiProperty({
+    required: false,
+    type: [String],
+    description: 'Exclude tasks carrying any of these label IDs',
+  })
+  @Transform(({ value }) => toIdList(value))
+  @IsArray()
+  @IsUUID('4', { each: true })
+  @IsOptional()
+  excludeLabels?: string[];
+}
+
+/**
+ * Accept ID lists as repeated query params or a comma-separated string
+ */
+function toIdList(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean);
+  }
+  return value;
 }
@@ -0,0 +1,57 @@
+import { IsIn, IsInt, IsOptional, IsString, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TaskFilterDto } from './task-filter.dto';
+
+/**
+ * Sort fields available to task lists and exports
+ */
+export const TASK_SORT_FIELDS = [
+  'createdAt',
+  'updatedAt',
+  'dueDate',
+  'title',
+  'status',
+  'priority',
+];
+
+/**
+ * Task List Query DTO
+ *
+ * The task list filters plus pagination:
+ * - offset: page and limit
+ * - cursor: keyset pages from `cursor` (also used when only a cursor is given)
+ * - search: `search` matches ranked by relevance, with highlights
+ */
+export class TaskListQueryDto extends TaskFilterDto {
+  @ApiProperty({ required: false, default: 1, description: 'Page number (offset mode)' })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number;
+
+  @ApiProperty({ required: false, default: 10, description: 'Items per page (at most 100)' })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  limit?: number;
+
+  @ApiProperty({ enum: TASK_SORT_FIELDS, required: false, default: 'createdAt' })
+  @IsIn(TASK_SORT_FIELDS)
+  @IsOptional()
+  sortBy?: string;
+
+  @ApiProperty({ enum: ['ASC', 'DESC'], required: false, default: 'DESC' })
+  @IsIn(['ASC', 'DESC'])
+  @IsOptional()
+  sortOrder?: 'ASC' | 'DESC';
+
+  @ApiProperty({ enum: ['offset', 'cursor', 'search'], required: false, default: 'offset' })
+  @IsIn(['offset', 'cursor', 'search'])
+  @IsOptional()
+  mode?: 'offset' | 'cursor' | 'search';
+
+  @ApiProperty({ required: false, description: 'Keyset cursor from a previous page' })
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+}
@@ -24,6 +24,33 @@ export class TaskResponseDto {
   @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
   userId: string;
 
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174002', nullable: true })
+  projectId: string | null;
+
+  @ApiProperty({
+    example: [
+      { id: '123e4567-e89b-12d3-a456-426614174001', name: 'Jane Doe', email: 'jane@example.com' },
+    ],
+  })
+  assignees: { id: string; name: string; email: string }[];
+
+  @ApiProperty({
+    example: [{ id: '123e4567-e89b-12d3-a456-426614174005', name: 'bug', colour: '#ef4444' }],
+  })
+  labels: { id: string; name: string; colour: string }[];
+
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174004', nullable: true })
+  parentId: string | null;
+
+  @ApiProperty({ example: 'FREQ=WEEKLY;BYDAY=MO', nullable: true })
+  recurrenceRule: string | null;
+
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174003', nullable: true })
+  recurrenceSeriesId: string | null;
+
+  @ApiProperty({ example: 1, nullable: true })
+  recurrenceIndex: number | null;
+
   @ApiProperty({ example: '2023-01-01T00:00:00.000Z' })
   createdAt: Date;
 
@@ -0,0 +1,58 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { TaskActivityAction } from '../enums/task-activity-action.enum';
+
+/**
+ * Field-level change: previous and new value
+ */
+export interface TaskFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Task Activity Entity
+ *
+ * Append-only audit trail of task mutations:
+ * - One row per mutated task (batch operations write one row per task)
+ * - `changes` holds field-level diffs keyed by field name
+ * - Rows are never updated or deleted (enforced by a DB trigger), and
+ *   there are no foreign keys so history outlives deleted tasks and users
+ */
+@Entity('task_activities')
+@Index('IDX_task_activities_task_created', ['taskId', 'createdAt'])
+export class TaskActivity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'task_id', type: 'uuid' })
+  taskId: string;
+
+  @Column({ type: 'enum', enum: TaskActivityAction })
+  action: TaskActivityAction;
+
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  changes: Record<string, TaskFieldChange>;
+
+  // Null when the change was made by the system (e.g. a queue job)
+  @Column({ name: 'actor_id', type: 'uuid', nullable: true })
+  actorId: string | null;
+
+  @ManyToOne(() => User, { createForeignKeyConstraints: false })
+  @JoinColumn({ name: 'actor_id' })
+  actor: User;
+
+  @Column({ name: 'correlation_id', type: 'varchar', nullable: true })
+  correlationId: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,29 @@
+import { CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryColumn } from 'typeorm';
+import type { Task } from './task.entity';
+
+/**
+ * Task Dependency Entity
+ *
+ * "taskId is blocked by blockedById": the task cannot be completed while
+ * the blocker is open. The dependency graph is kept acyclic on write.
+ */
+@Entity('task_dependencies')
+@Index('IDX_task_dependencies_blocked_by_id', ['blockedById'])
+export class TaskDependency {
+  @PrimaryColumn({ name: 'task_id', type: 'uuid' })
+  taskId: string;
+
+  @PrimaryColumn({ name: 'blocked_by_id', type: 'uuid' })
+  blockedById: string;
+
+  @ManyToOne('Task', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Task;
+
+  @ManyToOne('Task', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blocked_by_id' })
+  blockedBy: Task;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -1,8 +1,24 @@
-import { Column, CreateDateColumn, Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  JoinTable,
+  ManyToMany,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
 import { TaskStatus } from '../enums/task-status.enum';
 import { TaskPriority } from '../enums/task-priority.enum';
 
 @Entity('tasks')
+// One row per occurrence, so a series instance is never generated twice
+@Index('UQ_tasks_recurrence_occurrence', ['recurrenceSeriesId', 'recurrenceIndex'], {
+  unique: true,
+})
 export class Task {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -37,6 +53,72 @@ export class Task {
   @JoinColumn({ name: 'user_id' })
   user: any;
 
+  // Project (workspace) the task belongs to; null for personal tasks
+  @Column({ name: 'project_id', nullable: true })
+  projectId: string | null;
+
+  @ManyToOne('Project', 'tasks', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'project_id' })
+  project: any;
+
+  // Assignees work on the task; the owner (userId) keeps full control
+  @ManyToMany('User', 'assignedTasks')
+  @JoinTable({
+    name: 'task_assignees',
+    joinColumn: { name: 'task_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'user_id', referencedColumnName: 'id' },
+  })
+  assignees: any[];
+
+  // Personal or project labels, see LabelsService.assertApplicable
+  @ManyToMany('Label', 'tasks')
+  @JoinTable({
+    name: 'task_labels',
+    joinColumn: { name: 'task_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'label_id', referencedColumnName: 'id' },
+  })
+  labels: any[];
+
+  // Parent task for subtasks; subtasks become top-level if the parent is deleted
+  @Column({ name: 'parent_id', type: 'uuid', nullable: true })
+  parentId: string | null;
+
+  @ManyToOne('Task', 'subtasks', { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'parent_id' })
+  parent: any;
+
+  @OneToMany('Task', 'parent')
+  subtasks: any[];
+
+  // RFC 5545 RRULE subset; the next instance is generated from this one
+  @Column({ name: 'recurrence_rule', type: 'varchar', nullable: true })
+  recurrenceRule: string | null;
+
+  // Shared by all instances of a recurring task
+  @Column({ name: 'recurrence_series_id', type: 'uuid', nullable: true })
+  recurrenceSeriesId: string | null;
+
+  // 1-based position of this instance in its series (used for COUNT)
+  @Column({ name: 'recurrence_index', type: 'int', nullable: true })
+  recurrenceIndex: number | null;
+
+  // Set once an overdue notification went out; cleared when dueDate changes
+  @Column({ name: 'overdue_notified_at', type: 'timestamp', nullable: true })
+  overdueNotifiedAt: Date | null;
+
+  // Full-text search document (title weight A, description weight B); never selected
+  @Column({
+    name: 'search_vector',
+    type: 'tsvector',
+    select: false,
+    nullable: true,
+    generatedType: 'STORED',
+    asExpression:
+      "setweight(to_tsvector('english', coalesce(title, '')), 'A') || " +
+      "setweight(to_tsvector('english', coalesce(description, '')), 'B')",
+  })
+  searchVector: string;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -0,0 +1,5 @@
+export enum TaskActivityAction {
+  CREATED = 'CREATED',
+  UPDATED = 'UPDATED',
+  DELETED = 'DELETED',
+}
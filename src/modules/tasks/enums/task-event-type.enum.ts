@@ -0,0 +1,8 @@
+/**
+ * Live task change events (SSE `event:` field)
+ */
+export enum TaskEventType {
+  CREATED = 'task.created',
+  UPDATED = 'task.updated',
+  DELETED = 'task.deleted',
+}
@@ -1,5 +1,13 @@
 export enum TaskStatus {
   PENDING = 'PENDING',
   IN_PROGRESS = 'IN_PROGRESS',
+  BLOCKED = 'BLOCKED',
+  IN_REVIEW = 'IN_REVIEW',
   COMPLETED = 'COMPLETED',
-} 
\ No newline at end of file
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * Statuses in which a task is no longer open work
+ */
+export const CLOSED_TASK_STATUSES: TaskStatus[] = [TaskStatus.COMPLETED, TaskStatus.CANCELLED];
@@ -0,0 +1,186 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { TaskActivity, TaskFieldChange } from './entities/task-activity.entity';
+import { TaskActivityAction } from './enums/task-activity-action.enum';
+import { Task } from './entities/task.entity';
+import { PaginationParams, PaginatedResponse } from '../../common/interfaces/pagination.interface';
+import { PaginationUtil } from '../../common/utils/pagination.util';
+import { RequestContext } from '../../common/context/request-context';
+
+/**
+ * Comparable snapshot of the audited task fields
+ */
+export type TaskState = Record<string, unknown>;
+
+export interface TaskActivityEntry {
+  taskId: string;
+  action: TaskActivityAction;
+  changes: Record<string, TaskFieldChange>;
+}
+
+/**
+ * Task Activity Service
+ *
+ * Writes and reads the append-only task history:
+ * 1. Field-level diffs between task snapshots
+ * 2. Actor and correlation ID (from RequestContext) on every entry
+ * 3. Writes join the caller's transaction when a manager is passed
+ *
+ * There is intentionally no update or delete API.
+ */
+@Injectable()
+export class TaskActivityService {
+  private readonly logger = new Logger(TaskActivityService.name);
+
+  // Fields recorded in diffs; relations are reduced to sorted ID lists
+  private readonly TRACKED_FIELDS = [
+    'title',
+    'description',
+    'status',
+    'priority',
+    'dueDate',
+    'userId',
+    'projectId',
+    'recurrenceRule',
+    'parentId',
+  ];
+
+  constructor(
+    @InjectRepository(TaskActivity)
+    private readonly activityRepository: Repository<TaskActivity>,
+  ) {}
+
+  /**
+   * Take a comparable snapshot of a task
+   *
+   * Works with entities and cached plain objects alike (dates may be strings).
+   * Assignees and labels are only included when loaded.
+   *
+   * @param task - Task
+   * @returns Snapshot
+   */
+  toState(task: Partial<Task>): TaskState {
+    const state: TaskState = {};
+
+    for (const field of this.TRACKED_FIELDS) {
+      state[field] = this.normalize(field, task[field as keyof Task]);
+    }
+
+    if (Array.isArray(task.assignees)) {
+      state.assigneeIds = task.assignees.map(assignee => assignee.id).sort();
+    }
+
+    if (Array.isArray(task.labels)) {
+      state.labelIds = task.labels.map(label => label.id).sort();
+    }
+
+    return state;
+  }
+
+  /**
+   * Compute field-level changes between two snapshots
+   *
+   * @param before - Snapshot before the mutation (null on create)
+   * @param after - Snapshot after the mutation (null on delete)
+   * @returns Changed fields
+   */
+  diff(before: TaskState | null, after: TaskState | null): Record<string, TaskFieldChange> {
+    const changes: Record<string, TaskFieldChange> = {};
+    const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+    for (const field of fields) {
+      const from = before?.[field] ?? null;
+      const to = after?.[field] ?? null;
+
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes[field] = { from, to };
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Append history entries
+   *
+   * UPDATED entries without changes are skipped.
+   *
+   * @param entries - Entries to write
+   * @param actorId - User who made the change (null for system changes)
+   * @param manager - Transaction manager to write within (optional)
+   */
+  async record(
+    entries: TaskActivityEntry[],
+    actorId?: string | null,
+    manager?: EntityManager,
+  ): Promise<void> {
+    const correlationId = RequestContext.getCorrelationId() || null;
+
+    const rows = entries
+      .filter(
+        entry =>
+          entry.action !== TaskActivityAction.UPDATED || Object.keys(entry.changes).length > 0,
+      )
+      .map(entry => ({
+        ...entry,
+        actorId: actorId || null,
+        correlationId,
+      }));
+
+    if (rows.length === 0) {
+      return;
+    }
+
+    await (manager || this.activityRepository.manager).save(
+      TaskActivity,
+      this.activityRepository.create(rows),
+    );
+
+    this.logger.debug(`Recorded ${rows.length} task activity entries`);
+  }
+
+  /**
+   * List a task's history, newest first by default
+   *
+   * @param taskId - Task ID
+   * @param pagination - Pagination parameters
+   * @returns Paginated history with actor info
+   */
+  async findByTask(
+    taskId: string,
+    pagination: PaginationParams,
+  ): Promise<PaginatedResponse<TaskActivity>> {
+    const queryBuilder = this.activityRepository
+      .createQueryBuilder('activity')
+      .leftJoin('activity.actor', 'actor')
+      .addSelect(['actor.id', 'actor.name', 'actor.email'])
+      .where('activity.taskId = :taskId', { taskId });
+
+    PaginationUtil.applySorting(queryBuilder, pagination, 'activity', 'createdAt');
+    PaginationUtil.applyPagination(queryBuilder, pagination);
+
+    return PaginationUtil.paginate(queryBuilder, pagination);
+  }
+
+  /**
+   * Normalize a field value so entity and cached values compare equal
+   *
+   * @param field - Field name
+   * @param value - Raw value
+   * @returns Normalized value
+   */
+  private normalize(field: string, value: unknown): unknown {
+    if (value === undefined || value === null) {
+      return null;
+    }
+
+    // Cached tasks and DTOs carry dates as strings
+    if (field === 'dueDate') {
+      const date = new Date(value as string | Date);
+      return isNaN(date.getTime()) ? value : date.toISOString();
+    }
+
+    return value;
+  }
+}
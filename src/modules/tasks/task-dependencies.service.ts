@@ -0,0 +1,222 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { TaskDependency } from './entities/task-dependency.entity';
+import { CLOSED_TASK_STATUSES } from './enums/task-status.enum';
+
+/**
+ * Dependency edge: taskId is blocked by blockedById
+ */
+export interface TaskDependencyEdge {
+  taskId: string;
+  blockedById: string;
+}
+
+/**
+ * Task Dependencies Service
+ *
+ * Maintains the task graphs:
+ * 1. "Blocked by" dependencies with cycle detection on write
+ * 2. Parent/child subtask cycle detection
+ * 3. Open-blocker checks used before completing tasks
+ *
+ * Graph walks use recursive CTEs with UNION, so they terminate even on
+ * malformed data. Dependency writes take a transaction-scoped advisory
+ * lock so two concurrent inserts can't close a cycle together.
+ */
+@Injectable()
+export class TaskDependenciesService {
+  private readonly logger = new Logger(TaskDependenciesService.name);
+
+  // Advisory lock key serializing dependency graph writes
+  private readonly GRAPH_LOCK_KEY = 734600;
+
+  // Upper bound on edges returned for one task's graph
+  private readonly MAX_GRAPH_EDGES = 1000;
+
+  constructor(
+    @InjectRepository(TaskDependency)
+    private readonly dependencyRepository: Repository<TaskDependency>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Get IDs of a task's direct blockers
+   *
+   * @param taskId - Task ID
+   * @param manager - Transaction manager (optional)
+   * @returns Blocker task IDs
+   */
+  async getBlockerIds(taskId: string, manager?: EntityManager): Promise<string[]> {
+    const dependencies = await (manager || this.dependencyRepository.manager).find(TaskDependency, {
+      select: ['blockedById'],
+      where: { taskId },
+    });
+
+    return dependencies.map(dependency => dependency.blockedById).sort();
+  }
+
+  /**
+   * Add a "blocked by" dependency
+   *
+   * @param taskId - Blocked task
+   * @param blockedById - Blocking task
+   * @param manager - Transaction manager to write within (optional)
+   * @returns Created dependency
+   */
+  async addDependency(
+    taskId: string,
+    blockedById: string,
+    manager?: EntityManager,
+  ): Promise<TaskDependency> {
+    if (taskId === blockedById) {
+      throw new BadRequestException('A task cannot be blocked by itself');
+    }
+
+    const add = async (manager: EntityManager): Promise<TaskDependency> => {
+      await manager.query('SELECT pg_advisory_xact_lock($1)', [this.GRAPH_LOCK_KEY]);
+
+      const existing = await manager.findOne(TaskDependency, { where: { taskId, blockedById } });
+      if (existing) {
+        throw new ConflictException('Dependency already exists');
+      }
+
+      // A cycle forms if the blocker is already (transitively) blocked by the task
+      const [cycle] = await manager.query(
+        `WITH RECURSIVE chain(id) AS (
+           SELECT blocked_by_id FROM task_dependencies WHERE task_id = $1
+           UNION
+           SELECT d.blocked_by_id FROM task_dependencies d INNER JOIN chain c ON d.task_id = c.id
+         )
+         SELECT 1 FROM chain WHERE id = $2 LIMIT 1`,
+        [blockedById, taskId],
+      );
+
+      if (cycle) {
+        throw new BadRequestException('Dependency would create a cycle');
+      }
+
+      const dependency = await manager.save(
+        manager.create(TaskDependency, { taskId, blockedById }),
+      );
+
+      this.logger.log(`Task ${taskId} is now blocked by ${blockedById}`);
+      return dependency;
+    };
+
+    return manager ? add(manager) : this.dataSource.transaction(add);
+  }
+
+  /**
+   * Remove a "blocked by" dependency
+   *
+   * @param taskId - Blocked task
+   * @param blockedById - Blocking task
+   * @param manager - Transaction manager to write within (optional)
+   */
+  async removeDependency(
+    taskId: string,
+    blockedById: string,
+    manager?: EntityManager,
+  ): Promise<void> {
+    const result = await (manager || this.dependencyRepository.manager).delete(TaskDependency, {
+      taskId,
+      blockedById,
+    });
+
+    if (!result.affected) {
+      throw new NotFoundException('Dependency not found');
+    }
+  }
+
+  /**
+   * Ensure making `parentId` the parent of `taskId` keeps the hierarchy acyclic
+   *
+   * @param taskId - Child task
+   * @param parentId - Proposed parent
+   */
+  async assertValidParent(taskId: string, parentId: string): Promise<void> {
+    if (taskId === parentId) {
+      throw new BadRequestException('A task cannot be its own parent');
+    }
+
+    const [cycle] = await this.dataSource.query(
+      `WITH RECURSIVE ancestors(id, parent_id) AS (
+         SELECT id, parent_id FROM tasks WHERE id = $1
+         UNION
+         SELECT t.id, t.parent_id FROM tasks t INNER JOIN ancestors a ON t.id = a.parent_id
+       )
+       SELECT 1 FROM ancestors WHERE id = $2 LIMIT 1`,
+      [parentId, taskId],
+    );
+
+    if (cycle) {
+      throw new BadRequestException('Parent would create a cycle in the task hierarchy');
+    }
+  }
+
+  /**
+   * Ensure none of the tasks has an open blocker
+   *
+   * @param taskIds - Tasks about to be completed
+   * @param manager - Transaction manager (optional)
+   */
+  async assertNoOpenBlockers(taskIds: string[], manager?: EntityManager): Promise<void> {
+    if (taskIds.length === 0) {
+      return;
+    }
+
+    const blocked = await (manager || this.dependencyRepository.manager)
+      .createQueryBuilder(TaskDependency, 'dependency')
+      .innerJoin('dependency.blockedBy', 'blocker')
+      .select('dependency.taskId', 'taskId')
+      .addSelect('blocker.id', 'blockerId')
+      .where('dependency.taskId IN (:...taskIds)', { taskIds })
+      .andWhere('blocker.status NOT IN (:...closed)', { closed: CLOSED_TASK_STATUSES })
+      .getRawMany();
+
+    if (blocked.length > 0) {
+      const details = blocked.map(row => `${row.taskId} (blocked by ${row.blockerId})`);
+      throw new ConflictException(
+        `Cannot complete tasks with open blockers: ${details.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Get all dependency edges reachable from a task, in both directions
+   *
+   * @param taskId - Task ID
+   * @returns Edges (transitive blockers and transitively blocked tasks)
+   */
+  async getGraphEdges(taskId: string): Promise<TaskDependencyEdge[]> {
+    const rows: { task_id: string; blocked_by_id: string }[] = await this.dataSource.query(
+      `WITH RECURSIVE
+         upstream(task_id, blocked_by_id) AS (
+           SELECT task_id, blocked_by_id FROM task_dependencies WHERE task_id = $1
+           UNION
+           SELECT d.task_id, d.blocked_by_id
+           FROM task_dependencies d INNER JOIN upstream u ON d.task_id = u.blocked_by_id
+         ),
+         downstream(task_id, blocked_by_id) AS (
+           SELECT task_id, blocked_by_id FROM task_dependencies WHERE blocked_by_id = $1
+           UNION
+           SELECT d.task_id, d.blocked_by_id
+           FROM task_dependencies d INNER JOIN downstream w ON d.blocked_by_id = w.task_id
+         )
+       SELECT task_id, blocked_by_id FROM upstream
+       UNION
+       SELECT task_id, blocked_by_id FROM downstream
+       LIMIT $2`,
+      [taskId, this.MAX_GRAPH_EDGES],
+    );
+
+    return rows.map(row => ({ taskId: row.task_id, blockedById: row.blocked_by_id }));
+  }
+}
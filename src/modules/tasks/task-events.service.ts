@@ -0,0 +1,395 @@
+import { Injectable, Logger, MessageEvent, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { Observable, Subject } from 'rxjs';
+import { Task } from './entities/task.entity';
+import { TaskFieldChange } from './entities/task-activity.entity';
+import { TaskEventType } from './enums/task-event-type.enum';
+import { ProjectsService } from '../projects/projects.service';
+
+/**
+ * One live task change, as logged and published
+ */
+interface TaskEventRecord {
+  type: TaskEventType;
+  taskId: string;
+  projectId: string | null;
+  // Users who see the task without project membership (owner and assignees)
+  audience: string[];
+  actorId: string | null;
+  occurredAt: string;
+  task: Record<string, unknown>;
+  changes?: Record<string, TaskFieldChange>;
+}
+
+/**
+ * Logged event with its stream ID (the SSE event ID)
+ */
+interface PublishedTaskEvent extends TaskEventRecord {
+  id: string;
+}
+
+/**
+ * Changed task with its field-level changes (updates only)
+ */
+export interface TaskEventEntry {
+  task: Task;
+  changes?: Record<string, TaskFieldChange>;
+}
+
+/**
+ * Task Events Service
+ *
+ * Live task changes for Server-Sent Events:
+ * 1. Every change is appended to a capped Redis stream, whose entry ID
+ *    becomes the SSE event ID
+ * 2. The logged event is published on a Redis pub/sub channel, so every
+ *    API instance fans it out to its own connections
+ * 3. Reconnecting clients send Last-Event-ID and get the missed events
+ *    replayed from the stream before live ones
+ *
+ * Events carry an allowlisted copy of the task (no loaded relations such
+ * as the owner's user row), since they are stored and replayed as plain
+ * JSON. They are filtered per connection with the same visibility rules as
+ * task listings: owner, assignee or project member. If missed events were
+ * already trimmed from the stream, the client gets a `resync` event and
+ * should reload its task list.
+ */
+@Injectable()
+export class TaskEventsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TaskEventsService.name);
+
+  private readonly STREAM_KEY = 'task-events:log';
+  private readonly CHANNEL = 'task-events';
+
+  // Approximate stream length kept for resuming
+  private readonly MAX_LOG_LENGTH = 10000;
+
+  // Larger gaps get a resync instead of a replay
+  private readonly MAX_REPLAY = 1000;
+
+  // Keeps idle connections open through proxies
+  private readonly HEARTBEAT_MS = 25000;
+
+  // Per-connection memo of project membership checks
+  private readonly MEMBERSHIP_TTL_MS = 30000;
+
+  private readonly STREAM_ID_PATTERN = /^\d+-\d+$/;
+
+  private readonly publisher: Redis;
+  private readonly subscriber: Redis;
+  private readonly events$ = new Subject<PublishedTaskEvent>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly projectsService: ProjectsService,
+  ) {
+    this.publisher = new Redis({
+      host: this.configService.get('redis.host'),
+      port: this.configService.get('redis.port'),
+      password: this.configService.get('redis.password'),
+      db: this.configService.get('redis.db'),
+      maxRetriesPerRequest: this.configService.get('redis.maxRetriesPerRequest'),
+      retryStrategy: this.configService.get('redis.retryStrategy'),
+    });
+
+    // A subscribed connection can't run other commands
+    this.subscriber = this.publisher.duplicate();
+
+    this.publisher.on('error', error => {
+      this.logger.error('Redis task events client error', error);
+    });
+
+    this.subscriber.on('error', error => {
+      this.logger.error('Redis task events subscriber error', error);
+    });
+  }
+
+  async onModuleInit() {
+    this.subscriber.on('message', (_channel: string, message: string) => {
+      try {
+        this.events$.next(JSON.parse(message));
+      } catch (error) {
+        this.logger.warn(`Ignoring malformed task event: ${error}`);
+      }
+    });
+
+    await this.subscriber.subscribe(this.CHANNEL);
+  }
+
+  async onModuleDestroy() {
+    this.events$.complete();
+    await Promise.all([this.subscriber.quit(), this.publisher.quit()]);
+  }
+
+  /**
+   * Log and publish task changes
+   *
+   * Best-effort: called after commit, so failures are logged and never
+   * reach the caller.
+   *
+   * @param type - Event type
+   * @param entries - Changed tasks (assignees loaded, so they are notified)
+   * @param actorId - User who made the change (null for system changes)
+   */
+  async publish(
+    type: TaskEventType,
+    entries: TaskEventEntry[],
+    actorId?: string | null,
+  ): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    try {
+      const occurredAt = new Date().toISOString();
+      const records: TaskEventRecord[] = entries.map(({ task, changes }) => ({
+        type,
+        taskId: task.id,
+        projectId: task.projectId,
+        audience: [
+          ...new Set([task.userId, ...(task.assignees || []).map(assignee => assignee.id)]),
+        ],
+        actorId: actorId ?? null,
+        occurredAt,
+        task: this.toTaskPayload(task),
+        ...(changes ? { changes } : {}),
+      }));
+
+      const log = this.publisher.pipeline();
+      for (const record of records) {
+        log.xadd(
+          this.STREAM_KEY,
+          'MAXLEN',
+          '~',
+          this.MAX_LOG_LENGTH,
+          '*',
+          'event',
+          JSON.stringify(record),
+        );
+      }
+      const results = (await log.exec()) || [];
+
+      const publish = this.publisher.pipeline();
+      results.forEach(([error, id], index) => {
+        if (!error) {
+          publish.publish(this.CHANNEL, JSON.stringify({ id, ...records[index] }));
+        }
+      });
+      await publish.exec();
+    } catch (error) {
+      this.logger.error(`Failed to publish ${type} events: ${error}`);
+    }
+  }
+
+  /**
+   * Stream a user's visible task changes
+   *
+   * Live events are buffered while missed ones are replayed, then delivered
+   * in stream order without duplicates.
+   *
+   * @param userId - Connected user
+   * @param options - Project scope and Last-Event-ID (both optional)
+   * @returns SSE message stream
+   */
+  stream(
+    userId: string,
+    options: { projectId?: string; lastEventId?: string } = {},
+  ): Observable<MessageEvent> {
+    return new Observable<MessageEvent>(subscriber => {
+      const buffered: PublishedTaskEvent[] = [];
+      const memberships = new Map<string, { visible: boolean; expiresAt: number }>();
+      let lastId =
+        options.lastEventId && this.STREAM_ID_PATTERN.test(options.lastEventId)
+          ? options.lastEventId
+          : null;
+      let replaying = true;
+      let delivery = Promise.resolve();
+
+      // Visibility checks are async, so deliveries are chained to keep order
+      const deliver = (event: PublishedTaskEvent) => {
+        delivery = delivery
+          .then(async () => {
+            if (lastId && this.compareIds(event.id, lastId) <= 0) {
+              return;
+            }
+            lastId = event.id;
+
+            if (await this.canSee(event, userId, options.projectId, memberships)) {
+              subscriber.next(this.toMessage(event));
+            }
+          })
+          .catch(error => this.logger.error(`Failed to deliver task event: ${error}`));
+      };
+
+      const live = this.events$.subscribe(event =>
+        replaying ? buffered.push(event) : deliver(event),
+      );
+
+      const heartbeat = setInterval(
+        () => subscriber.next({ type: 'heartbeat', data: {} }),
+        this.HEARTBEAT_MS,
+      );
+
+      this.findMissed(options.lastEventId)
+        .then(({ events, complete }) => {
+          if (!complete) {
+            subscriber.next({ type: 'resync', data: { reason: 'Missed events are unavailable' } });
+          }
+          events.forEach(deliver);
+        })
+        .catch(error => this.logger.error(`Failed to replay task events: ${error}`))
+        .finally(() => {
+          replaying = false;
+          buffered.splice(0).forEach(deliver);
+        });
+
+      return () => {
+        live.unsubscribe();
+        clearInterval(heartbeat);
+      };
+    });
+  }
+
+  /**
+   * Load events logged after a client's last seen event
+   *
+   * @param lastEventId - Last-Event-ID sent by the client (optional)
+   * @returns Missed events, and whether they are all still available
+   */
+  private async findMissed(
+    lastEventId?: string,
+  ): Promise<{ events: PublishedTaskEvent[]; complete: boolean }> {
+    if (!lastEventId) {
+      return { events: [], complete: true };
+    }
+
+    if (!this.STREAM_ID_PATTERN.test(lastEventId)) {
+      return { events: [], complete: false };
+    }
+
+    // Inclusive start: finding the last seen event proves nothing was trimmed after it
+    const entries = await this.publisher.xrange(
+      this.STREAM_KEY,
+      lastEventId,
+      '+',
+      'COUNT',
+      this.MAX_REPLAY + 1,
+    );
+    const found = entries.length > 0 && entries[0][0] === lastEventId;
+    const missed = found ? entries.slice(1) : entries;
+
+    if (missed.length > this.MAX_REPLAY) {
+      return { events: [], complete: false };
+    }
+
+    if (!found) {
+      const [oldest] = await this.publisher.xrange(this.STREAM_KEY, '-', '+', 'COUNT', 1);
+      if (oldest && this.compareIds(oldest[0], lastEventId) > 0) {
+        return { events: [], complete: false };
+      }
+    }
+
+    return {
+      events: missed.map(([id, fields]) => ({ id, ...JSON.parse(fields[1]) })),
+      complete: true,
+    };
+  }
+
+  /**
+   * Check whether a user may see an event
+   *
+   * @param event - Task event
+   * @param userId - Connected user
+   * @param projectId - Project scope of the connection (optional)
+   * @param memberships - Per-connection membership memo
+   * @returns true if visible
+   */
+  private async canSee(
+    event: PublishedTaskEvent,
+    userId: string,
+    projectId: string | undefined,
+    memberships: Map<string, { visible: boolean; expiresAt: number }>,
+  ): Promise<boolean> {
+    if (projectId && event.projectId !== projectId) {
+      return false;
+    }
+
+    if (event.audience.includes(userId)) {
+      return true;
+    }
+
+    if (!event.projectId) {
+      return false;
+    }
+
+    const memo = memberships.get(event.projectId);
+    if (memo && memo.expiresAt > Date.now()) {
+      return memo.visible;
+    }
+
+    const visible = (await this.projectsService.getMemberRole(event.projectId, userId)) !== null;
+    memberships.set(event.projectId, { visible, expiresAt: Date.now() + this.MEMBERSHIP_TTL_MS });
+
+    return visible;
+  }
+
+  /**
+   * Build the SSE message for an event
+   *
+   * @param event - Task event
+   * @returns Message (audience is internal and not sent)
+   */
+  private toMessage(event: PublishedTaskEvent): MessageEvent {
+    const { id, type, audience: _audience, ...data } = event;
+    return { id, type, data };
+  }
+
+  /**
+   * Compare Redis stream IDs (`<ms>-<seq>`)
+   *
+   * @param a - Stream ID
+   * @param b - Stream ID
+   * @returns Negative, zero or positive like a sort comparator
+   */
+  private compareIds(a: string, b: string): number {
+    const [aMs, aSeq] = a.split('-').map(part => BigInt(part));
+    const [bMs, bSeq] = b.split('-').map(part => BigInt(part));
+
+    if (aMs !== bMs) {
+      return aMs < bMs ? -1 : 1;
+    }
+
+    return aSeq === bSeq ? 0 : aSeq < bSeq ? -1 : 1;
+  }
+
+  /**
+   * Task fields sent in events
+   *
+   * Relations are reduced to IDs so no user data (e.g. password hashes of
+   * a loaded owner) leaves the server.
+   *
+   * @param task - Changed task
+   * @returns Event task payload
+   */
+  private toTaskPayload(task: Task): Record<string, unknown> {
+    return {
+      id: task.id,
+      title: task.title,
+      description: task.description ?? null,
+      status: task.status,
+      priority: task.priority,
+      dueDate: task.dueDate ?? null,
+      userId: task.userId,
+      projectId: task.projectId,
+      parentId: task.parentId ?? null,
+      recurrenceRule: task.recurrenceRule ?? null,
+      ...(Array.isArray(task.assignees)
+        ? { assigneeIds: task.assignees.map(assignee => assignee.id) }
+        : {}),
+      ...(Array.isArray(task.labels) ? { labelIds: task.labels.map(label => label.id) } : {}),
+      createdAt: task.createdAt,
+      updatedAt: task.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,439 @@
+import {
+  BadRequestException,
+  HttpException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Job, Queue } from 'bullmq';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { v4 as uuidv4 } from 'uuid';
+import { TasksService } from './tasks.service';
+import { CreateTaskDto } from './dto/create-task.dto';
+import { CsvUtil } from '../../common/utils/csv.util';
+import { RequestContext } from '../../common/context/request-context';
+
+/**
+ * Uploaded file fields used by imports (multer memory storage)
+ */
+export interface ImportFile {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+}
+
+/**
+ * Validation or creation errors of one row
+ */
+export interface TaskImportRowError {
+  // 1-based data row (the CSV header is not counted)
+  row: number;
+  errors: string[];
+}
+
+/**
+ * Import progress, updated after every chunk
+ */
+export interface TaskImportProgress {
+  total: number;
+  processed: number;
+  // Rows that passed validation (and, unless dry run, were created)
+  valid: number;
+  imported: number;
+  failed: number;
+  // First MAX_REPORTED_ERRORS row errors; `failed` has the full count
+  errors: TaskImportRowError[];
+}
+
+/**
+ * Data of a `task-import` job
+ */
+export interface TaskImportJobData {
+  userId: string;
+  projectId: string | null;
+  dryRun: boolean;
+  rows: Record<string, unknown>[];
+  correlationId?: string;
+}
+
+/**
+ * Import status returned to the client
+ */
+export interface TaskImportStatus {
+  jobId: string;
+  state: string;
+  dryRun: boolean;
+  progress: TaskImportProgress;
+  failedReason?: string;
+}
+
+/**
+ * Task Import Service
+ *
+ * Bulk task creation from CSV or JSON uploads:
+ * 1. The upload is parsed and checked (size, row count, known columns)
+ *    in the request, so malformed files fail fast
+ * 2. Rows are queued as one `task-import` job; the processor validates
+ *    them against CreateTaskDto and creates them in chunks
+ * 3. Clients poll the job for progress and the per-row error report
+ *
+ * Rows are checked with TasksService.validateCreate, so imports follow the
+ * same rules (assignees, labels, parents, recurrence) as single creates.
+ * Each chunk's valid rows are created with TasksService.createMany in one
+ * transaction, which invalidates caches and emits events once per chunk.
+ * Dry runs validate every row without creating any.
+ */
+@Injectable()
+export class TaskImportService {
+  private readonly logger = new Logger(TaskImportService.name);
+
+  private readonly MAX_ROWS = 10000;
+
+  // Rows per progress update
+  readonly CHUNK_SIZE = 100;
+
+  private readonly MAX_REPORTED_ERRORS = 1000;
+
+  // Finished imports stay queryable this long
+  private readonly RESULT_TTL_SECONDS = 24 * 60 * 60;
+
+  private readonly IMPORT_COLUMNS = [
+    'title',
+    'description',
+    'status',
+    'priority',
+    'dueDate',
+    'assigneeIds',
+    'labelIds',
+    'recurrenceRule',
+    'parentId',
+  ];
+
+  // Export-only columns, skipped so exported files can be imported again
+  private readonly IGNORED_COLUMNS = [
+    'id',
+    'projectId',
+    'owner',
+    'assignees',
+    'labels',
+    'createdAt',
+    'updatedAt',
+  ];
+
+  private readonly LIST_COLUMNS = ['assigneeIds', 'labelIds'];
+
+  constructor(
+    @InjectQueue('task-import')
+    private readonly importQueue: Queue<TaskImportJobData>,
+    private readonly tasksService: TasksService,
+  ) {}
+
+  /**
+   * Parse an upload and queue its import
+   *
+   * @param file - Uploaded CSV or JSON file
+   * @param options - Importing user, project scope and dry-run flag
+   * @returns Job ID and row count
+   * @throws BadRequestException if the file can't be parsed or is too large
+   */
+  async start(
+    file: ImportFile | undefined,
+    options: { userId: string; projectId?: string; dryRun?: boolean },
+  ): Promise<{ jobId: string; total: number; dryRun: boolean }> {
+    if (!file) {
+      throw new BadRequestException('A CSV or JSON file is required');
+    }
+
+    const rows = this.parse(file);
+
+    if (rows.length === 0) {
+      throw new BadRequestException('The file contains no rows');
+    }
+
+    if (rows.length > this.MAX_ROWS) {
+      throw new BadRequestException(`Imports are limited to ${this.MAX_ROWS} rows`);
+    }
+
+    const jobId = uuidv4();
+    const dryRun = options.dryRun === true;
+
+    await this.importQueue.add(
+      'task-import',
+      {
+        userId: options.userId,
+        projectId: options.projectId || null,
+        dryRun,
+        rows,
+        correlationId: RequestContext.getCorrelationId(),
+      },
+      {
+        jobId,
+        // Not retried: a retry would create already imported rows again
+        attempts: 1,
+        removeOnComplete: { age: this.RESULT_TTL_SECONDS },
+        removeOnFail: { age: this.RESULT_TTL_SECONDS },
+      },
+    );
+
+    this.logger.log(`Queued ${dryRun ? 'dry-run ' : ''}import ${jobId} of ${rows.length} rows`);
+
+    return { jobId, total: rows.length, dryRun };
+  }
+
+  /**
+   * Get an import's status and error report
+   *
+   * @param jobId - Import job ID
+   * @param userId - Requesting user (must have started the import)
+   * @param projectId - Project scope (optional)
+   * @returns Import status
+   * @throws NotFoundException if not found, expired or not the user's
+   */
+  async getStatus(jobId: string, userId: string, projectId?: string): Promise<TaskImportStatus> {
+    const job = await this.importQueue.getJob(jobId);
+
+    if (!job || job.data.userId !== userId || job.data.projectId !== (projectId || null)) {
+      throw new NotFoundException('Import not found');
+    }
+
+    return {
+      jobId,
+      state: await job.getState(),
+      dryRun: job.data.dryRun,
+      progress: this.getProgress(job),
+      ...(job.failedReason ? { failedReason: job.failedReason } : {}),
+    };
+  }
+
+  /**
+   * Read a job's progress, or the initial progress if none was saved
+   *
+   * @param job - Import job
+   * @returns Progress
+   */
+  getProgress(job: Job<TaskImportJobData>): TaskImportProgress {
+    const progress = job.progress;
+
+    if (progress && typeof progress === 'object') {
+      return progress as unknown as TaskImportProgress;
+    }
+
+    return {
+      total: job.data.rows.length,
+      processed: 0,
+      valid: 0,
+      imported: 0,
+      failed: 0,
+      errors: [],
+    };
+  }
+
+  /**
+   * Import one chunk of rows
+   *
+   * Rows are validated one by one; unless dry run, the valid ones are then
+   * created together. If that fails, every valid row of the chunk fails.
+   * Row failures are recorded in the progress and never thrown.
+   *
+   * @param data - Job data
+   * @param start - Index of the chunk's first row
+   * @param progress - Progress, updated in place
+   */
+  async importChunk(
+    data: TaskImportJobData,
+    start: number,
+    progress: TaskImportProgress,
+  ): Promise<void> {
+    const rows = data.rows.slice(start, start + this.CHUNK_SIZE);
+    const valid: { row: number; createTaskDto: CreateTaskDto }[] = [];
+
+    for (const [offset, row] of rows.entries()) {
+      const result = await this.validateRow(row, data);
+
+      if (Array.isArray(result)) {
+        this.recordFailure(progress, start + offset + 1, result);
+      } else {
+        valid.push({ row: start + offset + 1, createTaskDto: result });
+      }
+    }
+
+    if (data.dryRun) {
+      progress.valid += valid.length;
+    } else if (valid.length > 0) {
+      try {
+        await this.tasksService.createMany(
+          valid.map(({ createTaskDto }) => createTaskDto),
+          data.userId,
+          data.projectId || undefined,
+        );
+        progress.valid += valid.length;
+        progress.imported += valid.length;
+      } catch (error) {
+        const errors = this.toErrorMessages(error);
+        valid.forEach(({ row }) => this.recordFailure(progress, row, errors));
+      }
+    }
+
+    progress.processed = Math.min(start + rows.length, data.rows.length);
+  }
+
+  /**
+   * Count a failed row, reporting its errors while under the limit
+   */
+  private recordFailure(progress: TaskImportProgress, row: number, errors: string[]): void {
+    progress.failed++;
+    if (progress.errors.length < this.MAX_REPORTED_ERRORS) {
+      progress.errors.push({ row, errors });
+    }
+  }
+
+  /**
+   * Validate one row against CreateTaskDto and the create rules
+   *
+   * @param row - Parsed row
+   * @param data - Job data
+   * @returns Task creation data, or error messages
+   */
+  private async validateRow(
+    row: Record<string, unknown>,
+    data: TaskImportJobData,
+  ): Promise<CreateTaskDto | string[]> {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      return ['Row must be an object'];
+    }
+
+    const values = Object.fromEntries(
+      Object.entries(row).filter(([column]) => !this.IGNORED_COLUMNS.includes(column)),
+    );
+
+    // The importing user owns every task
+    if ('userId' in values) {
+      return ['userId cannot be set; imported tasks are owned by the importing user'];
+    }
+
+    const createTaskDto = plainToInstance(CreateTaskDto, { ...values, userId: data.userId });
+    const validationErrors = await validate(createTaskDto, {
+      whitelist: true,
+      forbidNonWhitelisted: true,
+    });
+
+    if (validationErrors.length > 0) {
+      return validationErrors.flatMap(error =>
+        Object.values(error.constraints || { [error.property]: `${error.property} is invalid` }),
+      );
+    }
+
+    try {
+      await this.tasksService.validateCreate(
+        createTaskDto,
+        data.userId,
+        data.projectId || undefined,
+      );
+      return createTaskDto;
+    } catch (error) {
+      return this.toErrorMessages(error);
+    }
+  }
+
+  /**
+   * Turn a validation or creation error into row error messages
+   *
+   * @param error - Thrown error
+   * @returns Error messages
+   */
+  private toErrorMessages(error: unknown): string[] {
+    if (error instanceof HttpException) {
+      const response = error.getResponse();
+      const message =
+        typeof response === 'object' && 'message' in response ? response.message : error.message;
+      return Array.isArray(message) ? message : [String(message)];
+    }
+
+    this.logger.error(`Failed to import rows: ${error}`);
+    return ['Task could not be created'];
+  }
+
+  /**
+   * Parse an upload into row objects
+   *
+   * @param file - Uploaded file
+   * @returns Rows
+   * @throws BadRequestException if the file can't be parsed
+   */
+  private parse(file: ImportFile): Record<string, unknown>[] {
+    const text = file.buffer.toString('utf8');
+    const isJson =
+      file.mimetype === 'application/json' || file.originalname.toLowerCase().endsWith('.json');
+
+    return isJson ? this.parseJson(text) : this.parseCsv(text);
+  }
+
+  private parseJson(text: string): Record<string, unknown>[] {
+    let rows: unknown;
+    try {
+      rows = JSON.parse(text);
+    } catch {
+      throw new BadRequestException('Invalid JSON');
+    }
+
+    if (!Array.isArray(rows)) {
+      throw new BadRequestException('JSON imports must be an array of tasks');
+    }
+
+    return rows;
+  }
+
+  /**
+   * Parse CSV rows, keyed by the header
+   *
+   * Empty cells are omitted, list columns are split on ';' (as in exports)
+   * and the quote that exports put before formula-like values is removed.
+   *
+   * @param text - CSV document
+   * @returns Rows
+   * @throws BadRequestException on unknown or duplicate columns
+   */
+  private parseCsv(text: string): Record<string, unknown>[] {
+    const [header, ...records] = CsvUtil.parse(text);
+    if (!header) {
+      return [];
+    }
+
+    const columns = header.map(column => column.trim());
+    const unknown = columns.filter(
+      column => !this.IMPORT_COLUMNS.includes(column) && !this.IGNORED_COLUMNS.includes(column),
+    );
+
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown columns: ${unknown.join(', ')}. Supported: ${this.IMPORT_COLUMNS.join(', ')}`,
+      );
+    }
+
+    if (new Set(columns).size !== columns.length) {
+      throw new BadRequestException('Duplicate columns');
+    }
+
+    return records.map(record => {
+      const row: Record<string, unknown> = {};
+
+      columns.forEach((column, index) => {
+        const cell = (record[index] ?? '').replace(/^'(?=[=+\-@\t\r])/, '');
+        if (cell === '') {
+          return;
+        }
+
+        row[column] = this.LIST_COLUMNS.includes(column)
+          ? cell
+              .split(';')
+              .map(item => item.trim())
+              .filter(Boolean)
+          : cell;
+      });
+
+      return row;
+    });
+  }
+}
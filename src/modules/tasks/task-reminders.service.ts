@@ -0,0 +1,169 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { Task } from './entities/task.entity';
+import { CLOSED_TASK_STATUSES } from './enums/task-status.enum';
+import { RequestContext } from '../../common/context/request-context';
+
+/**
+ * Reminder offset parsed from config
+ */
+interface ReminderOffset {
+  // Config value, e.g. "2h"; also part of the job ID
+  key: string;
+  ms: number;
+  // Human-readable, e.g. "2 hours"
+  label: string;
+}
+
+/**
+ * Task Reminders Service
+ *
+ * Due-date reminders as delayed `task-reminder` jobs on the task-processing
+ * queue, one per configured offset ("1 day before", "2 hours before"):
+ * 1. Job IDs are derived from the task ID and offset, so a task's pending
+ *    reminders can be found without a lookup table
+ * 2. Scheduling always removes the task's pending reminders first, so
+ *    changing the due date reschedules them
+ * 3. Closed, deleted or undated tasks get no reminders
+ *
+ * The processor re-checks the task when a reminder fires, so a reminder
+ * that escaped cancellation (e.g. already running) is dropped.
+ */
+@Injectable()
+export class TaskRemindersService {
+  private readonly logger = new Logger(TaskRemindersService.name);
+
+  private readonly UNITS: Record<string, { ms: number; name: string }> = {
+    m: { ms: 60 * 1000, name: 'minute' },
+    h: { ms: 60 * 60 * 1000, name: 'hour' },
+    d: { ms: 24 * 60 * 60 * 1000, name: 'day' },
+  };
+
+  private readonly offsets: ReminderOffset[];
+
+  constructor(
+    @InjectQueue('task-processing')
+    private readonly taskQueue: Queue,
+    private readonly configService: ConfigService,
+  ) {
+    this.offsets = this.configService
+      .get<string[]>('reminders.offsets', [])
+      .map(offset => this.parseOffset(offset));
+  }
+
+  /**
+   * Schedule (or reschedule) reminders for tasks
+   *
+   * Best-effort: called after commit, so failures are logged and never
+   * reach the caller.
+   *
+   * @param tasks - Tasks as saved
+   */
+  async schedule(tasks: Pick<Task, 'id' | 'dueDate' | 'status'>[]): Promise<void> {
+    if (tasks.length === 0) {
+      return;
+    }
+
+    try {
+      await this.removeJobs(tasks.map(task => task.id));
+
+      const now = Date.now();
+      const jobs = tasks
+        .filter(task => task.dueDate && !CLOSED_TASK_STATUSES.includes(task.status))
+        .flatMap(task => {
+          const dueDate = new Date(task.dueDate);
+
+          return this.offsets
+            .filter(offset => dueDate.getTime() - offset.ms > now)
+            .map(offset => ({
+              name: 'task-reminder',
+              data: {
+                taskId: task.id,
+                dueDate: dueDate.toISOString(),
+                offset: offset.label,
+                correlationId: RequestContext.getCorrelationId(),
+              },
+              opts: {
+                jobId: this.jobId(task.id, offset),
+                delay: dueDate.getTime() - offset.ms - now,
+                // The job ID is reused when the task is rescheduled
+                removeOnComplete: true,
+                attempts: 3,
+                backoff: {
+                  type: 'exponential',
+                  delay: 1000,
+                },
+              },
+            }));
+        });
+
+      if (jobs.length > 0) {
+        await this.taskQueue.addBulk(jobs);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to schedule task reminders: ${error}`);
+    }
+  }
+
+  /**
+   * Cancel pending reminders for tasks
+   *
+   * Best-effort, like schedule.
+   *
+   * @param taskIds - Task IDs
+   */
+  async cancel(taskIds: string[]): Promise<void> {
+    try {
+      await this.removeJobs(taskIds);
+    } catch (error) {
+      this.logger.error(`Failed to cancel task reminders: ${error}`);
+    }
+  }
+
+  /**
+   * Remove the reminder jobs of tasks
+   *
+   * Jobs that are already running can't be removed; the processor drops
+   * them if the task changed.
+   *
+   * @param taskIds - Task IDs
+   */
+  private async removeJobs(taskIds: string[]): Promise<void> {
+    await Promise.all(
+      taskIds.flatMap(taskId =>
+        this.offsets.map(offset => this.taskQueue.remove(this.jobId(taskId, offset))),
+      ),
+    );
+  }
+
+  private jobId(taskId: string, offset: ReminderOffset): string {
+    return `reminder:${taskId}:${offset.key}`;
+  }
+
+  /**
+   * Parse a reminder offset such as "2h"
+   *
+   * @param offset - Number and unit (m, h or d)
+   * @returns Parsed offset
+   * @throws Error if the offset is malformed (fails at startup)
+   */
+  private parseOffset(offset: string): ReminderOffset {
+    const match = /^(\d+)([mhd])$/.exec(offset);
+    if (!match || parseInt(match[1], 10) === 0) {
+      throw new Error(
+        `Invalid TASK_REMINDER_OFFSETS entry "${offset}" (expected e.g. 30m, 2h, 1d)`,
+      );
+    }
+
+    const amount = parseInt(match[1], 10);
+    const unit = this.UNITS[match[2]];
+
+    return {
+      key: offset,
+      ms: amount * unit.ms,
+      label: `${amount} ${unit.name}${amount === 1 ? '' : 's'}`,
+    };
+  }
+}
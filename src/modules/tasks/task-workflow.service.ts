@@ -0,0 +1,95 @@
+import { Injectable, UnprocessableEntityException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TaskStatus } from './enums/task-status.enum';
+
+/**
+ * Task Workflow Service
+ *
+ * Validates status changes against the configured workflow
+ * (see config/workflow.config.ts):
+ * 1. Staying in the same status is always allowed
+ * 2. Any other change must be a configured transition
+ * 3. Invalid transitions fail with 422 and list the allowed targets
+ *
+ * The workflow is validated when the configuration loads, so a typo in it
+ * fails at startup instead of silently blocking transitions.
+ */
+@Injectable()
+export class TaskWorkflowService {
+  private readonly transitions: Map<TaskStatus, Set<TaskStatus>>;
+
+  constructor(private readonly configService: ConfigService) {
+    this.transitions = this.buildTransitions(
+      this.configService.get<Record<string, string[]>>('workflow.transitions') || {},
+    );
+  }
+
+  /**
+   * Check whether a status change is allowed
+   *
+   * @param from - Current status
+   * @param to - Requested status
+   * @returns true if allowed
+   */
+  canTransition(from: TaskStatus, to: TaskStatus): boolean {
+    return from === to || (this.transitions.get(from)?.has(to) ?? false);
+  }
+
+  /**
+   * Ensure a status change is allowed
+   *
+   * @param from - Current status
+   * @param to - Requested status
+   * @param taskId - Task ID for the error message (optional)
+   */
+  assertTransition(from: TaskStatus, to: TaskStatus, taskId?: string): void {
+    if (!this.canTransition(from, to)) {
+      const allowed = this.getAllowedTransitions(from);
+      throw new UnprocessableEntityException(
+        `Invalid status transition ${from} -> ${to}${taskId ? ` for task ${taskId}` : ''}. ` +
+          `Allowed: ${allowed.length > 0 ? allowed.join(', ') : 'none'}`,
+      );
+    }
+  }
+
+  /**
+   * Statuses reachable from a status
+   *
+   * @param from - Current status
+   * @returns Allowed target statuses
+   */
+  getAllowedTransitions(from: TaskStatus): TaskStatus[] {
+    return [...(this.transitions.get(from) || [])];
+  }
+
+  /**
+   * Full workflow definition
+   *
+   * @returns Status -> allowed target statuses
+   */
+  getWorkflow(): Record<TaskStatus, TaskStatus[]> {
+    const workflow = {} as Record<TaskStatus, TaskStatus[]>;
+
+    for (const status of Object.values(TaskStatus)) {
+      workflow[status] = this.getAllowedTransitions(status);
+    }
+
+    return workflow;
+  }
+
+  /**
+   * Build the transition map
+   *
+   * @param config - Transitions from configuration, validated when loaded
+   * @returns Transition map
+   */
+  private buildTransitions(config: Record<string, string[]>): Map<TaskStatus, Set<TaskStatus>> {
+    const transitions = new Map<TaskStatus, Set<TaskStatus>>();
+
+    for (const [from, targets] of Object.entries(config)) {
+      transitions.set(from as TaskStatus, new Set(targets as TaskStatus[]));
+    }
+
+    return transitions;
+  }
+}
@@ -0,0 +1,235 @@
+import { ExecutionContext, INestApplication, ValidationPipe } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import request from 'supertest';
+import { TasksController } from './tasks.controller';
+import { TasksService } from './tasks.service';
+import { TaskEventsService } from './task-events.service';
+import { TaskImportService } from './task-import.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RedisRateLimitGuard } from '../../common/guards/redis-rate-limit.guard';
+import { OwnershipGuard } from '../../common/guards/ownership.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+
+describe('TasksController (HTTP)', () => {
+  const userId = '8b0f5c4e-8d1a-4c1e-9a43-2f1d3c5b7a91';
+  const tasksService = {
+    findAll: jest.fn(),
+    findAllByCursor: jest.fn(),
+    search: jest.fn(),
+    batchUpdate: jest.fn(),
+    batchAddLabels: jest.fn(),
+  };
+
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    const allow = { canActivate: () => true };
+    const moduleRef = await Test.createTestingModule({
+      controllers: [TasksController],
+      providers: [
+        { provide: TasksService, useValue: tasksService },
+        { provide: TaskEventsService, useValue: {} },
+        { provide: TaskImportService, useValue: {} },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({
+        canActivate: (context: ExecutionContext) => {
+          context.switchToHttp().getRequest().user = { id: userId, role: 'user' };
+          return true;
+        },
+      })
+      .overrideGuard(RedisRateLimitGuard)
+      .useValue(allow)
+      .overrideGuard(OwnershipGuard)
+      .useValue(allow)
+      .overrideGuard(RolesGuard)
+      .useValue(allow)
+      .compile();
+
+    app = moduleRef.createNestApplication({ logger: false });
+
+    // Same pipe as main.ts
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+        transformOptions: {
+          enableImplicitConversion: true,
+        },
+      }),
+    );
+
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    Object.values(tasksService).forEach(mock => mock.mockReset().mockResolvedValue({ data: [] }));
+  });
+
+  describe('GET /tasks', () => {
+    it('pages by offset with validated pagination', async () => {
+      await request(app.getHttpServer())
+        .get('/tasks?page=2&limit=500&sortBy=dueDate&sortOrder=ASC&status=PENDING')
+        .expect(200);
+
+      expect(tasksService.findAll).toHaveBeenCalledWith(
+        { status: 'PENDING' },
+        { page: 2, limit: 100, sortBy: 'dueDate', sortOrder: 'ASC', mode: 'offset' },
+        userId,
+      );
+    });
+
+    it('pages by keyset with mode=cursor', async () => {
+      await request(app.getHttpServer())
+        .get('/tasks?mode=cursor&limit=20&sortBy=title')
+        .expect(200);
+
+      expect(tasksService.findAll).not.toHaveBeenCalled();
+      expect(tasksService.findAllByCursor).toHaveBeenCalledWith(
+        {},
+        expect.objectContaining({ mode: 'cursor', limit: 20, sortBy: 'title' }),
+        userId,
+      );
+    });
+
+    it('pages by keyset when only a cursor is given', async () => {
+      await request(app.getHttpServer()).get('/tasks?cursor=abc').expect(200);
+
+      expect(tasksService.findAllByCursor).toHaveBeenCalledWith(
+        {},
+        expect.objectContaining({ mode: 'cursor', cursor: 'abc' }),
+        userId,
+      );
+    });
+
+    it('ranks full-text matches with mode=search', async () => {
+      const hit = {
+        id: '0c7e1f52-4f0b-4a53-9d0e-3c2b1a4f5e6d',
+        title: 'Deploy API',
+        rank: 0.6,
+        highlights: { title: '<mark>Deploy</mark> API', description: null },
+      };
+      tasksService.search.mockResolvedValue({ data: [hit], meta: { total: 1 } });
+
+      const response = await request(app.getHttpServer())
+        .get('/tasks?mode=search&search=deploy&labels=0c7e1f52-4f0b-4a53-9d0e-3c2b1a4f5e6d')
+        .expect(200);
+
+      expect(response.body.data[0]).toMatchObject({
+        rank: 0.6,
+        highlights: { title: '<mark>Deploy</mark> API' },
+      });
+      expect(tasksService.search).toHaveBeenCalledWith(
+        { search: 'deploy', labels: ['0c7e1f52-4f0b-4a53-9d0e-3c2b1a4f5e6d'] },
+        expect.objectContaining({ mode: 'search' }),
+        userId,
+      );
+      expect(tasksService.findAll).not.toHaveBeenCalled();
+    });
+
+    it('resolves assignedTo=me to the current user', async () => {
+      await request(app.getHttpServer()).get('/tasks?assignedTo=me').expect(200);
+
+      expect(tasksService.findAll).toHaveBeenCalledWith(
+        { assignedTo: userId },
+        expect.anything(),
+        userId,
+      );
+    });
+
+    it.each([
+      ['mode=keyset', 'mode'],
+      ['sortBy=password', 'sortBy'],
+      ['sortOrder=sideways', 'sortOrder'],
+      ['page=0', 'page'],
+      ['unknown=1', 'unknown'],
+    ])('rejects %s', async (query, property) => {
+      const response = await request(app.getHttpServer()).get(`/tasks?${query}`).expect(400);
+
+      expect(JSON.stringify(response.body.message)).toContain(property);
+      expect(tasksService.findAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /tasks/batch/update', () => {
+    const taskIds = ['0c7e1f52-4f0b-4a53-9d0e-3c2b1a4f5e6d'];
+
+    it('passes validated updates to the service', async () => {
+      tasksService.batchUpdate.mockResolvedValue(1);
+
+      await request(app.getHttpServer())
+        .post('/tasks/batch/update')
+        .send({ taskIds, updates: { status: 'COMPLETED' } })
+        .expect(201);
+
+      expect(tasksService.batchUpdate).toHaveBeenCalledWith(
+        taskIds,
+        { status: 'COMPLETED' },
+        userId,
+        userId,
+        undefined,
+      );
+    });
+
+    it.each([
+      [{ taskIds, updates: { projectId: taskIds[0] } }, 'projectId'],
+      [{ taskIds, updates: { status: 'DONE' } }, 'status'],
+      [{ taskIds: ['not-a-uuid'], updates: {} }, 'taskIds'],
+      [{ updates: {} }, 'taskIds'],
+      [{ taskIds }, 'updates'],
+    ])('rejects %j', async (body, property) => {
+      const response = await request(app.getHttpServer())
+        .post('/tasks/batch/update')
+        .send(body)
+        .expect(400);
+
+      expect(JSON.stringify(response.body.message)).toContain(property);
+      expect(tasksService.batchUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /tasks/batch/labels/add', () => {
+    const taskIds = ['0c7e1f52-4f0b-4a53-9d0e-3c2b1a4f5e6d'];
+    const labelIds = ['7c9e6679-7425-40de-944b-e07fc1f90ae7'];
+
+    it('passes validated IDs to the service', async () => {
+      tasksService.batchAddLabels.mockResolvedValue(1);
+
+      await request(app.getHttpServer())
+        .post('/tasks/batch/labels/add')
+        .send({ taskIds, labelIds })
+        .expect(201);
+
+      expect(tasksService.batchAddLabels).toHaveBeenCalledWith(
+        taskIds,
+        labelIds,
+        userId,
+        userId,
+        undefined,
+      );
+    });
+
+    it.each([
+      [{ taskIds: [], labelIds }, 'taskIds'],
+      [{ taskIds, labelIds: [] }, 'labelIds'],
+      [{ taskIds, labelIds: ['not-a-uuid'] }, 'labelIds'],
+      [{ taskIds: 'not-an-array', labelIds }, 'taskIds'],
+      [{ labelIds }, 'taskIds'],
+      [{ taskIds }, 'labelIds'],
+    ])('rejects %j', async (body, property) => {
+      const response = await request(app.getHttpServer())
+        .post('/tasks/batch/labels/add')
+        .send(body)
+        .expect(400);
+
+      expect(JSON.stringify(response.body.message)).toContain(property);
+      expect(tasksService.batchAddLabels).not.toHaveBeenCalled();
+    });
+  });
+});
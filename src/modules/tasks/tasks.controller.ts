@@ -11,12 +11,36 @@ import {
   HttpCode,
   HttpStatus,
   ParseUUIDPipe,
+  Sse,
+  Headers,
+  MessageEvent,
+  StreamableFile,
+  UseInterceptors,
+  UploadedFile,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Observable } from 'rxjs';
 import { TasksService } from './tasks.service';
+import { TaskEventsService } from './task-events.service';
+import { type ImportFile, TaskImportService } from './task-import.service';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
-import { TaskFilterDto } from './dto/task-filter.dto';
-import { ApiBearerAuth, ApiOperation, ApiTags, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { BatchLabelsDto, BatchUpdateTasksDto } from './dto/batch-tasks.dto';
+import { TaskListQueryDto } from './dto/task-list-query.dto';
+import { ExportTasksDto } from './dto/export-tasks.dto';
+import { ImportTasksDto } from './dto/import-tasks.dto';
+import { AddTaskDependencyDto, TaskDependencyGraphDto } from './dto/task-dependency.dto';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiTags,
+  ApiResponse,
+  ApiQuery,
+  ApiHeader,
+  ApiProduces,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RedisRateLimitGuard } from '../../common/guards/redis-rate-limit.guard';
 import { OwnershipGuard } from '../../common/guards/ownership.guard';
@@ -25,8 +49,13 @@ import { RedisRateLimit, RateLimitPresets } from '../../common/decorators/rate-l
 import { CheckOwnership } from '../../common/decorators/ownership.decorator';
 import { Roles } from '../../common/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
-import { PaginationParams } from '../../common/interfaces/pagination.interface';
+import type { PaginationParams } from '../../common/interfaces/pagination.interface';
 import { PaginationUtil } from '../../common/utils/pagination.util';
+import { ProjectRole } from '../projects/enums/project-role.enum';
+import { ExportUtil } from '../../common/utils/export.util';
+
+// Optional project scope: undefined on /tasks, validated UUID on /projects/:projectId/tasks
+const ProjectIdParam = () => Param('projectId', new ParseUUIDPipe({ optional: true }));
 
 /**
  * Refactored Tasks Controller
@@ -38,6 +67,11 @@ import { PaginationUtil } from '../../common/utils/pagination.util';
  * 4. DB-LEVEL OPERATIONS - No in-memory filtering/pagination
  * 5. PROPER ERROR HANDLING - Consistent error responses
  * 6. USER CONTEXT - All operations scoped to current user
+ * 7. PROJECT SCOPE - Same routes served under /projects/:projectId/tasks,
+ *    authorized by project membership role
+ * 8. LIVE EVENTS - Server-Sent Events stream instead of polling
+ * 9. EXPORT/IMPORT - Filtered task lists streamed as CSV, JSON or NDJSON;
+ *    CSV/JSON uploads imported by a background job
  * 
  * Security features:
  * - JWT authentication required
@@ -46,12 +80,14 @@ import { PaginationUtil } from '../../common/utils/pagination.util';
  * - Rate limiting per endpoint
  */
 @ApiTags('tasks')
-@Controller('tasks')
+@Controller(['tasks', 'projects/:projectId/tasks'])
 @UseGuards(JwtAuthGuard, RedisRateLimitGuard)
 @ApiBearerAuth()
 export class TasksController {
   constructor(
     private readonly tasksService: TasksService,
+    private readonly taskEventsService: TaskEventsService,
+    private readonly taskImportService: TaskImportService,
     // NO REPOSITORY INJECTION - Service layer handles all data access
   ) {}
 
@@ -59,9 +95,18 @@ export class TasksController {
    * Create a new task
    * 
    * Automatically assigns task to current user
+   * Under a project route, requires project MEMBER role
    */
   @Post()
   @HttpCode(HttpStatus.CREATED)
+  @UseGuards(OwnershipGuard)
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.MEMBER,
+    optional: true,
+  })
   @RedisRateLimit(RateLimitPresets.MODERATE)
   @ApiOperation({ summary: 'Create a new task' })
   @ApiResponse({ status: 201, description: 'Task created successfully' })
@@ -70,33 +115,75 @@ export class TasksController {
   async create(
     @Body() createTaskDto: CreateTaskDto,
     @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
   ) {
-    return this.tasksService.create(createTaskDto, userId);
+    return this.tasksService.create(createTaskDto, userId, projectId);
   }
 
   /**
    * Get all tasks with filtering, sorting, and pagination
    * 
    * All operations done at database level for efficiency
+   * Passing `mode=cursor` or a `cursor` switches to keyset pagination
+   * Passing `mode=search` ranks `search` matches by relevance with highlights
    */
   @Get()
+  @UseGuards(OwnershipGuard)
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.VIEWER,
+    optional: true,
+  })
   @RedisRateLimit(RateLimitPresets.LENIENT)
   @ApiOperation({ summary: 'Find all tasks with filtering and pagination' })
-  @ApiQuery({ name: 'status', required: false, description: 'Filter by status' })
-  @ApiQuery({ name: 'priority', required: false, description: 'Filter by priority' })
-  @ApiQuery({ name: 'search', required: false, description: 'Search in title/description' })
-  @ApiQuery({ name: 'page', required: false, description: 'Page number', type: Number })
-  @ApiQuery({ name: 'limit', required: false, description: 'Items per page', type: Number })
-  @ApiQuery({ name: 'sortBy', required: false, description: 'Sort field' })
-  @ApiQuery({ name: 'sortOrder', required: false, enum: ['ASC', 'DESC'] })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    description: 'Full-text search in title/description: words, "phrases", prefix*, -excluded',
+  })
   @ApiResponse({ status: 200, description: 'Tasks retrieved successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid cursor, cursor sort field or search query',
+  })
   async findAll(
-    @Query() filters: TaskFilterDto,
-    @Query() paginationParams: PaginationParams,
+    @Query() query: TaskListQueryDto,
     @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
   ) {
+    const { page, limit, sortBy, sortOrder, mode, cursor, ...filters } = query;
+
     // Validate and sanitize pagination params
-    const pagination = PaginationUtil.validateParams(paginationParams);
+    const pagination = PaginationUtil.validateParams({
+      page,
+      limit,
+      sortBy,
+      sortOrder,
+      mode,
+      cursor,
+    });
+
+    // Project routes list that project's tasks
+    if (projectId) {
+      filters.projectId = projectId;
+    }
+
+    // "Assigned to me" listing
+    if (filters.assignedTo === 'me') {
+      filters.assignedTo = userId;
+    }
+
+    // Relevance-ranked full-text search with highlighted snippets
+    if (pagination.mode === 'search') {
+      return this.tasksService.search(filters, pagination, userId);
+    }
+
+    // Keyset pagination for deep/live scrolling (no COUNT, no OFFSET)
+    if (pagination.mode === 'cursor') {
+      return this.tasksService.findAllByCursor(filters, pagination, userId);
+    }
     
     // Get tasks (all filtering/pagination done in DB)
     return this.tasksService.findAll(filters, pagination, userId);
@@ -108,21 +195,188 @@ export class TasksController {
    * Uses DB aggregation for efficiency (no in-memory filtering)
    */
   @Get('stats')
+  @UseGuards(OwnershipGuard)
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.VIEWER,
+    optional: true,
+  })
   @RedisRateLimit(RateLimitPresets.LENIENT)
   @ApiOperation({ summary: 'Get task statistics' })
   @ApiResponse({ status: 200, description: 'Statistics retrieved successfully' })
-  async getStats(@CurrentUser('id') userId: string) {
-    return this.tasksService.getStatistics(userId);
+  async getStats(@CurrentUser('id') userId: string, @ProjectIdParam() projectId?: string) {
+    return this.tasksService.getStatistics(userId, projectId);
+  }
+
+  /**
+   * Get the task status workflow
+   *
+   * Lists, for every status, the statuses a task may move to
+   */
+  @Get('workflow')
+  @RedisRateLimit(RateLimitPresets.LENIENT)
+  @ApiOperation({ summary: 'Get allowed task status transitions' })
+  @ApiResponse({ status: 200, description: 'Workflow retrieved successfully' })
+  getWorkflow() {
+    return this.tasksService.getWorkflow();
+  }
+
+  /**
+   * Export tasks as CSV, JSON or NDJSON
+   *
+   * Takes the list filters plus sortBy/sortOrder; the file is streamed from
+   * the database, so large exports don't need pagination
+   */
+  @Get('export')
+  @UseGuards(OwnershipGuard)
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.VIEWER,
+    optional: true,
+  })
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Export tasks as CSV, JSON or NDJSON' })
+  @ApiProduces('text/csv', 'application/json', 'application/x-ndjson')
+  @ApiResponse({ status: 200, description: 'Export file streamed' })
+  @ApiResponse({ status: 400, description: 'Invalid filter, sort field or format' })
+  async export(
+    @Query() exportDto: ExportTasksDto,
+    @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
+  ): Promise<StreamableFile> {
+    // Project routes export that project's tasks
+    if (projectId) {
+      exportDto.projectId = projectId;
+    }
+
+    if (exportDto.assignedTo === 'me') {
+      exportDto.assignedTo = userId;
+    }
+
+    const format = exportDto.format || 'csv';
+    const stream = await this.tasksService.exportTasks(exportDto, userId);
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new StreamableFile(stream, {
+      type: ExportUtil.contentType(format),
+      disposition: `attachment; filename="tasks-${date}.${format}"`,
+    });
+  }
+
+  /**
+   * Import tasks from a CSV or JSON file
+   *
+   * Rows are validated and created by a background job; poll
+   * GET import/:jobId for progress and the per-row error report.
+   * Under a project route, requires project MEMBER role
+   */
+  @Post('import')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(OwnershipGuard)
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.MEMBER,
+    optional: true,
+  })
+  @RedisRateLimit(RateLimitPresets.STRICT)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: 10 * 1024 * 1024 } }))
+  @ApiOperation({ summary: 'Import tasks from CSV or JSON' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiResponse({ status: 202, description: 'Import queued; returns the job ID' })
+  @ApiResponse({ status: 400, description: 'Missing, unparsable or oversized file' })
+  async importTasks(
+    @UploadedFile() file: ImportFile | undefined,
+    @Query() importDto: ImportTasksDto,
+    @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
+  ) {
+    return this.taskImportService.start(file, { userId, projectId, dryRun: importDto.dryRun });
+  }
+
+  /**
+   * Get an import's progress and per-row error report
+   */
+  @Get('import/:jobId')
+  @UseGuards(OwnershipGuard)
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.MEMBER,
+    optional: true,
+  })
+  @RedisRateLimit(RateLimitPresets.LENIENT)
+  @ApiOperation({ summary: 'Get task import progress' })
+  @ApiResponse({ status: 200, description: 'Import status retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Import not found or expired' })
+  async getImportStatus(
+    @Param('jobId', ParseUUIDPipe) jobId: string,
+    @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
+  ) {
+    return this.taskImportService.getStatus(jobId, userId, projectId);
+  }
+
+  /**
+   * Stream live task changes (Server-Sent Events)
+   *
+   * Pushes task.created, task.updated and task.deleted events for tasks the
+   * user can see (only the project's tasks under a project route).
+   * Reconnecting clients resume from the Last-Event-ID header; a `resync`
+   * event means missed events are gone and the list should be reloaded.
+   */
+  @Sse('events')
+  @UseGuards(OwnershipGuard)
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.VIEWER,
+    optional: true,
+  })
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Stream live task changes (text/event-stream)' })
+  @ApiHeader({
+    name: 'Last-Event-ID',
+    required: false,
+    description: 'ID of the last event received, to resume after a reconnect',
+  })
+  @ApiResponse({ status: 200, description: 'Event stream opened' })
+  streamEvents(
+    @CurrentUser('id') userId: string,
+    @Headers('last-event-id') lastEventId?: string,
+    @ProjectIdParam() projectId?: string,
+  ): Observable<MessageEvent> {
+    return this.taskEventsService.stream(userId, { projectId, lastEventId });
   }
 
   /**
    * Get a single task by ID
    * 
-   * Ownership check ensures users can only access their own tasks
+   * Ownership check ensures users can only access their own or assigned tasks
    */
   @Get(':id')
   @UseGuards(OwnershipGuard)
-  @CheckOwnership({ entity: 'task', paramKey: 'id', userIdField: 'userId' })
+  @CheckOwnership({
+    entity: 'task',
+    paramKey: 'id',
+    userIdField: 'userId',
+    allowAssignee: true,
+    minProjectRole: ProjectRole.VIEWER,
+  })
   @RedisRateLimit(RateLimitPresets.LENIENT)
   @ApiOperation({ summary: 'Find a task by ID' })
   @ApiResponse({ status: 200, description: 'Task found' })
@@ -131,40 +385,165 @@ export class TasksController {
   async findOne(
     @Param('id', ParseUUIDPipe) id: string,
     @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
+  ) {
+    return this.tasksService.findOne(id, userId, projectId);
+  }
+
+  /**
+   * Get a task's activity history
+   *
+   * Append-only log of field-level changes with actor and correlation ID
+   */
+  @Get(':id/history')
+  @UseGuards(OwnershipGuard)
+  @CheckOwnership({
+    entity: 'task',
+    paramKey: 'id',
+    userIdField: 'userId',
+    allowAssignee: true,
+    minProjectRole: ProjectRole.VIEWER,
+  })
+  @RedisRateLimit(RateLimitPresets.LENIENT)
+  @ApiOperation({ summary: 'Get task activity history' })
+  @ApiResponse({ status: 200, description: 'History retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  async getHistory(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() paginationParams: PaginationParams,
+    @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
+  ) {
+    const pagination = PaginationUtil.validateParams(paginationParams);
+    return this.tasksService.getHistory(id, pagination, userId, projectId);
+  }
+
+  /**
+   * Get a task's dependency graph
+   *
+   * Transitive blockers and blocked tasks with "blocked by" edges
+   */
+  @Get(':id/dependencies')
+  @UseGuards(OwnershipGuard)
+  @CheckOwnership({
+    entity: 'task',
+    paramKey: 'id',
+    userIdField: 'userId',
+    allowAssignee: true,
+    minProjectRole: ProjectRole.VIEWER,
+  })
+  @RedisRateLimit(RateLimitPresets.LENIENT)
+  @ApiOperation({ summary: 'Get task dependency graph' })
+  @ApiResponse({ status: 200, description: 'Dependency graph', type: TaskDependencyGraphDto })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  async getDependencies(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
+  ) {
+    return this.tasksService.getDependencyGraph(id, userId, projectId);
+  }
+
+  /**
+   * Mark a task as blocked by another task
+   *
+   * Rejected if it would create a dependency cycle
+   */
+  @Post(':id/dependencies')
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(OwnershipGuard)
+  @CheckOwnership({
+    entity: 'task',
+    paramKey: 'id',
+    userIdField: 'userId',
+    minProjectRole: ProjectRole.MEMBER,
+  })
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Add a "blocked by" dependency' })
+  @ApiResponse({ status: 201, description: 'Dependency added' })
+  @ApiResponse({ status: 400, description: 'Dependency would create a cycle' })
+  @ApiResponse({ status: 409, description: 'Dependency already exists' })
+  async addDependency(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() addDependencyDto: AddTaskDependencyDto,
+    @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
+  ) {
+    return this.tasksService.addDependency(id, addDependencyDto.blockedById, userId, projectId);
+  }
+
+  /**
+   * Remove a "blocked by" dependency
+   */
+  @Delete(':id/dependencies/:blockedById')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(OwnershipGuard)
+  @CheckOwnership({
+    entity: 'task',
+    paramKey: 'id',
+    userIdField: 'userId',
+    minProjectRole: ProjectRole.MEMBER,
+  })
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Remove a "blocked by" dependency' })
+  @ApiResponse({ status: 204, description: 'Dependency removed' })
+  @ApiResponse({ status: 404, description: 'Dependency not found' })
+  async removeDependency(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('blockedById', ParseUUIDPipe) blockedById: string,
+    @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
   ) {
-    return this.tasksService.findOne(id, userId);
+    await this.tasksService.removeDependency(id, blockedById, userId, projectId);
   }
 
   /**
    * Update a task
    * 
    * Ownership guard ensures users can only update their own tasks
+   * Assignees may update the status only
    */
   @Patch(':id')
   @UseGuards(OwnershipGuard)
-  @CheckOwnership({ entity: 'task', paramKey: 'id', userIdField: 'userId' })
+  @CheckOwnership({
+    entity: 'task',
+    paramKey: 'id',
+    userIdField: 'userId',
+    allowAssignee: true,
+    assigneeWritableFields: ['status'],
+    minProjectRole: ProjectRole.MEMBER,
+  })
   @RedisRateLimit(RateLimitPresets.MODERATE)
   @ApiOperation({ summary: 'Update a task' })
   @ApiResponse({ status: 200, description: 'Task updated successfully' })
   @ApiResponse({ status: 404, description: 'Task not found' })
   @ApiResponse({ status: 403, description: 'Forbidden - not your task' })
+  @ApiResponse({ status: 409, description: 'Task has open blockers' })
+  @ApiResponse({ status: 422, description: 'Status transition not allowed by workflow' })
   async update(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateTaskDto: UpdateTaskDto,
     @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
   ) {
-    return this.tasksService.update(id, updateTaskDto, userId);
+    return this.tasksService.update(id, updateTaskDto, userId, projectId);
   }
 
   /**
    * Delete a task
    * 
    * Ownership guard ensures users can only delete their own tasks
+   * (assignees are rejected, project ADMINs are allowed)
    */
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
   @UseGuards(OwnershipGuard)
-  @CheckOwnership({ entity: 'task', paramKey: 'id', userIdField: 'userId' })
+  @CheckOwnership({
+    entity: 'task',
+    paramKey: 'id',
+    userIdField: 'userId',
+    minProjectRole: ProjectRole.ADMIN,
+  })
   @RedisRateLimit(RateLimitPresets.MODERATE)
   @ApiOperation({ summary: 'Delete a task' })
   @ApiResponse({ status: 204, description: 'Task deleted successfully' })
@@ -173,8 +552,9 @@ export class TasksController {
   async remove(
     @Param('id', ParseUUIDPipe) id: string,
     @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
   ) {
-    await this.tasksService.remove(id, userId);
+    await this.tasksService.remove(id, userId, projectId);
   }
 
   /**
@@ -184,15 +564,26 @@ export class TasksController {
    * Strict rate limiting to prevent abuse
    */
   @Post('batch/update')
-  @UseGuards(RolesGuard)
+  @UseGuards(RolesGuard, OwnershipGuard)
   @Roles('admin', 'user')
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.MEMBER,
+    optional: true,
+  })
   @RedisRateLimit(RateLimitPresets.BATCH)
   @ApiOperation({ summary: 'Batch update multiple tasks' })
   @ApiResponse({ status: 200, description: 'Tasks updated successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid task IDs or updates' })
+  @ApiResponse({ status: 409, description: 'Task has open blockers' })
+  @ApiResponse({ status: 422, description: 'Status transition not allowed by workflow' })
   async batchUpdate(
-    @Body() operations: { taskIds: string[]; updates: Partial<UpdateTaskDto> },
+    @Body() operations: BatchUpdateTasksDto,
     @CurrentUser('id') userId: string,
     @CurrentUser('role') userRole: string,
+    @ProjectIdParam() projectId?: string,
   ) {
     const { taskIds, updates } = operations;
     
@@ -202,7 +593,9 @@ export class TasksController {
     const affected = await this.tasksService.batchUpdate(
       taskIds,
       updates,
+      userId,
       targetUserId,
+      projectId,
     );
 
     return {
@@ -212,6 +605,98 @@ export class TasksController {
     };
   }
 
+  /**
+   * Batch add labels to tasks
+   *
+   * Uses single bulk INSERT query for efficiency
+   * Strict rate limiting to prevent abuse
+   */
+  @Post('batch/labels/add')
+  @UseGuards(RolesGuard, OwnershipGuard)
+  @Roles('admin', 'user')
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.MEMBER,
+    optional: true,
+  })
+  @RedisRateLimit(RateLimitPresets.BATCH)
+  @ApiOperation({ summary: 'Add labels to multiple tasks' })
+  @ApiResponse({ status: 200, description: 'Labels added successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid task or label IDs, or label not applicable' })
+  async batchAddLabels(
+    @Body() operations: BatchLabelsDto,
+    @CurrentUser('id') userId: string,
+    @CurrentUser('role') userRole: string,
+    @ProjectIdParam() projectId?: string,
+  ) {
+    const { taskIds, labelIds } = operations;
+
+    // Admin can label any tasks, users can only label their own
+    const targetUserId = userRole === 'admin' ? undefined : userId;
+
+    const affected = await this.tasksService.batchAddLabels(
+      taskIds,
+      labelIds,
+      userId,
+      targetUserId,
+      projectId,
+    );
+
+    return {
+      success: true,
+      affected,
+      message: `Labelled ${affected} task(s)`,
+    };
+  }
+
+  /**
+   * Batch remove labels from tasks
+   *
+   * Uses single bulk DELETE query for efficiency
+   * Strict rate limiting to prevent abuse
+   */
+  @Post('batch/labels/remove')
+  @UseGuards(RolesGuard, OwnershipGuard)
+  @Roles('admin', 'user')
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.MEMBER,
+    optional: true,
+  })
+  @RedisRateLimit(RateLimitPresets.BATCH)
+  @ApiOperation({ summary: 'Remove labels from multiple tasks' })
+  @ApiResponse({ status: 200, description: 'Labels removed successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid task or label IDs' })
+  async batchRemoveLabels(
+    @Body() operations: BatchLabelsDto,
+    @CurrentUser('id') userId: string,
+    @CurrentUser('role') userRole: string,
+    @ProjectIdParam() projectId?: string,
+  ) {
+    const { taskIds, labelIds } = operations;
+
+    // Admin can unlabel any tasks, users can only unlabel their own
+    const targetUserId = userRole === 'admin' ? undefined : userId;
+
+    const affected = await this.tasksService.batchRemoveLabels(
+      taskIds,
+      labelIds,
+      userId,
+      targetUserId,
+      projectId,
+    );
+
+    return {
+      success: true,
+      affected,
+      message: `Unlabelled ${affected} task(s)`,
+    };
+  }
+
   /**
    * Batch delete tasks
    * 
@@ -219,8 +704,15 @@ export class TasksController {
    * Strict rate limiting to prevent abuse
    */
   @Post('batch/delete')
-  @UseGuards(RolesGuard)
+  @UseGuards(RolesGuard, OwnershipGuard)
   @Roles('admin', 'user')
+  @CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.MEMBER,
+    optional: true,
+  })
   @RedisRateLimit(RateLimitPresets.BATCH)
   @ApiOperation({ summary: 'Batch delete multiple tasks' })
   @ApiResponse({ status: 200, description: 'Tasks deleted successfully' })
@@ -228,13 +720,14 @@ export class TasksController {
     @Body() operations: { taskIds: string[] },
     @CurrentUser('id') userId: string,
     @CurrentUser('role') userRole: string,
+    @ProjectIdParam() projectId?: string,
   ) {
     const { taskIds } = operations;
     
     // Admin can delete any tasks, users can only delete their own
     const targetUserId = userRole === 'admin' ? undefined : userId;
     
-    const affected = await this.tasksService.batchDelete(taskIds, targetUserId);
+    const affected = await this.tasksService.batchDelete(taskIds, userId, targetUserId, projectId);
 
     return {
       success: true,
@@ -4,8 +4,19 @@ import { BullModule } from '@nestjs/bullmq';
 import { TasksService } from './tasks.service';
 import { TasksController } from './tasks.controller';
 import { Task } from './entities/task.entity';
+import { TaskActivity } from './entities/task-activity.entity';
+import { TaskActivityService } from './task-activity.service';
+import { TaskWorkflowService } from './task-workflow.service';
+import { TaskDependency } from './entities/task-dependency.entity';
+import { TaskDependenciesService } from './task-dependencies.service';
+import { TaskEventsService } from './task-events.service';
+import { TaskRemindersService } from './task-reminders.service';
+import { TaskImportService } from './task-import.service';
 import { RedisCacheService } from '../../common/services/redis-cache.service';
 import { OwnershipGuard } from '../../common/guards/ownership.guard';
+import { ProjectsModule } from '../projects/projects.module';
+import { LabelsModule } from '../labels/labels.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
 
 /**
  * Tasks Module
@@ -15,16 +26,43 @@ import { OwnershipGuard } from '../../common/guards/ownership.guard';
  * - Ownership guards for security
  * - Transaction support
  * - Queue processing
+ * - Project-scoped routes (membership via ProjectsModule)
+ * - Append-only activity history
+ * - Configurable status workflow
+ * - Subtasks and "blocked by" dependencies
+ * - Labels (via LabelsModule)
+ * - Outgoing webhooks (via WebhooksModule)
+ * - Live task events over SSE (Redis pub/sub fan-out)
+ * - Due-date reminders (delayed queue jobs)
+ * - CSV/JSON import as chunked queue jobs
  */
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Task]),
-    BullModule.registerQueue({
-      name: 'task-processing',
-    }),
+    TypeOrmModule.forFeature([Task, TaskActivity, TaskDependency]),
+    BullModule.registerQueue(
+      {
+        name: 'task-processing',
+      },
+      {
+        name: 'task-import',
+      },
+    ),
+    ProjectsModule,
+    LabelsModule,
+    WebhooksModule,
   ],
   controllers: [TasksController],
-  providers: [TasksService, RedisCacheService, OwnershipGuard],
-  exports: [TasksService],
+  providers: [
+    TasksService,
+    TaskActivityService,
+    TaskWorkflowService,
+    TaskDependenciesService,
+    TaskEventsService,
+    TaskRemindersService,
+    TaskImportService,
+    RedisCacheService,
+    OwnershipGuard,
+  ],
+  exports: [TasksService, TaskWorkflowService, TaskImportService],
 })
 export class TasksModule {} 
\ No newline at end of file
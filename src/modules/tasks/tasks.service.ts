@@ -1,22 +1,118 @@
 import {
   Injectable,
   NotFoundException,
+  ForbiddenException,
   Logger,
   BadRequestException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, DataSource, In } from 'typeorm';
+import {
+  Repository,
+  DataSource,
+  SelectQueryBuilder,
+  EntityManager,
+  QueryFailedError,
+} from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+import { Readable, pipeline } from 'stream';
 import { Task } from './entities/task.entity';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
 import { TaskFilterDto } from './dto/task-filter.dto';
+import { ExportTasksDto } from './dto/export-tasks.dto';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
-import { TaskStatus } from './enums/task-status.enum';
+import { TaskStatus, CLOSED_TASK_STATUSES } from './enums/task-status.enum';
 import { TaskPriority } from './enums/task-priority.enum';
-import { PaginationParams, PaginatedResponse } from '../../common/interfaces/pagination.interface';
+import {
+  PaginationParams,
+  PaginatedResponse,
+  CursorPaginatedResponse,
+} from '../../common/interfaces/pagination.interface';
 import { PaginationUtil } from '../../common/utils/pagination.util';
 import { RedisCacheService } from '../../common/services/redis-cache.service';
+import { ProjectsService } from '../projects/projects.service';
+import { ProjectRole, hasProjectRole } from '../projects/enums/project-role.enum';
+import { TaskActivityService } from './task-activity.service';
+import { TaskWorkflowService } from './task-workflow.service';
+import { TaskActivity, TaskFieldChange } from './entities/task-activity.entity';
+import { TaskActivityAction } from './enums/task-activity-action.enum';
+import { RequestContext } from '../../common/context/request-context';
+import { RecurrenceUtil } from '../../common/utils/recurrence.util';
+import { TaskDependenciesService } from './task-dependencies.service';
+import { TaskDependency } from './entities/task-dependency.entity';
+import { TaskDependencyGraphDto } from './dto/task-dependency.dto';
+import { LabelsService } from '../labels/labels.service';
+import { SearchQuery, SearchQueryUtil } from '../../common/utils/search-query.util';
+import { ExportUtil } from '../../common/utils/export.util';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookEvent } from '../webhooks/enums/webhook-event.enum';
+import { TaskEventsService } from './task-events.service';
+import { TaskEventType } from './enums/task-event-type.enum';
+import { TaskRemindersService } from './task-reminders.service';
+
+/**
+ * Task count for one label
+ */
+export interface TaskLabelCount {
+  id: string;
+  name: string;
+  colour: string;
+  count: number;
+}
+
+/**
+ * Task counts for a user or project
+ */
+export interface TaskStatistics {
+  total: number;
+  byStatus: Record<TaskStatus, number>;
+  byPriority: Record<TaskPriority, number>;
+  overdue: number;
+  blocked: number;
+  byLabel: TaskLabelCount[];
+}
+
+/**
+ * Task listed in a digest
+ */
+export type DigestTask = Pick<Task, 'id' | 'title' | 'status' | 'priority' | 'dueDate'>;
+
+/**
+ * Digest section: first tasks and the full count
+ */
+export interface DigestSection {
+  count: number;
+  tasks: DigestTask[];
+}
+
+/**
+ * A user's task digest, with days in the user's time zone
+ */
+export interface TaskDigest {
+  stats: TaskStatistics;
+  dueToday: DigestSection;
+  overdue: DigestSection;
+  // Completed yesterday (daily) or in the last 7 days (weekly)
+  completed: DigestSection;
+}
+
+/**
+ * Task claimed for an overdue notification
+ */
+export type OverdueTask = Pick<Task, 'id' | 'title' | 'userId' | 'projectId' | 'dueDate'> & {
+  assigneeIds: string[];
+};
+
+/**
+ * Search hit: task with its relevance and highlighted snippets
+ *
+ * Highlights are HTML-escaped with matches wrapped in <mark> tags.
+ */
+export type TaskSearchResult = Task & {
+  rank: number;
+  highlights: { title: string; description: string | null };
+};
 
 /**
  * Refactored Tasks Service
@@ -49,12 +145,73 @@ import { RedisCacheService } from '../../common/services/redis-cache.service';
  *    - Proper error types
  *    - Retry logic for queue operations
  *    - Validation at service level
+ *
+ * 6. ACTIVITY HISTORY:
+ *    - Every mutation appends field-level diffs to the task history
+ *    - History rows are written in the same transaction as the change
+ *
+ * 7. STATUS WORKFLOW:
+ *    - Every status change path is validated by TaskWorkflowService
+ *
+ * 8. RECURRING TASKS:
+ *    - Completing a recurring task generates the next instance
+ *    - Instances are separate rows; earlier ones are never modified
+ *
+ * 9. SUBTASKS AND DEPENDENCIES:
+ *    - Parent and "blocked by" graphs are kept acyclic on write
+ *    - Tasks with open blockers cannot be completed
+ *
+ * 10. LABELS:
+ *    - Labels are validated against the task's project or owner
+ *    - Batch label add/remove use single bulk INSERT/DELETE queries
+ *
+ * 11. FULL-TEXT SEARCH:
+ *    - `search` matches the GIN-indexed tsvector instead of ILIKE
+ *    - Search mode ranks with ts_rank and adds ts_headline snippets
+ *
+ * 12. NOTIFICATIONS:
+ *    - Status changes and new assignments queue notification jobs after commit
+ *
+ * 13. WEBHOOKS AND LIVE EVENTS:
+ *    - Created, updated, status-changed and deleted tasks are dispatched
+ *      to webhook subscriptions and the SSE stream after commit
+ *
+ * 14. DUE-DATE REMINDERS:
+ *    - Delayed reminder jobs are scheduled after commit and rescheduled or
+ *      cancelled when the due date or status changes, or the task is deleted
  */
 @Injectable()
 export class TasksService {
   private readonly logger = new Logger(TasksService.name);
   private readonly CACHE_TTL = 300; // 5 minutes
 
+  // Private-use characters marking headline matches before HTML escaping
+  private readonly HIGHLIGHT_START = '\uE000';
+  private readonly HIGHLIGHT_STOP = '\uE001';
+
+  // Non-nullable columns usable as keyset pagination sort keys
+  private readonly CURSOR_SORT_FIELDS = ['createdAt', 'updatedAt', 'title', 'status', 'priority'];
+
+  // Exported fields, in CSV column order
+  private readonly EXPORT_COLUMNS = [
+    'id',
+    'title',
+    'description',
+    'status',
+    'priority',
+    'dueDate',
+    'projectId',
+    'parentId',
+    'owner',
+    'assignees',
+    'labels',
+    'createdAt',
+    'updatedAt',
+  ];
+
+  // Tasks listed per digest section; the rest are only counted
+  private readonly DIGEST_SECTION_LIMIT = 20;
+
   constructor(
     @InjectRepository(Task)
     private readonly tasksRepository: Repository<Task>,
@@ -62,6 +219,14 @@ export class TasksService {
     private readonly taskQueue: Queue,
     private readonly dataSource: DataSource,
     private readonly cacheService: RedisCacheService,
+    private readonly projectsService: ProjectsService,
+    private readonly activityService: TaskActivityService,
+    private readonly workflowService: TaskWorkflowService,
+    private readonly dependenciesService: TaskDependenciesService,
+    private readonly labelsService: LabelsService,
+    private readonly webhooksService: WebhooksService,
+    private readonly taskEventsService: TaskEventsService,
+    private readonly remindersService: TaskRemindersService,
   ) {}
 
   /**
@@ -74,9 +239,13 @@ export class TasksService {
    * 
    * @param createTaskDto - Task creation data
    * @param userId - User creating the task
+   * @param projectId - Project the task belongs to (optional)
    * @returns Created task
    */
-  async create(createTaskDto: CreateTaskDto, userId?: string): Promise<Task> {
+  async create(createTaskDto: CreateTaskDto, userId?: string, projectId?: string): Promise<Task> {
+    const { assigneeIds, labelIds, recurrenceRule: _recurrenceRule, ...taskData } = createTaskDto;
+    const recurrence = await this.validateCreate(createTaskDto, userId, projectId);
+
     const queryRunner = this.dataSource.createQueryRunner();
     await queryRunner.connect();
     await queryRunner.startTransaction();
@@ -84,40 +253,42 @@ export class TasksService {
     try {
       // Create task entity
       const task = this.tasksRepository.create({
-        ...createTaskDto,
+        ...taskData,
         userId: userId || createTaskDto.userId,
+        ...recurrence,
+        projectId: projectId || null,
+        assignees: (assigneeIds || []).map(id => ({ id })),
+        labels: (labelIds || []).map(id => ({ id })),
       });
 
       // Save within transaction
       const savedTask = await queryRunner.manager.save(task);
 
-      // Add to queue (within transaction scope)
-      try {
-        await this.taskQueue.add(
-          'task-status-update',
+      await this.activityService.record(
+        [
           {
             taskId: savedTask.id,
-            status: savedTask.status,
-          },
-          {
-            attempts: 3,
-            backoff: {
-              type: 'exponential',
-              delay: 1000,
-            },
+            action: TaskActivityAction.CREATED,
+            changes: this.activityService.diff(null, this.activityService.toState(savedTask)),
           },
-        );
-      } catch (queueError) {
-        this.logger.error(`Failed to add task to queue: ${queueError}`);
-        // Don't fail the entire operation if queue fails
-        // We can process it later via scheduled job
-      }
+        ],
+        userId,
+        queryRunner.manager,
+      );
 
       // Commit transaction
       await queryRunner.commitTransaction();
 
-      // Invalidate cache
-      await this.invalidateCache(savedTask.userId);
+      // Invalidate cache (owner and assignees see the new task)
+      await this.invalidateCache(savedTask.userId, assigneeIds, savedTask.projectId);
+
+      await this.queueNotifications(
+        assigneeIds && assigneeIds.length > 0
+          ? [this.assignedJob(savedTask.id, assigneeIds, userId)]
+          : [],
+      );
+
+      await this.publishCreated([savedTask], userId);
 
       this.logger.log(`Task created: ${savedTask.id}`);
       return savedTask;
@@ -132,6 +303,72 @@ export class TasksService {
     }
   }
 
+  /**
+   * Create several tasks in one transaction (used by imports)
+   *
+   * Callers check each task with validateCreate first. Caches are
+   * invalidated, and notifications, webhooks and live events are sent
+   * once for the whole batch after commit.
+   *
+   * @param createTaskDtos - Validated task creation data
+   * @param userId - User creating the tasks
+   * @param projectId - Project the tasks belong to (optional)
+   * @returns Created tasks, in input order
+   */
+  async createMany(
+    createTaskDtos: CreateTaskDto[],
+    userId: string,
+    projectId?: string,
+  ): Promise<Task[]> {
+    if (createTaskDtos.length === 0) {
+      return [];
+    }
+
+    const savedTasks = await this.dataSource.transaction(async manager => {
+      const tasks = createTaskDtos.map(createTaskDto => {
+        const { assigneeIds, labelIds, recurrenceRule, ...taskData } = createTaskDto;
+
+        return this.tasksRepository.create({
+          ...taskData,
+          userId,
+          ...(recurrenceRule ? this.startRecurrence(recurrenceRule, taskData.dueDate) : {}),
+          projectId: projectId || null,
+          assignees: (assigneeIds || []).map(id => ({ id })),
+          labels: (labelIds || []).map(id => ({ id })),
+        });
+      });
+
+      const saved = await manager.save(tasks);
+
+      await this.activityService.record(
+        saved.map(task => ({
+          taskId: task.id,
+          action: TaskActivityAction.CREATED,
+          changes: this.activityService.diff(null, this.activityService.toState(task)),
+        })),
+        userId,
+        manager,
+      );
+
+      return saved;
+    });
+
+    const assigneeIds = createTaskDtos.flatMap(createTaskDto => createTaskDto.assigneeIds || []);
+    await this.invalidateCache(userId, [...new Set(assigneeIds)], projectId);
+
+    await this.queueNotifications(
+      savedTasks
+        .map((task, index) => ({ task, assigneeIds: createTaskDtos[index].assigneeIds || [] }))
+        .filter(({ assigneeIds: ids }) => ids.length > 0)
+        .map(({ task, assigneeIds: ids }) => this.assignedJob(task.id, ids, userId)),
+    );
+
+    await this.publishCreated(savedTasks, userId);
+
+    this.logger.log(`Tasks created: ${savedTasks.length}`);
+    return savedTasks;
+  }
+
   /**
    * Find all tasks with filtering, sorting, and pagination
    * 
@@ -152,7 +389,10 @@ export class TasksService {
     userId?: string,
   ): Promise<PaginatedResponse<Task>> {
     // Build cache key from filters
-    const cacheKey = this.buildCacheKey('tasks:list', { filters, pagination, userId });
+    const cacheKey = this.buildCacheKey(`tasks:list:${userId || 'all'}`, {
+      filters,
+      pagination,
+    });
 
     // Try cache first
     const cached = await this.cacheService.get<PaginatedResponse<Task>>(cacheKey);
@@ -166,6 +406,9 @@ export class TasksService {
       .createQueryBuilder('task')
       .leftJoinAndSelect('task.user', 'user'); // Eager load user to prevent N+1
 
+    this.joinAssignees(queryBuilder);
+    this.joinLabels(queryBuilder);
+
     // Apply filters (DB-level WHERE clauses)
     this.applyFilters(queryBuilder, filters, userId);
 
@@ -184,6 +427,239 @@ export class TasksService {
     return result;
   }
 
+  /**
+   * Find all tasks with keyset (cursor) pagination
+   *
+   * IMPROVEMENTS:
+   * - Seeks on (sortBy value, id) instead of OFFSET, so deep pages stay fast
+   * - No COUNT query
+   * - Pages don't shift when tasks are inserted mid-scroll
+   *
+   * @param filters - Filter criteria
+   * @param pagination - Pagination parameters (cursor, limit, sortBy, sortOrder)
+   * @param userId - User ID for filtering (optional)
+   * @returns Cursor paginated tasks
+   */
+  async findAllByCursor(
+    filters: TaskFilterDto,
+    pagination: PaginationParams,
+    userId?: string,
+  ): Promise<CursorPaginatedResponse<Task>> {
+    const cacheKey = this.buildCacheKey(`tasks:list:${userId || 'all'}`, {
+      filters,
+      pagination,
+    });
+
+    const cached = await this.cacheService.get<CursorPaginatedResponse<Task>>(cacheKey);
+    if (cached) {
+      this.logger.debug(`Cache hit: ${cacheKey}`);
+      return cached;
+    }
+
+    const queryBuilder = this.tasksRepository
+      .createQueryBuilder('task')
+      .leftJoinAndSelect('task.user', 'user');
+
+    this.joinAssignees(queryBuilder);
+    this.joinLabels(queryBuilder);
+    this.applyFilters(queryBuilder, filters, userId);
+
+    // Sorting and keyset seek are applied together on (sortBy, id)
+    const result = await PaginationUtil.paginateWithCursor(
+      queryBuilder,
+      pagination,
+      'task',
+      this.CURSOR_SORT_FIELDS,
+      'createdAt',
+    );
+
+    await this.cacheService.set(cacheKey, result, this.CACHE_TTL);
+
+    return result;
+  }
+
+  /**
+   * Stream tasks as CSV, JSON or NDJSON
+   *
+   * Uses the list filters and visibility rules. Rows come from a database
+   * cursor, one row per task with assignee emails and label names
+   * aggregated in SQL, so the export is never held in memory. The database
+   * connection is returned when the stream ends, fails or is destroyed
+   * (client disconnect).
+   *
+   * @param exportDto - Filters, sort order and format
+   * @param userId - User ID for visibility scoping
+   * @returns Serialized export stream
+   */
+  async exportTasks(exportDto: ExportTasksDto, userId: string): Promise<Readable> {
+    const { format = 'csv', sortBy = 'createdAt', sortOrder = 'DESC', ...filters } = exportDto;
+
+    const queryBuilder = this.tasksRepository
+      .createQueryBuilder('task')
+      .leftJoin('task.user', 'owner')
+      .select('task.id', 'id')
+      .addSelect('task.title', 'title')
+      .addSelect('task.description', 'description')
+      .addSelect('task.status', 'status')
+      .addSelect('task.priority', 'priority')
+      .addSelect('task.dueDate', 'dueDate')
+      .addSelect('task.projectId', 'projectId')
+      .addSelect('task.parentId', 'parentId')
+      .addSelect('owner.email', 'owner')
+      .addSelect(
+        'ARRAY(SELECT u.email FROM task_assignees ta INNER JOIN users u ON u.id = ta.user_id' +
+          ' WHERE ta.task_id = task.id ORDER BY u.email)',
+        'assignees',
+      )
+      .addSelect(
+        'ARRAY(SELECT l.name FROM task_labels tl INNER JOIN labels l ON l.id = tl.label_id' +
+          ' WHERE tl.task_id = task.id ORDER BY l.name)',
+        'labels',
+      )
+      .addSelect('task.createdAt', 'createdAt')
+      .addSelect('task.updatedAt', 'updatedAt');
+
+    this.applyFilters(queryBuilder, filters, userId);
+
+    // ID tie-breaker keeps the order stable
+    queryBuilder.orderBy(`task.${sortBy}`, sortOrder).addOrderBy('task.id', sortOrder);
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    try {
+      const rows = (await queryBuilder.setQueryRunner(queryRunner).stream()) as Readable;
+
+      // 'close' follows end, error and destroy alike
+      rows.once('close', () => queryRunner.release());
+
+      return pipeline(rows, ExportUtil.serializer(format, this.EXPORT_COLUMNS), error => {
+        if (error && error.code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+          this.logger.error(`Task export failed: ${error.message}`);
+        }
+      });
+    } catch (error) {
+      await queryRunner.release();
+      throw error;
+    }
+  }
+
+  /**
+   * Find open tasks with a due date for a calendar feed
+   *
+   * Uses the list filters and visibility rules, soonest due first.
+   *
+   * @param filters - Filter criteria
+   * @param userId - Feed owner
+   * @param limit - Maximum number of tasks
+   * @returns Tasks with labels
+   */
+  async findForCalendar(filters: TaskFilterDto, userId: string, limit: number): Promise<Task[]> {
+    const queryBuilder = this.tasksRepository
+      .createQueryBuilder('task')
+      .where('task.dueDate IS NOT NULL')
+      .andWhere('task.status NOT IN (:...closed)', { closed: CLOSED_TASK_STATUSES });
+
+    this.joinLabels(queryBuilder);
+    this.applyFilters(queryBuilder, filters, userId);
+
+    return queryBuilder
+      .orderBy('task.dueDate', 'ASC')
+      .addOrderBy('task.id', 'ASC')
+      .take(limit)
+      .getMany();
+  }
+
+  /**
+   * Full-text search ranked by relevance
+   *
+   * IMPROVEMENTS:
+   * - Ranked ID page first (no joins), so LIMIT/OFFSET apply to tasks, not join rows
+   * - Relations loaded only for the page
+   * - ts_headline runs on the page only (it re-parses the text, so it's costly)
+   *
+   * @param filters - Filter criteria (`search` is required)
+   * @param pagination - Pagination parameters (sortBy is ignored)
+   * @param userId - User ID for filtering (optional)
+   * @returns Paginated tasks with rank and highlights
+   */
+  async search(
+    filters: TaskFilterDto,
+    pagination: PaginationParams,
+    userId?: string,
+  ): Promise<PaginatedResponse<TaskSearchResult>> {
+    if (!filters.search) {
+      throw new BadRequestException('Search mode requires a search term');
+    }
+
+    const cacheKey = this.buildCacheKey(`tasks:list:${userId || 'all'}`, {
+      filters,
+      pagination,
+    });
+
+    const cached = await this.cacheService.get<PaginatedResponse<TaskSearchResult>>(cacheKey);
+    if (cached) {
+      this.logger.debug(`Cache hit: ${cacheKey}`);
+      return cached;
+    }
+
+    const query = SearchQueryUtil.parse(filters.search);
+    const page = pagination.page || 1;
+    const limit = pagination.limit || 10;
+
+    const rankQuery = this.tasksRepository
+      .createQueryBuilder('task')
+      .select('task.id', 'id')
+      .addSelect(`ts_rank(task.search_vector, ${query.expression})`, 'rank');
+
+    this.applyFilters(rankQuery, filters, userId);
+
+    const countQuery = rankQuery.clone();
+
+    rankQuery
+      .orderBy('rank', 'DESC')
+      .addOrderBy('task.id', 'ASC')
+      .offset((page - 1) * limit)
+      .limit(limit);
+
+    const [ranked, total] = await Promise.all([
+      rankQuery.getRawMany<{ id: string; rank: number }>(),
+      countQuery.getCount(),
+    ]);
+
+    const ids = ranked.map(row => row.id);
+    let data: TaskSearchResult[] = [];
+
+    if (ids.length > 0) {
+      const taskQuery = this.tasksRepository
+        .createQueryBuilder('task')
+        .leftJoinAndSelect('task.user', 'user')
+        .where('task.id IN (:...ids)', { ids });
+
+      this.joinAssignees(taskQuery);
+      this.joinLabels(taskQuery);
+
+      const [tasks, highlights] = await Promise.all([
+        taskQuery.getMany(),
+        this.getHighlights(ids, query),
+      ]);
+      const tasksById = new Map(tasks.map(task => [task.id, task]));
+
+      data = ranked
+        .filter(row => tasksById.has(row.id))
+        .map(row =>
+          Object.assign(tasksById.get(row.id)!, {
+            rank: Number(row.rank),
+            highlights: highlights.get(row.id) || { title: '', description: null },
+          }),
+        );
+    }
+
+    const result = PaginationUtil.buildResponse(data, total, pagination);
+
+    await this.cacheService.set(cacheKey, result, this.CACHE_TTL);
+
+    return result;
+  }
+
   /**
    * Find one task by ID
    * 
@@ -192,18 +668,24 @@ export class TasksService {
    * - Caching support
    * - Proper error handling
    * 
+   * Visible to the task owner, its assignees and members of its project.
+   *
    * @param id - Task ID
    * @param userId - User ID for ownership check (optional)
+   * @param projectId - Project scope from the route (optional)
    * @returns Task
    */
-  async findOne(id: string, userId?: string): Promise<Task> {
+  async findOne(id: string, userId?: string, projectId?: string): Promise<Task> {
     const cacheKey = `task:${id}`;
 
     // Try cache first
     const cached = await this.cacheService.get<Task>(cacheKey);
     if (cached) {
-      // Verify ownership if userId provided
-      if (userId && cached.userId !== userId) {
+      // Verify ownership and project scope if provided
+      if (
+        (userId && !(await this.canView(cached, userId))) ||
+        (projectId && cached.projectId !== projectId)
+      ) {
         throw new NotFoundException('Task not found');
       }
       return cached;
@@ -215,9 +697,16 @@ export class TasksService {
       .leftJoinAndSelect('task.user', 'user')
       .where('task.id = :id', { id });
 
+    this.joinAssignees(queryBuilder);
+    this.joinLabels(queryBuilder);
+
     // Add user filter if provided
     if (userId) {
-      queryBuilder.andWhere('task.userId = :userId', { userId });
+      this.applyVisibility(queryBuilder, userId);
+    }
+
+    if (projectId) {
+      queryBuilder.andWhere('task.projectId = :projectId', { projectId });
     }
 
     const task = await queryBuilder.getOne();
@@ -240,65 +729,183 @@ export class TasksService {
    * - Queue operations with retry
    * - Cache invalidation
    * - Optimized query (no unnecessary fetch)
+   *
+   * The row is locked and re-read within the transaction, and only the
+   * changed columns and relations are written, so concurrent updates
+   * aren't overwritten or checked against a stale status.
    * 
    * @param id - Task ID
    * @param updateTaskDto - Update data
    * @param userId - User ID for ownership check (optional)
+   * @param projectId - Project scope from the route (optional)
    * @returns Updated task
    */
   async update(
     id: string,
     updateTaskDto: UpdateTaskDto,
     userId?: string,
+    projectId?: string,
   ): Promise<Task> {
     const queryRunner = this.dataSource.createQueryRunner();
     await queryRunner.connect();
     await queryRunner.startTransaction();
 
     try {
-      // Fetch task to check existence and get current status
-      const task = await this.findOne(id, userId);
+      // Access check (the task may come from the cache), then lock and
+      // re-read the row so checks and history see its current state
+      await this.findOne(id, userId, projectId);
+
+      const [task] = await this.findForBatch(queryRunner.manager, [id]);
+      if (!task) {
+        throw new NotFoundException(`Task with ID ${id} not found`);
+      }
+
+      const labelRows: { label_id: string }[] = await queryRunner.manager.query(
+        'SELECT label_id FROM task_labels WHERE task_id = $1',
+        [id],
+      );
+      task.labels = labelRows.map(row => ({ id: row.label_id }));
+
       const originalStatus = task.status;
+      const originalState = this.activityService.toState(task);
+      const originalAssigneeIds = task.assignees.map(assignee => assignee.id);
 
-      // Update task
-      Object.assign(task, updateTaskDto);
+      const { assigneeIds, labelIds, recurrenceRule, ...taskData } = updateTaskDto;
 
-      // Save within transaction
-      const updatedTask = await queryRunner.manager.save(task);
+      if (taskData.status) {
+        this.workflowService.assertTransition(task.status, taskData.status, task.id);
+      }
 
-      // Add to queue if status changed
-      if (originalStatus !== updatedTask.status) {
-        try {
-          await this.taskQueue.add(
-            'task-status-update',
-            {
-              taskId: updatedTask.id,
-              status: updatedTask.status,
-            },
-            {
-              attempts: 3,
-              backoff: {
-                type: 'exponential',
-                delay: 1000,
-              },
-            },
+      if (taskData.status === TaskStatus.COMPLETED && task.status !== TaskStatus.COMPLETED) {
+        await this.dependenciesService.assertNoOpenBlockers([task.id], queryRunner.manager);
+      }
+
+      if (taskData.parentId && taskData.parentId !== task.parentId) {
+        await this.assertParentScope(taskData.parentId, task.projectId, userId);
+        await this.dependenciesService.assertValidParent(task.id, taskData.parentId);
+      }
+
+      // Only the changed columns are written
+      const columns: Partial<Task> = {};
+
+      // null stops the series; a new rule starts one unless the task is already part of one
+      if (recurrenceRule === null) {
+        columns.recurrenceRule = null;
+      } else if (recurrenceRule !== undefined) {
+        const dueDate = taskData.dueDate !== undefined ? taskData.dueDate : task.dueDate;
+        Object.assign(
+          columns,
+          task.recurrenceSeriesId
+            ? { recurrenceRule: this.startRecurrence(recurrenceRule, dueDate).recurrenceRule }
+            : this.startRecurrence(recurrenceRule, dueDate),
+        );
+      }
+
+      if (task.projectId && assigneeIds) {
+        await this.projectsService.assertMembers(task.projectId, assigneeIds);
+      }
+
+      if (labelIds) {
+        await this.labelsService.assertApplicable(labelIds, {
+          userId: taskData.userId || task.userId,
+          projectId: task.projectId,
+        });
+      }
+
+      // A new due date gets its own overdue notification
+      if (
+        taskData.dueDate !== undefined &&
+        (taskData.dueDate ? new Date(taskData.dueDate).getTime() : null) !==
+          (task.dueDate ? new Date(task.dueDate).getTime() : null)
+      ) {
+        columns.overdueNotifiedAt = null;
+      }
+
+      Object.assign(columns, taskData);
+
+      if (Object.keys(columns).length > 0) {
+        await queryRunner.manager.update(Task, id, columns);
+      }
+
+      if (assigneeIds) {
+        await queryRunner.manager
+          .createQueryBuilder()
+          .relation(Task, 'assignees')
+          .of(id)
+          .addAndRemove(
+            assigneeIds.filter(assigneeId => !originalAssigneeIds.includes(assigneeId)),
+            originalAssigneeIds.filter(assigneeId => !assigneeIds.includes(assigneeId)),
           );
-        } catch (queueError) {
-          this.logger.error(`Failed to add status update to queue: ${queueError}`);
-        }
       }
 
+      if (labelIds) {
+        const originalLabelIds = task.labels.map(label => label.id);
+        await queryRunner.manager
+          .createQueryBuilder()
+          .relation(Task, 'labels')
+          .of(id)
+          .addAndRemove(
+            labelIds.filter(labelId => !originalLabelIds.includes(labelId)),
+            originalLabelIds.filter(labelId => !labelIds.includes(labelId)),
+          );
+      }
+
+      const updatedTask = Object.assign(new Task(), task, columns);
+
+      if (assigneeIds) {
+        updatedTask.assignees = assigneeIds.map(assigneeId => ({ id: assigneeId }));
+      }
+
+      if (labelIds) {
+        updatedTask.labels = labelIds.map(labelId => ({ id: labelId }));
+      }
+
+      const changes = this.activityService.diff(
+        originalState,
+        this.activityService.toState(updatedTask),
+      );
+
+      await this.activityService.record(
+        [{ taskId: updatedTask.id, action: TaskActivityAction.UPDATED, changes }],
+        userId,
+        queryRunner.manager,
+      );
+
       // Commit transaction
       await queryRunner.commitTransaction();
 
-      // Invalidate cache
+      // Invalidate cache (previous and current assignees)
       await Promise.all([
         this.cacheService.delete(`task:${id}`),
-        this.invalidateCache(updatedTask.userId),
+        this.invalidateCache(
+          updatedTask.userId,
+          [...originalAssigneeIds, ...(assigneeIds || [])],
+          updatedTask.projectId,
+        ),
+      ]);
+
+      const newAssigneeIds = (assigneeIds || []).filter(
+        assigneeId => !originalAssigneeIds.includes(assigneeId),
+      );
+      await this.queueNotifications([
+        ...(originalStatus !== updatedTask.status
+          ? [this.statusChangedJob(updatedTask.id, originalStatus, updatedTask.status, userId)]
+          : []),
+        ...(newAssigneeIds.length > 0
+          ? [this.assignedJob(updatedTask.id, newAssigneeIds, userId)]
+          : []),
       ]);
 
+      await this.publishUpdated([{ task: updatedTask, changes }], userId);
+
+      if (originalStatus !== TaskStatus.COMPLETED && updatedTask.status === TaskStatus.COMPLETED) {
+        await this.generateNextOccurrences([updatedTask]);
+      }
+
       this.logger.log(`Task updated: ${updatedTask.id}`);
-      return updatedTask;
+
+      // Reload with its relations for the response
+      return this.findOne(id);
     } catch (error) {
       await queryRunner.rollbackTransaction();
       this.logger.error(`Failed to update task: ${error}`);
@@ -316,22 +923,47 @@ export class TasksService {
    * - Cache invalidation
    * - Proper error handling
    * 
+   * Only the owner (or a project ADMIN) may delete; assignees can see the
+   * task but not remove it.
+   *
    * @param id - Task ID
    * @param userId - User ID for ownership check (optional)
+   * @param projectId - Project scope from the route (optional)
    */
-  async remove(id: string, userId?: string): Promise<void> {
+  async remove(id: string, userId?: string, projectId?: string): Promise<void> {
     // Verify task exists and user owns it
-    const task = await this.findOne(id, userId);
+    const task = await this.findOne(id, userId, projectId);
+
+    if (userId && task.userId !== userId && !(await this.isProjectAdmin(task, userId))) {
+      throw new ForbiddenException('Only the task owner can delete this task');
+    }
 
-    // Delete the task
-    await this.tasksRepository.remove(task);
+    const assigneeIds = (task.assignees || []).map(assignee => assignee.id);
+
+    // Delete the task and record it in one transaction
+    await this.dataSource.transaction(async manager => {
+      await manager.delete(Task, task.id);
+      await this.activityService.record(
+        [
+          {
+            taskId: task.id,
+            action: TaskActivityAction.DELETED,
+            changes: this.activityService.diff(this.activityService.toState(task), null),
+          },
+        ],
+        userId,
+        manager,
+      );
+    });
 
     // Invalidate cache
     await Promise.all([
       this.cacheService.delete(`task:${id}`),
-      this.invalidateCache(task.userId),
+      this.invalidateCache(task.userId, assigneeIds, task.projectId),
     ]);
 
+    await this.publishDeleted([task], userId);
+
     this.logger.log(`Task deleted: ${id}`);
   }
 
@@ -345,13 +977,17 @@ export class TasksService {
    * 
    * @param ids - Task IDs
    * @param updateData - Update data
+   * @param actorId - User making the change
    * @param userId - User ID for ownership check (optional)
+   * @param projectId - Project scope from the route (optional)
    * @returns Number of updated tasks
    */
   async batchUpdate(
     ids: string[],
     updateData: Partial<UpdateTaskDto>,
+    actorId: string,
     userId?: string,
+    projectId?: string,
   ): Promise<number> {
     if (ids.length === 0) {
       return 0;
@@ -362,21 +998,79 @@ export class TasksService {
     await queryRunner.startTransaction();
 
     try {
+      // Assignments and labels are relations (labels have their own batch
+      // endpoints), while recurrence and parents need per-task checks, so
+      // none of them can be bulk-set here. Ownership and project never
+      // change in bulk: moving tasks would skip the membership checks.
+      const {
+        assigneeIds: _assigneeIds,
+        labelIds: _labelIds,
+        recurrenceRule: _recurrenceRule,
+        parentId: _parentId,
+        userId: _ownerId,
+        projectId: _projectId,
+        ...columns
+      } = updateData as Partial<UpdateTaskDto> & { projectId?: string };
+
+      // Lock and snapshot the affected rows for the history diff
+      const originals = await this.findForBatch(queryRunner.manager, ids, userId, projectId);
+
+      // All-or-nothing: one invalid transition rejects the whole batch
+      if (columns.status) {
+        for (const original of originals) {
+          this.workflowService.assertTransition(original.status, columns.status, original.id);
+        }
+      }
+
+      if (columns.status === TaskStatus.COMPLETED) {
+        await this.dependenciesService.assertNoOpenBlockers(
+          originals
+            .filter(original => original.status !== TaskStatus.COMPLETED)
+            .map(original => original.id),
+          queryRunner.manager,
+        );
+      }
+
       // Build update query
       const updateQuery = queryRunner.manager
         .createQueryBuilder()
         .update(Task)
-        .set(updateData)
+        .set(columns.dueDate !== undefined ? { ...columns, overdueNotifiedAt: null } : columns)
         .where('id IN (:...ids)', { ids });
 
       // Add user filter if provided
       if (userId) {
-        updateQuery.andWhere('userId = :userId', { userId });
+        updateQuery.andWhere('user_id = :userId', { userId });
+      }
+
+      if (projectId) {
+        updateQuery.andWhere('project_id = :projectId', { projectId });
       }
 
       // Execute bulk update
       const result = await updateQuery.execute();
 
+      const updates = originals.map(original => {
+        const task = Object.assign(new Task(), original, columns);
+        return {
+          task,
+          changes: this.activityService.diff(
+            this.activityService.toState(original),
+            this.activityService.toState(task),
+          ),
+        };
+      });
+
+      await this.activityService.record(
+        updates.map(({ task, changes }) => ({
+          taskId: task.id,
+          action: TaskActivityAction.UPDATED,
+          changes,
+        })),
+        actorId,
+        queryRunner.manager,
+      );
+
       // Commit transaction
       await queryRunner.commitTransaction();
 
@@ -385,8 +1079,24 @@ export class TasksService {
         ids.map(id => this.cacheService.delete(`task:${id}`)),
       );
 
-      if (userId) {
-        await this.invalidateCache(userId);
+      await this.invalidateBatchCache(originals);
+
+      if (columns.status) {
+        await this.queueNotifications(
+          originals
+            .filter(original => original.status !== columns.status)
+            .map(original =>
+              this.statusChangedJob(original.id, original.status, columns.status!, actorId),
+            ),
+        );
+      }
+
+      await this.publishUpdated(updates, actorId);
+
+      if (columns.status === TaskStatus.COMPLETED) {
+        await this.generateNextOccurrences(
+          originals.filter(original => original.status !== TaskStatus.COMPLETED),
+        );
       }
 
       const affected = result.affected || 0;
@@ -410,10 +1120,17 @@ export class TasksService {
    * - Efficient cache invalidation
    * 
    * @param ids - Task IDs
+   * @param actorId - User making the change
    * @param userId - User ID for ownership check (optional)
+   * @param projectId - Project scope from the route (optional)
    * @returns Number of deleted tasks
    */
-  async batchDelete(ids: string[], userId?: string): Promise<number> {
+  async batchDelete(
+    ids: string[],
+    actorId: string,
+    userId?: string,
+    projectId?: string,
+  ): Promise<number> {
     if (ids.length === 0) {
       return 0;
     }
@@ -423,6 +1140,9 @@ export class TasksService {
     await queryRunner.startTransaction();
 
     try {
+      // Lock and snapshot the affected rows for the history
+      const originals = await this.findForBatch(queryRunner.manager, ids, userId, projectId);
+
       // Build delete query
       const deleteQuery = queryRunner.manager
         .createQueryBuilder()
@@ -432,12 +1152,26 @@ export class TasksService {
 
       // Add user filter if provided
       if (userId) {
-        deleteQuery.andWhere('userId = :userId', { userId });
+        deleteQuery.andWhere('user_id = :userId', { userId });
+      }
+
+      if (projectId) {
+        deleteQuery.andWhere('project_id = :projectId', { projectId });
       }
 
       // Execute bulk delete
       const result = await deleteQuery.execute();
 
+      await this.activityService.record(
+        originals.map(original => ({
+          taskId: original.id,
+          action: TaskActivityAction.DELETED,
+          changes: this.activityService.diff(this.activityService.toState(original), null),
+        })),
+        actorId,
+        queryRunner.manager,
+      );
+
       // Commit transaction
       await queryRunner.commitTransaction();
 
@@ -446,9 +1180,9 @@ export class TasksService {
         ids.map(id => this.cacheService.delete(`task:${id}`)),
       );
 
-      if (userId) {
-        await this.invalidateCache(userId);
-      }
+      await this.invalidateBatchCache(originals);
+
+      await this.publishDeleted(originals, actorId);
 
       const affected = result.affected || 0;
       this.logger.log(`Batch deleted ${affected} tasks`);
@@ -463,31 +1197,76 @@ export class TasksService {
   }
 
   /**
-   * Get task statistics
-   * 
+   * Batch add labels to tasks
+   *
    * IMPROVEMENTS:
-   * - Single query with GROUP BY (no multiple filters)
-   * - DB-level aggregation (no in-memory counting)
-   * - Caching support
-   * 
-   * @param userId - User ID for filtering (optional)
-   * @returns Task statistics
+   * - Single bulk INSERT query (no loop), existing labels are kept
+   * - Transaction support
+   * - Efficient cache invalidation
+   *
+   * All-or-nothing: every label must be applicable to every task.
+   *
+   * @param ids - Task IDs
+   * @param labelIds - Label IDs
+   * @param actorId - User making the change
+   * @param userId - User ID for ownership check (optional)
+   * @param projectId - Project scope from the route (optional)
+   * @returns Number of tasks whose labels changed
    */
-  async getStatistics(userId?: string): Promise<{
-    total: number;
-    byStatus: Record<TaskStatus, number>;
-    byPriority: Record<TaskPriority, number>;
-    overdue: number;
-  }> {
-    const cacheKey = `task:stats:${userId || 'all'}`;
+  async batchAddLabels(
+    ids: string[],
+    labelIds: string[],
+    actorId: string,
+    userId?: string,
+    projectId?: string,
+  ): Promise<number> {
+    return this.batchChangeLabels('add', ids, labelIds, actorId, userId, projectId);
+  }
+
+  /**
+   * Batch remove labels from tasks
+   *
+   * IMPROVEMENTS:
+   * - Single bulk DELETE query (no loop)
+   * - Transaction support
+   * - Efficient cache invalidation
+   *
+   * @param ids - Task IDs
+   * @param labelIds - Label IDs
+   * @param actorId - User making the change
+   * @param userId - User ID for ownership check (optional)
+   * @param projectId - Project scope from the route (optional)
+   * @returns Number of tasks whose labels changed
+   */
+  async batchRemoveLabels(
+    ids: string[],
+    labelIds: string[],
+    actorId: string,
+    userId?: string,
+    projectId?: string,
+  ): Promise<number> {
+    return this.batchChangeLabels('remove', ids, labelIds, actorId, userId, projectId);
+  }
+
+  /**
+   * Get task statistics
+   * 
+   * IMPROVEMENTS:
+   * - Single query with GROUP BY (no multiple filters)
+   * - DB-level aggregation (no in-memory counting)
+   * - Caching support
+   * 
+   * @param userId - User ID for filtering (optional)
+   * @param projectId - Project scope; counts all project tasks instead of the user's (optional)
+   * @returns Task statistics
+   */
+  async getStatistics(userId?: string, projectId?: string): Promise<TaskStatistics> {
+    const cacheKey = projectId
+      ? `task:stats:project:${projectId}`
+      : `task:stats:${userId || 'all'}`;
 
     // Try cache first
-    const cached = await this.cacheService.get<{
-      total: number;
-      byStatus: Record<TaskStatus, number>;
-      byPriority: Record<TaskPriority, number>;
-      overdue: number;
-    }>(cacheKey);
+    const cached = await this.cacheService.get<TaskStatistics>(cacheKey);
     if (cached) {
       return cached;
     }
@@ -510,21 +1289,53 @@ export class TasksService {
     const overdueQuery = this.tasksRepository
       .createQueryBuilder('task')
       .where('task.dueDate < :now', { now: new Date() })
-      .andWhere('task.status != :completed', { completed: TaskStatus.COMPLETED });
+      .andWhere('task.status NOT IN (:...closed)', { closed: CLOSED_TASK_STATUSES });
 
-    // Add user filter if provided
-    if (userId) {
+    // Query for open tasks waiting on at least one open blocker
+    const blockedQuery = this.tasksRepository
+      .createQueryBuilder('task')
+      .where('task.status NOT IN (:...closed)', { closed: CLOSED_TASK_STATUSES })
+      .andWhere(
+        'EXISTS (SELECT 1 FROM task_dependencies td' +
+          ' INNER JOIN tasks blocker ON blocker.id = td.blocked_by_id' +
+          ' WHERE td.task_id = task.id AND blocker.status NOT IN (:...closed))',
+      );
+
+    // Single query for per-label counts (unlabelled tasks are not counted)
+    const labelQuery = this.tasksRepository
+      .createQueryBuilder('task')
+      .innerJoin('task.labels', 'label')
+      .select('label.id', 'id')
+      .addSelect('label.name', 'name')
+      .addSelect('label.colour', 'colour')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('label.id')
+      .orderBy('label.name', 'ASC');
+
+    // Add project or user filter if provided
+    if (projectId) {
+      statusQuery.where('task.projectId = :projectId', { projectId });
+      priorityQuery.where('task.projectId = :projectId', { projectId });
+      overdueQuery.andWhere('task.projectId = :projectId', { projectId });
+      blockedQuery.andWhere('task.projectId = :projectId', { projectId });
+      labelQuery.where('task.projectId = :projectId', { projectId });
+    } else if (userId) {
       statusQuery.where('task.userId = :userId', { userId });
       priorityQuery.where('task.userId = :userId', { userId });
       overdueQuery.andWhere('task.userId = :userId', { userId });
+      blockedQuery.andWhere('task.userId = :userId', { userId });
+      labelQuery.where('task.userId = :userId', { userId });
     }
 
     // Execute all queries in parallel
-    const [statusResults, priorityResults, overdueCount] = await Promise.all([
-      statusQuery.getRawMany(),
-      priorityQuery.getRawMany(),
-      overdueQuery.getCount(),
-    ]);
+    const [statusResults, priorityResults, overdueCount, blockedCount, labelResults] =
+      await Promise.all([
+        statusQuery.getRawMany(),
+        priorityQuery.getRawMany(),
+        overdueQuery.getCount(),
+        blockedQuery.getCount(),
+        labelQuery.getRawMany(),
+      ]);
 
     // Build statistics object
     const stats = {
@@ -532,6 +1343,13 @@ export class TasksService {
       byStatus: this.buildStatusStats(statusResults),
       byPriority: this.buildPriorityStats(priorityResults),
       overdue: overdueCount,
+      blocked: blockedCount,
+      byLabel: labelResults.map(row => ({
+        id: row.id,
+        name: row.name,
+        colour: row.colour,
+        count: parseInt(row.count, 10),
+      })),
     };
 
     // Cache the statistics
@@ -540,6 +1358,71 @@ export class TasksService {
     return stats;
   }
 
+  /**
+   * Compile a user's task digest
+   *
+   * Counts come from getStatistics; the sections list tasks the user owns
+   * or is assigned to, with "today" and "yesterday" in the user's time zone.
+   *
+   * @param userId - User ID
+   * @param timezone - IANA time zone
+   * @param days - Days of completed tasks to include (1 for daily, 7 for weekly)
+   * @returns Digest
+   */
+  async getDigest(userId: string, timezone: string, days: number): Promise<TaskDigest> {
+    // Due dates are stored as UTC timestamps without time zone
+    const localDueDate = `((task.dueDate AT TIME ZONE 'UTC') AT TIME ZONE :timezone)::date`;
+    const localToday = `(now() AT TIME ZONE :timezone)::date`;
+
+    const section = (configure: (queryBuilder: SelectQueryBuilder<Task>) => void) => {
+      const queryBuilder = this.tasksRepository
+        .createQueryBuilder('task')
+        .select(['task.id', 'task.title', 'task.status', 'task.priority', 'task.dueDate'])
+        .where(
+          '(task.userId = :userId' +
+            ' OR EXISTS (SELECT 1 FROM task_assignees ta WHERE ta.task_id = task.id AND ta.user_id = :userId))',
+          { userId, timezone },
+        )
+        .take(this.DIGEST_SECTION_LIMIT);
+      configure(queryBuilder);
+
+      return queryBuilder
+        .getManyAndCount()
+        .then(([tasks, count]): DigestSection => ({ count, tasks }));
+    };
+
+    const [stats, dueToday, overdue, completed] = await Promise.all([
+      this.getStatistics(userId),
+      section(queryBuilder =>
+        queryBuilder
+          .andWhere(`${localDueDate} = ${localToday}`)
+          .andWhere('task.status NOT IN (:...closed)', { closed: CLOSED_TASK_STATUSES })
+          .orderBy('task.dueDate', 'ASC'),
+      ),
+      section(queryBuilder =>
+        queryBuilder
+          .andWhere(`${localDueDate} < ${localToday}`)
+          .andWhere('task.status NOT IN (:...closed)', { closed: CLOSED_TASK_STATUSES })
+          .orderBy('task.dueDate', 'ASC'),
+      ),
+      section(queryBuilder =>
+        queryBuilder
+          .andWhere('task.status = :completed', { completed: TaskStatus.COMPLETED })
+          .andWhere(
+            'EXISTS (SELECT 1 FROM task_activities activity' +
+              ' WHERE activity.task_id = task.id' +
+              " AND activity.changes->'status'->>'to' = :completed" +
+              ` AND ((activity.created_at AT TIME ZONE 'UTC') AT TIME ZONE :timezone)::date` +
+              ` BETWEEN ${localToday} - CAST(:days AS int) AND ${localToday} - 1)`,
+            { days },
+          )
+          .orderBy('task.updatedAt', 'DESC'),
+      ),
+    ]);
+
+    return { stats, dueToday, overdue, completed };
+  }
+
   /**
    * Find tasks by status
    * 
@@ -565,22 +1448,891 @@ export class TasksService {
    * 
    * @param id - Task ID
    * @param status - New status
+   * @param actorId - User who requested the change (null for system changes)
    * @returns Updated task
    */
-  async updateStatus(id: string, status: TaskStatus): Promise<Task> {
+  async updateStatus(id: string, status: TaskStatus, actorId?: string | null): Promise<Task> {
     const task = await this.findOne(id);
+    const originalStatus = task.status;
+
+    this.workflowService.assertTransition(originalStatus, status, id);
+
+    if (status === TaskStatus.COMPLETED && originalStatus !== TaskStatus.COMPLETED) {
+      await this.dependenciesService.assertNoOpenBlockers([id]);
+    }
+
     task.status = status;
     const updated = await this.tasksRepository.save(task);
+    const changes = this.activityService.diff({ status: originalStatus }, { status });
+
+    await this.activityService.record(
+      [{ taskId: id, action: TaskActivityAction.UPDATED, changes }],
+      actorId,
+    );
 
     // Invalidate cache
     await Promise.all([
       this.cacheService.delete(`task:${id}`),
-      this.invalidateCache(task.userId),
+      this.invalidateCache(task.userId, [], task.projectId),
     ]);
 
+    if (originalStatus !== status) {
+      await this.queueNotifications([this.statusChangedJob(id, originalStatus, status, actorId)]);
+    }
+
+    await this.publishUpdated([{ task: updated, changes }], actorId);
+
+    if (originalStatus !== TaskStatus.COMPLETED && status === TaskStatus.COMPLETED) {
+      await this.generateNextOccurrences([updated]);
+    }
+
     return updated;
   }
 
+  /**
+   * Claim overdue tasks for notification (used by queue processor)
+   *
+   * Flags tasks that are still overdue, open and unflagged in a single
+   * UPDATE ... RETURNING, so concurrent or retried jobs never notify a task
+   * twice. Run it in the transaction that stores the notifications, so a
+   * failed insert releases the claim for the retry.
+   *
+   * @param taskIds - Candidate task IDs
+   * @param manager - Transaction manager to claim within (optional)
+   * @returns Tasks claimed by this call
+   */
+  async claimOverdueTasks(taskIds: string[], manager?: EntityManager): Promise<OverdueTask[]> {
+    if (taskIds.length === 0) {
+      return [];
+    }
+
+    const result = await (manager || this.dataSource.manager)
+      .createQueryBuilder()
+      .update(Task)
+      .set({ overdueNotifiedAt: () => 'now()' })
+      .where('id IN (:...taskIds)', { taskIds })
+      .andWhere('overdue_notified_at IS NULL')
+      .andWhere('due_date < now()')
+      .andWhere('status NOT IN (:...closed)', { closed: CLOSED_TASK_STATUSES })
+      .returning('id, title, user_id, project_id, due_date')
+      .execute();
+
+    const rows: {
+      id: string;
+      title: string;
+      user_id: string;
+      project_id: string | null;
+      due_date: Date;
+    }[] = result.raw;
+
+    const assignees: { task_id: string; user_id: string }[] =
+      rows.length > 0
+        ? await (manager || this.dataSource).query(
+            'SELECT task_id, user_id FROM task_assignees WHERE task_id = ANY($1::uuid[])',
+            [rows.map(row => row.id)],
+          )
+        : [];
+
+    const claimed: OverdueTask[] = rows.map(row => ({
+      id: row.id,
+      title: row.title,
+      userId: row.user_id,
+      projectId: row.project_id,
+      dueDate: row.due_date,
+      assigneeIds: assignees
+        .filter(assignee => assignee.task_id === row.id)
+        .map(assignee => assignee.user_id),
+    }));
+
+    await Promise.all(claimed.map(task => this.cacheService.delete(`task:${task.id}`)));
+
+    return claimed;
+  }
+
+  /**
+   * Generate the next instance of a recurring task
+   *
+   * The new instance copies the task, starts PENDING and is due at the next
+   * occurrence of the rule that is not in the past. The source instance is
+   * left untouched.
+   *
+   * @param task - Current instance
+   * @returns New instance, or null if the series has ended or it already exists
+   */
+  async generateNextOccurrence(task: Task): Promise<Task | null> {
+    if (!task.recurrenceRule || !task.recurrenceSeriesId || !task.dueDate) {
+      return null;
+    }
+
+    const next = RecurrenceUtil.nextOccurrence(
+      RecurrenceUtil.parse(task.recurrenceRule),
+      new Date(task.dueDate),
+      task.recurrenceIndex || 1,
+      new Date(),
+    );
+
+    if (!next) {
+      this.logger.log(`Recurring series ${task.recurrenceSeriesId} has ended`);
+      return null;
+    }
+
+    const source = task.assignees && task.labels ? task : await this.findOne(task.id);
+    const assignees = source.assignees || [];
+    const labels = source.labels || [];
+
+    try {
+      const instance = await this.dataSource.transaction(async manager => {
+        const saved = await manager.save(
+          this.tasksRepository.create({
+            title: task.title,
+            description: task.description,
+            priority: task.priority,
+            status: TaskStatus.PENDING,
+            dueDate: next.date,
+            userId: task.userId,
+            projectId: task.projectId,
+            parentId: task.parentId,
+            assignees: assignees.map(assignee => ({ id: assignee.id })),
+            labels: labels.map(label => ({ id: label.id })),
+            recurrenceRule: task.recurrenceRule,
+            recurrenceSeriesId: task.recurrenceSeriesId,
+            recurrenceIndex: next.index,
+          }),
+        );
+
+        await this.activityService.record(
+          [
+            {
+              taskId: saved.id,
+              action: TaskActivityAction.CREATED,
+              changes: this.activityService.diff(null, this.activityService.toState(saved)),
+            },
+          ],
+          null,
+          manager,
+        );
+
+        return saved;
+      });
+
+      await this.invalidateCache(
+        instance.userId,
+        assignees.map(assignee => assignee.id),
+        instance.projectId,
+      );
+
+      await this.publishCreated([instance], null);
+
+      this.logger.log(`Recurring task instance created: ${instance.id} (from ${task.id})`);
+      return instance;
+    } catch (error) {
+      // Unique (series, index): the instance was already generated elsewhere
+      if (
+        error instanceof QueryFailedError &&
+        (error.driverError as { code?: string }).code === '23505'
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the dependency graph around a task
+   *
+   * Includes transitive blockers and transitively blocked tasks. Tasks the
+   * user cannot see are opaque placeholders (ID and blocked flag only), and
+   * the graph stops at them: their own dependencies are left out.
+   *
+   * @param id - Task ID
+   * @param userId - User ID for visibility check (optional)
+   * @param projectId - Project scope from the route (optional)
+   * @returns Nodes and "blocked by" edges
+   */
+  async getDependencyGraph(
+    id: string,
+    userId?: string,
+    projectId?: string,
+  ): Promise<TaskDependencyGraphDto> {
+    await this.findOne(id, userId, projectId);
+
+    const edges = await this.dependenciesService.getGraphEdges(id);
+    const nodeIds = [...new Set([id, ...edges.flatMap(edge => [edge.taskId, edge.blockedById])])];
+
+    const nodeQuery = this.tasksRepository
+      .createQueryBuilder('task')
+      .select(['task.id', 'task.title', 'task.status', 'task.dueDate'])
+      .where('task.id IN (:...nodeIds)', { nodeIds });
+
+    const visibleQuery = this.tasksRepository
+      .createQueryBuilder('task')
+      .select('task.id')
+      .where('task.id IN (:...nodeIds)', { nodeIds });
+
+    if (userId) {
+      this.applyVisibility(visibleQuery, userId);
+    }
+
+    const [tasks, visible] = await Promise.all([nodeQuery.getMany(), visibleQuery.getMany()]);
+    const visibleIds = new Set(visible.map(task => task.id));
+    const statusById = new Map(tasks.map(task => [task.id, task.status]));
+
+    // Walk out from the task through visible tasks only
+    const reached = new Set([id]);
+    const queue = [id];
+    while (queue.length > 0) {
+      const current = queue.shift() as string;
+      if (!visibleIds.has(current)) {
+        continue;
+      }
+      for (const edge of edges) {
+        const next =
+          edge.taskId === current
+            ? edge.blockedById
+            : edge.blockedById === current
+              ? edge.taskId
+              : null;
+        if (next && !reached.has(next)) {
+          reached.add(next);
+          queue.push(next);
+        }
+      }
+    }
+
+    const nodes = tasks
+      .filter(task => reached.has(task.id))
+      .map(task => {
+        const visibleTask = visibleIds.has(task.id);
+        return {
+          id: task.id,
+          title: visibleTask ? task.title : null,
+          status: visibleTask ? task.status : null,
+          dueDate: visibleTask ? task.dueDate || null : null,
+          blocked: edges.some(
+            edge =>
+              edge.taskId === task.id &&
+              !CLOSED_TASK_STATUSES.includes(statusById.get(edge.blockedById) as TaskStatus),
+          ),
+        };
+      });
+
+    // Edges between two hidden tasks are beyond the walk
+    const reachedEdges = edges.filter(
+      edge =>
+        reached.has(edge.taskId) &&
+        reached.has(edge.blockedById) &&
+        (visibleIds.has(edge.taskId) || visibleIds.has(edge.blockedById)),
+    );
+
+    return { taskId: id, nodes, edges: reachedEdges };
+  }
+
+  /**
+   * Mark a task as blocked by another task
+   *
+   * @param id - Blocked task ID
+   * @param blockedById - Blocking task ID
+   * @param userId - User ID for visibility checks (optional)
+   * @param projectId - Project scope from the route (optional)
+   * @returns Created dependency
+   */
+  async addDependency(
+    id: string,
+    blockedById: string,
+    userId?: string,
+    projectId?: string,
+  ): Promise<TaskDependency> {
+    const task = await this.findOne(id, userId, projectId);
+    // The blocker only has to be visible to the user, not in the same project
+    await this.findOne(blockedById, userId);
+
+    // The dependency and its history entry are written together
+    const dependency = await this.dataSource.transaction(async manager => {
+      const before = await this.dependenciesService.getBlockerIds(id, manager);
+      const created = await this.dependenciesService.addDependency(id, blockedById, manager);
+
+      await this.recordDependencyChange(id, before, userId, manager);
+      return created;
+    });
+
+    await this.invalidateCache(task.userId, [], task.projectId);
+
+    return dependency;
+  }
+
+  /**
+   * Remove a "blocked by" dependency
+   *
+   * @param id - Blocked task ID
+   * @param blockedById - Blocking task ID
+   * @param userId - User ID for visibility check (optional)
+   * @param projectId - Project scope from the route (optional)
+   */
+  async removeDependency(
+    id: string,
+    blockedById: string,
+    userId?: string,
+    projectId?: string,
+  ): Promise<void> {
+    const task = await this.findOne(id, userId, projectId);
+
+    await this.dataSource.transaction(async manager => {
+      const before = await this.dependenciesService.getBlockerIds(id, manager);
+      await this.dependenciesService.removeDependency(id, blockedById, manager);
+
+      await this.recordDependencyChange(id, before, userId, manager);
+    });
+
+    await this.invalidateCache(task.userId, [], task.projectId);
+  }
+
+  /**
+   * Get the status workflow definition
+   *
+   * @returns Status -> allowed target statuses
+   */
+  getWorkflow(): Record<TaskStatus, TaskStatus[]> {
+    return this.workflowService.getWorkflow();
+  }
+
+  /**
+   * Get a task's activity history
+   *
+   * @param id - Task ID
+   * @param pagination - Pagination parameters
+   * @param userId - User ID for visibility check (optional)
+   * @param projectId - Project scope from the route (optional)
+   * @returns Paginated history entries
+   */
+  async getHistory(
+    id: string,
+    pagination: PaginationParams,
+    userId?: string,
+    projectId?: string,
+  ): Promise<PaginatedResponse<TaskActivity>> {
+    await this.findOne(id, userId, projectId);
+    return this.activityService.findByTask(id, pagination);
+  }
+
+  /**
+   * Check the rules a new task must satisfy beyond DTO validation
+   *
+   * Used by create, and on its own by import dry runs.
+   *
+   * @param createTaskDto - Task creation data
+   * @param userId - User creating the task
+   * @param projectId - Project the task belongs to (optional)
+   * @returns Recurrence columns (empty for one-off tasks)
+   * @throws BadRequestException/NotFoundException if a rule is broken
+   */
+  async validateCreate(
+    createTaskDto: CreateTaskDto,
+    userId?: string,
+    projectId?: string,
+  ): Promise<Partial<Pick<Task, 'recurrenceRule' | 'recurrenceSeriesId' | 'recurrenceIndex'>>> {
+    const { assigneeIds, labelIds, recurrenceRule, parentId, dueDate } = createTaskDto;
+    const recurrence = recurrenceRule ? this.startRecurrence(recurrenceRule, dueDate) : {};
+
+    // Project tasks can only be assigned to project members
+    if (projectId && assigneeIds) {
+      await this.projectsService.assertMembers(projectId, assigneeIds);
+    }
+
+    if (parentId) {
+      await this.assertParentScope(parentId, projectId || null, userId);
+    }
+
+    if (labelIds) {
+      await this.labelsService.assertApplicable(labelIds, {
+        userId: (userId || createTaskDto.userId) as string,
+        projectId: projectId || null,
+      });
+    }
+
+    return recurrence;
+  }
+
+  /**
+   * Ensure a parent task is visible to the user and in the same project
+   *
+   * @param parentId - Parent task ID
+   * @param projectId - Project of the (sub)task
+   * @param userId - User ID for visibility check (optional)
+   */
+  private async assertParentScope(
+    parentId: string,
+    projectId: string | null,
+    userId?: string,
+  ): Promise<void> {
+    const parent = await this.findOne(parentId, userId);
+
+    if ((parent.projectId || null) !== projectId) {
+      throw new BadRequestException('A subtask must belong to the same project as its parent');
+    }
+  }
+
+  /**
+   * Record a change of a task's blockers in its history
+   *
+   * @param id - Task ID
+   * @param before - Blocker IDs before the change
+   * @param userId - Acting user
+   * @param manager - Transaction manager of the change
+   */
+  private async recordDependencyChange(
+    id: string,
+    before: string[],
+    userId: string | undefined,
+    manager: EntityManager,
+  ): Promise<void> {
+    const after = await this.dependenciesService.getBlockerIds(id, manager);
+
+    await this.activityService.record(
+      [
+        {
+          taskId: id,
+          action: TaskActivityAction.UPDATED,
+          changes: this.activityService.diff({ blockedByIds: before }, { blockedByIds: after }),
+        },
+      ],
+      userId,
+      manager,
+    );
+  }
+
+  /**
+   * Validate a recurrence rule and start a new series
+   *
+   * @param rule - Raw RRULE
+   * @param dueDate - Due date anchoring the series
+   * @returns Recurrence columns for the first instance
+   */
+  private startRecurrence(
+    rule: string,
+    dueDate?: Date | string | null,
+  ): Pick<Task, 'recurrenceRule' | 'recurrenceSeriesId' | 'recurrenceIndex'> {
+    RecurrenceUtil.parse(rule);
+
+    if (!dueDate) {
+      throw new BadRequestException('Recurring tasks require a dueDate');
+    }
+
+    return {
+      recurrenceRule: RecurrenceUtil.normalize(rule),
+      recurrenceSeriesId: uuidv4(),
+      recurrenceIndex: 1,
+    };
+  }
+
+  /**
+   * Generate next instances after completion, without failing the caller
+   *
+   * The scheduled recurring-tasks job retries anything missed here.
+   *
+   * @param tasks - Completed tasks
+   */
+  private async generateNextOccurrences(tasks: Task[]): Promise<void> {
+    for (const task of tasks.filter(item => item.recurrenceRule)) {
+      try {
+        await this.generateNextOccurrence(task);
+      } catch (error) {
+        this.logger.error(`Failed to generate next instance of task ${task.id}: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Add or remove labels on a batch of tasks
+   *
+   * @param mode - 'add' or 'remove'
+   * @param ids - Task IDs
+   * @param labelIds - Label IDs
+   * @param actorId - User making the change
+   * @param userId - User ID for ownership check (optional)
+   * @param projectId - Project scope (optional)
+   * @returns Number of tasks whose labels changed
+   */
+  private async batchChangeLabels(
+    mode: 'add' | 'remove',
+    ids: string[],
+    labelIds: string[],
+    actorId: string,
+    userId?: string,
+    projectId?: string,
+  ): Promise<number> {
+    const uniqueLabelIds = [...new Set(labelIds)];
+    if (ids.length === 0 || uniqueLabelIds.length === 0) {
+      return 0;
+    }
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      // Lock and snapshot the affected rows for the history diff
+      const originals = await this.findForBatch(queryRunner.manager, ids, userId, projectId);
+      const taskIds = originals.map(original => original.id);
+
+      if (mode === 'add') {
+        // One check per distinct project (or owner, for personal tasks) in the batch
+        const scopes = new Map(
+          originals.map(original => [
+            original.projectId || `user:${original.userId}`,
+            { userId: original.userId, projectId: original.projectId },
+          ]),
+        );
+        for (const scope of scopes.values()) {
+          await this.labelsService.assertApplicable(uniqueLabelIds, scope);
+        }
+      }
+
+      const before = await this.getLabelIdsByTask(queryRunner.manager, taskIds);
+
+      if (mode === 'add') {
+        await queryRunner.manager.query(
+          `INSERT INTO task_labels (task_id, label_id)
+           SELECT t.id, l.id FROM unnest($1::uuid[]) AS t(id) CROSS JOIN unnest($2::uuid[]) AS l(id)
+           ON CONFLICT DO NOTHING`,
+          [taskIds, uniqueLabelIds],
+        );
+      } else {
+        await queryRunner.manager.query(
+          'DELETE FROM task_labels WHERE task_id = ANY($1::uuid[]) AND label_id = ANY($2::uuid[])',
+          [taskIds, uniqueLabelIds],
+        );
+      }
+
+      const entries = taskIds
+        .map(taskId => {
+          const current = before.get(taskId) || [];
+          const next =
+            mode === 'add'
+              ? [...new Set([...current, ...uniqueLabelIds])].sort()
+              : current.filter(labelId => !uniqueLabelIds.includes(labelId));
+
+          return {
+            taskId,
+            action: TaskActivityAction.UPDATED,
+            changes: this.activityService.diff({ labelIds: current }, { labelIds: next }),
+          };
+        })
+        .filter(entry => Object.keys(entry.changes).length > 0);
+
+      await this.activityService.record(entries, actorId, queryRunner.manager);
+
+      // Commit transaction
+      await queryRunner.commitTransaction();
+
+      // Invalidate cache for all affected tasks
+      await Promise.all(taskIds.map(id => this.cacheService.delete(`task:${id}`)));
+
+      await this.invalidateBatchCache(originals);
+
+      const tasksById = new Map(originals.map(original => [original.id, original]));
+      await this.publishUpdated(
+        entries.map(entry => ({ task: tasksById.get(entry.taskId)!, changes: entry.changes })),
+        actorId,
+      );
+
+      const verb = mode === 'add' ? 'added' : 'removed';
+      this.logger.log(`Batch ${verb} labels on ${entries.length} tasks`);
+      return entries.length;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      this.logger.error(`Failed to batch ${mode} labels: ${error}`);
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Get current label IDs of tasks
+   *
+   * @param manager - Transaction manager
+   * @param taskIds - Task IDs
+   * @returns Task ID -> sorted label IDs
+   */
+  private async getLabelIdsByTask(
+    manager: EntityManager,
+    taskIds: string[],
+  ): Promise<Map<string, string[]>> {
+    const rows: { task_id: string; label_id: string }[] = await manager.query(
+      'SELECT task_id, label_id FROM task_labels WHERE task_id = ANY($1::uuid[]) ORDER BY label_id',
+      [taskIds],
+    );
+
+    const labelIds = new Map<string, string[]>();
+    for (const row of rows) {
+      labelIds.set(row.task_id, [...(labelIds.get(row.task_id) || []), row.label_id]);
+    }
+
+    return labelIds;
+  }
+
+  /**
+   * Build highlighted title and description snippets
+   *
+   * @param ids - Task IDs
+   * @param query - Parsed search query
+   * @returns Task ID -> highlights
+   */
+  private async getHighlights(
+    ids: string[],
+    query: SearchQuery,
+  ): Promise<Map<string, TaskSearchResult['highlights']>> {
+    const selection = `StartSel=${this.HIGHLIGHT_START}, StopSel=${this.HIGHLIGHT_STOP}`;
+    const config = `'${SearchQueryUtil.CONFIG}'`;
+
+    const rows: { id: string; title: string; description: string | null }[] =
+      await this.tasksRepository
+        .createQueryBuilder('task')
+        .select('task.id', 'id')
+        .addSelect(
+          `ts_headline(${config}, task.title, ${query.expression}, :titleOptions)`,
+          'title',
+        )
+        .addSelect(
+          `ts_headline(${config}, task.description, ${query.expression}, :descriptionOptions)`,
+          'description',
+        )
+        .where('task.id IN (:...ids)', { ids })
+        .setParameters({
+          ...query.params,
+          titleOptions: `${selection}, HighlightAll=true`,
+          descriptionOptions: `${selection}, MaxFragments=2, MaxWords=25, MinWords=8, FragmentDelimiter=" … "`,
+        })
+        .getRawMany();
+
+    return new Map(
+      rows.map(row => [
+        row.id,
+        {
+          title: this.toHighlightHtml(row.title),
+          description: row.description === null ? null : this.toHighlightHtml(row.description),
+        },
+      ]),
+    );
+  }
+
+  /**
+   * HTML-escape a headline and turn match markers into <mark> tags
+   *
+   * @param headline - ts_headline output
+   * @returns Safe HTML snippet
+   */
+  private toHighlightHtml(headline: string): string {
+    return headline
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;')
+      .split(this.HIGHLIGHT_START)
+      .join('<mark>')
+      .split(this.HIGHLIGHT_STOP)
+      .join('</mark>');
+  }
+
+  /**
+   * Build a status-changed notification job
+   *
+   * @param taskId - Task ID
+   * @param from - Previous status
+   * @param to - New status
+   * @param actorId - User who made the change (null for system changes)
+   * @returns Job definition
+   */
+  private statusChangedJob(
+    taskId: string,
+    from: TaskStatus,
+    to: TaskStatus,
+    actorId?: string | null,
+  ): { name: string; data: Record<string, unknown> } {
+    return { name: 'task-status-changed', data: { taskId, from, to, actorId: actorId ?? null } };
+  }
+
+  /**
+   * Build an assignment notification job
+   *
+   * @param taskId - Task ID
+   * @param assigneeIds - Newly assigned users
+   * @param actorId - User who made the assignment
+   * @returns Job definition
+   */
+  private assignedJob(
+    taskId: string,
+    assigneeIds: string[],
+    actorId?: string | null,
+  ): { name: string; data: Record<string, unknown> } {
+    return { name: 'task-assigned', data: { taskId, assigneeIds, actorId: actorId ?? null } };
+  }
+
+  /**
+   * Queue notification jobs without failing the caller
+   *
+   * Called after commit, so rolled-back changes never notify anyone.
+   *
+   * @param jobs - Job definitions
+   */
+  private async queueNotifications(
+    jobs: { name: string; data: Record<string, unknown> }[],
+  ): Promise<void> {
+    if (jobs.length === 0) {
+      return;
+    }
+
+    try {
+      await this.taskQueue.addBulk(
+        jobs.map(job => ({
+          name: job.name,
+          data: { ...job.data, correlationId: RequestContext.getCorrelationId() },
+          opts: {
+            attempts: 3,
+            backoff: {
+              type: 'exponential',
+              delay: 1000,
+            },
+          },
+        })),
+      );
+    } catch (queueError) {
+      // Notifications are best-effort; the change is already committed
+      this.logger.error(`Failed to queue notifications: ${queueError}`);
+    }
+  }
+
+  /**
+   * Publish created tasks to webhooks and the live event stream, and
+   * schedule their reminders
+   *
+   * Called after commit.
+   *
+   * @param tasks - Created tasks
+   * @param actorId - User who made the change (null for system changes)
+   */
+  private async publishCreated(tasks: Task[], actorId?: string | null): Promise<void> {
+    await this.webhooksService.dispatch(
+      WebhookEvent.TASK_CREATED,
+      tasks.map(task => ({ task })),
+    );
+    await this.taskEventsService.publish(
+      TaskEventType.CREATED,
+      tasks.map(task => ({ task })),
+      actorId,
+    );
+    await this.remindersService.schedule(tasks);
+  }
+
+  /**
+   * Publish updated tasks to webhooks and the live event stream
+   *
+   * Status changes also dispatch task.status_changed webhooks; due date and
+   * status changes reschedule reminders. Called after commit; tasks without
+   * changes are skipped.
+   *
+   * @param updates - Updated tasks with their field-level changes
+   * @param actorId - User who made the change (null for system changes)
+   */
+  private async publishUpdated(
+    updates: { task: Task; changes: Record<string, TaskFieldChange> }[],
+    actorId?: string | null,
+  ): Promise<void> {
+    const changed = updates.filter(({ changes }) => Object.keys(changes).length > 0);
+
+    await this.taskEventsService.publish(TaskEventType.UPDATED, changed, actorId);
+    await this.webhooksService.dispatch(
+      WebhookEvent.TASK_UPDATED,
+      changed.map(({ task, changes }) => ({ task, data: { changes } })),
+    );
+    await this.webhooksService.dispatch(
+      WebhookEvent.TASK_STATUS_CHANGED,
+      changed
+        .filter(({ changes }) => changes.status)
+        .map(({ task, changes }) => ({
+          task,
+          data: { from: changes.status.from, to: changes.status.to },
+        })),
+    );
+    await this.remindersService.schedule(
+      changed.filter(({ changes }) => changes.dueDate || changes.status).map(({ task }) => task),
+    );
+  }
+
+  /**
+   * Publish deleted tasks to webhooks and the live event stream, and cancel
+   * their reminders
+   *
+   * Called after commit.
+   *
+   * @param tasks - Deleted tasks, as loaded before deletion
+   * @param actorId - User who made the change
+   */
+  private async publishDeleted(tasks: Task[], actorId?: string | null): Promise<void> {
+    await this.webhooksService.dispatch(
+      WebhookEvent.TASK_DELETED,
+      tasks.map(task => ({ task })),
+    );
+    await this.taskEventsService.publish(
+      TaskEventType.DELETED,
+      tasks.map(task => ({ task })),
+      actorId,
+    );
+    await this.remindersService.cancel(tasks.map(task => task.id));
+  }
+
+  /**
+   * Lock and load the tasks a batch operation will touch
+   *
+   * Uses the same scoping as the batch UPDATE/DELETE queries. Assignee IDs
+   * are loaded separately (row locks can't cover an outer join), so webhooks
+   * and live events reach assignees too.
+   *
+   * @param manager - Transaction manager
+   * @param ids - Task IDs
+   * @param userId - User ID for ownership check (optional)
+   * @param projectId - Project scope (optional)
+   * @returns Current task rows with assignee IDs
+   */
+  private async findForBatch(
+    manager: EntityManager,
+    ids: string[],
+    userId?: string,
+    projectId?: string,
+  ): Promise<Task[]> {
+    const queryBuilder = manager
+      .createQueryBuilder(Task, 'task')
+      .where('task.id IN (:...ids)', { ids })
+      .setLock('pessimistic_write');
+
+    if (userId) {
+      queryBuilder.andWhere('task.userId = :userId', { userId });
+    }
+
+    if (projectId) {
+      queryBuilder.andWhere('task.projectId = :projectId', { projectId });
+    }
+
+    const tasks = await queryBuilder.getMany();
+    if (tasks.length === 0) {
+      return tasks;
+    }
+
+    const rows: { task_id: string; user_id: string }[] = await manager.query(
+      'SELECT task_id, user_id FROM task_assignees WHERE task_id = ANY($1::uuid[])',
+      [tasks.map(task => task.id)],
+    );
+
+    for (const task of tasks) {
+      task.assignees = rows
+        .filter(row => row.task_id === task.id)
+        .map(row => ({ id: row.user_id }));
+    }
+
+    return tasks;
+  }
+
   /**
    * Apply filters to query builder
    * 
@@ -593,9 +2345,51 @@ export class TasksService {
     filters: TaskFilterDto,
     userId?: string,
   ): void {
-    // User filter
+    // User filter (owned or assigned tasks)
     if (userId) {
-      queryBuilder.andWhere('task.userId = :userId', { userId });
+      this.applyVisibility(queryBuilder, userId);
+    }
+
+    // Project filter
+    if (filters.projectId) {
+      queryBuilder.andWhere('task.projectId = :projectId', { projectId: filters.projectId });
+    }
+
+    // Assignee filter
+    if (filters.assignedTo) {
+      queryBuilder.andWhere(
+        'EXISTS (SELECT 1 FROM task_assignees ta WHERE ta.task_id = task.id AND ta.user_id = :assignedTo)',
+        { assignedTo: filters.assignedTo },
+      );
+    }
+
+    // Parent filter (subtasks)
+    if (filters.parentId) {
+      queryBuilder.andWhere('task.parentId = :parentId', { parentId: filters.parentId });
+    }
+
+    // Label filters: any/all of `labels`, none of `excludeLabels`
+    if (filters.labels && filters.labels.length > 0) {
+      const labels = [...new Set(filters.labels)];
+
+      if (filters.labelMatch === 'all') {
+        queryBuilder.andWhere(
+          '(SELECT COUNT(*) FROM task_labels tl WHERE tl.task_id = task.id AND tl.label_id IN (:...labels)) = :labelCount',
+          { labels, labelCount: labels.length },
+        );
+      } else {
+        queryBuilder.andWhere(
+          'EXISTS (SELECT 1 FROM task_labels tl WHERE tl.task_id = task.id AND tl.label_id IN (:...labels))',
+          { labels },
+        );
+      }
+    }
+
+    if (filters.excludeLabels && filters.excludeLabels.length > 0) {
+      queryBuilder.andWhere(
+        'NOT EXISTS (SELECT 1 FROM task_labels xl WHERE xl.task_id = task.id AND xl.label_id IN (:...excludeLabels))',
+        { excludeLabels: filters.excludeLabels },
+      );
     }
 
     // Status filter
@@ -608,12 +2402,10 @@ export class TasksService {
       queryBuilder.andWhere('task.priority = :priority', { priority: filters.priority });
     }
 
-    // Search filter (title or description)
+    // Full-text search (title or description), served by the GIN index
     if (filters.search) {
-      queryBuilder.andWhere(
-        '(task.title ILIKE :search OR task.description ILIKE :search)',
-        { search: `%${filters.search}%` },
-      );
+      const query = SearchQueryUtil.parse(filters.search);
+      queryBuilder.andWhere(`task.search_vector @@ ${query.expression}`, query.params);
     }
 
     // Due date filters
@@ -626,6 +2418,77 @@ export class TasksService {
     }
   }
 
+  /**
+   * Restrict query to tasks the user owns, is assigned to, or can see
+   * through project membership
+   *
+   * @param queryBuilder - Query builder
+   * @param userId - User ID
+   */
+  private applyVisibility(queryBuilder: SelectQueryBuilder<Task>, userId: string): void {
+    queryBuilder.andWhere(
+      '(task.userId = :userId' +
+        ' OR EXISTS (SELECT 1 FROM task_assignees ta WHERE ta.task_id = task.id AND ta.user_id = :userId)' +
+        ' OR EXISTS (SELECT 1 FROM project_members pm WHERE pm.project_id = task.project_id AND pm.user_id = :userId))',
+      { userId },
+    );
+  }
+
+  /**
+   * Join assignees, selecting only public user fields
+   *
+   * @param queryBuilder - Query builder
+   */
+  private joinAssignees(queryBuilder: SelectQueryBuilder<Task>): void {
+    queryBuilder
+      .leftJoin('task.assignees', 'assignee')
+      .addSelect(['assignee.id', 'assignee.name', 'assignee.email']);
+  }
+
+  /**
+   * Join labels, selecting only display fields
+   *
+   * @param queryBuilder - Query builder
+   */
+  private joinLabels(queryBuilder: SelectQueryBuilder<Task>): void {
+    queryBuilder
+      .leftJoin('task.labels', 'label')
+      .addSelect(['label.id', 'label.name', 'label.colour']);
+  }
+
+  /**
+   * Check if a user can view a task (owner, assignee or project member)
+   *
+   * @param task - Task
+   * @param userId - User ID
+   * @returns true if visible
+   */
+  private async canView(task: Task, userId: string): Promise<boolean> {
+    if (task.userId === userId || (task.assignees || []).some(assignee => assignee.id === userId)) {
+      return true;
+    }
+
+    return task.projectId
+      ? (await this.projectsService.getMemberRole(task.projectId, userId)) !== null
+      : false;
+  }
+
+  /**
+   * Check if a user is an ADMIN (or OWNER) of the task's project
+   *
+   * @param task - Task
+   * @param userId - User ID
+   * @returns true if project admin
+   */
+  private async isProjectAdmin(task: Task, userId: string): Promise<boolean> {
+    if (!task.projectId) {
+      return false;
+    }
+
+    const role = await this.projectsService.getMemberRole(task.projectId, userId);
+    return role !== null && hasProjectRole(role, ProjectRole.ADMIN);
+  }
+
   /**
    * Build cache key from parameters
    * 
@@ -642,10 +2505,51 @@ export class TasksService {
    * Invalidate cache for a user
    * 
    * @param userId - User ID
+   * @param assigneeIds - Assignees whose "assigned to me" lists are also stale
+   * @param projectId - Project whose members' lists and stats are also stale
    */
-  private async invalidateCache(userId: string): Promise<void> {
+  private async invalidateCache(
+    userId: string,
+    assigneeIds: string[] = [],
+    projectId?: string | null,
+  ): Promise<void> {
     await this.cacheService.deletePattern(`tasks:list:*${userId}*`);
     await this.cacheService.delete(`task:stats:${userId}`);
+
+    const memberIds = projectId ? await this.projectsService.getMemberIds(projectId) : [];
+    if (projectId) {
+      await this.cacheService.delete(`task:stats:project:${projectId}`);
+    }
+
+    const others = [...new Set([...assigneeIds, ...memberIds])].filter(id => id !== userId);
+    await Promise.all(others.map(id => this.cacheService.deletePattern(`tasks:list:*${id}*`)));
+  }
+
+  /**
+   * Invalidate list caches of everyone who sees a batch of tasks
+   *
+   * @param tasks - Affected tasks, with assignees (as loaded by findForBatch)
+   */
+  private async invalidateBatchCache(tasks: Task[]): Promise<void> {
+    const scopes = new Map<
+      string,
+      { userId: string; projectId: string | null; assigneeIds: Set<string> }
+    >();
+
+    for (const task of tasks) {
+      const key = `${task.userId}:${task.projectId ?? ''}`;
+      const scope = scopes.get(key) || {
+        userId: task.userId,
+        projectId: task.projectId,
+        assigneeIds: new Set<string>(),
+      };
+      (task.assignees || []).forEach(assignee => scope.assigneeIds.add(assignee.id));
+      scopes.set(key, scope);
+    }
+
+    for (const scope of scopes.values()) {
+      await this.invalidateCache(scope.userId, [...scope.assigneeIds], scope.projectId);
+    }
   }
 
   /**
@@ -658,7 +2562,10 @@ export class TasksService {
     const stats = {
       [TaskStatus.PENDING]: 0,
       [TaskStatus.IN_PROGRESS]: 0,
+      [TaskStatus.BLOCKED]: 0,
+      [TaskStatus.IN_REVIEW]: 0,
       [TaskStatus.COMPLETED]: 0,
+      [TaskStatus.CANCELLED]: 0,
     };
 
     results.forEach(row => {
@@ -0,0 +1,10 @@
+import { IsIn } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export const USER_ROLES = ['admin', 'user'];
+
+export class UpdateUserRoleDto {
+  @ApiProperty({ example: 'admin', enum: USER_ROLES })
+  @IsIn(USER_ROLES)
+  role: string;
+}
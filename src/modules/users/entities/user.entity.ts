@@ -1,4 +1,12 @@
-import { Column, CreateDateColumn, Entity, OneToMany, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  ManyToMany,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
 import { Exclude } from 'class-transformer';
 
 @Entity('users')
@@ -19,9 +27,21 @@ export class User {
   @Column({ default: 'user' })
   role: string;
 
+  // Set when the user confirms the address; cleared when the email changes
+  @Column({ name: 'email_verified_at', type: 'timestamp', nullable: true })
+  emailVerifiedAt: Date | null;
+
+  // Bumped to revoke all of the user's tokens; tokens carry the version they were issued with
+  @Column({ name: 'token_version', default: 0 })
+  @Exclude({ toPlainOnly: true })
+  tokenVersion: number;
+
   @OneToMany('Task', 'user')
   tasks: any[];
 
+  @ManyToMany('Task', 'assignees')
+  assignedTasks: any[];
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -2,7 +2,10 @@ import { Controller, Get, Post, Body, Patch, Param, Delete, UseGuards, ClassSeri
 import { UsersService } from './users.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { UpdateUserRoleDto } from './dto/update-user-role.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
 import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
 
 @ApiTags('users')
@@ -37,6 +40,14 @@ export class UsersController {
     return this.usersService.update(id, updateUserDto);
   }
 
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiBearerAuth()
+  @Patch(':id/role')
+  updateRole(@Param('id') id: string, @Body() updateUserRoleDto: UpdateUserRoleDto) {
+    return this.usersService.updateRole(id, updateUserRoleDto.role);
+  }
+
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
   @Delete(':id')
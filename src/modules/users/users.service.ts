@@ -1,6 +1,6 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, Repository } from 'typeorm';
 import { User } from './entities/user.entity';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
@@ -38,15 +38,79 @@ export class UsersService {
     return this.usersRepository.findOne({ where: { email } });
   }
 
+  async findByEmails(emails: string[]): Promise<User[]> {
+    if (emails.length === 0) {
+      return [];
+    }
+    return this.usersRepository.find({ where: { email: In(emails) } });
+  }
+
   async update(id: string, updateUserDto: UpdateUserDto): Promise<User> {
     const user = await this.findOne(id);
-    
+    const changes: Partial<User> = { ...updateUserDto };
+
     if (updateUserDto.password) {
-      updateUserDto.password = await bcrypt.hash(updateUserDto.password, 10);
+      changes.password = await bcrypt.hash(updateUserDto.password, 10);
     }
-    
-    this.usersRepository.merge(user, updateUserDto);
-    return this.usersRepository.save(user);
+
+    // A new address has to be verified again
+    if (updateUserDto.email && updateUserDto.email !== user.email) {
+      changes.emailVerifiedAt = null;
+    }
+
+    // Only the changed columns, so a concurrent token version bump isn't overwritten
+    await this.usersRepository.manager.transaction(async manager => {
+      if (Object.keys(changes).length > 0) {
+        await manager.update(User, id, changes);
+      }
+
+      if (updateUserDto.password) {
+        // Sessions signed in with the old password must sign in again
+        await manager.increment(User, { id }, 'tokenVersion', 1);
+      }
+    });
+
+    return this.findOne(id);
+  }
+
+  async updateRole(id: string, role: string): Promise<User> {
+    const user = await this.findOne(id);
+
+    if (user.role === role) {
+      return user;
+    }
+
+    await this.usersRepository.manager.transaction(async manager => {
+      await manager.update(User, id, { role });
+      // Tokens carry the role, so the old ones must not outlive the change
+      await manager.increment(User, { id }, 'tokenVersion', 1);
+    });
+
+    return this.findOne(id);
+  }
+
+  async getTokenVersion(id: string): Promise<number> {
+    const user = await this.usersRepository.findOne({
+      where: { id },
+      select: ['id', 'tokenVersion'],
+    });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+    return user.tokenVersion;
+  }
+
+  async incrementTokenVersion(id: string): Promise<void> {
+    await this.usersRepository.increment({ id }, 'tokenVersion', 1);
+  }
+
+  async setPassword(id: string, password: string): Promise<void> {
+    const hashedPassword = await bcrypt.hash(password, 10);
+    await this.usersRepository.update(id, { password: hashedPassword });
+  }
+
+  async markEmailVerified(id: string): Promise<void> {
+    await this.usersRepository.update(id, { emailVerifiedAt: new Date() });
   }
 
   async remove(id: string): Promise<void> {
@@ -0,0 +1,42 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { WebhookEvent } from '../enums/webhook-event.enum';
+
+export class CreateWebhookDto {
+  @ApiProperty({ example: 'https://tools.example.com/hooks/tasks' })
+  @IsUrl({ require_protocol: true, protocols: ['http', 'https'], require_tld: false })
+  @MaxLength(2048)
+  url: string;
+
+  @ApiProperty({
+    enum: WebhookEvent,
+    isArray: true,
+    example: [WebhookEvent.TASK_CREATED, WebhookEvent.TASK_STATUS_CHANGED],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsEnum(WebhookEvent, { each: true })
+  events: WebhookEvent[];
+
+  @ApiProperty({ example: 'Sync to the ops dashboard', required: false })
+  @IsString()
+  @MaxLength(255)
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({ example: true, required: false, default: true })
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
@@ -0,0 +1,71 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { WebhookSubscription } from './webhook-subscription.entity';
+import { WebhookEvent } from '../enums/webhook-event.enum';
+import { WebhookDeliveryStatus } from '../enums/webhook-delivery-status.enum';
+
+/**
+ * Webhook Delivery Entity
+ *
+ * Delivery log entry: one event sent to one subscription, with the result
+ * of its latest attempt. Redelivering creates a new entry pointing at the
+ * original, so the log keeps every outcome.
+ */
+@Entity('webhook_deliveries')
+@Index('IDX_webhook_deliveries_subscription_created', ['subscriptionId', 'createdAt'])
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'subscription_id' })
+  subscriptionId: string;
+
+  @ManyToOne(() => WebhookSubscription, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'subscription_id' })
+  subscription: WebhookSubscription;
+
+  @Column({ type: 'varchar', length: 50 })
+  event: WebhookEvent;
+
+  // Exact JSON body sent (and signed)
+  @Column({ type: 'jsonb' })
+  payload: Record<string, unknown>;
+
+  @Column({ type: 'varchar', length: 20, default: WebhookDeliveryStatus.PENDING })
+  status: WebhookDeliveryStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ name: 'response_status', type: 'int', nullable: true })
+  responseStatus: number | null;
+
+  // Truncated response body of the latest attempt
+  @Column({ name: 'response_body', type: 'text', nullable: true })
+  responseBody: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @Column({ name: 'duration_ms', type: 'int', nullable: true })
+  durationMs: number | null;
+
+  @Column({ name: 'redelivery_of_id', type: 'uuid', nullable: true })
+  redeliveryOfId: string | null;
+
+  @Column({ name: 'last_attempt_at', type: 'timestamp', nullable: true })
+  lastAttemptAt: Date | null;
+
+  @Column({ name: 'delivered_at', type: 'timestamp', nullable: true })
+  deliveredAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,64 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import type { Project } from '../../projects/entities/project.entity';
+import { WebhookEvent } from '../enums/webhook-event.enum';
+
+/**
+ * Webhook Subscription Entity
+ *
+ * Endpoint receiving task events. Subscriptions are either:
+ * - Personal: projectId null, events for tasks the user owns
+ * - Project: projectId set, events for the project's tasks
+ *
+ * The signing secret is never selected by default and is returned only
+ * when the subscription is created.
+ */
+@Entity('webhook_subscriptions')
+export class WebhookSubscription {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Creator; owner of personal subscriptions
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'project_id', type: 'uuid', nullable: true })
+  projectId: string | null;
+
+  @ManyToOne('Project', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'project_id' })
+  project: Project;
+
+  @Column({ length: 2048 })
+  url: string;
+
+  @Column({ type: 'varchar', array: true })
+  events: WebhookEvent[];
+
+  @Column({ select: false })
+  secret: string;
+
+  @Column({ default: true })
+  active: boolean;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  description: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
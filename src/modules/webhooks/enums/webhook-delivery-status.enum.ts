@@ -0,0 +1,7 @@
+export enum WebhookDeliveryStatus {
+  // Queued or waiting for a retry
+  PENDING = 'PENDING',
+  SUCCEEDED = 'SUCCEEDED',
+  // All attempts used up
+  FAILED = 'FAILED',
+}
@@ -0,0 +1,7 @@
+export enum WebhookEvent {
+  TASK_CREATED = 'task.created',
+  TASK_UPDATED = 'task.updated',
+  TASK_STATUS_CHANGED = 'task.status_changed',
+  TASK_DELETED = 'task.deleted',
+  TASK_OVERDUE = 'task.overdue',
+}
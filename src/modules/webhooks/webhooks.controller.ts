@@ -0,0 +1,165 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RedisRateLimitGuard } from '../../common/guards/redis-rate-limit.guard';
+import { OwnershipGuard } from '../../common/guards/ownership.guard';
+import {
+  RedisRateLimit,
+  RateLimitPresets,
+} from '../../common/decorators/rate-limit-redis.decorator';
+import { CheckOwnership } from '../../common/decorators/ownership.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ProjectRole } from '../projects/enums/project-role.enum';
+import { PaginationParams } from '../../common/interfaces/pagination.interface';
+import { PaginationUtil } from '../../common/utils/pagination.util';
+
+// Optional project scope: undefined on /webhooks, validated UUID on /projects/:projectId/webhooks
+const ProjectIdParam = () => Param('projectId', new ParseUUIDPipe({ optional: true }));
+
+// Project webhooks expose every task of the project to an outside endpoint
+const ProjectAdminOnly = () =>
+  CheckOwnership({
+    entity: 'project',
+    paramKey: 'projectId',
+    userIdField: 'ownerId',
+    minProjectRole: ProjectRole.ADMIN,
+    optional: true,
+  });
+
+/**
+ * Webhooks Controller
+ *
+ * Personal webhooks live under /webhooks and receive events for tasks the
+ * user owns; project webhooks live under /projects/:projectId/webhooks and
+ * are managed by project ADMINs.
+ */
+@ApiTags('webhooks')
+@Controller(['webhooks', 'projects/:projectId/webhooks'])
+@UseGuards(JwtAuthGuard, RedisRateLimitGuard, OwnershipGuard)
+@ApiBearerAuth()
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  /**
+   * Create a webhook
+   *
+   * The response includes the signing secret; it is not shown again
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ProjectAdminOnly()
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Create a webhook subscription' })
+  @ApiResponse({ status: 201, description: 'Webhook created; response includes the secret' })
+  async create(
+    @Body() createWebhookDto: CreateWebhookDto,
+    @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
+  ) {
+    return this.webhooksService.create(createWebhookDto, userId, projectId);
+  }
+
+  /**
+   * List webhooks
+   */
+  @Get()
+  @ProjectAdminOnly()
+  @RedisRateLimit(RateLimitPresets.LENIENT)
+  @ApiOperation({ summary: 'List webhook subscriptions' })
+  @ApiResponse({ status: 200, description: 'Webhooks retrieved successfully' })
+  async findAll(@CurrentUser('id') userId: string, @ProjectIdParam() projectId?: string) {
+    return this.webhooksService.findAll(userId, projectId);
+  }
+
+  /**
+   * Update a webhook
+   */
+  @Patch(':webhookId')
+  @ProjectAdminOnly()
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Update a webhook subscription' })
+  @ApiResponse({ status: 200, description: 'Webhook updated successfully' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  async update(
+    @Param('webhookId', ParseUUIDPipe) webhookId: string,
+    @Body() updateWebhookDto: UpdateWebhookDto,
+    @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
+  ) {
+    return this.webhooksService.update(webhookId, updateWebhookDto, userId, projectId);
+  }
+
+  /**
+   * Delete a webhook and its delivery log
+   */
+  @Delete(':webhookId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ProjectAdminOnly()
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Delete a webhook subscription' })
+  @ApiResponse({ status: 204, description: 'Webhook deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  async remove(
+    @Param('webhookId', ParseUUIDPipe) webhookId: string,
+    @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
+  ) {
+    await this.webhooksService.remove(webhookId, userId, projectId);
+  }
+
+  /**
+   * List a webhook's deliveries
+   */
+  @Get(':webhookId/deliveries')
+  @ProjectAdminOnly()
+  @RedisRateLimit(RateLimitPresets.LENIENT)
+  @ApiOperation({ summary: 'List webhook deliveries' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number', type: Number })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page', type: Number })
+  @ApiResponse({ status: 200, description: 'Deliveries retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  async findDeliveries(
+    @Param('webhookId', ParseUUIDPipe) webhookId: string,
+    @Query() paginationParams: PaginationParams,
+    @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
+  ) {
+    const pagination = PaginationUtil.validateParams(paginationParams);
+    return this.webhooksService.findDeliveries(webhookId, pagination, userId, projectId);
+  }
+
+  /**
+   * Redeliver a logged delivery
+   */
+  @Post(':webhookId/deliveries/:deliveryId/redeliver')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ProjectAdminOnly()
+  @RedisRateLimit(RateLimitPresets.MODERATE)
+  @ApiOperation({ summary: 'Redeliver a webhook delivery' })
+  @ApiResponse({ status: 202, description: 'Redelivery queued' })
+  @ApiResponse({ status: 404, description: 'Webhook or delivery not found' })
+  async redeliver(
+    @Param('webhookId', ParseUUIDPipe) webhookId: string,
+    @Param('deliveryId', ParseUUIDPipe) deliveryId: string,
+    @CurrentUser('id') userId: string,
+    @ProjectIdParam() projectId?: string,
+  ) {
+    return this.webhooksService.redeliver(webhookId, deliveryId, userId, projectId);
+  }
+}
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { BullModule } from '@nestjs/bullmq';
+import { WebhooksService } from './webhooks.service';
+import { WebhooksController } from './webhooks.controller';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { ProjectsModule } from '../projects/projects.module';
+import { RedisCacheService } from '../../common/services/redis-cache.service';
+import { OwnershipGuard } from '../../common/guards/ownership.guard';
+
+/**
+ * Webhooks Module
+ *
+ * Personal and project webhook subscriptions for task events.
+ * Exports WebhooksService so task changes can be dispatched and the
+ * delivery processor can record attempts.
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([WebhookSubscription, WebhookDelivery]),
+    BullModule.registerQueue({
+      name: 'webhook-delivery',
+    }),
+    ProjectsModule,
+  ],
+  controllers: [WebhooksController],
+  providers: [WebhooksService, RedisCacheService, OwnershipGuard],
+  exports: [WebhooksService],
+})
+export class WebhooksModule {}
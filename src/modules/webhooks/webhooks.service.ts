@@ -0,0 +1,413 @@
+import { Injectable, NotFoundException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { Brackets, IsNull, Repository } from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { WebhookEvent } from './enums/webhook-event.enum';
+import { WebhookDeliveryStatus } from './enums/webhook-delivery-status.enum';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { Task } from '../tasks/entities/task.entity';
+import { PaginationParams, PaginatedResponse } from '../../common/interfaces/pagination.interface';
+import { PaginationUtil } from '../../common/utils/pagination.util';
+import { WebhookSignatureUtil } from '../../common/utils/webhook-signature.util';
+
+/**
+ * One task event to dispatch
+ */
+export interface WebhookTaskEvent {
+  task: Partial<Task> & Pick<Task, 'id' | 'userId' | 'projectId'> & { assigneeIds?: string[] };
+  // Event-specific fields, e.g. { from, to } for task.status_changed
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Result of one delivery attempt
+ */
+export interface WebhookAttemptResult {
+  status: WebhookDeliveryStatus;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number;
+}
+
+/**
+ * Webhooks Service
+ *
+ * Outgoing webhooks for task events:
+ * 1. Subscription CRUD scoped to the owner (personal) or project
+ * 2. Dispatch: one delivery log entry and one job per matching subscription
+ * 3. Delivery log and redelivery
+ *
+ * Sending, signing and retries happen in WebhookDeliveryProcessor on the
+ * dedicated `webhook-delivery` queue, so slow endpoints never hold up task
+ * processing.
+ */
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+
+  constructor(
+    @InjectRepository(WebhookSubscription)
+    private readonly subscriptionsRepository: Repository<WebhookSubscription>,
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveriesRepository: Repository<WebhookDelivery>,
+    @InjectQueue('webhook-delivery')
+    private readonly deliveryQueue: Queue,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Create a subscription
+   *
+   * @param createWebhookDto - Subscription data
+   * @param userId - Creating user (owner of personal subscriptions)
+   * @param projectId - Project for project subscriptions (optional)
+   * @returns Created subscription, including its signing secret (only time it is returned)
+   */
+  async create(
+    createWebhookDto: CreateWebhookDto,
+    userId: string,
+    projectId?: string,
+  ): Promise<WebhookSubscription> {
+    const subscription = await this.subscriptionsRepository.save(
+      this.subscriptionsRepository.create({
+        ...createWebhookDto,
+        userId,
+        projectId: projectId || null,
+        secret: WebhookSignatureUtil.generateSecret(),
+      }),
+    );
+
+    this.logger.log(`Webhook subscription created: ${subscription.id}`);
+    return subscription;
+  }
+
+  /**
+   * List subscriptions of a scope
+   *
+   * @param userId - Current user (personal scope)
+   * @param projectId - Project scope (optional)
+   * @returns Subscriptions (without secrets)
+   */
+  async findAll(userId: string, projectId?: string): Promise<WebhookSubscription[]> {
+    return this.subscriptionsRepository.find({
+      where: this.scope(userId, projectId),
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Find a subscription within a scope
+   *
+   * @param id - Subscription ID
+   * @param userId - Current user (personal scope)
+   * @param projectId - Project scope (optional)
+   * @returns Subscription (without secret)
+   */
+  async findOne(id: string, userId: string, projectId?: string): Promise<WebhookSubscription> {
+    const subscription = await this.subscriptionsRepository.findOne({
+      where: { id, ...this.scope(userId, projectId) },
+    });
+
+    if (!subscription) {
+      throw new NotFoundException(`Webhook with ID ${id} not found`);
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Update a subscription
+   *
+   * @param id - Subscription ID
+   * @param updateWebhookDto - Update data
+   * @param userId - Current user (personal scope)
+   * @param projectId - Project scope (optional)
+   * @returns Updated subscription
+   */
+  async update(
+    id: string,
+    updateWebhookDto: UpdateWebhookDto,
+    userId: string,
+    projectId?: string,
+  ): Promise<WebhookSubscription> {
+    const subscription = await this.findOne(id, userId, projectId);
+    this.subscriptionsRepository.merge(subscription, updateWebhookDto);
+    return this.subscriptionsRepository.save(subscription);
+  }
+
+  /**
+   * Delete a subscription and its delivery log
+   *
+   * @param id - Subscription ID
+   * @param userId - Current user (personal scope)
+   * @param projectId - Project scope (optional)
+   */
+  async remove(id: string, userId: string, projectId?: string): Promise<void> {
+    const subscription = await this.findOne(id, userId, projectId);
+    await this.subscriptionsRepository.delete(subscription.id);
+
+    this.logger.log(`Webhook subscription deleted: ${id}`);
+  }
+
+  /**
+   * List a subscription's deliveries, newest first by default
+   *
+   * @param id - Subscription ID
+   * @param pagination - Pagination parameters
+   * @param userId - Current user (personal scope)
+   * @param projectId - Project scope (optional)
+   * @returns Paginated deliveries
+   */
+  async findDeliveries(
+    id: string,
+    pagination: PaginationParams,
+    userId: string,
+    projectId?: string,
+  ): Promise<PaginatedResponse<WebhookDelivery>> {
+    await this.findOne(id, userId, projectId);
+
+    const queryBuilder = this.deliveriesRepository
+      .createQueryBuilder('delivery')
+      .where('delivery.subscriptionId = :id', { id });
+
+    PaginationUtil.applySorting(queryBuilder, pagination, 'delivery', 'createdAt');
+    PaginationUtil.applyPagination(queryBuilder, pagination);
+
+    return PaginationUtil.paginate(queryBuilder, pagination);
+  }
+
+  /**
+   * Send a logged delivery again
+   *
+   * The payload is resent unchanged (same event ID) as a new delivery.
+   *
+   * @param id - Subscription ID
+   * @param deliveryId - Delivery to resend
+   * @param userId - Current user (personal scope)
+   * @param projectId - Project scope (optional)
+   * @returns New delivery
+   */
+  async redeliver(
+    id: string,
+    deliveryId: string,
+    userId: string,
+    projectId?: string,
+  ): Promise<WebhookDelivery> {
+    await this.findOne(id, userId, projectId);
+
+    const original = await this.deliveriesRepository.findOne({
+      where: { id: deliveryId, subscriptionId: id },
+    });
+
+    if (!original) {
+      throw new NotFoundException(`Delivery with ID ${deliveryId} not found`);
+    }
+
+    const delivery = await this.deliveriesRepository.save(
+      this.deliveriesRepository.create({
+        subscriptionId: id,
+        event: original.event,
+        payload: original.payload,
+        redeliveryOfId: original.id,
+      }),
+    );
+
+    await this.enqueue([delivery]);
+
+    this.logger.log(`Delivery ${deliveryId} queued for redelivery as ${delivery.id}`);
+    return delivery;
+  }
+
+  /**
+   * Dispatch task events to matching active subscriptions
+   *
+   * Best-effort: failures are logged and never reach the caller, whose
+   * change is already committed.
+   *
+   * @param event - Event type
+   * @param events - Affected tasks with event-specific data
+   */
+  async dispatch(event: WebhookEvent, events: WebhookTaskEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    try {
+      const subscriptions = await this.findMatchingSubscriptions(event, events);
+      if (subscriptions.length === 0) {
+        return;
+      }
+
+      const occurredAt = new Date().toISOString();
+      const deliveries = events.flatMap(({ task, data }) => {
+        const payload = {
+          id: uuidv4(),
+          event,
+          occurredAt,
+          data: { task: this.toTaskPayload(task), ...data },
+        };
+
+        return subscriptions
+          .filter(subscription =>
+            subscription.projectId
+              ? subscription.projectId === task.projectId
+              : subscription.userId === task.userId,
+          )
+          .map(subscription =>
+            this.deliveriesRepository.create({
+              subscriptionId: subscription.id,
+              event,
+              payload,
+            }),
+          );
+      });
+
+      if (deliveries.length === 0) {
+        return;
+      }
+
+      await this.enqueue(await this.deliveriesRepository.save(deliveries));
+    } catch (error) {
+      this.logger.error(`Failed to dispatch ${event} webhooks: ${error}`);
+    }
+  }
+
+  /**
+   * Load a delivery with its subscription and secret (used by the processor)
+   *
+   * @param deliveryId - Delivery ID
+   * @returns Delivery, or null if it (or its subscription) was deleted
+   */
+  async findDeliveryForSending(deliveryId: string): Promise<WebhookDelivery | null> {
+    return this.deliveriesRepository
+      .createQueryBuilder('delivery')
+      .innerJoinAndSelect('delivery.subscription', 'subscription')
+      .addSelect('subscription.secret')
+      .where('delivery.id = :deliveryId', { deliveryId })
+      .getOne();
+  }
+
+  /**
+   * Record the result of a delivery attempt (used by the processor)
+   *
+   * @param deliveryId - Delivery ID
+   * @param result - Attempt result
+   */
+  async recordAttempt(deliveryId: string, result: WebhookAttemptResult): Promise<void> {
+    const now = new Date();
+
+    await this.deliveriesRepository
+      .createQueryBuilder()
+      .update(WebhookDelivery)
+      .set({
+        ...result,
+        attempts: () => 'attempts + 1',
+        lastAttemptAt: now,
+        deliveredAt: result.status === WebhookDeliveryStatus.SUCCEEDED ? now : null,
+      })
+      .where('id = :deliveryId', { deliveryId })
+      .execute();
+  }
+
+  /**
+   * Find active subscriptions for an event covering any of the tasks
+   *
+   * @param event - Event type
+   * @param events - Affected tasks
+   * @returns Subscriptions
+   */
+  private async findMatchingSubscriptions(
+    event: WebhookEvent,
+    events: WebhookTaskEvent[],
+  ): Promise<WebhookSubscription[]> {
+    const projectIds = [
+      ...new Set(events.map(({ task }) => task.projectId).filter(Boolean)),
+    ] as string[];
+    const userIds = [...new Set(events.map(({ task }) => task.userId))];
+
+    return this.subscriptionsRepository
+      .createQueryBuilder('subscription')
+      .where('subscription.active = true')
+      .andWhere(':event = ANY(subscription.events)', { event })
+      .andWhere(
+        new Brackets(scope => {
+          scope.where('(subscription.projectId IS NULL AND subscription.userId IN (:...userIds))', {
+            userIds,
+          });
+
+          if (projectIds.length > 0) {
+            scope.orWhere('subscription.projectId IN (:...projectIds)', { projectIds });
+          }
+        }),
+      )
+      .getMany();
+  }
+
+  /**
+   * Queue delivery jobs
+   *
+   * @param deliveries - Saved deliveries
+   */
+  private async enqueue(deliveries: WebhookDelivery[]): Promise<void> {
+    await this.deliveryQueue.addBulk(
+      deliveries.map(delivery => ({
+        name: 'deliver',
+        data: { deliveryId: delivery.id },
+        opts: {
+          // One job per delivery, even if enqueued twice
+          jobId: delivery.id,
+          attempts: this.configService.get<number>('webhooks.maxAttempts', 6),
+          backoff: {
+            type: 'exponential',
+            delay: this.configService.get<number>('webhooks.retryDelayMs', 10000),
+          },
+        },
+      })),
+    );
+  }
+
+  /**
+   * Public task fields sent in payloads
+   *
+   * @param task - Task
+   * @returns Payload task
+   */
+  private toTaskPayload(task: WebhookTaskEvent['task']): Record<string, unknown> {
+    return {
+      id: task.id,
+      title: task.title,
+      description: task.description ?? null,
+      status: task.status,
+      priority: task.priority,
+      dueDate: task.dueDate ?? null,
+      userId: task.userId,
+      projectId: task.projectId,
+      parentId: task.parentId ?? null,
+      ...(task.assigneeIds ? { assigneeIds: task.assigneeIds } : {}),
+      ...(Array.isArray(task.assignees)
+        ? { assigneeIds: task.assignees.map(assignee => assignee.id) }
+        : {}),
+      ...(Array.isArray(task.labels) ? { labelIds: task.labels.map(label => label.id) } : {}),
+      createdAt: task.createdAt,
+      updatedAt: task.updatedAt,
+    };
+  }
+
+  /**
+   * Where clause for a subscription scope
+   *
+   * @param userId - Current user (personal scope)
+   * @param projectId - Project scope (optional)
+   * @returns Where clause
+   */
+  private scope(userId: string, projectId?: string) {
+    return projectId ? { projectId } : { userId, projectId: IsNull() };
+  }
+}
@@ -3,14 +3,25 @@ import { Cron, CronExpression } from '@nestjs/schedule';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
 import { InjectRepository } from '@nestjs/typeorm';
-import { LessThan, Repository } from 'typeorm';
+import { Repository } from 'typeorm';
 import { Task } from '../../modules/tasks/entities/task.entity';
-import { TaskStatus } from '../../modules/tasks/enums/task-status.enum';
+import { CLOSED_TASK_STATUSES } from '../../modules/tasks/enums/task-status.enum';
 
+/**
+ * Overdue Tasks Service
+ *
+ * Hourly scan for open (not completed or cancelled) tasks past their due date
+ * that haven't been notified yet. Task IDs are enqueued in chunks as
+ * `overdue-tasks-notification` jobs; the processor claims each task by
+ * setting `overdueNotifiedAt`, so a task is notified once per due date.
+ */
 @Injectable()
 export class OverdueTasksService {
   private readonly logger = new Logger(OverdueTasksService.name);
 
+  // Task IDs per queued job
+  private readonly CHUNK_SIZE = 100;
+
   constructor(
     @InjectQueue('task-processing')
     private taskQueue: Queue,
@@ -18,31 +29,66 @@ export class OverdueTasksService {
     private tasksRepository: Repository<Task>,
   ) {}
 
-  // TODO: Implement the overdue tasks checker
-  // This method should run every hour and check for overdue tasks
   @Cron(CronExpression.EVERY_HOUR)
   async checkOverdueTasks() {
     this.logger.debug('Checking for overdue tasks...');
-    
-    // TODO: Implement overdue tasks checking logic
-    // 1. Find all tasks that are overdue (due date is in the past)
-    // 2. Add them to the task processing queue
-    // 3. Log the number of overdue tasks found
-    
-    // Example implementation (incomplete - to be implemented by candidates)
+
     const now = new Date();
-    const overdueTasks = await this.tasksRepository.find({
-      where: {
-        dueDate: LessThan(now),
-        status: TaskStatus.PENDING,
-      },
-    });
-    
-    this.logger.log(`Found ${overdueTasks.length} overdue tasks`);
-    
-    // Add tasks to the queue to be processed
-    // TODO: Implement adding tasks to the queue
-    
-    this.logger.debug('Overdue tasks check completed');
+    const runHour = Math.floor(now.getTime() / (60 * 60 * 1000));
+    let lastId: string | null = null;
+    let found = 0;
+    let chunks = 0;
+
+    // Keyset over IDs, loading only the IDs
+    for (;;) {
+      const queryBuilder = this.tasksRepository
+        .createQueryBuilder('task')
+        .select('task.id')
+        .where('task.dueDate < :now', { now })
+        .andWhere('task.status NOT IN (:...closed)', { closed: CLOSED_TASK_STATUSES })
+        .andWhere('task.overdueNotifiedAt IS NULL')
+        .orderBy('task.id', 'ASC')
+        .take(this.CHUNK_SIZE);
+
+      if (lastId) {
+        queryBuilder.andWhere('task.id > :lastId', { lastId });
+      }
+
+      const tasks = await queryBuilder.getMany();
+      if (tasks.length === 0) {
+        break;
+      }
+
+      const taskIds = tasks.map(task => task.id);
+
+      try {
+        await this.taskQueue.add(
+          'overdue-tasks-notification',
+          { taskIds, detectedAt: now.toISOString() },
+          {
+            // The same chunk found twice in one hour (e.g. two instances) is queued once
+            jobId: `overdue:${runHour}:${taskIds[0]}`,
+            attempts: 3,
+            backoff: {
+              type: 'exponential',
+              delay: 1000,
+            },
+          },
+        );
+        chunks++;
+      } catch (queueError) {
+        // Tasks stay unflagged and are picked up by the next run
+        this.logger.error(`Failed to queue overdue tasks chunk: ${queueError}`);
+      }
+
+      found += tasks.length;
+
+      if (tasks.length < this.CHUNK_SIZE) {
+        break;
+      }
+      lastId = taskIds[taskIds.length - 1];
+    }
+
+    this.logger.log(`Found ${found} overdue tasks, queued ${chunks} notification jobs`);
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,75 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Task } from '../../modules/tasks/entities/task.entity';
+import { TasksService } from '../../modules/tasks/tasks.service';
+
+/**
+ * Recurring Tasks Service
+ *
+ * Hourly backstop for recurring series: the latest instance of a series
+ * whose due date has passed gets its next instance, whether or not it was
+ * completed. Completion generates the next instance immediately; this job
+ * covers instances left open and any generation that failed.
+ */
+@Injectable()
+export class RecurringTasksService {
+  private readonly logger = new Logger(RecurringTasksService.name);
+  private readonly BATCH_SIZE = 100;
+
+  constructor(
+    @InjectRepository(Task)
+    private readonly tasksRepository: Repository<Task>,
+    private readonly tasksService: TasksService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async generateDueOccurrences() {
+    this.logger.debug('Generating next instances of recurring tasks...');
+
+    const now = new Date();
+    let lastId: string | null = null;
+    let generated = 0;
+
+    // Keyset over IDs so series that have ended aren't fetched again
+    for (;;) {
+      const queryBuilder = this.tasksRepository
+        .createQueryBuilder('task')
+        .leftJoin('task.assignees', 'assignee')
+        .addSelect('assignee.id')
+        .where('task.recurrenceRule IS NOT NULL')
+        .andWhere('task.dueDate <= :now', { now })
+        .andWhere(
+          'NOT EXISTS (SELECT 1 FROM tasks successor' +
+            ' WHERE successor.recurrence_series_id = task.recurrence_series_id' +
+            ' AND successor.recurrence_index > task.recurrence_index)',
+        )
+        .orderBy('task.id', 'ASC')
+        .take(this.BATCH_SIZE);
+
+      if (lastId) {
+        queryBuilder.andWhere('task.id > :lastId', { lastId });
+      }
+
+      const tasks = await queryBuilder.getMany();
+
+      for (const task of tasks) {
+        try {
+          if (await this.tasksService.generateNextOccurrence(task)) {
+            generated++;
+          }
+        } catch (error) {
+          this.logger.error(`Failed to generate next instance of task ${task.id}: ${error}`);
+        }
+      }
+
+      if (tasks.length < this.BATCH_SIZE) {
+        break;
+      }
+      lastId = tasks[tasks.length - 1].id;
+    }
+
+    this.logger.log(`Generated ${generated} recurring task instances`);
+  }
+}
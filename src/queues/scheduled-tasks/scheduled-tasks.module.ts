@@ -2,16 +2,21 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { BullModule } from '@nestjs/bullmq';
 import { OverdueTasksService } from './overdue-tasks.service';
+import { RecurringTasksService } from './recurring-tasks.service';
+import { TaskDigestService } from './task-digest.service';
 import { Task } from '../../modules/tasks/entities/task.entity';
+import { TasksModule } from '../../modules/tasks/tasks.module';
+import { NotificationPreference } from '../../modules/notifications/entities/notification-preference.entity';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Task]),
+    TypeOrmModule.forFeature([Task, NotificationPreference]),
     BullModule.registerQueue({
       name: 'task-processing',
     }),
+    TasksModule,
   ],
-  providers: [OverdueTasksService],
-  exports: [OverdueTasksService],
+  providers: [OverdueTasksService, RecurringTasksService, TaskDigestService],
+  exports: [OverdueTasksService, RecurringTasksService, TaskDigestService],
 })
 export class ScheduledTasksModule {} 
\ No newline at end of file
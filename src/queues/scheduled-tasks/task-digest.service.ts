@@ -0,0 +1,106 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { NotificationPreference } from '../../modules/notifications/entities/notification-preference.entity';
+import { DigestFrequency } from '../../modules/notifications/enums/digest-frequency.enum';
+
+/**
+ * Task Digest Service
+ *
+ * Hourly scan for users whose local time has just reached the digest hour:
+ * every day for daily digests, Mondays for weekly ones. Users are scanned
+ * in batches and each batch is enqueued as one `task-digest` job per user;
+ * the processor compiles the digest and sends it.
+ *
+ * Job IDs include the user's local date, so a digest is queued at most once
+ * per day even if two instances run the scan or a DST change repeats the hour.
+ *
+ * Local times are computed from the zone joined from pg_timezone_names, so a
+ * zone Postgres doesn't know skips that user instead of failing the scan.
+ */
+@Injectable()
+export class TaskDigestService {
+  private readonly logger = new Logger(TaskDigestService.name);
+
+  // Users per batch of queued jobs
+  private readonly BATCH_SIZE = 100;
+
+  // Local hour the digest goes out
+  private readonly DIGEST_HOUR = 8;
+
+  constructor(
+    @InjectQueue('task-processing')
+    private taskQueue: Queue,
+    @InjectRepository(NotificationPreference)
+    private preferencesRepository: Repository<NotificationPreference>,
+  ) {}
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async scheduleDigests() {
+    this.logger.debug('Checking for task digests to send...');
+
+    let lastUserId: string | null = null;
+    let queued = 0;
+
+    // Keyset over user IDs
+    for (;;) {
+      const localNow = 'now() AT TIME ZONE zone.name';
+      const queryBuilder = this.preferencesRepository
+        .createQueryBuilder('preference')
+        .innerJoin('pg_timezone_names', 'zone', 'zone.name = preference.timezone')
+        .select('preference.userId', 'userId')
+        .addSelect('preference.timezone', 'timezone')
+        .addSelect('preference.digestFrequency', 'frequency')
+        .addSelect(`to_char(${localNow}, 'YYYY-MM-DD')`, 'date')
+        .where('preference.digestFrequency <> :off', { off: DigestFrequency.OFF })
+        .andWhere('preference.emailEnabled = true')
+        .andWhere(`EXTRACT(HOUR FROM ${localNow}) = :hour`, { hour: this.DIGEST_HOUR })
+        .andWhere(`(preference.digestFrequency = :daily OR EXTRACT(ISODOW FROM ${localNow}) = 1)`, {
+          daily: DigestFrequency.DAILY,
+        })
+        .orderBy('preference.userId', 'ASC')
+        .limit(this.BATCH_SIZE);
+
+      if (lastUserId) {
+        queryBuilder.andWhere('preference.userId > :lastUserId', { lastUserId });
+      }
+
+      const rows: { userId: string; timezone: string; frequency: DigestFrequency; date: string }[] =
+        await queryBuilder.getRawMany();
+      if (rows.length === 0) {
+        break;
+      }
+
+      try {
+        await this.taskQueue.addBulk(
+          rows.map(row => ({
+            name: 'task-digest',
+            data: row,
+            opts: {
+              jobId: `digest:${row.userId}:${row.date}`,
+              attempts: 3,
+              backoff: {
+                type: 'exponential',
+                delay: 1000,
+              },
+            },
+          })),
+        );
+        queued += rows.length;
+      } catch (queueError) {
+        // The batch is skipped for this run; other batches still go out
+        this.logger.error(`Failed to queue task digest batch: ${queueError}`);
+      }
+
+      if (rows.length < this.BATCH_SIZE) {
+        break;
+      }
+      lastUserId = rows[rows.length - 1].userId;
+    }
+
+    this.logger.log(`Queued ${queued} task digest jobs`);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
+import { TaskImportProcessor } from './task-import.processor';
+import { TasksModule } from '../../modules/tasks/tasks.module';
+
+@Module({
+  imports: [
+    BullModule.registerQueue({
+      name: 'task-import',
+    }),
+    TasksModule,
+  ],
+  providers: [TaskImportProcessor],
+})
+export class TaskImportModule {}
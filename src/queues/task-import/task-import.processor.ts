@@ -0,0 +1,53 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import {
+  TaskImportService,
+  TaskImportJobData,
+  TaskImportProgress,
+} from '../../modules/tasks/task-import.service';
+import { RequestContext } from '../../common/context/request-context';
+
+/**
+ * Task Import Processor
+ *
+ * Works through an import job chunk by chunk:
+ * 1. Each row is validated, then the chunk's valid rows are created in one
+ *    transaction (dry runs only validate)
+ * 2. Progress and row errors are saved on the job after every chunk
+ * 3. The final progress is the job's return value
+ *
+ * A job picked up again after a worker crash resumes after its last saved
+ * chunk, so at most one chunk is imported twice.
+ */
+@Injectable()
+@Processor('task-import')
+export class TaskImportProcessor extends WorkerHost {
+  private readonly logger = new Logger(TaskImportProcessor.name);
+
+  constructor(private readonly taskImportService: TaskImportService) {
+    super();
+  }
+
+  async process(job: Job<TaskImportJobData>): Promise<TaskImportProgress> {
+    return RequestContext.run({ correlationId: job.data.correlationId }, async () => {
+      const progress = this.taskImportService.getProgress(job);
+
+      for (
+        let start = progress.processed;
+        start < job.data.rows.length;
+        start += this.taskImportService.CHUNK_SIZE
+      ) {
+        await this.taskImportService.importChunk(job.data, start, progress);
+        await job.updateProgress(progress);
+      }
+
+      this.logger.log(
+        `Import ${job.id} finished: ${progress.valid} valid, ` +
+          `${progress.imported} imported, ${progress.failed} failed`,
+      );
+
+      return progress;
+    });
+  }
+}
@@ -2,6 +2,8 @@ import { Module } from '@nestjs/common';
 import { BullModule } from '@nestjs/bullmq';
 import { TaskProcessorService } from './task-processor.service';
 import { TasksModule } from '../../modules/tasks/tasks.module';
+import { NotificationsModule } from '../../modules/notifications/notifications.module';
+import { WebhooksModule } from '../../modules/webhooks/webhooks.module';
 
 @Module({
   imports: [
@@ -9,6 +11,8 @@ import { TasksModule } from '../../modules/tasks/tasks.module';
       name: 'task-processing',
     }),
     TasksModule,
+    NotificationsModule,
+    WebhooksModule,
   ],
   providers: [TaskProcessorService],
   exports: [TaskProcessorService],
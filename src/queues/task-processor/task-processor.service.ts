@@ -1,14 +1,39 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { Processor, WorkerHost } from '@nestjs/bullmq';
-import { Job } from 'bullmq';
-import { TasksService } from '../../modules/tasks/tasks.service';
+import { HttpException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectQueue, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job, Queue } from 'bullmq';
+import { DataSource } from 'typeorm';
+import { TasksService, OverdueTask } from '../../modules/tasks/tasks.service';
+import { TaskStatus, CLOSED_TASK_STATUSES } from '../../modules/tasks/enums/task-status.enum';
+import { RequestContext } from '../../common/context/request-context';
+import { NotificationsService } from '../../modules/notifications/notifications.service';
+import { NotificationType } from '../../modules/notifications/enums/notification-type.enum';
+import { DigestFrequency } from '../../modules/notifications/enums/digest-frequency.enum';
+import { Task } from '../../modules/tasks/entities/task.entity';
+import { WebhooksService } from '../../modules/webhooks/webhooks.service';
+import { WebhookEvent } from '../../modules/webhooks/enums/webhook-event.enum';
+import {
+  NotificationEmail,
+  NotificationEmailService,
+} from '../../modules/notifications/notification-email.service';
+import {
+  EmailTask,
+  NotificationEmailContext,
+} from '../../modules/notifications/notification-email.templates';
 
 @Injectable()
 @Processor('task-processing')
 export class TaskProcessorService extends WorkerHost {
   private readonly logger = new Logger(TaskProcessorService.name);
 
-  constructor(private readonly tasksService: TasksService) {
+  constructor(
+    private readonly tasksService: TasksService,
+    private readonly notificationsService: NotificationsService,
+    private readonly webhooksService: WebhooksService,
+    private readonly notificationEmailService: NotificationEmailService,
+    @InjectQueue('task-processing')
+    private readonly taskQueue: Queue,
+    private readonly dataSource: DataSource,
+  ) {
     super();
   }
 
@@ -18,6 +43,13 @@ export class TaskProcessorService extends WorkerHost {
   // - No retries for failed jobs
   // - No concurrency control
   async process(job: Job): Promise<any> {
+    // Carry the originating request's correlation ID into the job's activity
+    return RequestContext.run({ correlationId: job.data?.correlationId }, () =>
+      this.processJob(job),
+    );
+  }
+
+  private async processJob(job: Job): Promise<any> {
     this.logger.debug(`Processing job ${job.id} of type ${job.name}`);
     
     try {
@@ -26,6 +58,20 @@ export class TaskProcessorService extends WorkerHost {
           return await this.handleStatusUpdate(job);
         case 'overdue-tasks-notification':
           return await this.handleOverdueTasks(job);
+        case 'comment-mention-notification':
+          return await this.handleCommentMention(job);
+        case 'task-status-changed':
+          return await this.handleStatusChanged(job);
+        case 'task-assigned':
+          return await this.handleTaskAssigned(job);
+        case 'notification-email':
+          return await this.handleNotificationEmail(job);
+        case 'task-digest':
+          return await this.handleTaskDigest(job);
+        case 'task-reminder':
+          return await this.handleTaskReminder(job);
+        case 'account-locked':
+          return await this.handleAccountLocked(job);
         default:
           this.logger.warn(`Unknown job type: ${job.name}`);
           return { success: false, error: 'Unknown job type' };
@@ -38,16 +84,28 @@ export class TaskProcessorService extends WorkerHost {
   }
 
   private async handleStatusUpdate(job: Job) {
-    const { taskId, status } = job.data;
+    const { taskId, status, actorId } = job.data;
     
     if (!taskId || !status) {
       return { success: false, error: 'Missing required data' };
     }
     
-    // Inefficient: No validation of status values
-    // No transaction handling
-    // No retry mechanism
-    const task = await this.tasksService.updateStatus(taskId, status);
+    if (!Object.values(TaskStatus).includes(status)) {
+      return { success: false, error: `Invalid status: ${status}` };
+    }
+
+    let task;
+    try {
+      task = await this.tasksService.updateStatus(taskId, status, actorId);
+    } catch (error) {
+      // A rejected change (invalid transition, open blockers, missing task)
+      // won't succeed on retry, so don't rethrow
+      if (error instanceof HttpException && error.getStatus() < 500) {
+        this.logger.warn(`Status update rejected for task ${taskId}: ${error.message}`);
+        return { success: false, error: error.message };
+      }
+      throw error;
+    }
     
     return { 
       success: true,
@@ -57,11 +115,356 @@ export class TaskProcessorService extends WorkerHost {
   }
 
   private async handleOverdueTasks(job: Job) {
-    // Inefficient implementation with no batching or chunking for large datasets
-    this.logger.debug('Processing overdue tasks notification');
-    
-    // The implementation is deliberately basic and inefficient
-    // It should be improved with proper batching and error handling
-    return { success: true, message: 'Overdue tasks processed' };
+    const { taskIds } = job.data;
+
+    if (!Array.isArray(taskIds) || taskIds.length === 0) {
+      return { success: false, error: 'Missing required data' };
+    }
+
+    // One UPDATE claims the whole chunk; tasks completed, rescheduled or
+    // already notified since the scan are skipped. The claim commits with
+    // the notifications, so a failed insert leaves the tasks for the retry.
+    const claimed = await this.dataSource.transaction(async manager => {
+      const tasks = await this.tasksService.claimOverdueTasks(taskIds, manager);
+
+      // Owner and assignees each get one notification per task, in one INSERT
+      await this.notificationsService.createMany(
+        tasks.flatMap((task: OverdueTask) =>
+          [...new Set([task.userId, ...task.assigneeIds])].map(userId => ({
+            userId,
+            type: NotificationType.TASK_OVERDUE,
+            taskId: task.id,
+            title: `"${task.title}" is overdue`,
+            data: { dueDate: task.dueDate },
+          })),
+        ),
+        manager,
+      );
+
+      return tasks;
+    });
+
+    await this.notificationsService.invalidateUnreadCount(
+      ...claimed.flatMap(task => [task.userId, ...task.assigneeIds]),
+    );
+
+    await this.webhooksService.dispatch(
+      WebhookEvent.TASK_OVERDUE,
+      claimed.map(task => ({ task, data: { dueDate: task.dueDate } })),
+    );
+
+    // One digest email per recipient covering all of their tasks in the chunk
+    const digests = new Map<string, EmailTask[]>();
+    for (const task of claimed) {
+      for (const userId of new Set([task.userId, ...task.assigneeIds])) {
+        digests.set(userId, [
+          ...(digests.get(userId) || []),
+          { id: task.id, title: task.title, dueDate: task.dueDate },
+        ]);
+      }
+    }
+
+    await this.queueEmails(
+      [...digests].map(([userId, tasks]) => ({
+        userId,
+        context: { type: NotificationType.TASK_OVERDUE, tasks },
+      })),
+    );
+
+    return {
+      success: true,
+      notified: claimed.length,
+      skipped: taskIds.length - claimed.length,
+    };
+  }
+
+  private async handleCommentMention(job: Job) {
+    const { taskId, commentId, mentionedUserId } = job.data;
+
+    if (!taskId || !commentId || !mentionedUserId) {
+      return { success: false, error: 'Missing required data' };
+    }
+
+    const task = await this.findTask(taskId);
+    if (!task) {
+      return { success: false, error: 'Task not found' };
+    }
+
+    await this.notificationsService.createMany([
+      {
+        userId: mentionedUserId,
+        type: NotificationType.TASK_MENTIONED,
+        taskId,
+        actorId: job.data.authorId ?? null,
+        title: `You were mentioned on "${task.title}"`,
+        data: { commentId },
+      },
+    ]);
+
+    await this.queueEmails([
+      {
+        userId: mentionedUserId,
+        context: {
+          type: NotificationType.TASK_MENTIONED,
+          task: { id: task.id, title: task.title, dueDate: task.dueDate },
+          excerpt: job.data.excerpt,
+        },
+      },
+    ]);
+
+    return { success: true, commentId, mentionedUserId };
+  }
+
+  private async handleStatusChanged(job: Job) {
+    const { taskId, from, to, actorId } = job.data;
+
+    if (!taskId || !from || !to) {
+      return { success: false, error: 'Missing required data' };
+    }
+
+    const task = await this.findTask(taskId);
+    if (!task) {
+      return { success: false, error: 'Task not found' };
+    }
+
+    // Owner and assignees, except whoever made the change
+    const recipients = [
+      ...new Set([task.userId, ...(task.assignees || []).map(assignee => assignee.id)]),
+    ].filter(userId => userId !== actorId);
+
+    await this.notificationsService.createMany(
+      recipients.map(userId => ({
+        userId,
+        type: NotificationType.TASK_STATUS_CHANGED,
+        taskId,
+        actorId: actorId ?? null,
+        title: `"${task.title}" moved from ${from} to ${to}`,
+        data: { from, to },
+      })),
+    );
+
+    return { success: true, taskId, notified: recipients.length };
+  }
+
+  private async handleTaskAssigned(job: Job) {
+    const { taskId, assigneeIds, actorId } = job.data;
+
+    if (!taskId || !Array.isArray(assigneeIds)) {
+      return { success: false, error: 'Missing required data' };
+    }
+
+    const task = await this.findTask(taskId);
+    if (!task) {
+      return { success: false, error: 'Task not found' };
+    }
+
+    // Self-assignment needs no notification
+    const recipients = (assigneeIds as string[]).filter(userId => userId !== actorId);
+
+    await this.notificationsService.createMany(
+      recipients.map(userId => ({
+        userId,
+        type: NotificationType.TASK_ASSIGNED,
+        taskId,
+        actorId: actorId ?? null,
+        title: `You were assigned to "${task.title}"`,
+      })),
+    );
+
+    await this.queueEmails(
+      recipients.map(userId => ({
+        userId,
+        context: {
+          type: NotificationType.TASK_ASSIGNED,
+          task: { id: task.id, title: task.title, dueDate: task.dueDate },
+        },
+      })),
+    );
+
+    return { success: true, taskId, notified: recipients.length };
+  }
+
+  private async handleNotificationEmail(job: Job) {
+    const email = job.data as NotificationEmail;
+
+    if (!email.to || !email.context?.type) {
+      return { success: false, error: 'Missing required data' };
+    }
+
+    // Transport errors propagate, so BullMQ retries the email alone
+    await this.notificationEmailService.send(email);
+
+    return { success: true, type: email.context.type };
+  }
+
+  private async handleTaskReminder(job: Job) {
+    const { taskId, dueDate, offset } = job.data;
+
+    if (!taskId || !dueDate || !offset) {
+      return { success: false, error: 'Missing required data' };
+    }
+
+    const task = await this.findTask(taskId);
+
+    // Deleted, closed or rescheduled since the reminder was scheduled
+    if (
+      !task ||
+      CLOSED_TASK_STATUSES.includes(task.status) ||
+      !task.dueDate ||
+      new Date(task.dueDate).getTime() !== new Date(dueDate).getTime()
+    ) {
+      return { success: true, taskId, reminded: 0 };
+    }
+
+    const recipients = [
+      ...new Set([task.userId, ...(task.assignees || []).map(assignee => assignee.id)]),
+    ];
+
+    await this.notificationsService.createMany(
+      recipients.map(userId => ({
+        userId,
+        type: NotificationType.TASK_DUE_SOON,
+        taskId,
+        title: `"${task.title}" is due in ${offset}`,
+        data: { dueDate: task.dueDate },
+      })),
+    );
+
+    await this.queueEmails(
+      recipients.map(userId => ({
+        userId,
+        context: {
+          type: NotificationType.TASK_DUE_SOON,
+          task: { id: task.id, title: task.title, dueDate: task.dueDate },
+          dueIn: offset,
+        },
+      })),
+    );
+
+    return { success: true, taskId, reminded: recipients.length };
+  }
+
+  private async handleAccountLocked(job: Job) {
+    const { userId, lockedUntil } = job.data;
+
+    if (!userId || !lockedUntil) {
+      return { success: false, error: 'Missing required data' };
+    }
+
+    await this.notificationsService.createMany([
+      {
+        userId,
+        type: NotificationType.ACCOUNT_LOCKED,
+        title: 'Your account was locked after too many failed logins',
+        data: { lockedUntil },
+      },
+    ]);
+
+    await this.queueEmails([
+      { userId, context: { type: NotificationType.ACCOUNT_LOCKED, lockedUntil } },
+    ]);
+
+    return { success: true, userId };
+  }
+
+  private async handleTaskDigest(job: Job) {
+    const { userId, timezone, frequency, date } = job.data;
+
+    if (!userId || !timezone || !date) {
+      return { success: false, error: 'Missing required data' };
+    }
+
+    if (frequency !== DigestFrequency.DAILY && frequency !== DigestFrequency.WEEKLY) {
+      return { success: false, error: `Invalid digest frequency: ${frequency}` };
+    }
+
+    // Email turned off since the job was queued
+    const [recipient] = await this.notificationsService.findEmailRecipients(
+      [userId],
+      NotificationType.TASK_DIGEST,
+    );
+    if (!recipient) {
+      return { success: true, userId, sent: false };
+    }
+
+    const { stats, dueToday, overdue, completed } = await this.tasksService.getDigest(
+      userId,
+      timezone,
+      frequency === DigestFrequency.WEEKLY ? 7 : 1,
+    );
+
+    // Nothing to report
+    if (dueToday.count + overdue.count + completed.count === 0) {
+      return { success: true, userId, sent: false };
+    }
+
+    const closed = CLOSED_TASK_STATUSES.reduce((sum, status) => sum + stats.byStatus[status], 0);
+
+    // Compiling has no side effects, so transport errors propagate and the job retries
+    await this.notificationEmailService.send({
+      to: recipient.email,
+      name: recipient.name,
+      context: {
+        type: NotificationType.TASK_DIGEST,
+        digest: {
+          frequency,
+          date,
+          open: stats.total - closed,
+          blocked: stats.blocked,
+          dueToday,
+          overdue,
+          completed,
+        },
+      },
+    });
+
+    return { success: true, userId, sent: true };
+  }
+
+  /**
+   * Queue notification emails for recipients who have not opted out
+   *
+   * Best-effort: the in-app notifications are already saved, so a failure
+   * here must not retry (and duplicate) them.
+   */
+  private async queueEmails(
+    items: { userId: string; context: NotificationEmailContext }[],
+  ): Promise<void> {
+    try {
+      const emails = await this.notificationEmailService.prepare(items);
+      if (emails.length === 0) {
+        return;
+      }
+
+      await this.taskQueue.addBulk(
+        emails.map(email => ({
+          name: 'notification-email',
+          data: { ...email, correlationId: RequestContext.getCorrelationId() },
+          opts: {
+            attempts: 3,
+            backoff: {
+              type: 'exponential',
+              delay: 1000,
+            },
+          },
+        })),
+      );
+    } catch (error) {
+      this.logger.error(`Failed to queue notification emails: ${error}`);
+    }
+  }
+
+  /**
+   * Load a task for a notification, or null if it was deleted since queueing
+   */
+  private async findTask(taskId: string): Promise<Task | null> {
+    try {
+      return await this.tasksService.findOne(taskId);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        return null;
+      }
+      throw error;
+    }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
+import { WebhookDeliveryProcessor } from './webhook-delivery.processor';
+import { WebhooksModule } from '../../modules/webhooks/webhooks.module';
+
+@Module({
+  imports: [
+    BullModule.registerQueue({
+      name: 'webhook-delivery',
+    }),
+    WebhooksModule,
+  ],
+  providers: [WebhookDeliveryProcessor],
+})
+export class WebhookDeliveryModule {}
@@ -0,0 +1,333 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Job, Queue } from 'bullmq';
+import { Repository } from 'typeorm';
+import { WebhookDeliveryProcessor } from './webhook-delivery.processor';
+import { WebhookAttemptResult, WebhooksService } from '../../modules/webhooks/webhooks.service';
+import { WebhookDelivery } from '../../modules/webhooks/entities/webhook-delivery.entity';
+import { WebhookSubscription } from '../../modules/webhooks/entities/webhook-subscription.entity';
+import { WebhookDeliveryStatus } from '../../modules/webhooks/enums/webhook-delivery-status.enum';
+import { WebhookEvent } from '../../modules/webhooks/enums/webhook-event.enum';
+import { WebhookSignatureUtil } from '../../common/utils/webhook-signature.util';
+
+/**
+ * Request received by the local stand-in endpoint
+ */
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Queued job, as added with addBulk
+ */
+interface QueuedJob {
+  name: string;
+  data: { deliveryId: string };
+  opts: { jobId: string; attempts: number; backoff: { type: string; delay: number } };
+}
+
+/**
+ * WebhooksService with the delivery log kept in memory
+ *
+ * Only the two queries the processor runs are replaced; redelivery and
+ * enqueueing run unchanged against the in-memory repositories.
+ */
+class InMemoryWebhooksService extends WebhooksService {
+  constructor(
+    private readonly subscriptions: Map<string, WebhookSubscription>,
+    private readonly deliveries: Map<string, WebhookDelivery>,
+    queue: Queue,
+    configService: ConfigService,
+  ) {
+    super(
+      {
+        findOne: async ({ where }: { where: { id: string } }) =>
+          subscriptions.get(where.id) ?? null,
+      } as unknown as Repository<WebhookSubscription>,
+      {
+        create: (data: Partial<WebhookDelivery>) => ({ ...data }) as WebhookDelivery,
+        findOne: async ({ where }: { where: { id: string } }) => deliveries.get(where.id) ?? null,
+        save: async (delivery: Partial<WebhookDelivery>) => {
+          const saved = {
+            status: WebhookDeliveryStatus.PENDING,
+            attempts: 0,
+            redeliveryOfId: null,
+            createdAt: new Date(),
+            ...delivery,
+            id: delivery.id ?? randomUUID(),
+          } as WebhookDelivery;
+          deliveries.set(saved.id, saved);
+          return saved;
+        },
+      } as unknown as Repository<WebhookDelivery>,
+      queue,
+      configService,
+    );
+  }
+
+  async findDeliveryForSending(deliveryId: string): Promise<WebhookDelivery | null> {
+    const delivery = this.deliveries.get(deliveryId);
+    const subscription = delivery && this.subscriptions.get(delivery.subscriptionId);
+    return delivery && subscription ? { ...delivery, subscription } : null;
+  }
+
+  async recordAttempt(deliveryId: string, result: WebhookAttemptResult): Promise<void> {
+    const delivery = this.deliveries.get(deliveryId) as WebhookDelivery;
+    const now = new Date();
+
+    Object.assign(delivery, result, {
+      attempts: delivery.attempts + 1,
+      lastAttemptAt: now,
+      deliveredAt: result.status === WebhookDeliveryStatus.SUCCEEDED ? now : null,
+    });
+  }
+}
+
+describe('WebhookDeliveryProcessor', () => {
+  const userId = randomUUID();
+
+  let server: http.Server;
+  let port: number;
+  let received: ReceivedRequest[];
+  let responses: number[];
+
+  let subscriptions: Map<string, WebhookSubscription>;
+  let deliveries: Map<string, WebhookDelivery>;
+  let queued: QueuedJob[];
+  let service: InMemoryWebhooksService;
+
+  beforeAll(async () => {
+    Logger.overrideLogger(false);
+
+    // Local stand-in endpoint answering with the scripted status codes (200 once exhausted)
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => (body += chunk));
+      request.on('end', () => {
+        received.push({ headers: request.headers, body });
+        response.statusCode = responses.shift() ?? 200;
+        response.end(response.statusCode < 300 ? 'ok' : 'upstream error');
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    responses = [];
+    subscriptions = new Map();
+    deliveries = new Map();
+    queued = [];
+  });
+
+  /**
+   * Build the processor with webhook settings
+   */
+  const createProcessor = (allowedHosts = ['127.0.0.1']): WebhookDeliveryProcessor => {
+    const configService = new ConfigService({
+      webhooks: { timeoutMs: 2000, maxAttempts: 3, retryDelayMs: 1000, allowedHosts },
+    });
+    const queue = {
+      addBulk: async (jobs: QueuedJob[]) => queued.push(...jobs),
+    } as unknown as Queue;
+
+    service = new InMemoryWebhooksService(subscriptions, deliveries, queue, configService);
+    return new WebhookDeliveryProcessor(service, configService);
+  };
+
+  /**
+   * Store a subscription pointing at the stand-in endpoint and queue a delivery to it
+   */
+  const queueDelivery = async (
+    subscription: Partial<WebhookSubscription> = {},
+  ): Promise<WebhookDelivery> => {
+    const saved = {
+      id: randomUUID(),
+      userId,
+      projectId: null,
+      url: `http://127.0.0.1:${port}/hooks`,
+      secret: WebhookSignatureUtil.generateSecret(),
+      events: [WebhookEvent.TASK_CREATED],
+      active: true,
+      ...subscription,
+    } as WebhookSubscription;
+    subscriptions.set(saved.id, saved);
+
+    const delivery = await service['deliveriesRepository'].save({
+      subscriptionId: saved.id,
+      event: WebhookEvent.TASK_CREATED,
+      payload: { id: randomUUID(), event: WebhookEvent.TASK_CREATED, data: { task: { id: 't1' } } },
+    });
+    await service['enqueue']([delivery]);
+
+    return delivery;
+  };
+
+  /**
+   * Run a queued job like BullMQ: retry while it throws, up to its attempts
+   *
+   * @returns Backoff delays between attempts and the final outcome
+   */
+  const runJob = async (processor: WebhookDeliveryProcessor, queuedJob: QueuedJob) => {
+    const delays: number[] = [];
+
+    for (let attemptsMade = 0; attemptsMade < queuedJob.opts.attempts; attemptsMade++) {
+      try {
+        const result = await processor.process({
+          data: queuedJob.data,
+          attemptsMade,
+          opts: queuedJob.opts,
+        } as unknown as Job<{ deliveryId: string }>);
+        return { result, delays, failed: false };
+      } catch {
+        if (attemptsMade + 1 < queuedJob.opts.attempts) {
+          // BullMQ's exponential backoff: delay * 2^(attempts made - 1)
+          delays.push(queuedJob.opts.backoff.delay * 2 ** attemptsMade);
+        }
+      }
+    }
+
+    return { result: null, delays, failed: true };
+  };
+
+  it('signs deliveries so receivers can verify them', async () => {
+    const processor = createProcessor();
+    const delivery = await queueDelivery();
+    const { secret } = subscriptions.get(delivery.subscriptionId) as WebhookSubscription;
+
+    const { result } = await runJob(processor, queued[0]);
+
+    expect(result).toMatchObject({ success: true, responseStatus: 200 });
+    expect(received).toHaveLength(1);
+
+    const [request] = received;
+    const timestamp = request.headers['x-webhook-timestamp'] as string;
+    const signature = request.headers['x-webhook-signature'] as string;
+
+    expect(JSON.parse(request.body)).toEqual(delivery.payload);
+    expect(request.headers['x-webhook-event']).toBe(WebhookEvent.TASK_CREATED);
+    expect(request.headers['x-webhook-id']).toBe(delivery.payload.id);
+    expect(WebhookSignatureUtil.verify(secret, timestamp, request.body, signature)).toBe(true);
+    expect(WebhookSignatureUtil.verify('whsec_other', timestamp, request.body, signature)).toBe(
+      false,
+    );
+    expect(WebhookSignatureUtil.verify(secret, timestamp, `${request.body} `, signature)).toBe(
+      false,
+    );
+
+    expect(deliveries.get(delivery.id)).toMatchObject({
+      status: WebhookDeliveryStatus.SUCCEEDED,
+      attempts: 1,
+      responseStatus: 200,
+      responseBody: 'ok',
+    });
+  });
+
+  it('retries non-2xx responses with exponential backoff', async () => {
+    const processor = createProcessor();
+    const delivery = await queueDelivery();
+    responses = [500, 503];
+
+    expect(queued[0].opts).toMatchObject({
+      jobId: delivery.id,
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 1000 },
+    });
+
+    const { result, delays } = await runJob(processor, queued[0]);
+
+    expect(received).toHaveLength(3);
+    expect(delays).toEqual([1000, 2000]);
+    expect(result).toMatchObject({ success: true });
+    expect(deliveries.get(delivery.id)).toMatchObject({
+      status: WebhookDeliveryStatus.SUCCEEDED,
+      attempts: 3,
+      error: null,
+    });
+  });
+
+  it('marks the delivery FAILED after the last attempt', async () => {
+    const processor = createProcessor();
+    const delivery = await queueDelivery();
+    responses = [500, 500, 500];
+
+    const { failed } = await runJob(processor, queued[0]);
+
+    expect(failed).toBe(true);
+    expect(received).toHaveLength(3);
+    expect(deliveries.get(delivery.id)).toMatchObject({
+      status: WebhookDeliveryStatus.FAILED,
+      attempts: 3,
+      responseStatus: 500,
+      responseBody: 'upstream error',
+      error: 'Endpoint responded with 500',
+      deliveredAt: null,
+    });
+  });
+
+  it('redelivers the original payload as a new delivery', async () => {
+    const processor = createProcessor();
+    const original = await queueDelivery();
+    responses = [500, 500, 500];
+    await runJob(processor, queued[0]);
+
+    const redelivery = await service.redeliver(original.subscriptionId, original.id, userId);
+    const { result } = await runJob(processor, queued[1]);
+
+    expect(redelivery.id).not.toBe(original.id);
+    expect(redelivery.redeliveryOfId).toBe(original.id);
+    expect(queued[1].opts.jobId).toBe(redelivery.id);
+    expect(result).toMatchObject({ success: true, deliveryId: redelivery.id });
+
+    // Same event ID, so receivers can deduplicate
+    const last = received[received.length - 1];
+    expect(last.headers['x-webhook-id']).toBe(original.payload.id);
+    expect(last.body).toBe(JSON.stringify(original.payload));
+
+    expect(deliveries.get(original.id)?.status).toBe(WebhookDeliveryStatus.FAILED);
+    expect(deliveries.get(redelivery.id)?.status).toBe(WebhookDeliveryStatus.SUCCEEDED);
+  });
+
+  it('fails deliveries of inactive subscriptions without sending them', async () => {
+    const processor = createProcessor();
+    const delivery = await queueDelivery({ active: false });
+
+    const { result, delays } = await runJob(processor, queued[0]);
+
+    expect(result).toEqual({ success: false, error: 'Subscription is inactive' });
+    expect(delays).toEqual([]);
+    expect(received).toHaveLength(0);
+    expect(deliveries.get(delivery.id)).toMatchObject({
+      status: WebhookDeliveryStatus.FAILED,
+      attempts: 1,
+      error: 'Subscription is inactive',
+    });
+  });
+
+  it('rejects targets resolving to private addresses unless allowed', async () => {
+    const processor = createProcessor([]);
+    const delivery = await queueDelivery({ url: `http://localhost:${port}/hooks` });
+
+    const { result, delays } = await runJob(processor, queued[0]);
+
+    expect(result).toMatchObject({ success: false });
+    expect(delays).toEqual([]);
+    expect(received).toHaveLength(0);
+    expect(deliveries.get(delivery.id)).toMatchObject({
+      status: WebhookDeliveryStatus.FAILED,
+      responseStatus: null,
+      responseBody: null,
+      error: 'Webhook host localhost resolves to a blocked address',
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import * as http from 'http';
+import * as https from 'https';
+import { LookupAddress } from 'dns';
+import { WebhooksService, WebhookAttemptResult } from '../../modules/webhooks/webhooks.service';
+import { WebhookDelivery } from '../../modules/webhooks/entities/webhook-delivery.entity';
+import { WebhookDeliveryStatus } from '../../modules/webhooks/enums/webhook-delivery-status.enum';
+import { WebhookSignatureUtil } from '../../common/utils/webhook-signature.util';
+import { WebhookTargetError, WebhookTargetUtil } from '../../common/utils/webhook-target.util';
+
+/**
+ * Webhook Delivery Processor
+ *
+ * Sends one logged delivery per job:
+ * 1. Resolves the URL host; only public addresses are allowed (SSRF)
+ * 2. Signs `${timestamp}.${body}` with the subscription secret (HMAC-SHA256)
+ * 3. POSTs with a timeout to the checked addresses; any 2xx response
+ *    counts as delivered
+ * 4. Records every attempt on the delivery log
+ * 5. Throws on failure so BullMQ retries with exponential backoff
+ *
+ * The delivery is marked FAILED once the last attempt fails, or right away
+ * if the subscription was disabled in the meantime or its host resolves to
+ * a blocked address.
+ */
+@Injectable()
+@Processor('webhook-delivery')
+export class WebhookDeliveryProcessor extends WorkerHost {
+  private readonly logger = new Logger(WebhookDeliveryProcessor.name);
+
+  // Response bodies are only kept for debugging
+  private readonly MAX_RESPONSE_BODY = 2048;
+
+  constructor(
+    private readonly webhooksService: WebhooksService,
+    private readonly configService: ConfigService,
+  ) {
+    super();
+  }
+
+  async process(job: Job<{ deliveryId: string }>): Promise<Record<string, unknown>> {
+    const delivery = await this.webhooksService.findDeliveryForSending(job.data.deliveryId);
+
+    // Subscription deleted since the job was queued
+    if (!delivery) {
+      return { success: false, error: 'Delivery not found' };
+    }
+
+    if (!delivery.subscription.active) {
+      await this.webhooksService.recordAttempt(delivery.id, {
+        status: WebhookDeliveryStatus.FAILED,
+        responseStatus: null,
+        responseBody: null,
+        error: 'Subscription is inactive',
+        durationMs: 0,
+      });
+      return { success: false, error: 'Subscription is inactive' };
+    }
+
+    const result = await this.send(delivery);
+
+    // Blocked targets are not retried
+    if (result.status === WebhookDeliveryStatus.FAILED) {
+      await this.webhooksService.recordAttempt(delivery.id, result);
+      this.logger.warn(`Delivery ${delivery.id} rejected: ${result.error}`);
+      return { success: false, error: result.error };
+    }
+
+    const isLastAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 1);
+
+    if (result.status !== WebhookDeliveryStatus.SUCCEEDED && isLastAttempt) {
+      result.status = WebhookDeliveryStatus.FAILED;
+    }
+
+    await this.webhooksService.recordAttempt(delivery.id, result);
+
+    if (result.status !== WebhookDeliveryStatus.SUCCEEDED) {
+      this.logger.warn(
+        `Delivery ${delivery.id} to ${delivery.subscription.url} failed ` +
+          `(attempt ${job.attemptsMade + 1}): ${result.error}`,
+      );
+      throw new Error(result.error || 'Webhook delivery failed');
+    }
+
+    return { success: true, deliveryId: delivery.id, responseStatus: result.responseStatus };
+  }
+
+  /**
+   * POST a delivery to its subscription URL
+   *
+   * @param delivery - Delivery with subscription and secret
+   * @returns Attempt result (PENDING on failure, FAILED if the target is blocked)
+   */
+  private async send(delivery: WebhookDelivery): Promise<WebhookAttemptResult> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const startedAt = Date.now();
+
+    try {
+      const url = new URL(delivery.subscription.url);
+
+      // Checked before every attempt: DNS may have changed since the last one
+      const addresses = await WebhookTargetUtil.resolve(
+        url.hostname,
+        this.configService.get<string[]>('webhooks.allowedHosts', []),
+      );
+
+      const response = await this.post(url, addresses, body, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'TaskFlow-Webhooks/1.0',
+        'X-Webhook-Id': String(delivery.payload.id),
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': WebhookSignatureUtil.sign(
+          delivery.subscription.secret,
+          timestamp,
+          body,
+        ),
+      });
+      const ok = response.status >= 200 && response.status < 300;
+
+      return {
+        status: ok ? WebhookDeliveryStatus.SUCCEEDED : WebhookDeliveryStatus.PENDING,
+        responseStatus: response.status,
+        responseBody: response.body,
+        error: ok ? null : `Endpoint responded with ${response.status}`,
+        durationMs: Date.now() - startedAt,
+      };
+    } catch (error) {
+      return {
+        status:
+          error instanceof WebhookTargetError
+            ? WebhookDeliveryStatus.FAILED
+            : WebhookDeliveryStatus.PENDING,
+        responseStatus: null,
+        responseBody: null,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        durationMs: Date.now() - startedAt,
+      };
+    }
+  }
+
+  /**
+   * POST a body, connecting only to the given (already checked) addresses
+   *
+   * Redirects are not followed, so the signed payload only goes to the
+   * configured URL. At most MAX_RESPONSE_BODY bytes of the response are kept.
+   *
+   * @param url - Target URL
+   * @param addresses - Addresses the host resolved to
+   * @param body - Request body
+   * @param headers - Request headers
+   * @returns Response status and (truncated) body
+   */
+  private post(
+    url: URL,
+    addresses: LookupAddress[],
+    body: string,
+    headers: Record<string, string>,
+  ): Promise<{ status: number; body: string }> {
+    const client = url.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const request = client.request(
+        url,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+          lookup: (_hostname, options, callback) =>
+            options.all
+              ? callback(null, addresses)
+              : callback(null, addresses[0].address, addresses[0].family),
+          signal: AbortSignal.timeout(this.configService.get<number>('webhooks.timeoutMs', 10000)),
+        },
+        response => {
+          const chunks: Buffer[] = [];
+          let size = 0;
+
+          response.on('data', (chunk: Buffer) => {
+            if (size < this.MAX_RESPONSE_BODY) {
+              chunks.push(chunk);
+              size += chunk.length;
+            }
+          });
+          response.on('end', () =>
+            resolve({
+              status: response.statusCode ?? 0,
+              body: Buffer.concat(chunks).toString('utf8').slice(0, this.MAX_RESPONSE_BODY),
+            }),
+          );
+          response.on('error', reject);
+        },
+      );
+
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+}